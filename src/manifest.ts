@@ -18,7 +18,8 @@ const nameSuffix = isBeta ? ' (beta)' : mode === 'development' ? ' (dev)' : '';
 
 const HOST_PERMISSIONS: string[] = [
     '*://*.utdirect.utexas.edu/apps/registrar/course_schedule/*',
-    '*://*.utdirect.utexas.edu/registration/classlist/*',
+    '*://*.utdirect.utexas.edu/registration/classlist*',
+    '*://*.utdirect.utexas.edu/registrar/waitlist/*',
     '*://*.utexas.collegescheduler.com/*',
     '*://*.catalog.utexas.edu/ribbit/',
     '*://*.registrar.utexas.edu/schedules/*',
@@ -34,7 +35,7 @@ const manifest = defineManifest(async () => ({
     description: packageJson.description,
     options_page: 'src/pages/options/index.html',
     background: { service_worker: 'src/pages/background/background.ts' },
-    permissions: ['storage', 'unlimitedStorage', 'background', 'scripting'],
+    permissions: ['storage', 'unlimitedStorage', 'background', 'scripting', 'alarms', 'offscreen', 'notifications'],
     host_permissions: process.env.MODE === 'development' ? [...HOST_PERMISSIONS, '<all_urls>'] : HOST_PERMISSIONS,
     action: {
         default_popup: 'src/pages/popup/index.html',
@@ -1,4 +1,5 @@
 import type { BACKGROUND_MESSAGES } from '@shared/messages';
+import { OptionsStore } from '@shared/storage/OptionsStore';
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import updateBadgeText from '@shared/util/updateBadgeText';
 import { MessageListener } from 'chrome-extension-toolkit';
@@ -9,10 +10,16 @@ import onUpdate from './events/onUpdate';
 import browserActionHandler from './handler/browserActionHandler';
 import calendarBackgroundHandler from './handler/calendarBackgroundHandler';
 import CESHandler from './handler/CESHandler';
+import gradeDistributionHandler from './handler/gradeDistributionHandler';
 import tabManagementHandler from './handler/tabManagementHandler';
 import userScheduleHandler from './handler/userScheduleHandler';
+import { COURSE_NOTIFICATION_PREFIX } from './lib/notifyCourseChanges';
+import refreshCourses from './lib/refreshCourses';
+import scheduleCourseRefresh, { COURSE_REFRESH_ALARM } from './util/courseRefreshAlarm';
+import switchToCalendarTab from './util/switchToCalendarTab';
 
 onServiceWorkerAlive();
+scheduleCourseRefresh();
 
 /**
  * will be triggered on either install or update
@@ -52,6 +59,7 @@ const messageListener = new MessageListener<BACKGROUND_MESSAGES>({
     ...userScheduleHandler,
     ...CESHandler,
     ...calendarBackgroundHandler,
+    ...gradeDistributionHandler,
 });
 
 messageListener.listen();
@@ -67,3 +75,23 @@ UserScheduleStore.listen('activeIndex', async ({ newValue }) => {
     const numCourses = schedules[newValue]?.courses?.length;
     updateBadgeText(numCourses || 0);
 });
+
+// keep saved courses up to date with UT's site
+chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === COURSE_REFRESH_ALARM) {
+        refreshCourses();
+    }
+});
+
+OptionsStore.listen('enableDataRefreshing', () => {
+    scheduleCourseRefresh();
+});
+
+// open the course on the calendar page when its notification is clicked
+chrome.notifications.onClicked.addListener(async notificationId => {
+    if (!notificationId.startsWith(COURSE_NOTIFICATION_PREFIX)) return;
+
+    const uniqueId = Number(notificationId.slice(COURSE_NOTIFICATION_PREFIX.length));
+    await switchToCalendarTab(uniqueId);
+    chrome.notifications.clear(notificationId);
+});
@@ -0,0 +1,18 @@
+import ensureOffscreenDocument from '@pages/background/util/ensureOffscreenDocument';
+import { offscreen } from '@shared/messages';
+import type { GradeDistributionMessages } from '@shared/messages/GradeDistributionMessages';
+import type { MessageHandler } from 'chrome-extension-toolkit';
+
+const gradeDistributionHandler: MessageHandler<GradeDistributionMessages> = {
+    queryCourseGrades({ data, sendResponse }) {
+        ensureOffscreenDocument()
+            .then(() => offscreen.queryGradeDatabase(data))
+            .then(sendResponse)
+            .catch(error => {
+                console.error(`Error looking up grades for ${data.department} ${data.number}:`, error);
+                sendResponse(undefined);
+            });
+    },
+};
+
+export default gradeDistributionHandler;
@@ -1,19 +1,35 @@
 import addCourse from '@pages/background/lib/addCourse';
 import clearCourses from '@pages/background/lib/clearCourses';
 import createSchedule from '@pages/background/lib/createSchedule';
-import deleteSchedule from '@pages/background/lib/deleteSchedule';
+import deleteSchedule, { deleteAllSchedules } from '@pages/background/lib/deleteSchedule';
+import duplicateSchedule from '@pages/background/lib/duplicateSchedule';
 import exportSchedule from '@pages/background/lib/exportSchedule';
+import importRegisteredCourses from '@pages/background/lib/importRegisteredCourses';
+import importSchedule from '@pages/background/lib/importSchedule';
+import refreshCourses from '@pages/background/lib/refreshCourses';
 import removeCourse from '@pages/background/lib/removeCourse';
+import removeCustomBlock from '@pages/background/lib/removeCustomBlock';
 import renameSchedule from '@pages/background/lib/renameSchedule';
+import reorderSchedules from '@pages/background/lib/reorderSchedules';
+import replaceSchedule from '@pages/background/lib/replaceSchedule';
+import saveCustomBlock from '@pages/background/lib/saveCustomBlock';
+import { redoScheduleChange, undoScheduleChange } from '@pages/background/lib/scheduleHistory';
 import switchSchedule from '@pages/background/lib/switchSchedule';
+import updateWaitlist from '@pages/background/lib/updateWaitlist';
 import type { UserScheduleMessages } from '@shared/messages/UserScheduleMessages';
 import { Course } from '@shared/types/Course';
+import { CustomBlock } from '@shared/types/CustomBlock';
 import { validateLoginStatus } from '@shared/util/checkLoginStatus';
 import type { MessageHandler } from 'chrome-extension-toolkit';
 
 const userScheduleHandler: MessageHandler<UserScheduleMessages> = {
     addCourse({ data, sendResponse }) {
-        addCourse(data.scheduleId, new Course(data.course), data.hasColor ?? false).then(sendResponse);
+        addCourse(
+            data.scheduleId,
+            new Course(data.course),
+            data.hasColor ?? false,
+            data.allowOtherSemester ?? false
+        ).then(sendResponse);
     },
     removeCourse({ data, sendResponse }) {
         removeCourse(data.scheduleId, new Course(data.course)).then(sendResponse);
@@ -21,6 +37,12 @@ const userScheduleHandler: MessageHandler<UserScheduleMessages> = {
     clearCourses({ data, sendResponse }) {
         clearCourses(data.scheduleId).then(sendResponse);
     },
+    saveCustomBlock({ data, sendResponse }) {
+        saveCustomBlock(data.scheduleId, new CustomBlock(data.block)).then(sendResponse);
+    },
+    removeCustomBlock({ data, sendResponse }) {
+        removeCustomBlock(data.scheduleId, data.blockId).then(sendResponse);
+    },
     switchSchedule({ data, sendResponse }) {
         switchSchedule(data.scheduleId).then(sendResponse);
     },
@@ -33,6 +55,26 @@ const userScheduleHandler: MessageHandler<UserScheduleMessages> = {
     renameSchedule({ data, sendResponse }) {
         renameSchedule(data.scheduleId, data.newName).then(sendResponse);
     },
+    duplicateSchedule({ data, sendResponse }) {
+        duplicateSchedule(data.scheduleId).then(sendResponse);
+    },
+    deleteAllSchedules({ sendResponse }) {
+        deleteAllSchedules().then(sendResponse);
+    },
+    reorderSchedules({ data, sendResponse }) {
+        reorderSchedules(data.scheduleIds).then(sendResponse);
+    },
+    replaceSchedule({ data, sendResponse }) {
+        replaceSchedule(data.scheduleId, data.schedule, data.expectedUpdatedAt).then(sendResponse);
+    },
+    importSchedule({ data, sendResponse }) {
+        importSchedule(data.backupData)
+            .then(() => sendResponse(undefined))
+            .catch(error => {
+                console.error('Error importing schedules:', error);
+                sendResponse(error instanceof Error ? error.message : 'Something went wrong');
+            });
+    },
     // proxy so we can add courses
     addCourseByURL({ data: { url, method, body, response }, sendResponse }) {
         fetch(url, {
@@ -48,6 +90,24 @@ const userScheduleHandler: MessageHandler<UserScheduleMessages> = {
     exportSchedule({ data, sendResponse }) {
         exportSchedule(data.scheduleId).then(sendResponse);
     },
+    refreshCourses({ sendResponse }) {
+        refreshCourses().then(sendResponse);
+    },
+    updateWaitlist({ data, sendResponse }) {
+        updateWaitlist(data.entries).then(sendResponse);
+    },
+    importRegisteredCourses({ data, sendResponse }) {
+        importRegisteredCourses(
+            data.courses.map(course => new Course(course)),
+            data.uniqueIds
+        ).then(sendResponse);
+    },
+    undoScheduleChange({ sendResponse }) {
+        undoScheduleChange().then(sendResponse);
+    },
+    redoScheduleChange({ sendResponse }) {
+        redoScheduleChange().then(sendResponse);
+    },
 };
 
 export default userScheduleHandler;
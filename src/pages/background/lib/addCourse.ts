@@ -1,29 +1,60 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import type { Course } from '@shared/types/Course';
 import { getUnusedColor } from '@shared/util/colors';
+import { describeCourse } from '@shared/util/scheduleHistory';
+import { getSemesterMismatch } from '@shared/util/scheduleSemester';
+
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
 
 /**
- * Adds a course to a user's schedule.
+ * Adds a course to a user's schedule, unless it's already in it.
+ * Sections from a different semester than the schedule's other courses aren't added unless `allowOtherSemester` is set.
  *
  * @param scheduleId - The id of the schedule to add the course to.
  * @param course - The course to add.
  * @param hasColor - If the course block already has colors manually set
- * @returns A promise that resolves to void.
+ * @param allowOtherSemester - If the user was warned, and wants to add the section anyway
+ * @returns Undefined if the course was added (or already in the schedule), otherwise why it wasn't added.
  * @throws An error if the schedule is not found.
  */
-export default async function addCourse(scheduleId: string, course: Course, hasColor = false): Promise<void> {
-    const schedules = await UserScheduleStore.get('schedules');
-    const activeSchedule = schedules.find(s => s.id === scheduleId);
-    if (!activeSchedule) {
-        throw new Error('Schedule not found');
-    }
-
-    if (!hasColor) {
-        course.colors = getUnusedColor(activeSchedule, course);
-    }
-
-    activeSchedule.courses.push(course);
-    activeSchedule.updatedAt = Date.now();
-    await UserScheduleStore.set('schedules', schedules);
-    console.log(`Course added: ${course.courseName} (ID: ${course.uniqueId})`);
+export default async function addCourse(
+    scheduleId: string,
+    course: Course,
+    hasColor = false,
+    allowOtherSemester = false
+): Promise<string | undefined> {
+    return updateSchedules(({ schedules }, afterCommit) => {
+        const activeSchedule = schedules.find(s => s.id === scheduleId);
+        if (!activeSchedule) {
+            throw new Error('Schedule not found');
+        }
+
+        if (activeSchedule.courses.some(c => c.uniqueId === course.uniqueId)) {
+            return undefined;
+        }
+
+        const semesterMismatch = getSemesterMismatch(activeSchedule, course);
+        if (semesterMismatch && !allowOtherSemester) {
+            return semesterMismatch;
+        }
+
+        if (!hasColor) {
+            course.colors = getUnusedColor(activeSchedule, course);
+        }
+
+        activeSchedule.courses.push(course);
+        activeSchedule.updatedAt = Date.now();
+
+        const index = activeSchedule.courses.length - 1;
+        afterCommit(async () => {
+            await recordScheduleChange(
+                `Added ${describeCourse(course)}`,
+                { type: 'removeCourse', scheduleId, uniqueId: course.uniqueId },
+                { type: 'insertCourse', scheduleId, course, index }
+            );
+            console.log(`Course added: ${course.courseName} (ID: ${course.uniqueId})`);
+        });
+
+        return undefined;
+    });
 }
@@ -1,65 +1,26 @@
-import addCourse from '@pages/background/lib/addCourse';
 import { background } from '@shared/messages';
-import type { UserSchedule } from '@shared/types/UserSchedule';
-import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
-import getCourseTableRows from '@views/lib/getCourseTableRows';
-import { SiteSupport } from '@views/lib/getSiteSupport';
+import fetchCourseDetails from '@views/lib/fetchCourseDetails';
 
 /**
- * Adds a course to the active schedule by fetching course details from a provided URL.
- * If no URL is provided, prompts the user to enter one.
+ * Adds a course to a schedule by fetching course details from a provided URL.
  * Sriram and Elie made this
  *
- * @param activeSchedule - The user's active schedule to which the course will be added.
- * @param link - The URL from which to fetch the course details. If not provided, a prompt will ask for it.
+ * @param scheduleId - The id of the schedule the course will be added to.
+ * @param link - The URL of the course details page to fetch the course from.
  *
- * @returns A promise that resolves when the course has been added or the operation is cancelled.
+ * @returns A promise that resolves when the course has been added, or was already in the schedule.
  *
- * @throws an error if there is an issue with scraping the course details.
+ * @throws an error if the page couldn't be fetched, or doesn't have a course we can scrape.
  */
-export async function addCourseByURL(activeSchedule: UserSchedule, link?: string): Promise<void> {
-    // todo: Use a proper modal instead of a prompt
-    // eslint-disable-next-line no-param-reassign, no-alert
-    if (!link) link = prompt('Enter course link') || undefined;
-
-    // Exit if the user cancels the prompt
-    if (!link) {
-        return;
+export async function addCourseByURL(scheduleId: string, link: string): Promise<void> {
+    const course = await fetchCourseDetails(link);
+    if (!course) {
+        throw new Error(`Couldn't find a course at '${link}'`);
     }
 
-    try {
-        let htmlText: string;
-        try {
-            htmlText = await background.addCourseByURL({
-                url: link,
-                method: 'GET',
-                response: 'text',
-            });
-        } catch (e) {
-            // eslint-disable-next-line no-alert
-            alert(`Failed to fetch url '${link}'`);
-            return;
-        }
-
-        const doc = new DOMParser().parseFromString(htmlText, 'text/html');
-
-        const scraper = new CourseCatalogScraper(SiteSupport.COURSE_CATALOG_DETAILS, doc, link);
-        const tableRows = getCourseTableRows(doc);
-        const scrapedCourses = scraper.scrape(tableRows, false);
-
-        if (scrapedCourses.length !== 1) return;
-        const description = scraper.getDescription(doc);
-        const row = scrapedCourses[0]!;
-        const course = row.course!;
-        course.description = description;
-
-        if (activeSchedule.courses.every(c => c.uniqueId !== course.uniqueId)) {
-            console.log('Adding course');
-            await addCourse(activeSchedule.id, course);
-        } else {
-            console.log('Course already exists');
-        }
-    } catch (error) {
-        console.error('Error scraping course:', error);
+    // the background skips the course if it's already in the schedule, so a stale copy of the schedule can't add it twice
+    const error = await background.addCourse({ scheduleId, course });
+    if (error) {
+        throw new Error(error);
     }
 }
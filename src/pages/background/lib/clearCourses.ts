@@ -1,4 +1,5 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
 
 /**
  * Clears the courses for a given schedule.
@@ -6,13 +7,21 @@ import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
  * @throws Error if the schedule does not exist.
  */
 export default async function clearCourses(scheduleId: string): Promise<void> {
-    const schedules = await UserScheduleStore.get('schedules');
-    const schedule = schedules.find(schedule => schedule.id === scheduleId);
-    if (!schedule) {
-        throw new Error(`Schedule ${scheduleId} does not exist`);
-    }
-    schedule.courses = [];
-    schedule.updatedAt = Date.now();
+    await updateSchedules(({ schedules }, afterCommit) => {
+        const schedule = schedules.find(schedule => schedule.id === scheduleId);
+        if (!schedule) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
+        const { courses } = schedule;
+        schedule.courses = [];
+        schedule.updatedAt = Date.now();
 
-    await UserScheduleStore.set('schedules', schedules);
+        afterCommit(() =>
+            recordScheduleChange(
+                `Cleared "${schedule.name}"`,
+                { type: 'replaceCourses', scheduleId, courses },
+                { type: 'replaceCourses', scheduleId, courses: [] }
+            )
+        );
+    });
 }
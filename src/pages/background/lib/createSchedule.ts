@@ -1,40 +1,47 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import type { UserSchedule } from '@shared/types/UserSchedule';
+import { SCHEDULE_LIMIT } from '@shared/types/UserSchedule';
 import { generateRandomId } from '@shared/util/random';
 import type { Serialized } from 'chrome-extension-toolkit';
 
+import updateSchedules from './updateSchedules';
+
 /**
  * Creates a new schedule with the given name
  *
  * @param scheduleName - The name of the schedule to create
- * @returns Undefined if successful, otherwise an error message
+ * @returns The id of the new schedule, or undefined if the user already has as many schedules as they can
  */
-export default async function createSchedule(scheduleName: string) {
-    const schedules = await UserScheduleStore.get('schedules');
-    // get the number of schedules that either have the same name or have the same name with a number appended (e.g. "New Schedule (1)")
-    // this way we can prevent duplicate schedule names and increment the number if necessary
+export default async function createSchedule(scheduleName: string): Promise<string | undefined> {
+    return updateSchedules(({ schedules }) => {
+        if (schedules.length >= SCHEDULE_LIMIT) {
+            return undefined;
+        }
 
-    // Regex to match schedule names that follow the pattern "ScheduleName" or "ScheduleName (1)", "ScheduleName (2)", etc.
-    const regex = new RegExp(`^${scheduleName}( \\(\\d+\\))?$`);
+        // get the number of schedules that either have the same name or have the same name with a number appended (e.g. "New Schedule (1)")
+        // this way we can prevent duplicate schedule names and increment the number if necessary
 
-    // Find how many schedules match the base name or follow the pattern with a number
-    const count = schedules.filter(s => regex.test(s.name)).length;
+        // Regex to match schedule names that follow the pattern "ScheduleName" or "ScheduleName (1)", "ScheduleName (2)", etc.
+        const regex = new RegExp(`^${scheduleName}( \\(\\d+\\))?$`);
 
-    // If any matches are found, append the next number to the schedule name
-    let name = scheduleName;
-    if (count > 0) {
-        name = `${scheduleName} (${count})`;
-    }
+        // Find how many schedules match the base name or follow the pattern with a number
+        const count = schedules.filter(s => regex.test(s.name)).length;
 
-    const newSchedule: Serialized<UserSchedule> = {
-        id: generateRandomId(),
-        name,
-        courses: [],
-        hours: 0,
-        updatedAt: Date.now(),
-    };
-    schedules.push(newSchedule);
+        // If any matches are found, append the next number to the schedule name
+        let name = scheduleName;
+        if (count > 0) {
+            name = `${scheduleName} (${count})`;
+        }
 
-    await UserScheduleStore.set('schedules', schedules);
-    return newSchedule.id;
+        const newSchedule: Serialized<UserSchedule> = {
+            id: generateRandomId(),
+            name,
+            courses: [],
+            blocks: [],
+            hours: 0,
+            maxHours: 0,
+            updatedAt: Date.now(),
+        };
+        schedules.push(newSchedule);
+        return newSchedule.id;
+    });
 }
@@ -1,6 +1,8 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { UserSchedule } from '@shared/types/UserSchedule';
+import { generateRandomId } from '@shared/util/random';
 
-import createSchedule from './createSchedule';
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
 
 /**
  * Deletes a schedule with the specified name.
@@ -9,28 +11,34 @@ import createSchedule from './createSchedule';
  * @returns A promise that resolves to a string if there is an error, or undefined if the schedule is deleted successfully.
  */
 export default async function deleteSchedule(scheduleId: string): Promise<string | undefined> {
-    const [schedules, activeIndex] = await Promise.all([
-        UserScheduleStore.get('schedules'),
-        UserScheduleStore.get('activeIndex'),
-    ]);
-
-    const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
-    if (scheduleIndex === -1) {
-        throw new Error(`Schedule ${scheduleId} does not exist`);
-    }
-
-    schedules.splice(scheduleIndex, 1);
-    await UserScheduleStore.set('schedules', schedules);
-
-    let newActiveIndex = activeIndex;
-    if (scheduleIndex < activeIndex) {
-        newActiveIndex = activeIndex - 1;
-    } else if (activeIndex >= schedules.length) {
-        newActiveIndex = schedules.length - 1;
-    }
-    await UserScheduleStore.set('activeIndex', newActiveIndex);
-
-    return undefined;
+    return updateSchedules((state, afterCommit) => {
+        const { schedules, activeIndex } = state;
+
+        const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
+        if (scheduleIndex === -1) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
+
+        const [schedule] = schedules.splice(scheduleIndex, 1);
+
+        let newActiveIndex = activeIndex;
+        if (scheduleIndex < activeIndex) {
+            newActiveIndex = activeIndex - 1;
+        } else if (activeIndex >= schedules.length) {
+            newActiveIndex = schedules.length - 1;
+        }
+        state.activeIndex = newActiveIndex;
+
+        afterCommit(() =>
+            recordScheduleChange(
+                `Deleted "${schedule!.name}"`,
+                { type: 'insertSchedule', schedule: schedule!, index: scheduleIndex, activeIndex },
+                { type: 'removeSchedule', scheduleId, activeIndex: newActiveIndex }
+            )
+        );
+
+        return undefined;
+    });
 }
 
 /**
@@ -39,7 +47,28 @@ export default async function deleteSchedule(scheduleId: string): Promise<string
  * @returns A promise that resolves when all schedules are deleted
  */
 export async function deleteAllSchedules(): Promise<void> {
-    await UserScheduleStore.set('schedules', []);
-    await UserScheduleStore.set('activeIndex', 0);
-    await createSchedule('Schedule 1');
+    await updateSchedules((state, afterCommit) => {
+        const { schedules, activeIndex } = state;
+
+        state.schedules = [
+            new UserSchedule({
+                courses: [],
+                blocks: [],
+                id: generateRandomId(),
+                name: 'Schedule 1',
+                hours: 0,
+                maxHours: 0,
+                updatedAt: Date.now(),
+            }),
+        ];
+        state.activeIndex = 0;
+
+        afterCommit(() =>
+            recordScheduleChange(
+                'Deleted all schedules',
+                { type: 'replaceSchedules', schedules, activeIndex },
+                { type: 'replaceSchedules', schedules: state.schedules, activeIndex: 0 }
+            )
+        );
+    });
 }
@@ -1,35 +1,32 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
-import { generateRandomId } from '@shared/util/random';
+import { copySchedule } from '@shared/util/scheduleCopy';
 
-import handleDuplicate from './handleDuplicate';
+import { getUniqueScheduleName } from './handleDuplicate';
+import updateSchedules from './updateSchedules';
 
 /**
- * Creates a new schedule with the given name
+ * Adds a copy of a schedule (with its courses and blocks) right after it
  *
- * @param scheduleName - The name of the schedule to create
+ * @param scheduleId - The id of the schedule to duplicate
  * @returns Undefined if successful, otherwise an error message
  */
 export default async function duplicateSchedule(scheduleId: string): Promise<string | undefined> {
-    const schedules = await UserScheduleStore.get('schedules');
-    const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
+    return updateSchedules(({ schedules }) => {
+        const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
 
-    if (scheduleIndex === -1) {
-        throw new Error(`Schedule ${scheduleId} does not exist`);
-    }
+        if (scheduleIndex === -1) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
 
-    const schedule = schedules[scheduleIndex]!;
+        const schedule = schedules[scheduleIndex]!;
 
-    const copyOfName = `Copy of ${schedule.name}`;
-    const updatedName = await handleDuplicate(copyOfName);
+        const copyOfName = `Copy of ${schedule.name}`;
+        const updatedName = getUniqueScheduleName(
+            copyOfName,
+            schedules.map(s => s.name)
+        );
 
-    schedules.splice(scheduleIndex + 1, 0, {
-        id: generateRandomId(),
-        name: updatedName,
-        courses: JSON.parse(JSON.stringify(schedule.courses)),
-        hours: schedule.hours,
-        updatedAt: Date.now(),
-    } satisfies typeof schedule);
+        schedules.splice(scheduleIndex + 1, 0, copySchedule(schedule, updatedName));
 
-    await UserScheduleStore.set('schedules', schedules);
-    return undefined;
+        return undefined;
+    });
 }
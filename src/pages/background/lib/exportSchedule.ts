@@ -1,23 +1,49 @@
+import { initSettings } from '@shared/storage/OptionsStore';
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import type { ScheduleBackup } from '@shared/types/ScheduleBackup';
+import { SCHEDULE_BACKUP_VERSION } from '@shared/types/ScheduleBackup';
 
 /**
- * Exports the provided schedule to a portable JSON
+ * Exports schedules to a portable, versioned JSON backup
  *
- * @param scheduleId - The Id matching the to-be-exported schedule
- * @returns JSON format of the provided schedule ID, empty if one was not found
+ * @param scheduleId - The Id matching the to-be-exported schedule. If omitted, every schedule is exported along with
+ * the active schedule and the user's settings
+ * @returns JSON format of the backup, undefined if the schedule was not found
  */
-export default async function exportSchedule(scheduleId: string): Promise<string | undefined> {
+export default async function exportSchedule(scheduleId?: string): Promise<string | undefined> {
     try {
-        const storageData = await UserScheduleStore.get('schedules');
-        const selectedSchedule = storageData.find(s => s.id === scheduleId);
+        const [schedules, activeIndex] = await Promise.all([
+            UserScheduleStore.get('schedules'),
+            UserScheduleStore.get('activeIndex'),
+        ]);
+
+        const envelope = {
+            schemaVersion: SCHEDULE_BACKUP_VERSION,
+            extensionVersion: chrome.runtime.getManifest().version,
+            exportedAt: Date.now(),
+        } as const;
+
+        if (scheduleId === undefined) {
+            return JSON.stringify(
+                {
+                    ...envelope,
+                    schedules,
+                    activeIndex,
+                    options: await initSettings(),
+                } satisfies ScheduleBackup,
+                null,
+                2
+            );
+        }
+
+        const selectedSchedule = schedules.find(s => s.id === scheduleId);
 
         if (!selectedSchedule) {
             console.warn(`Schedule ${scheduleId} does not exist`);
-            return JSON.stringify({});
+            return undefined;
         }
 
-        console.log(selectedSchedule);
-        return JSON.stringify(selectedSchedule, null, 2);
+        return JSON.stringify({ ...envelope, schedules: [selectedSchedule] } satisfies ScheduleBackup, null, 2);
     } catch (error) {
         console.error('Error getting storage data:', error);
     }
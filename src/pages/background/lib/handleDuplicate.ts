@@ -1,18 +1,15 @@
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 
 /**
- * Duplicates a new schedule with the given name.
- * Assumes that each schedule has a unique name.
+ * Finds a name that isn't already taken by one of the given names.
  *
- * @param scheduleName - The name of the schedule to handle duplication for
- * @param schedules - The list of UserSchedules to find existing names
- * @returns The new name for the schedule, of the form `{baseName}({index})`
+ * @param scheduleName - The name to make unique
+ * @param existingNames - The names that are already taken
+ * @returns The name if it's unused, otherwise a new name of the form `{baseName} ({index})`
  */
-export default async function handleDuplicate(scheduleName: string): Promise<string> {
-    const schedules = await UserScheduleStore.get('schedules');
-
+export function getUniqueScheduleName(scheduleName: string, existingNames: string[]): string {
     // No point in checking for duplicates if the name is unique
-    if (schedules.find(schedule => schedule.name === scheduleName) === undefined) {
+    if (!existingNames.includes(scheduleName)) {
         return scheduleName;
     }
 
@@ -31,8 +28,23 @@ export default async function handleDuplicate(scheduleName: string): Promise<str
     // Increment until an unused index is found
     do {
         newName = `${baseName} (${index++})`;
-        // eslint-disable-next-line @typescript-eslint/no-loop-func
-    } while (schedules.find(schedule => schedule.name === newName));
+    } while (existingNames.includes(newName));
 
     return newName;
 }
+
+/**
+ * Duplicates a new schedule with the given name.
+ * Assumes that each schedule has a unique name.
+ *
+ * @param scheduleName - The name of the schedule to handle duplication for
+ * @returns The new name for the schedule, of the form `{baseName}({index})`
+ */
+export default async function handleDuplicate(scheduleName: string): Promise<string> {
+    const schedules = await UserScheduleStore.get('schedules');
+
+    return getUniqueScheduleName(
+        scheduleName,
+        schedules.map(schedule => schedule.name)
+    );
+}
@@ -0,0 +1,69 @@
+import type { Course } from '@shared/types/Course';
+import type { RegisteredScheduleSummary } from '@shared/types/RegisteredSchedule';
+import { REGISTERED_SCHEDULE_NAME } from '@shared/types/RegisteredSchedule';
+import { SCHEDULE_LIMIT, UserSchedule } from '@shared/types/UserSchedule';
+import { getUnusedColor } from '@shared/util/colors';
+import { sumCreditHours } from '@shared/util/creditHours';
+import { generateRandomId } from '@shared/util/random';
+
+import updateSchedules from './updateSchedules';
+
+/**
+ * Makes the "Registered" schedule match the sections the student is registered for, creating it if needed.
+ * Sections already in the schedule keep their colors, and sections the student dropped are removed.
+ * A section is only dropped if it's missing from the class list, not if its details failed to load.
+ *
+ * @param courses - The registered sections whose details loaded
+ * @param registeredIds - The unique ids of every section on the class list
+ * @returns What was added, skipped and removed, or an error message if there's no room for a "Registered" schedule
+ */
+export default async function importRegisteredCourses(
+    courses: Course[],
+    registeredIds: number[]
+): Promise<RegisteredScheduleSummary | string> {
+    return updateSchedules(({ schedules }) => {
+        let schedule = schedules.find(s => s.name === REGISTERED_SCHEDULE_NAME);
+        if (!schedule) {
+            if (schedules.length >= SCHEDULE_LIMIT) {
+                return `You already have ${SCHEDULE_LIMIT} schedules, remove one to make room for your registered classes`;
+            }
+
+            schedule = new UserSchedule({
+                courses: [],
+                blocks: [],
+                id: generateRandomId(),
+                name: REGISTERED_SCHEDULE_NAME,
+                hours: 0,
+                maxHours: 0,
+                updatedAt: Date.now(),
+            });
+            schedules.push(schedule);
+        }
+
+        const summary: RegisteredScheduleSummary = {
+            scheduleId: schedule.id,
+            added: [],
+            skipped: [],
+            removed: schedule.courses.map(c => c.uniqueId).filter(uniqueId => !registeredIds.includes(uniqueId)),
+        };
+
+        schedule.courses = schedule.courses.filter(c => registeredIds.includes(c.uniqueId));
+
+        for (const course of courses) {
+            if (schedule.courses.some(c => c.uniqueId === course.uniqueId)) {
+                summary.skipped.push(course.uniqueId);
+            } else {
+                course.colors = getUnusedColor(schedule, course);
+                schedule.courses.push(course);
+                summary.added.push(course.uniqueId);
+            }
+        }
+
+        const hours = sumCreditHours(schedule.courses);
+        schedule.hours = hours.min;
+        schedule.maxHours = hours.max;
+        schedule.updatedAt = Date.now();
+
+        return summary;
+    });
+}
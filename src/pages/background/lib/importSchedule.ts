@@ -1,34 +1,50 @@
-import { Course } from '@shared/types/Course';
-import type { UserSchedule } from '@shared/types/UserSchedule';
-import type { Serialized } from 'chrome-extension-toolkit';
-
-import addCourse from './addCourse';
-import createSchedule from './createSchedule';
-import switchSchedule from './switchSchedule';
-
-function isValidSchedule(data: unknown): data is Serialized<UserSchedule> {
-    if (typeof data !== 'object' || data === null) return false;
-    const schedule = data as Record<string, unknown>;
-    return typeof schedule.id === 'string' && typeof schedule.name === 'string' && Array.isArray(schedule.courses);
-}
+import { OptionsStore } from '@shared/storage/OptionsStore';
+import { SCHEDULE_LIMIT, UserSchedule } from '@shared/types/UserSchedule';
+import { generateRandomId } from '@shared/util/random';
+import { parseScheduleBackup, ScheduleBackupError } from '@shared/util/scheduleBackup';
 
-/**
- * Imports a user schedule from portable file, creating a new schedule for it
+import { getUniqueScheduleName } from './handleDuplicate';
+import updateSchedules from './updateSchedules';
 
- * @param scheduleData - Data to be parsed back into a course schedule
+/**
+ * Imports the schedules from a backup file, adding them after the user's existing schedules.
+ * Everything is written in a single update, and the courses keep their order and colors.
+ * If the backup contains the user's settings, those are restored as well.
+ *
+ * @param backupData - The parsed contents of the backup file, in any version of the format
+ * @returns The number of schedules that were imported
+ * @throws ScheduleBackupError if the file can't be imported, describing what's wrong with it,
+ * or if importing it would take the user past SCHEDULE_LIMIT schedules
  */
-export default async function importSchedule(scheduleData: unknown): Promise<void> {
-    if (isValidSchedule(scheduleData)) {
-        const newScheduleId = await createSchedule(scheduleData.name);
-        await switchSchedule(newScheduleId);
-
-        for (const c of scheduleData.courses) {
-            const course = new Course(c);
-            // eslint-disable-next-line no-await-in-loop
-            await addCourse(newScheduleId, course, true);
+export default async function importSchedule(backupData: unknown): Promise<number> {
+    const backup = parseScheduleBackup(backupData);
+    const imported = await updateSchedules(state => {
+        const room = Math.max(SCHEDULE_LIMIT - state.schedules.length, 0);
+        if (backup.schedules.length > room) {
+            throw new ScheduleBackupError(
+                '',
+                `This backup has ${backup.schedules.length} schedules, but you only have room for ${room} more (you can have up to ${SCHEDULE_LIMIT}). Remove some schedules and try again.`
+            );
         }
-        console.log('Course schedule successfully parsed!');
-    } else {
-        console.error('No schedule data provided for import');
+
+        const names = state.schedules.map(schedule => schedule.name);
+
+        const schedules = backup.schedules.map(schedule => {
+            const name = getUniqueScheduleName(schedule.name, names);
+            names.push(name);
+
+            // new ids, so importing the same file twice (or on the same device) doesn't collide
+            return new UserSchedule({ ...schedule, id: generateRandomId(), name, updatedAt: Date.now() });
+        });
+
+        state.activeIndex = state.schedules.length + (backup.activeIndex ?? 0);
+        state.schedules = [...state.schedules, ...schedules];
+        return schedules;
+    });
+
+    if (backup.options) {
+        await OptionsStore.set(backup.options);
     }
+
+    return imported.length;
 }
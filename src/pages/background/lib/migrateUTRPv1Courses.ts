@@ -1,11 +1,7 @@
+import { background } from '@shared/messages';
 import { validateLoginStatus } from '@shared/util/checkLoginStatus';
-import { getActiveSchedule } from '@views/hooks/useSchedules';
 import { courseMigration } from '@views/lib/courseMigration';
 
-import addCourse from './addCourse';
-import createSchedule from './createSchedule';
-import switchSchedule from './switchSchedule';
-
 /**
  * Retrieves the saved courses from the extension's chrome sync storage (old store) and returns an array of course links.
  *
@@ -51,18 +47,19 @@ async function migrateUTRPv1Courses() {
 
     if (migratedCourses.length > 0) {
         console.log(oldCourses, migratedCourses);
-        const migrateSchedule = await createSchedule('Migrated Schedule');
-        await switchSchedule(migrateSchedule);
-
-        const activeSchedule = getActiveSchedule();
+        // this runs in the migration dialog, so the writes are sent to the background to be queued with everything else
+        const migrateSchedule = await background.createSchedule({ scheduleName: 'Migrated Schedule' });
+        if (!migrateSchedule) {
+            return false;
+        }
+        await background.switchSchedule({ scheduleId: migrateSchedule });
 
         for (const course of migratedCourses) {
-            // Add the course if it doesn't already exist
-            if (activeSchedule.courses.every(c => c.uniqueId !== course.uniqueId)) {
-                // ignore eslint, as we *do* want to spend time on each iteration
-                // eslint-disable-next-line no-await-in-loop
-                await addCourse(activeSchedule.id, course);
-            }
+            // the background skips courses that are already in the schedule
+            // v1 saved courses from every semester in one list, so keep them together instead of dropping some
+            // ignore eslint, as we *do* want to spend time on each iteration
+            // eslint-disable-next-line no-await-in-loop
+            await background.addCourse({ scheduleId: migrateSchedule, course, allowOtherSemester: true });
         }
 
         // Remove the old courses from storage :>
@@ -0,0 +1,70 @@
+import { NotificationStore } from '@shared/storage/NotificationStore';
+import { initSettings } from '@shared/storage/OptionsStore';
+import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import type { CourseAlert } from '@shared/types/CourseAlert';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
+import { getCourseAlert, isInQuietHours, takeAlertsWithinRateLimit } from '@shared/util/notifications';
+
+/** Prefix of the id of every course notification, followed by the course's unique id */
+export const COURSE_NOTIFICATION_PREFIX = 'course-alert-';
+
+/**
+ * Shows a desktop notification for an alert
+ */
+async function showNotification(alert: CourseAlert): Promise<void> {
+    const icons = chrome.runtime.getManifest().icons ?? {};
+
+    await chrome.notifications.create(`${COURSE_NOTIFICATION_PREFIX}${alert.uniqueId}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL(icons['128'] ?? ''),
+        title: alert.title,
+        message: alert.message,
+        priority: alert.reason === 'OPENED' ? 2 : 1,
+    });
+}
+
+/**
+ * Queues notifications for changes to watched courses, and shows as many queued notifications
+ * as quiet hours and the rate limit allow
+ *
+ * @param records - The changes detected by the latest refresh
+ */
+export default async function notifyCourseChanges(records: CourseChangeRecord[]): Promise<void> {
+    const { enableNotifications, maxNotificationsPerHour, enableQuietHours, quietHoursStart, quietHoursEnd } =
+        await initSettings();
+
+    if (!enableNotifications) {
+        await NotificationStore.set('pending', []);
+        return;
+    }
+
+    const [watchlist, pending, sentAt, schedules] = await Promise.all([
+        NotificationStore.get('watchlist'),
+        NotificationStore.get('pending'),
+        NotificationStore.get('sentAt'),
+        UserScheduleStore.get('schedules'),
+    ]);
+    const courses = schedules.flatMap(schedule => schedule.courses);
+
+    for (const record of records) {
+        const course = courses.find(c => c.uniqueId === record.uniqueId);
+        const alert = watchlist.includes(record.uniqueId) && course ? getCourseAlert(record, course) : undefined;
+
+        if (alert) {
+            // only the latest alert for a course matters
+            const index = pending.findIndex(p => p.uniqueId === alert.uniqueId);
+            if (index !== -1) pending.splice(index, 1);
+            pending.push(alert);
+        }
+    }
+
+    const now = new Date();
+    if (enableQuietHours && isInQuietHours(now.getHours() * 60 + now.getMinutes(), quietHoursStart, quietHoursEnd)) {
+        await NotificationStore.set('pending', pending);
+        return;
+    }
+
+    const result = takeAlertsWithinRateLimit(pending, sentAt, maxNotificationsPerHour, now.getTime());
+    await Promise.all(result.send.map(showNotification));
+    await NotificationStore.set({ pending: result.pending, sentAt: result.sentAt });
+}
@@ -0,0 +1,132 @@
+import notifyCourseChanges from '@pages/background/lib/notifyCourseChanges';
+import updateSchedules from '@pages/background/lib/updateSchedules';
+import ensureOffscreenDocument from '@pages/background/util/ensureOffscreenDocument';
+import { offscreen } from '@shared/messages';
+import { CourseRefreshStore } from '@shared/storage/CourseRefreshStore';
+import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { Course } from '@shared/types/Course';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
+import { diffCourses } from '@shared/util/courseChanges';
+
+/**
+ * Fetches a course's details page and parses it in the offscreen document
+ *
+ * @param url - The url of the course details page
+ * @returns The freshly scraped course, or undefined if the page could not be fetched or parsed
+ */
+async function scrapeCourse(url: string): Promise<Course | undefined> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            return undefined;
+        }
+
+        const course = await offscreen.parseCourseDetails({ html: await response.text(), url });
+        return course ? new Course(course) : undefined;
+    } catch (error) {
+        console.error(`Error refreshing course from ${url}:`, error);
+        return undefined;
+    }
+}
+
+/**
+ * Scrapes every course saved in the user's schedules
+ *
+ * @returns The freshly scraped courses, keyed by their url
+ */
+async function scrapeSavedCourses(): Promise<Map<string, Course>> {
+    const schedules = await UserScheduleStore.get('schedules');
+    const urls = [...new Set(schedules.flatMap(schedule => schedule.courses.map(course => course.url)))];
+    const scrapedCourses = new Map<string, Course>();
+
+    if (urls.length === 0) {
+        return scrapedCourses;
+    }
+
+    await ensureOffscreenDocument();
+
+    for (const url of urls) {
+        // one at a time, so we don't flood UT's servers
+        // eslint-disable-next-line no-await-in-loop
+        const course = await scrapeCourse(url);
+        if (course) {
+            scrapedCourses.set(url, course);
+        }
+    }
+
+    return scrapedCourses;
+}
+
+/**
+ * Updates the saved courses with the freshly scraped data, and records what changed
+ *
+ * @param scrapedCourses - The freshly scraped courses, keyed by their url
+ * @returns The changes that were detected
+ */
+async function applyScrapedCourses(scrapedCourses: Map<string, Course>): Promise<CourseChangeRecord[]> {
+    // the schedules may have been edited while we were fetching, so apply the updates to the latest copy in a transaction
+    const detectedAt = Date.now();
+
+    const records = await updateSchedules(({ schedules }) => {
+        const detected = new Map<number, CourseChangeRecord>();
+
+        for (const schedule of schedules) {
+            let isUpdated = false;
+
+            schedule.courses = schedule.courses.map(saved => {
+                const scraped = scrapedCourses.get(saved.url);
+                if (!scraped) {
+                    return saved;
+                }
+
+                const changes = diffCourses(new Course(saved), scraped);
+                if (changes.length > 0) {
+                    detected.set(saved.uniqueId, { uniqueId: saved.uniqueId, detectedAt, changes });
+                    isUpdated = true;
+                }
+
+                return {
+                    ...saved,
+                    status: scraped.status,
+                    instructors: scraped.instructors,
+                    schedule: scraped.schedule,
+                    creditHours: scraped.creditHours,
+                    maxCreditHours: scraped.maxCreditHours,
+                    crossListings: scraped.crossListings,
+                    topic: scraped.topic,
+                    scrapedAt: scraped.scrapedAt,
+                };
+            });
+
+            if (isUpdated) {
+                schedule.updatedAt = detectedAt;
+            }
+        }
+
+        return detected;
+    });
+
+    const changes = await CourseRefreshStore.get('changes');
+    for (const [uniqueId, record] of records) {
+        changes[uniqueId] = record;
+    }
+    await CourseRefreshStore.set({ changes, lastRefreshedAt: detectedAt });
+
+    return [...records.values()];
+}
+
+/**
+ * Re-scrapes every course saved in the user's schedules and updates their status, instructors and meetings.
+ * Whatever changed is recorded per course in the CourseRefreshStore, and watched courses trigger notifications.
+ *
+ * @returns The changes detected during this refresh
+ */
+export default async function refreshCourses(): Promise<CourseChangeRecord[]> {
+    const scrapedCourses = await scrapeSavedCourses();
+    const records = scrapedCourses.size > 0 ? await applyScrapedCourses(scrapedCourses) : [];
+
+    // also shows notifications that were held back by quiet hours or the rate limit
+    await notifyCourseChanges(records);
+
+    return records;
+}
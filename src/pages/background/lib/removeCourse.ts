@@ -1,18 +1,32 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import type { Course } from '@shared/types/Course';
+import { describeCourse } from '@shared/util/scheduleHistory';
+
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
 
 /**
  *
  */
 export default async function removeCourse(scheduleId: string, course: Course): Promise<void> {
-    const schedules = await UserScheduleStore.get('schedules');
-    const activeSchedule = schedules.find(s => s.id === scheduleId);
-    if (!activeSchedule) {
-        throw new Error('Schedule not found');
-    }
+    await updateSchedules(({ schedules }, afterCommit) => {
+        const activeSchedule = schedules.find(s => s.id === scheduleId);
+        if (!activeSchedule) {
+            throw new Error('Schedule not found');
+        }
 
-    activeSchedule.courses = activeSchedule.courses.filter(c => c.uniqueId !== course.uniqueId);
-    activeSchedule.updatedAt = Date.now();
+        const index = activeSchedule.courses.findIndex(c => c.uniqueId === course.uniqueId);
+        const removed = activeSchedule.courses[index];
+        activeSchedule.courses = activeSchedule.courses.filter(c => c.uniqueId !== course.uniqueId);
+        activeSchedule.updatedAt = Date.now();
 
-    await UserScheduleStore.set('schedules', schedules);
+        if (removed) {
+            afterCommit(() =>
+                recordScheduleChange(
+                    `Removed ${describeCourse(removed)}`,
+                    { type: 'insertCourse', scheduleId, course: removed, index },
+                    { type: 'removeCourse', scheduleId, uniqueId: removed.uniqueId }
+                )
+            );
+        }
+    });
 }
@@ -0,0 +1,34 @@
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
+
+/**
+ * Removes a block from a schedule
+ *
+ * @param scheduleId - The id of the schedule
+ * @param blockId - The id of the block to remove
+ * @throws Error if the schedule does not exist.
+ */
+export default async function removeCustomBlock(scheduleId: string, blockId: string): Promise<void> {
+    await updateSchedules(({ schedules }, afterCommit) => {
+        const schedule = schedules.find(s => s.id === scheduleId);
+        if (!schedule) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
+
+        const { blocks } = schedule;
+        const removed = blocks.find(b => b.id === blockId);
+        if (!removed) {
+            return;
+        }
+        schedule.blocks = blocks.filter(b => b.id !== blockId);
+        schedule.updatedAt = Date.now();
+
+        afterCommit(() =>
+            recordScheduleChange(
+                `Removed ${removed.title}`,
+                { type: 'replaceBlocks', scheduleId, blocks },
+                { type: 'replaceBlocks', scheduleId, blocks: schedule.blocks }
+            )
+        );
+    });
+}
@@ -1,6 +1,5 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
-
-import handleDuplicate from './handleDuplicate';
+import { getUniqueScheduleName } from './handleDuplicate';
+import updateSchedules from './updateSchedules';
 
 /**
  * Renames a schedule with the specified name to a new name.
@@ -9,33 +8,35 @@ import handleDuplicate from './handleDuplicate';
  * @returns A promise that resolves to the new name if successful, otherwise undefined.
  */
 export default async function renameSchedule(scheduleId: string, newName: string): Promise<string | undefined> {
-    const schedules = await UserScheduleStore.get('schedules');
-
-    const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
-    if (scheduleIndex === -1) {
-        return undefined;
-    }
-    const schedule = schedules[scheduleIndex];
-    if (schedule === undefined) {
-        return undefined;
-    }
-
-    // if old name is of the form `{baseName}{index}` and newName === baseName, do nothing.
-    const oldName = schedule.name;
-    const regex = /^(.+?)(\(\d+\))?$/;
-    const match = oldName?.match(regex);
-    const baseName = match?.[1] ?? '';
-    const baseNameOfNewName = newName.match(regex)?.[1];
-
-    if (baseName === baseNameOfNewName) {
-        return oldName;
-    }
-
-    const updatedName = await handleDuplicate(newName);
-
-    schedule.name = updatedName;
-    schedule.updatedAt = Date.now();
-
-    await UserScheduleStore.set('schedules', schedules);
-    return newName;
+    return updateSchedules(({ schedules }) => {
+        const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
+        if (scheduleIndex === -1) {
+            return undefined;
+        }
+        const schedule = schedules[scheduleIndex];
+        if (schedule === undefined) {
+            return undefined;
+        }
+
+        // if old name is of the form `{baseName}{index}` and newName === baseName, do nothing.
+        const oldName = schedule.name;
+        const regex = /^(.+?)(\(\d+\))?$/;
+        const match = oldName?.match(regex);
+        const baseName = match?.[1] ?? '';
+        const baseNameOfNewName = newName.match(regex)?.[1];
+
+        if (baseName === baseNameOfNewName) {
+            return oldName;
+        }
+
+        const updatedName = getUniqueScheduleName(
+            newName,
+            schedules.map(s => s.name)
+        );
+
+        schedule.name = updatedName;
+        schedule.updatedAt = Date.now();
+
+        return newName;
+    });
 }
@@ -0,0 +1,23 @@
+import updateSchedules from './updateSchedules';
+
+/**
+ * Reorders the user's schedules, keeping the same schedule active.
+ * Schedules that aren't in the new order (i.e. ones created somewhere else while the user was dragging) go at the end.
+ *
+ * @param scheduleIds - The ids of the schedules, in their new order
+ * @returns A promise that resolves when the schedules are reordered
+ */
+export default async function reorderSchedules(scheduleIds: string[]): Promise<void> {
+    await updateSchedules(state => {
+        const activeSchedule = state.schedules[state.activeIndex];
+        const getPosition = (id: string) => {
+            const position = scheduleIds.indexOf(id);
+            return position === -1 ? scheduleIds.length : position;
+        };
+
+        state.schedules = [...state.schedules].sort((a, b) => getPosition(a.id) - getPosition(b.id));
+        if (activeSchedule) {
+            state.activeIndex = state.schedules.indexOf(activeSchedule);
+        }
+    });
+}
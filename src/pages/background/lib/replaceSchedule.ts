@@ -0,0 +1,33 @@
+import { UserSchedule } from '@shared/types/UserSchedule';
+
+import updateSchedules from './updateSchedules';
+
+/**
+ * Replaces a schedule with an edited copy of it, i.e. after its courses were reordered or recolored.
+ * The copy is only saved if the schedule wasn't changed since the copy was made (compare-and-set on `updatedAt`),
+ * so an edit made from a stale copy can't undo a change made somewhere else.
+ *
+ * @param scheduleId - The id of the schedule to replace
+ * @param schedule - The edited copy of the schedule
+ * @param expectedUpdatedAt - The `updatedAt` of the schedule the copy was made from
+ * @returns Undefined if successful, otherwise an error message
+ */
+export default async function replaceSchedule(
+    scheduleId: string,
+    schedule: UserSchedule,
+    expectedUpdatedAt: number
+): Promise<string | undefined> {
+    return updateSchedules(({ schedules }) => {
+        const scheduleIndex = schedules.findIndex(s => s.id === scheduleId);
+        if (scheduleIndex === -1) {
+            return `Schedule ${scheduleId} does not exist`;
+        }
+
+        if (schedules[scheduleIndex]!.updatedAt !== expectedUpdatedAt) {
+            return `"${schedule.name}" was changed somewhere else, so this change wasn't saved`;
+        }
+
+        schedules[scheduleIndex] = new UserSchedule({ ...schedule, id: scheduleId, updatedAt: Date.now() });
+        return undefined;
+    });
+}
@@ -0,0 +1,42 @@
+import type { CustomBlock } from '@shared/types/CustomBlock';
+import { validateCustomBlock } from '@shared/util/customBlocks';
+
+import { recordScheduleChange } from './scheduleHistory';
+import updateSchedules from './updateSchedules';
+
+/**
+ * Adds a block to a schedule, or updates it if the schedule already has a block with the same id
+ *
+ * @param scheduleId - The id of the schedule
+ * @param block - The block to save
+ * @returns Undefined if the block was saved, otherwise why it wasn't
+ * @throws Error if the schedule does not exist.
+ */
+export default async function saveCustomBlock(scheduleId: string, block: CustomBlock): Promise<string | undefined> {
+    const invalid = validateCustomBlock(block);
+    if (invalid) {
+        return invalid;
+    }
+
+    await updateSchedules(({ schedules }, afterCommit) => {
+        const schedule = schedules.find(s => s.id === scheduleId);
+        if (!schedule) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
+
+        const { blocks } = schedule;
+        const isNew = !blocks.some(b => b.id === block.id);
+        schedule.blocks = isNew ? [...blocks, block] : blocks.map(b => (b.id === block.id ? block : b));
+        schedule.updatedAt = Date.now();
+
+        afterCommit(() =>
+            recordScheduleChange(
+                `${isNew ? 'Added' : 'Edited'} ${block.title}`,
+                { type: 'replaceBlocks', scheduleId, blocks },
+                { type: 'replaceBlocks', scheduleId, blocks: schedule.blocks }
+            )
+        );
+    });
+
+    return undefined;
+}
@@ -0,0 +1,80 @@
+import { ScheduleHistoryStore } from '@shared/storage/ScheduleHistoryStore';
+import type { ScheduleOperation } from '@shared/types/ScheduleHistory';
+import { generateRandomId } from '@shared/util/random';
+import { applyScheduleOperation, pushScheduleHistory } from '@shared/util/scheduleHistory';
+
+import updateSchedules from './updateSchedules';
+
+/**
+ * Records a mutation of the user's schedules in the history, so it can be undone.
+ * Making a new mutation clears anything that could be redone.
+ * Call it after the mutation is saved, from the transaction's `afterCommit`, so entries are recorded in order.
+ *
+ * @param label - A human readable description of the mutation, i.e. "Removed C S 314"
+ * @param undo - The operation that reverts the mutation
+ * @param redo - The operation that makes the mutation again
+ */
+export async function recordScheduleChange(label: string, undo: ScheduleOperation, redo: ScheduleOperation) {
+    const undoStack = await ScheduleHistoryStore.get('undoStack');
+
+    await ScheduleHistoryStore.set({
+        undoStack: pushScheduleHistory(undoStack, { id: generateRandomId(), label, createdAt: Date.now(), undo, redo }),
+        redoStack: [],
+    });
+}
+
+/**
+ * Replays the top entry of one history stack and moves it to the other
+ *
+ * @param direction - Whether the entry is being undone or redone
+ * @returns Undefined if successful, otherwise an error message
+ */
+async function replayScheduleChange(direction: 'undo' | 'redo'): Promise<string | undefined> {
+    return updateSchedules(async (state, afterCommit) => {
+        const [undoStack, redoStack] = await Promise.all([
+            ScheduleHistoryStore.get('undoStack'),
+            ScheduleHistoryStore.get('redoStack'),
+        ]);
+        const [fromStack, toStack] = direction === 'undo' ? [undoStack, redoStack] : [redoStack, undoStack];
+
+        const [entry, ...rest] = fromStack;
+        if (!entry) {
+            return `Nothing to ${direction}`;
+        }
+
+        try {
+            Object.assign(state, applyScheduleOperation(state, entry[direction]));
+        } catch (error) {
+            // the schedules changed since the entry was recorded (i.e. the schedule was deleted), so it can't be replayed
+            afterCommit(() => ScheduleHistoryStore.set(direction === 'undo' ? 'undoStack' : 'redoStack', rest));
+            return error instanceof Error ? error.message : `Failed to ${direction} "${entry.label}"`;
+        }
+
+        const moved = pushScheduleHistory(toStack, entry);
+        afterCommit(() =>
+            ScheduleHistoryStore.set(
+                direction === 'undo' ? { undoStack: rest, redoStack: moved } : { undoStack: moved, redoStack: rest }
+            )
+        );
+
+        return undefined;
+    });
+}
+
+/**
+ * Undoes the most recent mutation of the user's schedules
+ *
+ * @returns Undefined if successful, otherwise an error message
+ */
+export async function undoScheduleChange(): Promise<string | undefined> {
+    return replayScheduleChange('undo');
+}
+
+/**
+ * Redoes the most recently undone mutation of the user's schedules
+ *
+ * @returns Undefined if successful, otherwise an error message
+ */
+export async function redoScheduleChange(): Promise<string | undefined> {
+    return replayScheduleChange('redo');
+}
@@ -1,4 +1,4 @@
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import updateSchedules from './updateSchedules';
 
 /**
  * Switches the active schedule to the specified schedule name.
@@ -7,14 +7,12 @@ import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
  * @returns A Promise that resolves when the active schedule is successfully switched.
  */
 export default async function switchSchedule(scheduleId: string): Promise<void> {
-    const schedules = await UserScheduleStore.get('schedules');
+    await updateSchedules(state => {
+        const scheduleIndex = state.schedules.findIndex(schedule => schedule.id === scheduleId);
+        if (scheduleIndex === -1) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
 
-    const scheduleIndex = schedules.findIndex(schedule => schedule.id === scheduleId);
-    if (scheduleIndex === -1) {
-        throw new Error(`Schedule ${scheduleId} does not exist`);
-    }
-
-    schedules[scheduleIndex]!.updatedAt = Date.now();
-
-    await UserScheduleStore.set('activeIndex', scheduleIndex);
+        state.activeIndex = scheduleIndex;
+    });
 }
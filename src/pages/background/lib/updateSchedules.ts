@@ -0,0 +1,20 @@
+import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { createScheduleTransactions } from '@shared/util/scheduleTransactions';
+
+/**
+ * Runs a transaction on the user's schedules, after every transaction queued before it has been saved.
+ * Every write to the UserScheduleStore should go through here (pages send a message to the background instead of
+ * writing themselves), so two quick changes from different pages can't overwrite each other.
+ */
+const updateSchedules = createScheduleTransactions({
+    get: async () => {
+        const [schedules, activeIndex] = await Promise.all([
+            UserScheduleStore.get('schedules'),
+            UserScheduleStore.get('activeIndex'),
+        ]);
+        return { schedules, activeIndex };
+    },
+    set: state => UserScheduleStore.set(state),
+});
+
+export default updateSchedules;
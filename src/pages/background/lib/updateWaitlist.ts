@@ -0,0 +1,23 @@
+import type { WaitlistEntry } from '@shared/types/Waitlist';
+
+import updateSchedules from './updateSchedules';
+
+/**
+ * Saves the user's waitlist positions onto the matching courses in every schedule.
+ * The waitlist page lists every course the user is waitlisted for, so courses that aren't in it are no longer waitlisted.
+ *
+ * @param entries - Every course the user is waitlisted for, as scraped from UT's waitlist page
+ */
+export default async function updateWaitlist(entries: WaitlistEntry[]): Promise<void> {
+    const waitlist = new Map(entries.map(({ uniqueId, ...info }) => [uniqueId, info]));
+
+    await updateSchedules(({ schedules }) => {
+        for (const schedule of schedules) {
+            schedule.courses = schedule.courses.map(course => {
+                const { waitlist: _previous, ...rest } = course;
+                const info = waitlist.get(course.uniqueId);
+                return info ? { ...rest, waitlist: info } : rest;
+            });
+        }
+    });
+}
@@ -0,0 +1,28 @@
+import { OptionsStore } from '@shared/storage/OptionsStore';
+
+/** The name of the alarm that periodically refreshes saved courses */
+export const COURSE_REFRESH_ALARM = 'refreshCourses';
+
+/** How often saved courses are refreshed, in minutes */
+const COURSE_REFRESH_PERIOD = 60;
+
+/**
+ * Creates or clears the course refresh alarm depending on whether data refreshing is enabled
+ */
+export default async function scheduleCourseRefresh(): Promise<void> {
+    const enableDataRefreshing = await OptionsStore.get('enableDataRefreshing');
+
+    if (!enableDataRefreshing) {
+        await chrome.alarms.clear(COURSE_REFRESH_ALARM);
+        return;
+    }
+
+    // re-creating an existing alarm would reset its timer, so only create it when it's missing
+    const alarm = await chrome.alarms.get(COURSE_REFRESH_ALARM);
+    if (!alarm) {
+        await chrome.alarms.create(COURSE_REFRESH_ALARM, {
+            delayInMinutes: 1,
+            periodInMinutes: COURSE_REFRESH_PERIOD,
+        });
+    }
+}
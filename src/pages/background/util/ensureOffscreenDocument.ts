@@ -0,0 +1,35 @@
+const OFFSCREEN_DOCUMENT_PATH = 'offscreen.html';
+
+/**
+ * Only one offscreen document can exist at a time, so concurrent callers wait on the same creation
+ */
+let creating: Promise<void> | undefined;
+
+/**
+ * Creates the offscreen document if it isn't already open, so that the service worker can parse HTML and query grades
+ *
+ * @returns A promise that resolves once the offscreen document is ready to receive messages
+ */
+export default async function ensureOffscreenDocument(): Promise<void> {
+    const contexts = await chrome.runtime.getContexts({
+        contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+        documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)],
+    });
+
+    if (contexts.length > 0) {
+        return;
+    }
+
+    creating ??= chrome.offscreen
+        .createDocument({
+            url: OFFSCREEN_DOCUMENT_PATH,
+            reasons: [chrome.offscreen.Reason.DOM_PARSER],
+            justification:
+                "Parse course pages from UT's course schedule to keep saved courses up to date, and look up grade distributions",
+        })
+        .finally(() => {
+            creating = undefined;
+        });
+
+    await creating;
+}
@@ -0,0 +1,48 @@
+import type { TabWithId } from '@background/util/openNewTab';
+import openNewTab from '@background/util/openNewTab';
+import { tabs } from '@shared/messages';
+import { OptionsStore } from '@shared/storage/OptionsStore';
+import { CRX_PAGES } from '@shared/types/CRXPages';
+
+const getAllTabInfos = async () => {
+    const openTabs = (await chrome.tabs.query({})).filter((tab): tab is TabWithId => tab.id !== undefined);
+    const results = await Promise.allSettled(openTabs.map(tab => tabs.getTabInfo(undefined, tab.id)));
+
+    type TabInfo = PromiseFulfilledResult<Awaited<ReturnType<typeof tabs.getTabInfo>>>;
+    return results
+        .map((result, index) => ({ result, index }))
+        .filter((el): el is { result: TabInfo; index: number } => el.result.status === 'fulfilled')
+        .map(({ result, index }) => ({
+            ...result.value,
+            tab: openTabs[index]!,
+        }));
+};
+
+/**
+ * Opens the calendar page if it is not already open and focuses the tab
+ *
+ * @param uniqueId - The unique id of a course to open on the calendar page (optional)
+ * @returns The calendar tab
+ */
+export default async function switchToCalendarTab(uniqueId?: number): Promise<chrome.tabs.Tab> {
+    const calendarUrl = chrome.runtime.getURL(CRX_PAGES.CALENDAR);
+
+    const allTabs = await getAllTabInfos();
+
+    const openCalendarTabInfo = allTabs.find(tab => tab.url?.startsWith(calendarUrl));
+
+    if (openCalendarTabInfo !== undefined && !(await OptionsStore.get('alwaysOpenCalendarInNewTab'))) {
+        const tabid = openCalendarTabInfo.tab.id;
+
+        await chrome.tabs.update(tabid, { active: true });
+        await chrome.windows.update(openCalendarTabInfo.tab.windowId, { focused: true, drawAttention: true });
+        if (uniqueId !== undefined) await tabs.openCoursePopup({ uniqueId }, tabid);
+
+        return openCalendarTabInfo.tab;
+    }
+
+    const urlParams = new URLSearchParams();
+    if (uniqueId !== undefined) urlParams.set('uniqueId', uniqueId.toString());
+    const url = `${calendarUrl}?${urlParams.toString()}`.replace(/\?$/, '');
+    return openNewTab(url);
+}
@@ -0,0 +1,39 @@
+import type { OFFSCREEN_MESSAGES } from '@shared/messages';
+import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
+import queryGradeDatabase from '@views/lib/database/gradeDatabase';
+import getCourseTableRows from '@views/lib/getCourseTableRows';
+import { SiteSupport } from '@views/lib/getSiteSupport';
+import type { MessageHandler } from 'chrome-extension-toolkit';
+import { MessageListener } from 'chrome-extension-toolkit';
+
+/**
+ * The offscreen document is created by the background service worker whenever it needs the DOM,
+ * since service workers don't have access to DOMParser.
+ * It also hosts the grade distribution database, so that it's loaded once instead of in every tab that shows grades.
+ */
+const offscreenHandler: MessageHandler<OFFSCREEN_MESSAGES> = {
+    parseCourseDetails({ data: { html, url }, sendResponse }) {
+        try {
+            const doc = new DOMParser().parseFromString(html, 'text/html');
+            const scraper = new CourseCatalogScraper(SiteSupport.COURSE_CATALOG_DETAILS, doc, url);
+            const scrapedCourses = scraper.scrape(getCourseTableRows(doc), false);
+
+            sendResponse(scrapedCourses.length === 1 ? (scrapedCourses[0]!.course ?? undefined) : undefined);
+        } catch (error) {
+            console.error(`Error parsing course details from ${url}:`, error);
+            sendResponse(undefined);
+        }
+    },
+    queryGradeDatabase({ data, sendResponse }) {
+        queryGradeDatabase(data)
+            .then(sendResponse)
+            .catch(error => {
+                console.error(`Error looking up grades for ${data.department} ${data.number}:`, error);
+                sendResponse(undefined);
+            });
+    },
+};
+
+const messageListener = new MessageListener<OFFSCREEN_MESSAGES>(offscreenHandler);
+
+messageListener.listen();
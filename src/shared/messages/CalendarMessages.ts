@@ -3,8 +3,9 @@ interface CalendarBackgroundMessages {
      * Opens the calendar page if it is not already open, focuses the tab, and optionally opens the calendar for a specific course
      *
      * @param data - The unique id of the course to open the calendar page for (optional)
+     * @returns The calendar tab, or an error message if it could not be opened
      */
-    switchToCalendarTab: (data: { uniqueId?: number }) => chrome.tabs.Tab;
+    switchToCalendarTab: (data: { uniqueId?: number }) => chrome.tabs.Tab | string;
 }
 
 interface CalendarTabMessages {
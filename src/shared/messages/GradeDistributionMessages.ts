@@ -0,0 +1,14 @@
+import type { CourseGrades, CourseGradesRequest } from '@shared/types/Distribution';
+
+/**
+ * Messages for looking up grade distributions, which the background forwards to the database in the offscreen document
+ */
+export interface GradeDistributionMessages {
+    /**
+     * Looks up the grades of a course in the grade distribution database
+     *
+     * @param data - The course and instructors to look up
+     * @returns The grades of the course, or undefined if we have no data for it
+     */
+    queryCourseGrades: (data: CourseGradesRequest) => CourseGrades | undefined;
+}
@@ -0,0 +1,24 @@
+import type { Course } from '@shared/types/Course';
+import type { CourseGrades, CourseGradesRequest } from '@shared/types/Distribution';
+
+/**
+ * Messages handled by the offscreen document, which gives the background service worker access to the DOM,
+ * and hosts the grade distribution database so it's only loaded once
+ */
+export interface OffscreenMessages {
+    /**
+     * Parses a course details page from UT's course schedule
+     *
+     * @param data - The HTML of the page and the URL it was fetched from
+     * @returns The course on the page, or undefined if the page does not contain exactly one course (i.e. the user is logged out)
+     */
+    parseCourseDetails: (data: { html: string; url: string }) => Course | undefined;
+
+    /**
+     * Looks up the grades of a course in the grade distribution database
+     *
+     * @param data - The course and instructors to look up
+     * @returns The grades of the course, or undefined if we have no data for it
+     */
+    queryGradeDatabase: (data: CourseGradesRequest) => CourseGrades | undefined;
+}
@@ -1,4 +1,9 @@
 import type { Course } from '@shared/types/Course';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
+import type { CustomBlock } from '@shared/types/CustomBlock';
+import type { RegisteredScheduleSummary } from '@shared/types/RegisteredSchedule';
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import type { WaitlistEntry } from '@shared/types/Waitlist';
 
 /**
  * Represents a collection of user schedule messages.
@@ -7,9 +12,15 @@ export interface UserScheduleMessages {
     /**
      * Add a course to a schedule
      *
-     * @param data - The schedule id and course to add
+     * @param data - The schedule id and course to add, and whether to add it even if it's from a different semester
+     * @returns Undefined if the course was added, otherwise why it wasn't (i.e. it's from a different semester)
      */
-    addCourse: (data: { scheduleId: string; course: Course; hasColor?: boolean }) => void;
+    addCourse: (data: {
+        scheduleId: string;
+        course: Course;
+        hasColor?: boolean;
+        allowOtherSemester?: boolean;
+    }) => string | undefined;
 
     /**
      * Adds a course by URL
@@ -33,6 +44,21 @@ export interface UserScheduleMessages {
      */
     clearCourses: (data: { scheduleId: string }) => void;
 
+    /**
+     * Adds a block (i.e. work or the gym) to a schedule, or updates the block with the same id
+     *
+     * @param data - The schedule id and the block to save
+     * @returns Undefined if the block was saved, otherwise why it wasn't
+     */
+    saveCustomBlock: (data: { scheduleId: string; block: CustomBlock }) => string | undefined;
+
+    /**
+     * Removes a block from a schedule
+     *
+     * @param data - The schedule id and the id of the block to remove
+     */
+    removeCustomBlock: (data: { scheduleId: string; blockId: string }) => void;
+
     /**
      * Switches the active schedule to the one specified
      *
@@ -44,7 +70,7 @@ export interface UserScheduleMessages {
      * Creates a new schedule with the specified name
      *
      * @param data - The name of the schedule to create
-     * @returns Undefined if successful, otherwise an error message
+     * @returns The id of the new schedule, or undefined if the user already has as many schedules as they can
      */
     createSchedule: (data: { scheduleName: string }) => string | undefined;
 
@@ -64,6 +90,46 @@ export interface UserScheduleMessages {
      */
     renameSchedule: (data: { scheduleId: string; newName: string }) => string | undefined;
 
+    /**
+     * Adds a copy of a schedule right after it
+     *
+     * @param data - The id of the schedule to duplicate
+     * @returns Undefined if successful, otherwise an error message
+     */
+    duplicateSchedule: (data: { scheduleId: string }) => string | undefined;
+
+    /**
+     * Deletes every schedule, leaving a single empty one
+     */
+    deleteAllSchedules: () => void;
+
+    /**
+     * Reorders the schedules, keeping the same schedule active
+     *
+     * @param data - The ids of the schedules, in their new order
+     */
+    reorderSchedules: (data: { scheduleIds: string[] }) => void;
+
+    /**
+     * Replaces a schedule with an edited copy of it, if the schedule wasn't changed since the copy was made
+     *
+     * @param data - The id of the schedule, the edited copy, and the `updatedAt` of the schedule the copy was made from
+     * @returns Undefined if successful, otherwise an error message
+     */
+    replaceSchedule: (data: {
+        scheduleId: string;
+        schedule: UserSchedule;
+        expectedUpdatedAt: number;
+    }) => string | undefined;
+
+    /**
+     * Imports the schedules from a backup file, adding them after the user's existing schedules
+     *
+     * @param data - The parsed contents of the backup file
+     * @returns An error message if the backup could not be imported
+     */
+    importSchedule: (data: { backupData: unknown }) => string | undefined;
+
     /**
      * Checks the login status by making a request to the provided URL.
      *
@@ -73,10 +139,46 @@ export interface UserScheduleMessages {
     validateLoginStatus: (data: { url: string }) => boolean;
 
     /**
-     * Exports the current schedule to a JSON file for backing up and sharing
+     * Exports a schedule (or every schedule, if no id is given) to a versioned JSON backup for backing up and sharing
      *
      * @param data - Id of schedule that will be exported
-     * @returns
+     * @returns The backup as JSON, undefined if the schedule was not found
+     */
+    exportSchedule: (data: { scheduleId?: string }) => string | undefined;
+
+    /**
+     * Re-scrapes every saved course right away, instead of waiting for the next background refresh
+     *
+     * @returns The changes that were detected
+     */
+    refreshCourses: () => CourseChangeRecord[];
+
+    /**
+     * Saves the user's waitlist positions, as scraped from UT's waitlist page
+     *
+     * @param data - Every course the user is waitlisted for
+     */
+    updateWaitlist: (data: { entries: WaitlistEntry[] }) => void;
+
+    /**
+     * Makes the "Registered" schedule match the sections the student is registered for
+     *
+     * @param data - The registered sections whose details loaded, and the unique ids of every section on the class list
+     * @returns What was added, skipped and removed, or an error message if there's no room for a "Registered" schedule
+     */
+    importRegisteredCourses: (data: { courses: Course[]; uniqueIds: number[] }) => RegisteredScheduleSummary | string;
+
+    /**
+     * Undoes the most recent change to the user's schedules (adding, removing or clearing courses, or deleting schedules)
+     *
+     * @returns Undefined if successful, otherwise an error message
+     */
+    undoScheduleChange: () => string | undefined;
+
+    /**
+     * Redoes the most recently undone change to the user's schedules
+     *
+     * @returns Undefined if successful, otherwise an error message
      */
-    exportSchedule: (data: { scheduleId: string }) => string | undefined;
+    redoScheduleChange: () => string | undefined;
 }
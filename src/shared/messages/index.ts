@@ -3,6 +3,8 @@ import { createMessenger } from 'chrome-extension-toolkit';
 import type BrowserActionMessages from './BrowserActionMessages';
 import type { CalendarBackgroundMessages, CalendarTabMessages } from './CalendarMessages';
 import type CESMessage from './CESMessage';
+import type { GradeDistributionMessages } from './GradeDistributionMessages';
+import type { OffscreenMessages } from './OffscreenMessages';
 import type TabInfoMessages from './TabInfoMessages';
 import type TabManagementMessages from './TabManagementMessages';
 import type { UserScheduleMessages } from './UserScheduleMessages';
@@ -14,13 +16,19 @@ export type BACKGROUND_MESSAGES = BrowserActionMessages &
     TabManagementMessages &
     UserScheduleMessages &
     CESMessage &
-    CalendarBackgroundMessages;
+    CalendarBackgroundMessages &
+    GradeDistributionMessages;
 
 /**
  * This is a type with all the message definitions that can be sent TO specific tabs
  */
 export type TAB_MESSAGES = CalendarTabMessages & TabInfoMessages;
 
+/**
+ * This is a type with all the message definitions that can be sent TO the offscreen document
+ */
+export type OFFSCREEN_MESSAGES = OffscreenMessages;
+
 /**
  * A utility object that can be used to send type-safe messages to the background script
  */
@@ -30,3 +38,8 @@ export const background = createMessenger<BACKGROUND_MESSAGES>('background');
  * A utility object that can be used to send type-safe messages to specific tabs
  */
 export const tabs = createMessenger<TAB_MESSAGES>('foreground');
+
+/**
+ * A utility object that can be used to send type-safe messages to the offscreen document
+ */
+export const offscreen = createMessenger<OFFSCREEN_MESSAGES>('background');
@@ -0,0 +1,19 @@
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
+import { createLocalStore, debugStore } from 'chrome-extension-toolkit';
+
+interface ICourseRefreshStore {
+    /** Unix timestamp of when the saved courses were last refreshed in the background, 0 if never */
+    lastRefreshedAt: number;
+    /** What changed about each course during the refresh that last changed it, keyed by unique id */
+    changes: Record<string, CourseChangeRecord>;
+}
+
+/**
+ * A store that is used for keeping track of the background refresh of saved courses
+ */
+export const CourseRefreshStore = createLocalStore<ICourseRefreshStore>({
+    lastRefreshedAt: 0,
+    changes: {},
+});
+
+debugStore({ courseRefreshStore: CourseRefreshStore });
@@ -0,0 +1,22 @@
+import type { CourseAlert } from '@shared/types/CourseAlert';
+import { createLocalStore, debugStore } from 'chrome-extension-toolkit';
+
+interface INotificationStore {
+    /** The unique ids of the courses the user wants to be notified about */
+    watchlist: number[];
+    /** Alerts that are being held because of quiet hours or rate limiting */
+    pending: CourseAlert[];
+    /** Unix timestamps of the notifications shown in the last hour, used for rate limiting */
+    sentAt: number[];
+}
+
+/**
+ * A store that is used for keeping track of course notifications
+ */
+export const NotificationStore = createLocalStore<INotificationStore>({
+    watchlist: [],
+    pending: [],
+    sentAt: [],
+});
+
+debugStore({ notificationStore: NotificationStore });
@@ -21,6 +21,24 @@ export interface IOptionsStore {
 
     /** whether we should open the calendar in a new tab; default is to focus an existing calendar tab */
     alwaysOpenCalendarInNewTab: boolean;
+
+    /** whether we should show a desktop notification when a watched course opens up or gets cancelled */
+    enableNotifications: boolean;
+
+    /** the most notifications we will show in an hour, any others are held until the next hour */
+    maxNotificationsPerHour: number;
+
+    /** whether notifications should be held during quiet hours */
+    enableQuietHours: boolean;
+
+    /** when quiet hours start, in minutes since midnight */
+    quietHoursStart: number;
+
+    /** when quiet hours end, in minutes since midnight */
+    quietHoursEnd: number;
+
+    /** how many minutes before each class the exported calendar file reminds you, 0 for no reminders */
+    calendarReminderMinutes: number;
 }
 
 export const OptionsStore = createSyncStore<IOptionsStore>({
@@ -30,6 +48,12 @@ export const OptionsStore = createSyncStore<IOptionsStore>({
     enableScrollToLoad: true,
     enableDataRefreshing: true,
     alwaysOpenCalendarInNewTab: false,
+    enableNotifications: true,
+    maxNotificationsPerHour: 5,
+    enableQuietHours: false,
+    quietHoursStart: 22 * 60,
+    quietHoursEnd: 8 * 60,
+    calendarReminderMinutes: 0,
 });
 
 /**
@@ -45,6 +69,12 @@ export const initSettings = async () =>
         enableScrollToLoad: await OptionsStore.get('enableScrollToLoad'),
         enableDataRefreshing: await OptionsStore.get('enableDataRefreshing'),
         alwaysOpenCalendarInNewTab: await OptionsStore.get('alwaysOpenCalendarInNewTab'),
+        enableNotifications: await OptionsStore.get('enableNotifications'),
+        maxNotificationsPerHour: await OptionsStore.get('maxNotificationsPerHour'),
+        enableQuietHours: await OptionsStore.get('enableQuietHours'),
+        quietHoursStart: await OptionsStore.get('quietHoursStart'),
+        quietHoursEnd: await OptionsStore.get('quietHoursEnd'),
+        calendarReminderMinutes: await OptionsStore.get('calendarReminderMinutes'),
     }) satisfies IOptionsStore;
 
 // Clothing retailer right
@@ -0,0 +1,16 @@
+import type { SavedSearch } from '@shared/types/SavedSearch';
+import { createSyncStore, debugStore } from 'chrome-extension-toolkit';
+
+interface ISavedSearchStore {
+    /** The user's saved searches, oldest first */
+    savedSearches: SavedSearch[];
+}
+
+/**
+ * A store that is used for storing the user's saved course schedule searches, synced across their browsers
+ */
+export const SavedSearchStore = createSyncStore<ISavedSearchStore>({
+    savedSearches: [],
+});
+
+debugStore({ savedSearchStore: SavedSearchStore });
@@ -0,0 +1,19 @@
+import type { ScheduleHistoryEntry } from '@shared/types/ScheduleHistory';
+import { createLocalStore, debugStore } from 'chrome-extension-toolkit';
+
+interface IScheduleHistoryStore {
+    /** The mutations that can be undone, most recent first */
+    undoStack: ScheduleHistoryEntry[];
+    /** The mutations that were undone and can be redone, most recently undone first */
+    redoStack: ScheduleHistoryEntry[];
+}
+
+/**
+ * A store that is used for keeping the undo/redo history of the user's schedules, so it survives service worker restarts
+ */
+export const ScheduleHistoryStore = createLocalStore<IScheduleHistoryStore>({
+    undoStack: [],
+    redoStack: [],
+});
+
+debugStore({ scheduleHistoryStore: ScheduleHistoryStore });
@@ -15,9 +15,11 @@ export const UserScheduleStore = createLocalStore<IUserScheduleStore>({
     schedules: [
         new UserSchedule({
             courses: [],
+            blocks: [],
             id: generateRandomId(),
             name: 'Schedule 1',
             hours: 0,
+            maxHours: 0,
             updatedAt: Date.now(),
         }),
     ],
@@ -0,0 +1,62 @@
+/**
+ * A calendar date in ISO format (YYYY-MM-DD), interpreted in UT Austin's local time
+ */
+export type ISODate = `${number}-${number}-${number}`;
+
+/**
+ * An inclusive range of calendar dates
+ */
+export type DateRange = {
+    /** The first day of the range */
+    start: ISODate;
+    /** The last day of the range (inclusive) */
+    end: ISODate;
+};
+
+/**
+ * A holiday or break during which classes do not meet
+ */
+export type AcademicHoliday = DateRange & {
+    /** The name of the holiday, i.e. "Spring Break" */
+    name: string;
+};
+
+/**
+ * A window during which students can register for, add, or drop classes
+ */
+export type RegistrationPeriod = DateRange & {
+    /** The name of the period, i.e. "Registration Period 1" */
+    name: string;
+};
+
+/**
+ * The important dates of a single term (semester) at UT Austin
+ */
+export type AcademicTerm = {
+    /** UT's code for the semester, i.e. 20249 for Fall 2024 */
+    code: string;
+    /** The first day of classes */
+    firstClassDay: ISODate;
+    /** The last day of classes */
+    lastClassDay: ISODate;
+    /** Holidays and breaks between the first and last class day */
+    holidays: AcademicHoliday[];
+    /** The final exam period */
+    finals: DateRange;
+    /** Registration periods for the term, in chronological order */
+    registrationPeriods: RegistrationPeriod[];
+    /** Whether these dates were estimated because the term is not in the bundled dataset */
+    isEstimated: boolean;
+};
+
+/**
+ * The bundled dataset of academic terms
+ */
+export type AcademicCalendar = {
+    /** Incremented whenever the shape of the dataset changes */
+    version: number;
+    /** When the dataset was last updated */
+    updatedAt: ISODate;
+    /** The known terms, keyed by UT's semester code */
+    terms: Record<string, Omit<AcademicTerm, 'code' | 'isEstimated'>>;
+};
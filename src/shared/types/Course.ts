@@ -1,3 +1,4 @@
+import { isSameSemester } from '@shared/util/academicCalendar';
 import { getCourseColors } from '@shared/util/colors';
 import type { Serialized } from 'chrome-extension-toolkit';
 
@@ -5,6 +6,7 @@ import type { CourseMeeting } from './CourseMeeting';
 import { CourseSchedule } from './CourseSchedule';
 import Instructor from './Instructor';
 import type { CourseColors } from './ThemeColors';
+import type { WaitlistInfo } from './Waitlist';
 
 /**
  * Whether the class is taught online, in person, or a hybrid of the two
@@ -38,6 +40,34 @@ export type Semester = {
     code?: string;
 };
 
+/**
+ * The smallest and largest number of credit hours a course can be taken for
+ */
+export type CreditHourRange = {
+    min: number;
+    max: number;
+};
+
+/**
+ * Another department and number that a course is also listed under (i.e. a cross-listed course)
+ */
+export type CourseListing = {
+    department: string;
+    number: string;
+    /** The topic number of the listing, for topics courses */
+    topic?: number;
+};
+
+/**
+ * The topic of a section of a topics course, where sections with the same number cover different subjects
+ */
+export type CourseTopic = {
+    /** UT's number for the topic, i.e. 6 for "Topic 6: Modern Japan" */
+    number?: number;
+    /** The title of the topic */
+    title: string;
+};
+
 /**
  * The internal representation of a course for the extension
  */
@@ -53,8 +83,10 @@ export class Course {
     /** The unique identifier for which department that a course belongs to, i.e. CS, MAL, etc. */
     department!: string;
 
-    /** The number of credits that a course is worth */
+    /** The number of credits that a course is worth, or the fewest it can be taken for if it's variable-credit */
     creditHours!: number;
+    /** The most credits a variable-credit course can be taken for, unset if the course is worth a fixed number of credits */
+    maxCreditHours?: number;
     /** Is the course open, closed, waitlisted, or cancelled? */
     status!: StatusType;
     /** all the people that are teaching this course, and some metadata about their names */
@@ -81,6 +113,12 @@ export class Course {
     colors: CourseColors;
     /** The core curriculum requirements the course satisfies */
     core: string[];
+    /** The user's spot on the waitlist, if they're waitlisted for the course */
+    waitlist?: WaitlistInfo;
+    /** The other departments and numbers the same class is listed under, scraped from the course details page */
+    crossListings?: CourseListing[];
+    /** The topic of the section, if it's a section of a topics course */
+    topic?: CourseTopic;
 
     constructor(course: Serialized<Course>) {
         Object.assign(this, course);
@@ -94,13 +132,18 @@ export class Course {
     }
 
     /**
-     * Gets a list of all the conflicts between this course and another course (i.e. if they have a meeting at the same time)
+     * Gets a list of all the conflicts between this course and another course (i.e. if they have a meeting at the same time).
+     * Courses in different semesters never conflict.
      *
      * @param other - Another course to compare this course to
      * @returns A list of all the conflicts between this course and the other course as a tuple of the two conflicting meetings
      */
     getConflicts(other: Course): [CourseMeeting, CourseMeeting][] {
         const conflicts: [CourseMeeting, CourseMeeting][] = [];
+        if (this.semester && other.semester && !isSameSemester(this.semester, other.semester)) {
+            return conflicts;
+        }
+
         for (const meeting of this.schedule.meetings) {
             for (const otherMeeting of other.schedule.meetings) {
                 if (meeting.isConflicting(otherMeeting)) {
@@ -113,10 +156,23 @@ export class Course {
     }
 }
 
+/**
+ * Why a row of the course catalog table couldn't be scraped into a course
+ */
+export type RowParseFailure = {
+    /** What was wrong with the row, i.e. "Unknown status: full" */
+    reason: string;
+    /** The HTML of the row, so the failure can be reproduced */
+    html: string;
+};
+
 /**
  * A helper type that is used to represent an element in the DOM, with the actual element corresponding to the course object
  */
 export type ScrapedRow = {
     element: HTMLTableRowElement;
+    /** The course in the row, or null for header rows and rows that couldn't be scraped */
     course: Course | null;
+    /** Why the row couldn't be scraped, only set for rows that aren't headers but have no course */
+    failure?: RowParseFailure;
 };
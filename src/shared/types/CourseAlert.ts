@@ -0,0 +1,20 @@
+/**
+ * Why the user is being notified about a course
+ */
+export type CourseAlertReason = 'OPENED' | 'CANCELLED';
+
+/**
+ * A notification about a watched course, waiting to be shown to the user
+ */
+export type CourseAlert = {
+    /** The unique id of the course */
+    uniqueId: number;
+    /** Why the user is being notified */
+    reason: CourseAlertReason;
+    /** The title of the notification, i.e. "C S 429 is open" */
+    title: string;
+    /** The body of the notification */
+    message: string;
+    /** Unix timestamp of when the change was detected */
+    detectedAt: number;
+};
@@ -0,0 +1,28 @@
+/**
+ * A part of a course that can change between two scrapes
+ */
+export type CourseChangeField = 'status' | 'instructors' | 'meetings';
+
+/**
+ * A single difference between a saved course and the latest data from UT's site
+ */
+export type CourseChange = {
+    /** What changed */
+    field: CourseChangeField;
+    /** A human readable description of the saved value */
+    previous: string;
+    /** A human readable description of the latest value */
+    current: string;
+};
+
+/**
+ * Everything that changed about a course during a background refresh
+ */
+export type CourseChangeRecord = {
+    /** The unique id of the course that changed */
+    uniqueId: number;
+    /** Unix timestamp of the refresh that detected the changes */
+    detectedAt: number;
+    /** The changes, at most one per field */
+    changes: CourseChange[];
+};
@@ -0,0 +1,53 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import { generateRandomId } from '../util/random';
+import type { HexColor } from './Color';
+import type { Course } from './Course';
+import type { Day } from './CourseMeeting';
+import { CourseMeeting } from './CourseMeeting';
+
+/**
+ * A recurring event the user adds to a schedule that isn't a course, i.e. work, the gym or a commute
+ */
+export class CustomBlock {
+    id: string;
+    /** What the block is for, i.e. "Work" */
+    title: string;
+    /** The days of the week the block repeats on */
+    days: Day[];
+    /** When the block starts, in minutes since midnight */
+    startTime: number;
+    /** When the block ends, in minutes since midnight */
+    endTime: number;
+    /** The color the block is shown in on the calendar */
+    color: HexColor;
+
+    constructor(block: Serialized<CustomBlock>) {
+        this.id = block.id ?? generateRandomId();
+        this.title = block.title;
+        this.days = [...block.days];
+        this.startTime = block.startTime;
+        this.endTime = block.endTime;
+        this.color = block.color;
+    }
+
+    /**
+     * The block as a meeting time, so it can be checked for conflicts and exported like a class
+     *
+     * @returns The meeting time of the block
+     */
+    toMeeting(): CourseMeeting {
+        return new CourseMeeting({ days: this.days, startTime: this.startTime, endTime: this.endTime });
+    }
+
+    /**
+     * Whether a course meets at the same time as this block
+     *
+     * @param course - The course to check
+     * @returns True if any meeting of the course overlaps the block
+     */
+    conflictsWith(course: Course): boolean {
+        const meeting = this.toMeeting();
+        return course.schedule.meetings.some(other => meeting.isConflicting(other));
+    }
+}
@@ -1,3 +1,8 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { CourseListing, Semester } from './Course';
+import type Instructor from './Instructor';
+
 /**
  * Each of the possible letter grades that can be given in a course
  */
@@ -11,6 +16,86 @@ export type Distribution = {
     [key in LetterGrade]: number;
 };
 
+/**
+ * The grade distribution of a course in a single semester
+ */
+export type SemesterDistribution = {
+    semester: Semester;
+    distribution: Distribution;
+};
+
+/**
+ * Whether the average GPA of a course has been going up or down over the semesters we have data for
+ */
+export type GradeTrend = 'rising' | 'falling' | 'steady';
+
+/**
+ * Summary statistics computed from the grade distributions of a course
+ */
+export type GradeStats = {
+    /** The mean GPA of every student that got a letter grade, or undefined if nobody did */
+    averageGPA?: number;
+    /** The fraction (0-1) of letter-graded students that got an A or A- */
+    percentA: number;
+    /** The fraction (0-1) of all students that got an "Other" grade (Q drops, credit/no credit, etc.) */
+    otherRate: number;
+    /** The total number of students, including "Other" grades */
+    sampleSize: number;
+    /** How many semesters of data the stats are computed from */
+    semesterCount: number;
+    /** The average change in GPA from one semester to the next, or undefined with fewer than two semesters of grades */
+    gpaChangePerSemester?: number;
+    /** The direction of the GPA over time, or undefined with fewer than two semesters of grades */
+    trend?: GradeTrend;
+};
+
+/**
+ * The combined grade distribution of every section of a course taught by one instructor
+ */
+export type InstructorDistribution = {
+    firstName?: string;
+    lastName: string;
+    distribution: Distribution;
+    /** How many sections of the course the instructor has taught */
+    sectionCount: number;
+    /** How many semesters the instructor has taught the course in */
+    semesterCount: number;
+};
+
+/**
+ * Which of a course's instructors some grade data covers
+ */
+export type InstructorCoverage = {
+    /** The instructors the data is for, as named in the grade distribution database. Empty if the data is for every section of the course. */
+    matched: string[];
+    /** The instructors of the course that we don't have any data for */
+    unmatched: string[];
+};
+
+/**
+ * What to look up in the grade distribution database
+ */
+export type CourseGradesRequest = {
+    department: string;
+    number: string;
+    /** The instructors listed for the section, to pick out their grades */
+    instructors: Serialized<Instructor>[];
+    /** The other departments and numbers the course is listed under, whose grades count as the same class */
+    crossListings?: CourseListing[];
+};
+
+/**
+ * Everything we know about the grades of a course, as looked up in the grade distribution database
+ */
+export type CourseGrades = {
+    /** The grades of the course's instructors in each semester (or of every section, if we have no data for them), oldest first */
+    semesters: (SemesterDistribution & { coverage: InstructorCoverage })[];
+    /** Which of the course's instructors the grades cover */
+    coverage: InstructorCoverage;
+    /** The grades of every instructor that has taught the course, the ones that taught the most sections first */
+    instructors: InstructorDistribution[];
+};
+
 /**
  * This is a object-ified version of a row in the SQL table that is used to store the distribution data.
  */
@@ -0,0 +1,18 @@
+/**
+ * The name of the schedule that mirrors the sections the student is registered for
+ */
+export const REGISTERED_SCHEDULE_NAME = 'Registered';
+
+/**
+ * What changed in the "Registered" schedule after importing the class list
+ */
+export type RegisteredScheduleSummary = {
+    /** The id of the "Registered" schedule */
+    scheduleId: string;
+    /** Unique ids of the sections that were added to the schedule */
+    added: number[];
+    /** Unique ids of the sections that were already in the schedule */
+    skipped: number[];
+    /** Unique ids of the sections that were removed, since the student is no longer registered for them */
+    removed: number[];
+};
@@ -0,0 +1,14 @@
+/**
+ * A course schedule search the user saved, so they can run it again without filling out UT's search form
+ */
+export type SavedSearch = {
+    id: string;
+    /** The name the user gave the search, i.e. "CS electives" */
+    name: string;
+    /** UT's code for the semester the search is for, i.e. 20259 */
+    semesterCode: string;
+    /** The search form fields, as they appear in the results URL (i.e. fos_fl, level, unique_number or the instructor fields) */
+    params: Record<string, string>;
+    /** Unix timestamp of when the search was saved */
+    createdAt: number;
+};
@@ -0,0 +1,29 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { IOptionsStore } from '../storage/OptionsStore';
+import type { UserSchedule } from './UserSchedule';
+
+/**
+ * The current version of the backup file format. Bump this (and add a migration) whenever the shape changes.
+ *
+ * Version 0 is the legacy format, which was just a single schedule without an envelope.
+ */
+export const SCHEDULE_BACKUP_VERSION = 1;
+
+/**
+ * A portable backup of one or more of the user's schedules, as written to an exported file
+ */
+export type ScheduleBackup = {
+    /** The version of the backup format, used to migrate older files */
+    schemaVersion: typeof SCHEDULE_BACKUP_VERSION;
+    /** The version of the extension that created the backup */
+    extensionVersion: string;
+    /** Unix timestamp of when the backup was created */
+    exportedAt: number;
+    /** The backed up schedules, in the order the user had them */
+    schedules: Serialized<UserSchedule>[];
+    /** The index of the schedule that was active, only present in full backups */
+    activeIndex?: number;
+    /** The user's settings, only present in full backups */
+    options?: Partial<IOptionsStore>;
+};
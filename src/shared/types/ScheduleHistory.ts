@@ -0,0 +1,65 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { Course } from './Course';
+import type { CustomBlock } from './CustomBlock';
+import type { UserSchedule } from './UserSchedule';
+
+/**
+ * A single change to the user's schedules that can be replayed, i.e. to undo or redo a mutation.
+ * Operations are kept in the ScheduleHistoryStore, so they hold serialized courses and schedules
+ */
+export type ScheduleOperation =
+    | {
+          type: 'insertCourse';
+          scheduleId: string;
+          course: Serialized<Course>;
+          /** Where in the schedule's course list the course goes */
+          index: number;
+      }
+    | {
+          type: 'removeCourse';
+          scheduleId: string;
+          uniqueId: number;
+      }
+    | {
+          type: 'replaceCourses';
+          scheduleId: string;
+          courses: Serialized<Course>[];
+      }
+    | {
+          type: 'replaceBlocks';
+          scheduleId: string;
+          blocks: Serialized<CustomBlock>[];
+      }
+    | {
+          type: 'insertSchedule';
+          schedule: Serialized<UserSchedule>;
+          /** Where in the list of schedules the schedule goes */
+          index: number;
+          activeIndex: number;
+      }
+    | {
+          type: 'removeSchedule';
+          scheduleId: string;
+          activeIndex: number;
+      }
+    | {
+          type: 'replaceSchedules';
+          schedules: Serialized<UserSchedule>[];
+          activeIndex: number;
+      };
+
+/**
+ * A mutation the user made to their schedules, along with how to undo and redo it
+ */
+export type ScheduleHistoryEntry = {
+    id: string;
+    /** A human readable description of the mutation, i.e. "Removed C S 314" */
+    label: string;
+    /** Unix timestamp of when the mutation was made */
+    createdAt: number;
+    /** Reverts the mutation */
+    undo: ScheduleOperation;
+    /** Makes the mutation again, after it was undone */
+    redo: ScheduleOperation;
+};
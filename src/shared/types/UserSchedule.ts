@@ -1,25 +1,46 @@
 import type { Serialized } from 'chrome-extension-toolkit';
 
+import { sumCreditHours } from '../util/creditHours';
 import { generateRandomId } from '../util/random';
+import { inferScheduleSemester } from '../util/scheduleSemester';
+import type { Semester } from './Course';
 import { Course } from './Course';
+import { CustomBlock } from './CustomBlock';
+
+/**
+ * The most schedules a user can have, to encourage them to keep their schedules organized
+ */
+export const SCHEDULE_LIMIT = 10;
 
 /**
  * Represents a user's schedule that is stored in the extension
  */
 export class UserSchedule {
     courses: Course[];
+    /** Recurring events that aren't courses, i.e. work or the gym */
+    blocks: CustomBlock[];
     id: string;
     name: string;
+    /** The total credit hours of the schedule, counting variable-credit courses at their fewest hours */
     hours: number;
+    /** The total credit hours of the schedule, counting variable-credit courses at their most hours */
+    maxHours: number;
     /** Unix timestamp of when the schedule was last updated */
     updatedAt: number;
+    /** The semester the schedule is for, inferred from its courses; undefined while it has no courses */
+    semester?: Semester;
 
     constructor(schedule: Serialized<UserSchedule>) {
         this.courses = schedule.courses.map(c => new Course(c));
+        // schedules saved before blocks existed don't have any
+        this.blocks = (schedule.blocks ?? []).map(b => new CustomBlock(b));
         this.id = schedule.id ?? generateRandomId();
         this.name = schedule.name;
-        this.hours = this.courses.reduce((acc, c) => acc + c.creditHours, 0);
+        const hours = sumCreditHours(this.courses);
+        this.hours = hours.min;
+        this.maxHours = hours.max;
         this.updatedAt = schedule.updatedAt ?? 0;
+        this.semester = inferScheduleSemester(this.courses);
     }
 
     containsCourse(course: Course): boolean {
@@ -0,0 +1,21 @@
+/**
+ * The user's spot on the waitlist for a course, as shown on UT's waitlist page
+ */
+export type WaitlistInfo = {
+    /** The user's position on the waitlist, starting at 1 */
+    position: number;
+    /** The unique id of the course that gets dropped if the user gets in, if they set up a swap */
+    swapUniqueId?: number;
+    /** Unix timestamp of when the waitlist entry expires */
+    expiresAt?: number;
+    /** Unix timestamp of when the waitlist page was scraped */
+    scrapedAt: number;
+};
+
+/**
+ * A row of UT's waitlist page, tied to the course it's for
+ */
+export type WaitlistEntry = WaitlistInfo & {
+    /** The unique id of the waitlisted course */
+    uniqueId: number;
+};
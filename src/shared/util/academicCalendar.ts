@@ -0,0 +1,353 @@
+import type { AcademicCalendar, AcademicHoliday, AcademicTerm, ISODate } from '../types/AcademicCalendar';
+import type { Semester } from '../types/Course';
+import { DAY } from './time';
+
+/**
+ * UT's season digit in a semester code (the last digit of e.g. 20249)
+ */
+export const SEASON_CODES = {
+    Spring: 2,
+    Summer: 6,
+    Fall: 9,
+} as const satisfies Record<Semester['season'], number>;
+
+/**
+ * The bundled academic calendar, taken from the registrar's published calendars
+ */
+export const ACADEMIC_CALENDAR: AcademicCalendar = {
+    version: 1,
+    updatedAt: '2025-01-06',
+    terms: {
+        '20239': {
+            firstClassDay: '2023-08-21',
+            lastClassDay: '2023-12-04',
+            holidays: [
+                { name: 'Labor Day', start: '2023-09-04', end: '2023-09-04' },
+                { name: 'Thanksgiving', start: '2023-11-20', end: '2023-11-25' },
+            ],
+            finals: { start: '2023-12-08', end: '2023-12-14' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2023-04-10', end: '2023-08-18' },
+                { name: 'Add/Drop', start: '2023-08-21', end: '2023-08-24' },
+            ],
+        },
+        '20242': {
+            firstClassDay: '2024-01-16',
+            lastClassDay: '2024-04-29',
+            holidays: [{ name: 'Spring Break', start: '2024-03-11', end: '2024-03-16' }],
+            finals: { start: '2024-05-03', end: '2024-05-09' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2023-10-30', end: '2024-01-12' },
+                { name: 'Add/Drop', start: '2024-01-16', end: '2024-01-19' },
+            ],
+        },
+        '20246': {
+            firstClassDay: '2024-06-06',
+            lastClassDay: '2024-08-12',
+            holidays: [
+                { name: 'Juneteenth', start: '2024-06-19', end: '2024-06-19' },
+                { name: 'Independence Day', start: '2024-07-04', end: '2024-07-04' },
+            ],
+            finals: { start: '2024-08-13', end: '2024-08-16' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2024-04-08', end: '2024-06-05' },
+                { name: 'Add/Drop', start: '2024-06-06', end: '2024-06-07' },
+            ],
+        },
+        '20249': {
+            firstClassDay: '2024-08-26',
+            lastClassDay: '2024-12-09',
+            holidays: [
+                { name: 'Labor Day', start: '2024-09-02', end: '2024-09-02' },
+                { name: 'Thanksgiving', start: '2024-11-25', end: '2024-11-30' },
+            ],
+            finals: { start: '2024-12-12', end: '2024-12-18' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2024-04-08', end: '2024-08-23' },
+                { name: 'Add/Drop', start: '2024-08-26', end: '2024-08-29' },
+            ],
+        },
+        '20252': {
+            firstClassDay: '2025-01-13',
+            lastClassDay: '2025-04-28',
+            holidays: [
+                { name: 'Martin Luther King Jr. Day', start: '2025-01-20', end: '2025-01-20' },
+                { name: 'Spring Break', start: '2025-03-17', end: '2025-03-22' },
+            ],
+            finals: { start: '2025-05-02', end: '2025-05-08' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2024-11-04', end: '2025-01-10' },
+                { name: 'Add/Drop', start: '2025-01-13', end: '2025-01-16' },
+            ],
+        },
+        '20256': {
+            firstClassDay: '2025-06-05',
+            lastClassDay: '2025-08-11',
+            holidays: [
+                { name: 'Juneteenth', start: '2025-06-19', end: '2025-06-19' },
+                { name: 'Independence Day', start: '2025-07-04', end: '2025-07-04' },
+            ],
+            finals: { start: '2025-08-12', end: '2025-08-15' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2025-04-07', end: '2025-06-04' },
+                { name: 'Add/Drop', start: '2025-06-05', end: '2025-06-06' },
+            ],
+        },
+        '20259': {
+            firstClassDay: '2025-08-25',
+            lastClassDay: '2025-12-08',
+            holidays: [
+                { name: 'Labor Day', start: '2025-09-01', end: '2025-09-01' },
+                { name: 'Thanksgiving', start: '2025-11-24', end: '2025-11-29' },
+            ],
+            finals: { start: '2025-12-11', end: '2025-12-17' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2025-04-07', end: '2025-08-22' },
+                { name: 'Add/Drop', start: '2025-08-25', end: '2025-08-28' },
+            ],
+        },
+        '20262': {
+            firstClassDay: '2026-01-12',
+            lastClassDay: '2026-04-27',
+            holidays: [
+                { name: 'Martin Luther King Jr. Day', start: '2026-01-19', end: '2026-01-19' },
+                { name: 'Spring Break', start: '2026-03-16', end: '2026-03-21' },
+            ],
+            finals: { start: '2026-05-01', end: '2026-05-07' },
+            registrationPeriods: [
+                { name: 'Registration', start: '2025-11-03', end: '2026-01-09' },
+                { name: 'Add/Drop', start: '2026-01-12', end: '2026-01-15' },
+            ],
+        },
+    },
+};
+
+/**
+ * Parses an ISO date into a Date at midnight UTC, so that day arithmetic ignores the local timezone
+ *
+ * @param date - The date to parse
+ * @returns The parsed date
+ */
+export const parseISODate = (date: ISODate): Date => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Formats a Date (at midnight UTC) as an ISO date
+ *
+ * @param date - The date to format
+ * @returns The formatted date
+ */
+export const toISODate = (date: Date): ISODate => date.toISOString().slice(0, 10) as ISODate;
+
+/**
+ * Adds a number of days to an ISO date
+ */
+const addDays = (date: ISODate, days: number): ISODate => {
+    const result = parseISODate(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return toISODate(result);
+};
+
+/**
+ * Gets the first date on or after `date` that falls on the given weekday (0 = Sunday)
+ */
+const nextWeekday = (date: ISODate, weekday: number): ISODate => {
+    const offset = (weekday - parseISODate(date).getUTCDay() + 7) % 7;
+    return addDays(date, offset);
+};
+
+/**
+ * Gets the nth occurrence of a weekday (0 = Sunday) in a month (1 = January)
+ */
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): ISODate => {
+    const first = nextWeekday(`${year}-${String(month).padStart(2, '0')}-01` as ISODate, weekday);
+    return addDays(first, 7 * (n - 1));
+};
+
+/**
+ * Gets UT's semester code for a semester, i.e. 20249 for Fall 2024
+ *
+ * @param semester - The semester to get the code for
+ * @returns The semester code
+ */
+export function getSemesterCode(semester: Semester): string {
+    return semester.code ?? `${semester.year}${SEASON_CODES[semester.season]}`;
+}
+
+/**
+ * Tells whether two semesters are the same term
+ *
+ * @param a - A semester
+ * @param b - Another semester
+ * @returns True if both are the same term, i.e. Fall 2024
+ */
+export function isSameSemester(a: Semester, b: Semester): boolean {
+    return getSemesterCode(a) === getSemesterCode(b);
+}
+
+/**
+ * Formats a semester for display, i.e. "Fall 2024"
+ *
+ * @param semester - The semester to format
+ * @returns The semester's name
+ */
+export function formatSemester(semester: Semester): string {
+    return `${semester.season} ${semester.year}`;
+}
+
+/**
+ * Parses UT's semester code, i.e. 20249 for Fall 2024
+ *
+ * @param code - The semester code
+ * @returns The semester, or undefined if the code isn't valid
+ */
+export function parseSemesterCode(code: string): Semester | undefined {
+    const match = code.match(/^(\d{4})(\d)$/);
+    const season = (Object.keys(SEASON_CODES) as Semester['season'][]).find(
+        s => String(SEASON_CODES[s]) === match?.[2]
+    );
+
+    if (!match || !season) {
+        return undefined;
+    }
+
+    return { year: Number(match[1]), season, code };
+}
+
+/**
+ * Parses the name of a semester, as written on UT's pages, i.e. "Spring 2025" or "2025 Spring"
+ *
+ * @param name - The name of the semester
+ * @returns The semester, or undefined if the name isn't a fall, spring or summer semester
+ */
+export function parseSemesterName(name: string): Semester | undefined {
+    const season = (Object.keys(SEASON_CODES) as Semester['season'][]).find(s =>
+        new RegExp(`\\b${s}\\b`, 'i').test(name)
+    );
+    const year = name.match(/\b(\d{4})\b/)?.[1];
+
+    if (!season || !year) {
+        return undefined;
+    }
+
+    return { year: Number(year), season };
+}
+
+/**
+ * Estimates the dates of a term that is not in the bundled dataset, based on UT's usual academic calendar.
+ * Long semesters are 15 weeks of classes, and the summer session runs from early June to mid August.
+ *
+ * @param semester - The semester to estimate the dates for
+ * @returns The estimated term
+ */
+export function estimateAcademicTerm(semester: Semester): AcademicTerm {
+    const { year, season } = semester;
+    const MONDAY = 1;
+    const THURSDAY = 4;
+
+    let firstClassDay: ISODate;
+    let lastClassDay: ISODate;
+    let holidays: AcademicHoliday[];
+
+    switch (season) {
+        case 'Fall': {
+            firstClassDay = nextWeekday(`${year}-08-21`, MONDAY);
+            lastClassDay = addDays(firstClassDay, 15 * 7);
+            const thanksgiving = nthWeekdayOfMonth(year, 11, THURSDAY, 4);
+            holidays = [
+                {
+                    name: 'Labor Day',
+                    start: nthWeekdayOfMonth(year, 9, MONDAY, 1),
+                    end: nthWeekdayOfMonth(year, 9, MONDAY, 1),
+                },
+                { name: 'Thanksgiving', start: addDays(thanksgiving, -3), end: addDays(thanksgiving, 2) },
+            ];
+            break;
+        }
+        case 'Spring': {
+            firstClassDay = nextWeekday(`${year}-01-09`, MONDAY);
+            lastClassDay = addDays(firstClassDay, 15 * 7);
+            const mlkDay = nthWeekdayOfMonth(year, 1, MONDAY, 3);
+            const springBreak = addDays(firstClassDay, 9 * 7);
+            holidays = [
+                { name: 'Martin Luther King Jr. Day', start: mlkDay, end: mlkDay },
+                { name: 'Spring Break', start: springBreak, end: addDays(springBreak, 5) },
+            ];
+            break;
+        }
+        case 'Summer':
+        default: {
+            firstClassDay = nextWeekday(`${year}-06-01`, THURSDAY);
+            lastClassDay = addDays(firstClassDay, 67);
+            holidays = [
+                { name: 'Juneteenth', start: `${year}-06-19`, end: `${year}-06-19` },
+                { name: 'Independence Day', start: `${year}-07-04`, end: `${year}-07-04` },
+            ];
+            break;
+        }
+    }
+
+    return {
+        code: getSemesterCode(semester),
+        firstClassDay,
+        lastClassDay,
+        holidays: holidays.filter(({ start }) => start >= firstClassDay && start <= lastClassDay),
+        finals: { start: addDays(lastClassDay, 4), end: addDays(lastClassDay, 10) },
+        registrationPeriods: [],
+        isEstimated: true,
+    };
+}
+
+/**
+ * Looks up a term in the bundled academic calendar
+ *
+ * @param code - UT's code for the semester, i.e. 20249
+ * @returns The term, or undefined if it is not in the dataset
+ */
+export function findAcademicTerm(code: string): AcademicTerm | undefined {
+    const term = ACADEMIC_CALENDAR.terms[code];
+    if (!term) return undefined;
+
+    return { ...term, code, isEstimated: false };
+}
+
+/**
+ * Gets the important dates of a semester, falling back to an estimate when it is not in the bundled dataset
+ *
+ * @param semester - The semester to get the dates for
+ * @returns The term's dates
+ */
+export function getAcademicTerm(semester: Semester): AcademicTerm {
+    return findAcademicTerm(getSemesterCode(semester)) ?? estimateAcademicTerm(semester);
+}
+
+/**
+ * Expands the holidays of a term into every individual date that classes do not meet
+ *
+ * @param term - The term to get the holiday dates of
+ * @returns A sorted list of ISO dates
+ */
+export function getHolidayDates(term: AcademicTerm): ISODate[] {
+    const dates = new Set<ISODate>();
+
+    for (const { start, end } of term.holidays) {
+        for (let date = start; date <= end; date = addDays(date, 1)) {
+            dates.add(date);
+        }
+    }
+
+    return [...dates].sort();
+}
+
+/**
+ * Gets how many weeks of classes are left in a term, rounded up
+ *
+ * @param term - The term to check
+ * @param today - The current date, defaults to today
+ * @returns The number of weeks left, between 0 and the length of the term
+ */
+export function getClassWeeksRemaining(term: AcademicTerm, today: ISODate = toISODate(new Date())): number {
+    const from = today < term.firstClassDay ? term.firstClassDay : today;
+    const days = (parseISODate(term.lastClassDay).getTime() - parseISODate(from).getTime()) / DAY;
+
+    return Math.max(0, Math.ceil((days + 1) / 7));
+}
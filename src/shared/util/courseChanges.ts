@@ -0,0 +1,44 @@
+import type { Course } from '../types/Course';
+import type { CourseChange, CourseChangeField } from '../types/CourseChange';
+
+/**
+ * Describes the parts of a course that a background refresh keeps up to date, in a form that is easy to compare and display
+ */
+const describers = {
+    status: course => course.status,
+    instructors: course => course.instructors.map(i => i.toString({ format: 'first_last' })).join(', ') || 'TBA',
+    meetings: course =>
+        course.schedule.meetings
+            .map(meeting => {
+                const days = meeting.getDaysString({ format: 'short', separator: 'none' });
+                const time = meeting.getTimeString({ separator: '-' });
+                const location = meeting.location ? ` in ${meeting.location.building} ${meeting.location.room}` : '';
+                return `${days} ${time}${location}`.trim();
+            })
+            .join('; ') || 'Asynchronous',
+} as const satisfies Record<CourseChangeField, (course: Course) => string>;
+
+/**
+ * Compares a saved course with a freshly scraped copy of it
+ *
+ * @param previous - The course as it is saved in the user's schedules
+ * @param current - The course as it was just scraped
+ * @returns The fields that changed, empty if nothing did
+ */
+export function diffCourses(previous: Course, current: Course): CourseChange[] {
+    return (Object.keys(describers) as CourseChangeField[]).flatMap(field => {
+        const before = describers[field](previous);
+        const after = describers[field](current);
+        return before === after ? [] : [{ field, previous: before, current: after }];
+    });
+}
+
+/**
+ * Formats a change for display, i.e. "Status: OPEN → CLOSED"
+ *
+ * @param change - The change to format
+ * @returns The formatted change
+ */
+export function formatCourseChange({ field, previous, current }: CourseChange): string {
+    return `${field.charAt(0).toUpperCase()}${field.slice(1)}: ${previous} → ${current}`;
+}
@@ -0,0 +1,148 @@
+import type { Course, InstructionMode, StatusType } from '../types/Course';
+import type { Day } from '../types/CourseMeeting';
+import { isSameClass } from './crossListing';
+
+/**
+ * The filters the user picked in the course catalog. Empty lists mean "any".
+ */
+export type CourseFilters = {
+    /** Only show sections with one of these statuses */
+    statuses: StatusType[];
+    /** Only show sections taught in one of these ways */
+    instructionModes: InstructionMode[];
+    /** Only show sections that meet on no other days than these */
+    days: Day[];
+    /** Only show sections that start at or after this time, in minutes since midnight */
+    earliestStartTime?: number;
+    /** Only show sections that end at or before this time, in minutes since midnight */
+    latestEndTime?: number;
+    /** Only show sections taught by an instructor whose name contains this */
+    instructor: string;
+    /** Only show sections with every one of these flags */
+    flags: string[];
+    /** Only show sections that satisfy every one of these core requirements */
+    core: string[];
+    /** Hide sections that conflict with the active schedule */
+    hideConflicts: boolean;
+};
+
+/**
+ * How the sections in the course catalog can be ordered
+ */
+export type CourseSortOrder = 'default' | 'startTime' | 'gpa';
+
+export const DEFAULT_COURSE_FILTERS: CourseFilters = {
+    statuses: [],
+    instructionModes: [],
+    days: [],
+    instructor: '',
+    flags: [],
+    core: [],
+    hideConflicts: false,
+};
+
+/**
+ * Whether any of the filters would hide a section
+ *
+ * @param filters - The filters to check
+ * @returns True if at least one filter is set
+ */
+export const hasActiveFilters = (filters: CourseFilters): boolean =>
+    JSON.stringify(filters) !== JSON.stringify(DEFAULT_COURSE_FILTERS);
+
+/**
+ * Whether a section should be shown under the given filters
+ *
+ * @param course - The section to check
+ * @param filters - The filters the user picked
+ * @param scheduleCourses - The courses in the active schedule, to check for conflicts
+ * @returns True if the section passes every filter
+ */
+export function matchesCourseFilters(course: Course, filters: CourseFilters, scheduleCourses: Course[] = []): boolean {
+    const { statuses, instructionModes, days, earliestStartTime, latestEndTime, instructor, flags, core } = filters;
+    const meetings = course.schedule.meetings.filter(meeting => meeting.days.length > 0);
+
+    if (statuses.length > 0 && !statuses.includes(course.status)) {
+        return false;
+    }
+
+    if (instructionModes.length > 0 && !instructionModes.includes(course.instructionMode)) {
+        return false;
+    }
+
+    if (days.length > 0 && meetings.some(meeting => meeting.days.some(day => !days.includes(day)))) {
+        return false;
+    }
+
+    if (earliestStartTime !== undefined && meetings.some(meeting => meeting.startTime < earliestStartTime)) {
+        return false;
+    }
+
+    if (latestEndTime !== undefined && meetings.some(meeting => meeting.endTime > latestEndTime)) {
+        return false;
+    }
+
+    const instructorQuery = instructor.trim().toLowerCase();
+    if (
+        instructorQuery &&
+        !course.instructors.some(i =>
+            [i.fullName, i.firstName, i.lastName].some(name => name?.toLowerCase().includes(instructorQuery))
+        )
+    ) {
+        return false;
+    }
+
+    if (!flags.every(flag => course.flags.includes(flag)) || !core.every(c => course.core.includes(c))) {
+        return false;
+    }
+
+    if (
+        filters.hideConflicts &&
+        scheduleCourses.some(other => !isSameClass(course, other) && course.getConflicts(other).length > 0)
+    ) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Gets the earliest time a section meets during the week, for sorting
+ *
+ * @param course - The section
+ * @returns The earliest start time in minutes since midnight, or undefined for sections without meeting times
+ */
+export function getEarliestStartTime(course: Course): number | undefined {
+    const startTimes = course.schedule.meetings.filter(m => m.days.length > 0).map(m => m.startTime);
+    return startTimes.length > 0 ? Math.min(...startTimes) : undefined;
+}
+
+/**
+ * Builds a comparator that orders sections by the given sort order. Sections without a value go last.
+ *
+ * @param order - How to sort the sections
+ * @param gpas - The mean GPA of each section, keyed by unique id (only needed when sorting by GPA)
+ * @returns A comparator for Array.prototype.sort, or undefined to keep the original order
+ */
+export function getCourseComparator(
+    order: CourseSortOrder,
+    gpas: Map<number, number | undefined> = new Map()
+): ((a: Course, b: Course) => number) | undefined {
+    if (order === 'default') {
+        return undefined;
+    }
+
+    // earliest first for times, highest first for GPAs
+    const getValue = (course: Course) =>
+        order === 'startTime' ? getEarliestStartTime(course) : -(gpas.get(course.uniqueId) ?? Number.NaN);
+
+    return (a, b) => {
+        const valueA = getValue(a) ?? Number.NaN;
+        const valueB = getValue(b) ?? Number.NaN;
+
+        if (Number.isNaN(valueA) || Number.isNaN(valueB)) {
+            return Number(Number.isNaN(valueA)) - Number(Number.isNaN(valueB));
+        }
+        return valueA - valueB;
+    };
+}
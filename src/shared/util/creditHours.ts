@@ -0,0 +1,114 @@
+import type { Course, CreditHourRange } from '../types/Course';
+
+const NUMBER_WORDS: Record<string, number> = {
+    zero: 0,
+    one: 1,
+    two: 2,
+    three: 3,
+    four: 4,
+    five: 5,
+    six: 6,
+    seven: 7,
+    eight: 8,
+    nine: 9,
+};
+
+const HOURS_VALUE = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+/**
+ * Matches the credit a description states, such as "3 credit hours" or "one to six semester hours of credit".
+ * Contact hours ("three lecture hours a week") and coursework ("six semester hours of biology") don't count.
+ */
+const DESCRIPTION_HOURS_REGEX = new RegExp(
+    `\\b${HOURS_VALUE}(?:\\s*(?:to|or|-|–)\\s*${HOURS_VALUE})?\\s+(?:credit\\s+hours?|(?:semester\\s+)?hours?\\s+of\\s+credit)\\b`,
+    'i'
+);
+
+const parseHoursValue = (value: string) => NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+/**
+ * Works out how many credit hours a course is worth from its number.
+ * The first digit is the number of semester hours, and A/B or X/Y/Z suffixes split them across two or three semesters.
+ * Summer sections prefix the number with their session, i.e. "f408C" or "n302".
+ *
+ * @example
+ * ```
+ * parseCreditHours('314H') => { min: 3, max: 3 }
+ * parseCreditHours('698A') => { min: 3, max: 3 }
+ * parseCreditHours('f408C') => { min: 4, max: 4 }
+ * parseCreditHours('088L') => { min: 0, max: 0 }
+ * ```
+ * @param courseNumber - The course number, without the department
+ * @returns The credit hours, or undefined if the number doesn't start with a digit
+ */
+export function parseCreditHours(courseNumber: string): CreditHourRange | undefined {
+    const match = courseNumber.trim().match(/^[a-z]?(\d)\d*([A-Z]?)$/i);
+    if (!match?.[1]) {
+        return undefined;
+    }
+
+    let hours = Number(match[1]);
+    const suffix = match[2]?.toUpperCase();
+    if (suffix === 'A' || suffix === 'B') {
+        hours /= 2;
+    } else if (suffix === 'X' || suffix === 'Y' || suffix === 'Z') {
+        hours /= 3;
+    }
+
+    return { min: hours, max: hours };
+}
+
+/**
+ * Finds the credit hours stated in a course description, which is the only place variable-credit courses list their range
+ *
+ * @param description - The lines of the course description
+ * @returns The credit hours, or undefined if the description doesn't state them
+ */
+export function parseDescriptionCreditHours(description: string[]): CreditHourRange | undefined {
+    // prerequisites talk about hours of credit the student already has, not what the course is worth
+    for (const line of description.filter(l => !/prerequisite/i.test(l))) {
+        const match = line.match(DESCRIPTION_HOURS_REGEX);
+        if (match?.[1]) {
+            const first = parseHoursValue(match[1]);
+            const second = match[2] ? parseHoursValue(match[2]) : first;
+            return { min: Math.min(first, second), max: Math.max(first, second) };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Gets the range of credit hours a course can be taken for
+ *
+ * @param course - The course
+ * @returns The minimum and maximum credit hours, which are equal for fixed-credit courses
+ */
+export function getCreditHourRange(course: Pick<Course, 'creditHours' | 'maxCreditHours'>): CreditHourRange {
+    return { min: course.creditHours, max: Math.max(course.creditHours, course.maxCreditHours ?? 0) };
+}
+
+/**
+ * Adds up the credit hours of a list of courses
+ *
+ * @param courses - The courses to add up
+ * @returns The smallest and largest number of hours the courses can add up to
+ */
+export function sumCreditHours(courses: Pick<Course, 'creditHours' | 'maxCreditHours'>[]): CreditHourRange {
+    return courses
+        .map(getCreditHourRange)
+        .reduce((acc, range) => ({ min: acc.min + range.min, max: acc.max + range.max }), {
+            min: 0,
+            max: 0,
+        });
+}
+
+/**
+ * Formats a credit hour range, i.e. "3" or "1–6"
+ *
+ * @param range - The range to format
+ * @returns The formatted range
+ */
+export function formatCreditHours({ min, max }: CreditHourRange): string {
+    return min === max ? String(min) : `${min}–${max}`;
+}
@@ -0,0 +1,107 @@
+import type { Course, CourseListing, CourseTopic } from '../types/Course';
+
+/**
+ * Matches a course listing such as "C S 378", "WGS 340" or "ANS 361 (Topic 6)"
+ */
+const LISTING_REGEX = /\b([A-Z]{1,4}(?: [A-Z]{1,4})?) (\d{3}[A-Z]?)\b(?: \(Topic (\d+)[^)]*\))?/g;
+
+/**
+ * Matches a topic line such as "Topic 6: Modern Japan" or "Topic: Modern Japan"
+ */
+const TOPIC_REGEX = /^Topic(?: (\d+))?(?: title)?\s*[:.-]\s*(.+?)\.?$/i;
+
+const normalizeDepartment = (department: string) => department.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Parses the other listings of a cross-listed course from the "Same as ..." sentences of its description
+ *
+ * @example
+ * ```
+ * parseCrossListings(['Same as AFR 372C (Topic 2) and WGS 340.']) => [
+ *     { department: 'AFR', number: '372C', topic: 2 },
+ *     { department: 'WGS', number: '340' },
+ * ]
+ * ```
+ * @param description - The lines of the course description
+ * @returns The other listings, empty if the course isn't cross-listed
+ */
+export function parseCrossListings(description: string[]): CourseListing[] {
+    const listings: CourseListing[] = [];
+
+    for (const line of description) {
+        for (const [, sentence = ''] of line.matchAll(/same as (.+?)(?:\.(?:\s|$)|$)/gi)) {
+            for (const [, department = '', number = '', topic] of sentence.matchAll(LISTING_REGEX)) {
+                listings.push({ department, number, ...(topic && { topic: Number(topic) }) });
+            }
+        }
+    }
+
+    return listings;
+}
+
+/**
+ * Parses the topic of a section of a topics course from its description
+ *
+ * @param description - The lines of the course description
+ * @returns The topic, or undefined if the course isn't a topics course
+ */
+export function parseTopic(description: string[]): CourseTopic | undefined {
+    for (const line of description) {
+        const match = line.trim().match(TOPIC_REGEX);
+        if (match?.[2]) {
+            return { ...(match[1] && { number: Number(match[1]) }), title: match[2].trim() };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether a course is listed under a department and number, ignoring spacing in the department code
+ *
+ * @param course - The course to check
+ * @param listing - The department and number to look for
+ * @returns True if the course's own listing or one of its cross-listings matches
+ */
+export function isListedAs(
+    course: Pick<Course, 'department' | 'number' | 'crossListings'>,
+    listing: CourseListing
+): boolean {
+    return [course, ...(course.crossListings ?? [])].some(
+        ({ department, number }) =>
+            normalizeDepartment(department) === normalizeDepartment(listing.department) && number === listing.number
+    );
+}
+
+/**
+ * Whether two sections are the same class: either the same section, or cross-listed sections that meet together
+ *
+ * @param course - A section
+ * @param other - Another section
+ * @returns True if they are the same class
+ */
+export function isSameClass(course: Course, other: Course): boolean {
+    if (course.uniqueId === other.uniqueId) {
+        return true;
+    }
+
+    const isCrossListed =
+        (course.crossListings ?? []).some(listing => isListedAs(other, listing)) ||
+        (other.crossListings ?? []).some(listing => isListedAs(course, listing));
+    if (
+        !isCrossListed ||
+        course.semester.year !== other.semester.year ||
+        course.semester.season !== other.semester.season
+    ) {
+        return false;
+    }
+
+    // cross-listed sections are taught together, so they meet at exactly the same times
+    const getMeetingTimes = (section: Course) =>
+        section.schedule.meetings
+            .map(meeting => `${meeting.days.join(',')} ${meeting.startTime}-${meeting.endTime}`)
+            .sort()
+            .join(';');
+
+    return getMeetingTimes(course) === getMeetingTimes(other);
+}
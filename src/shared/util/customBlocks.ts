@@ -0,0 +1,77 @@
+import type { Course } from '../types/Course';
+import type { CustomBlock } from '../types/CustomBlock';
+import { formatTimeOfDay } from './scheduleComparison';
+
+/**
+ * The fields of a block that the user fills in
+ */
+export type CustomBlockFields = Pick<CustomBlock, 'title' | 'days' | 'startTime' | 'endTime'>;
+
+/**
+ * Checks a block the user filled in before it's saved
+ *
+ * @param block - The block to check
+ * @returns What's wrong with the block, or undefined if it can be saved
+ */
+export function validateCustomBlock(block: CustomBlockFields): string | undefined {
+    if (!block.title.trim()) {
+        return 'Give the block a title';
+    }
+    if (block.days.length === 0) {
+        return 'Pick at least one day';
+    }
+    if (block.endTime <= block.startTime) {
+        return 'The block has to end after it starts';
+    }
+    return undefined;
+}
+
+/**
+ * Finds the blocks of a schedule that a course meets at the same time as
+ *
+ * @param course - The course to check
+ * @param blocks - The blocks of the schedule
+ * @returns The blocks that overlap the course
+ */
+export function getBlockConflicts(course: Course, blocks: CustomBlock[]): CustomBlock[] {
+    return blocks.filter(block => block.conflictsWith(course));
+}
+
+/**
+ * Describes a block for the user, i.e. "Work (9:00 AM – 5:00 PM)"
+ *
+ * @param block - The block to describe
+ * @returns The description
+ */
+export function describeCustomBlock(block: CustomBlockFields): string {
+    return `${block.title} (${formatTimeOfDay(block.startTime)} – ${formatTimeOfDay(block.endTime)})`;
+}
+
+/**
+ * Reads the value of a time input, i.e. "13:30"
+ *
+ * @param value - The value of the input
+ * @returns The time in minutes since midnight, or undefined if the input is empty or invalid
+ */
+export function parseTimeInput(value: string): number | undefined {
+    const match = value.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+}
+
+/**
+ * Formats a time as the value of a time input, i.e. "13:30"
+ *
+ * @param minutes - The time in minutes since midnight
+ * @returns The value for the input
+ */
+export function formatTimeInput(minutes: number): string {
+    return `${Math.floor(minutes / 60)
+        .toString()
+        .padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,167 @@
+import type { Distribution, GradeStats, GradeTrend, LetterGrade, SemesterDistribution } from '../types/Distribution';
+import { getSemesterCode } from './academicCalendar';
+
+/**
+ * The grade points UT gives for each letter grade. "Other" (Q drops, credit/no credit, etc.) doesn't count towards GPA.
+ */
+export const GRADE_POINTS = {
+    A: 4,
+    'A-': 3.67,
+    'B+': 3.33,
+    B: 3,
+    'B-': 2.67,
+    'C+': 2.33,
+    C: 2,
+    'C-': 1.67,
+    'D+': 1.33,
+    D: 1,
+    'D-': 0.67,
+    F: 0,
+} as const satisfies Record<Exclude<LetterGrade, 'Other'>, number>;
+
+/**
+ * Computes the mean GPA of a grade distribution
+ *
+ * @param distribution - The number of students that got each grade
+ * @returns The mean GPA, or undefined if nobody got a letter grade
+ */
+export function getAverageGPA(distribution: Distribution): number | undefined {
+    let students = 0;
+    let points = 0;
+
+    for (const [grade, gradePoints] of Object.entries(GRADE_POINTS) as [keyof typeof GRADE_POINTS, number][]) {
+        students += distribution[grade];
+        points += distribution[grade] * gradePoints;
+    }
+
+    return students > 0 ? points / students : undefined;
+}
+
+/**
+ * How much the GPA has to change per semester before we call it a trend
+ */
+export const GPA_TREND_THRESHOLD = 0.02;
+
+const LETTER_GRADES = [...Object.keys(GRADE_POINTS), 'Other'] as LetterGrade[];
+
+/**
+ * Adds up several grade distributions into one
+ *
+ * @param distributions - The distributions to add up
+ * @returns The number of students that got each grade across all of the distributions
+ */
+export function sumDistributions(distributions: Distribution[]): Distribution {
+    const total = Object.fromEntries(LETTER_GRADES.map(grade => [grade, 0])) as Distribution;
+
+    for (const distribution of distributions) {
+        for (const grade of LETTER_GRADES) {
+            total[grade] += distribution[grade];
+        }
+    }
+
+    return total;
+}
+
+/**
+ * Converts a grade distribution from student counts to the fraction of students that got each grade,
+ * so that courses with different numbers of students can be compared
+ *
+ * @param distribution - The number of students that got each grade
+ * @returns The fraction (0-1) of students that got each grade, all zero if there are no students
+ */
+export function getGradeFractions(distribution: Distribution): Distribution {
+    const students = LETTER_GRADES.reduce((acc, grade) => acc + distribution[grade], 0);
+
+    return Object.fromEntries(
+        LETTER_GRADES.map(grade => [grade, students > 0 ? distribution[grade] / students : 0])
+    ) as Distribution;
+}
+
+/**
+ * Computes the least-squares slope of the GPA over consecutive semesters
+ *
+ * @param gpas - The GPA of each semester, oldest first
+ * @returns The average change in GPA per semester, or undefined with fewer than two GPAs
+ */
+function getGPASlope(gpas: number[]): number | undefined {
+    if (gpas.length < 2) {
+        return undefined;
+    }
+
+    const meanX = (gpas.length - 1) / 2;
+    const meanY = gpas.reduce((acc, gpa) => acc + gpa, 0) / gpas.length;
+
+    let numerator = 0;
+    let denominator = 0;
+    gpas.forEach((gpa, x) => {
+        numerator += (x - meanX) * (gpa - meanY);
+        denominator += (x - meanX) ** 2;
+    });
+
+    return numerator / denominator;
+}
+
+/**
+ * Computes summary statistics for a course from its grade distribution in each semester
+ *
+ * @param semesters - The grade distribution of each semester, in any order
+ * @returns The stats, or undefined if there is no data at all
+ */
+export function getGradeStats(semesters: SemesterDistribution[]): GradeStats | undefined {
+    const total = sumDistributions(semesters.map(({ distribution }) => distribution));
+    const sampleSize = LETTER_GRADES.reduce((acc, grade) => acc + total[grade], 0);
+
+    if (sampleSize === 0) {
+        return undefined;
+    }
+
+    const letterGraded = sampleSize - total.Other;
+    const semesterGPAs = [...semesters]
+        .sort((a, b) => getSemesterCode(a.semester).localeCompare(getSemesterCode(b.semester)))
+        .map(({ distribution }) => getAverageGPA(distribution))
+        .filter((gpa): gpa is number => gpa !== undefined);
+    const gpaChangePerSemester = getGPASlope(semesterGPAs);
+
+    let trend: GradeTrend | undefined;
+    if (gpaChangePerSemester !== undefined) {
+        if (gpaChangePerSemester >= GPA_TREND_THRESHOLD) {
+            trend = 'rising';
+        } else if (gpaChangePerSemester <= -GPA_TREND_THRESHOLD) {
+            trend = 'falling';
+        } else {
+            trend = 'steady';
+        }
+    }
+
+    return {
+        averageGPA: getAverageGPA(total),
+        percentA: letterGraded > 0 ? (total.A + total['A-']) / letterGraded : 0,
+        otherRate: total.Other / sampleSize,
+        sampleSize,
+        semesterCount: semesters.length,
+        gpaChangePerSemester,
+        trend,
+    };
+}
+
+/**
+ * Describes grade stats in a few lines, for tooltips
+ *
+ * @param stats - The stats to describe
+ * @returns One line per stat
+ */
+export function formatGradeStats(stats: GradeStats): string[] {
+    const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+    return [
+        `Average GPA: ${stats.averageGPA?.toFixed(2) ?? 'N/A'}`,
+        `${percent(stats.percentA)} A's`,
+        `${percent(stats.otherRate)} dropped or other grades`,
+        `${stats.sampleSize.toLocaleString()} students over ${stats.semesterCount} semester${stats.semesterCount === 1 ? '' : 's'}`,
+        ...(stats.trend && stats.gpaChangePerSemester !== undefined
+            ? [
+                  `GPA ${stats.trend === 'steady' ? 'has been steady' : `is ${stats.trend}`} (${stats.gpaChangePerSemester >= 0 ? '+' : ''}${stats.gpaChangePerSemester.toFixed(2)} per semester)`,
+              ]
+            : []),
+    ];
+}
@@ -0,0 +1,345 @@
+import type { AcademicTerm } from '../types/AcademicCalendar';
+import type { Course, Semester } from '../types/Course';
+import type { CourseMeeting, Day } from '../types/CourseMeeting';
+import type { CustomBlock } from '../types/CustomBlock';
+import { getAcademicTerm, getHolidayDates, getSemesterCode, parseISODate, toISODate } from './academicCalendar';
+import { inferScheduleSemester } from './scheduleSemester';
+
+/** The timezone that every UT Austin class meets in */
+export const ICS_TIMEZONE = 'America/Chicago';
+
+/**
+ * A map of the days of the week to their iCalendar (RFC 5545) abbreviations
+ */
+export const CAL_MAP = {
+    Sunday: 'SU',
+    Monday: 'MO',
+    Tuesday: 'TU',
+    Wednesday: 'WE',
+    Thursday: 'TH',
+    Friday: 'FR',
+    Saturday: 'SA',
+} as const satisfies Record<Day, string>;
+
+/**
+ * A map of the days of the week to their index in `Date.prototype.getUTCDay()`
+ */
+const DAY_INDEX = {
+    Sunday: 0,
+    Monday: 1,
+    Tuesday: 2,
+    Wednesday: 3,
+    Thursday: 4,
+    Friday: 5,
+    Saturday: 6,
+} as const satisfies Record<Day, number>;
+
+/**
+ * The VTIMEZONE definition for America/Chicago, using the US daylight saving rules in effect since 2007
+ */
+const CHICAGO_VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${ICS_TIMEZONE}`,
+    `X-LIC-LOCATION:${ICS_TIMEZONE}`,
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:-0600',
+    'TZOFFSETTO:-0500',
+    'TZNAME:CDT',
+    'DTSTART:19700308T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:-0500',
+    'TZOFFSETTO:-0600',
+    'TZNAME:CST',
+    'DTSTART:19701101T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+] as const;
+
+/**
+ * Options to control how a calendar file is generated
+ */
+export type ICSOptions = {
+    /** The name of the calendar shown by calendar apps when importing */
+    calendarName?: string;
+    /** When set, every class gets a reminder this many minutes before it starts */
+    alarmMinutesBefore?: number;
+    /** Unix timestamp used for DTSTAMP, defaults to now */
+    timestamp?: number;
+    /** Resolves the term dates for a course's semester, defaults to the academic calendar */
+    termDates?: (semester: Semester) => AcademicTerm | undefined;
+    /** Recurring blocks (i.e. work) to add, repeating over the term of the semester the courses are in */
+    blocks?: CustomBlock[];
+};
+
+/**
+ * Formats the given number of minutes into a string representation of HHMMSS format.
+ *
+ * @param minutes - The number of minutes to format.
+ * @returns A string representation of the given minutes in HHMMSS format.
+ */
+export const formatToHHMMSS = (minutes: number) => {
+    const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+    const mins = String(minutes % 60).padStart(2, '0');
+    return `${hours}${mins}00`;
+};
+
+/**
+ * Escapes a TEXT value so that commas, semicolons, backslashes and newlines survive parsing
+ *
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+export function escapeICSText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so that no physical line is longer than 75 octets (RFC 5545 section 3.1)
+ *
+ * @param line - The unfolded content line
+ * @returns The folded content line, with continuation lines joined by CRLF and a single space
+ */
+export function foldICSLine(line: string): string {
+    const encoder = new TextEncoder();
+    const folded: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        // continuation lines lose one octet to the leading space
+        const limit = folded.length === 0 ? 75 : 74;
+
+        if (currentOctets + octets > limit) {
+            folded.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+
+        current += char;
+        currentOctets += octets;
+    }
+    folded.push(current);
+
+    return folded.join('\r\n ');
+}
+
+/**
+ * Formats a Date (at midnight UTC) into the YYYYMMDD format used by iCalendar
+ */
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * Formats a Date into the UTC date-time format used by iCalendar (YYYYMMDDTHHMMSSZ)
+ */
+const formatUTCDateTime = (date: Date): string => `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+
+/**
+ * Gets the offset of America/Chicago from UTC in minutes (e.g. -300 for CDT) at the given instant
+ */
+function getChicagoOffset(instant: Date): number {
+    const timeZoneName = new Intl.DateTimeFormat('en-US', { timeZone: ICS_TIMEZONE, timeZoneName: 'shortOffset' })
+        .formatToParts(instant)
+        .find(part => part.type === 'timeZoneName')?.value;
+    const match = timeZoneName?.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+    if (!match) return 0;
+
+    const [, sign, hours, minutes] = match;
+    return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes ?? 0));
+}
+
+/**
+ * Converts a wall-clock time in America/Chicago on the given day into a UTC instant
+ *
+ * @param date - The day (at midnight UTC)
+ * @param minutes - Minutes since midnight, local time
+ * @returns The matching UTC instant
+ */
+function chicagoTimeToUTC(date: Date, minutes: number): Date {
+    const wallClock = date.getTime() + minutes * 60_000;
+    const offset = getChicagoOffset(new Date(wallClock));
+    return new Date(wallClock - offset * 60_000);
+}
+
+/**
+ * Gets every date in [start, end] (inclusive) that falls on one of the given days
+ */
+function getMeetingDates(start: Date, end: Date, days: Day[]): Date[] {
+    const dayIndexes = new Set<number>(days.map(day => DAY_INDEX[day]));
+    const dates: Date[] = [];
+
+    for (let date = new Date(start); date <= end; date.setUTCDate(date.getUTCDate() + 1)) {
+        if (dayIndexes.has(date.getUTCDay())) {
+            dates.push(new Date(date));
+        }
+    }
+
+    return dates;
+}
+
+/**
+ * Builds the lines of a VEVENT that set when it happens: weekly on the given days from the first to the last class day of the term
+ *
+ * @returns The lines, or undefined if the event never happens during the term
+ */
+function getRecurrenceLines(
+    { days, startTime, endTime }: Pick<CourseMeeting, 'days' | 'startTime' | 'endTime'>,
+    term: AcademicTerm,
+    options: ICSOptions,
+    skipHolidays: boolean
+): string[] | undefined {
+    const meetingDates = getMeetingDates(parseISODate(term.firstClassDay), parseISODate(term.lastClassDay), days);
+    const firstMeeting = meetingDates[0];
+
+    if (!firstMeeting) {
+        return undefined;
+    }
+
+    const holidays = new Set(skipHolidays ? getHolidayDates(term) : []);
+    const excludedDates = meetingDates.filter(date => holidays.has(toISODate(date)));
+
+    const start = formatToHHMMSS(startTime);
+    const end = formatToHHMMSS(endTime);
+    const until = chicagoTimeToUTC(parseISODate(term.lastClassDay), 24 * 60 - 1);
+
+    const lines = [
+        `DTSTAMP:${formatUTCDateTime(new Date(options.timestamp ?? Date.now()))}`,
+        `DTSTART;TZID=${ICS_TIMEZONE}:${formatDate(firstMeeting)}T${start}`,
+        `DTEND;TZID=${ICS_TIMEZONE}:${formatDate(firstMeeting)}T${end}`,
+        `RRULE:FREQ=WEEKLY;UNTIL=${formatUTCDateTime(until)};BYDAY=${days.map(day => CAL_MAP[day]).join(',')}`,
+    ];
+
+    if (excludedDates.length > 0) {
+        lines.push(
+            `EXDATE;TZID=${ICS_TIMEZONE}:${excludedDates.map(date => `${formatDate(date)}T${start}`).join(',')}`
+        );
+    }
+
+    return lines;
+}
+
+/**
+ * Builds the VEVENT lines for a single meeting of a course
+ */
+function createMeetingEvent(
+    course: Course,
+    meeting: CourseMeeting,
+    meetingIndex: number,
+    term: AcademicTerm,
+    options: ICSOptions
+): string[] {
+    const recurrence = getRecurrenceLines(meeting, term, options, true);
+
+    if (!recurrence) {
+        return [];
+    }
+
+    const { location } = meeting;
+    const locationText = location ? `${location.building} ${location.room}`.trim() : '';
+    const instructors = course.instructors.map(instructor => instructor.toString({ format: 'first_last' }));
+
+    const description = [`Unique: ${course.uniqueId}`];
+    if (instructors.length > 0) {
+        description.push(`Instructor: ${instructors.join(', ')}`);
+    }
+    description.push(course.url);
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${getSemesterCode(course.semester)}-${course.uniqueId}-${meetingIndex}@utregistrationplus`,
+        ...recurrence,
+    ];
+
+    lines.push(`SUMMARY:${escapeICSText(course.fullName)}`);
+    lines.push(`DESCRIPTION:${escapeICSText(description.join('\n'))}`);
+    if (locationText) {
+        lines.push(`LOCATION:${escapeICSText(locationText)}`);
+    }
+
+    if (options.alarmMinutesBefore !== undefined) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeICSText(`${course.department} ${course.number} starts soon`)}`,
+            `TRIGGER:-PT${Math.max(0, Math.round(options.alarmMinutesBefore))}M`,
+            'END:VALARM'
+        );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Builds the VEVENT lines for a block. Unlike classes, blocks aren't skipped on university holidays.
+ */
+function createBlockEvent(block: CustomBlock, term: AcademicTerm, options: ICSOptions): string[] {
+    const recurrence = getRecurrenceLines(block, term, options, false);
+
+    if (!recurrence) {
+        return [];
+    }
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:block-${block.id}@utregistrationplus`,
+        ...recurrence,
+        `SUMMARY:${escapeICSText(block.title)}`,
+        'END:VEVENT',
+    ];
+}
+
+/**
+ * Generates an iCalendar (RFC 5545) file for the given courses.
+ * Each meeting becomes a weekly recurring event that starts on the first matching day of the term,
+ * ends on the last class day, and skips university holidays.
+ * Courses from a semester that `termDates` cannot resolve are left out.
+ *
+ * @param courses - The courses to put on the calendar
+ * @param options - Options to control the generated calendar
+ * @returns The contents of the .ics file
+ */
+export function generateICS(courses: Course[], options: ICSOptions = {}): string {
+    const { calendarName = 'My Schedule', termDates = getAcademicTerm } = options;
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//UT Registration Plus//Schedule Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+        `X-WR-TIMEZONE:${ICS_TIMEZONE}`,
+        ...CHICAGO_VTIMEZONE,
+    ];
+
+    for (const course of courses) {
+        const term = termDates(course.semester);
+        if (!term) {
+            console.warn(`No term dates found for ${course.semester.season} ${course.semester.year}`);
+            continue;
+        }
+
+        course.schedule.meetings.forEach((meeting, meetingIndex) => {
+            lines.push(...createMeetingEvent(course, meeting, meetingIndex, term, options));
+        });
+    }
+
+    const { blocks = [] } = options;
+    const blockSemester = inferScheduleSemester(courses);
+    const blockTerm = blockSemester && termDates(blockSemester);
+    if (blocks.length > 0 && !blockTerm) {
+        console.warn('No term dates found for the blocks, since the schedule has no courses in a known semester');
+    } else if (blockTerm) {
+        for (const block of blocks) {
+            lines.push(...createBlockEvent(block, blockTerm, options));
+        }
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return `${lines.map(foldICSLine).join('\r\n')}\r\n`;
+}
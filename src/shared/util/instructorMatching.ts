@@ -0,0 +1,133 @@
+import type { InstructorCoverage } from '../types/Distribution';
+import type Instructor from '../types/Instructor';
+import { capitalize } from './string';
+
+/**
+ * An instructor's name as it is stored in the grade distribution database
+ */
+export type DatabaseInstructor = {
+    firstName: string | null;
+    lastName: string | null;
+};
+
+type InstructorName = Pick<Instructor, 'firstName' | 'lastName' | 'middleInitial' | 'fullName'>;
+
+/**
+ * Normalizes a name for comparison: lowercase, no accents, and hyphens, apostrophes and periods turned into spaces
+ *
+ * @param name - The name to normalize
+ * @returns The words of the name
+ */
+export function getNameTokens(name: string | null | undefined): string[] {
+    return (name ?? '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[-'’.,]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/**
+ * Whether two last names belong to the same person, allowing for hyphenated and compound names
+ * being written differently (i.e. "GARCIA-LOPEZ" and "GARCIA LOPEZ", or "DE LA CRUZ" and "DELACRUZ"),
+ * or only part of a compound name being used (i.e. "GARCIA-LOPEZ" and "GARCIA")
+ */
+function isSameLastName(a: string[], b: string[]): boolean {
+    if (a.length === 0 || b.length === 0) {
+        return false;
+    }
+
+    if (a.join('') === b.join('')) {
+        return true;
+    }
+
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    return shorter.every(token => longer.includes(token));
+}
+
+/**
+ * Whether two first names can belong to the same person, treating a single letter as an initial
+ */
+const isSameFirstName = (a: string, b: string): boolean =>
+    a === b || (a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b));
+
+/**
+ * Gets the parts of an instructor's name, falling back to parsing the "LAST, FIRST M" full name
+ */
+function getInstructorName({ firstName, lastName, middleInitial, fullName }: InstructorName) {
+    if (lastName || !fullName) {
+        return { last: getNameTokens(lastName), first: getNameTokens(firstName), middle: getNameTokens(middleInitial) };
+    }
+
+    const [last = '', rest = ''] = fullName.split(',');
+    const [first = '', ...middle] = getNameTokens(rest);
+    return { last: getNameTokens(last), first: first ? [first] : [], middle };
+}
+
+/**
+ * Whether an instructor from the course schedule is the same person as an instructor in the grade distribution database.
+ * The last names have to match, and the first names and middle initials have to match whenever both sides have them.
+ *
+ * @param instructor - The instructor from the course schedule
+ * @param candidate - The instructor from the grade distribution database
+ * @returns True if they are the same person
+ */
+export function isSameInstructor(instructor: InstructorName, candidate: DatabaseInstructor): boolean {
+    const { last, first, middle } = getInstructorName(instructor);
+    const [candidateFirst, candidateMiddle] = getNameTokens(candidate.firstName);
+
+    if (!isSameLastName(last, getNameTokens(candidate.lastName))) {
+        return false;
+    }
+
+    if (first[0] && candidateFirst && !isSameFirstName(first[0], candidateFirst)) {
+        return false;
+    }
+
+    if (middle[0] && candidateMiddle && middle[0][0] !== candidateMiddle[0]) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Formats the name of an instructor from the grade distribution database for display, i.e. "Jane Smith"
+ *
+ * @param instructor - The instructor from the grade distribution database
+ * @returns The instructor's name
+ */
+export const formatDatabaseInstructor = ({ firstName, lastName }: DatabaseInstructor): string =>
+    capitalize([firstName, lastName].filter(Boolean).join(' ').toLowerCase());
+
+/**
+ * Picks out the rows of grade data that were taught by any of a course's instructors,
+ * and works out which instructors the picked rows cover
+ *
+ * @param instructors - The instructors listed for the course
+ * @param rows - The rows of grade data for every section of the course
+ * @returns The rows taught by the instructors, and which instructors they cover
+ */
+export function matchInstructorRows<T extends DatabaseInstructor>(
+    instructors: InstructorName[],
+    rows: T[]
+): [T[], InstructorCoverage] {
+    const matched = new Set<string>();
+    const unmatched: string[] = [];
+    const matchedRows = new Set<T>();
+
+    for (const instructor of instructors) {
+        const instructorRows = rows.filter(row => isSameInstructor(instructor, row));
+        if (instructorRows.length === 0) {
+            const { last, first } = getInstructorName(instructor);
+            unmatched.push(capitalize([...first, ...last].join(' ')));
+        }
+        for (const row of instructorRows) {
+            matchedRows.add(row);
+            matched.add(formatDatabaseInstructor(row));
+        }
+    }
+
+    return [rows.filter(row => matchedRows.has(row)), { matched: [...matched], unmatched }];
+}
@@ -0,0 +1,72 @@
+/**
+ * A map that holds at most a fixed number of entries, evicting the least recently used entry when it's full
+ */
+export class LRUCache<K, V> {
+    private entries = new Map<K, V>();
+
+    private capacity: number;
+
+    /**
+     * @param capacity - The most entries the cache holds at once
+     */
+    constructor(capacity: number) {
+        if (capacity < 1) {
+            throw new RangeError('An LRU cache needs room for at least one entry');
+        }
+        this.capacity = capacity;
+    }
+
+    /** The number of entries in the cache */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Gets an entry, marking it as the most recently used
+     *
+     * @param key - The key of the entry
+     * @returns The value, or undefined if it isn't cached
+     */
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+
+        // maps iterate in insertion order, so re-inserting moves the entry to the back of the line
+        const value = this.entries.get(key)!;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    /**
+     * Adds or replaces an entry, evicting the least recently used entry if the cache is full
+     *
+     * @param key - The key of the entry
+     * @param value - The value to cache
+     */
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        if (this.entries.size > this.capacity) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    /**
+     * Whether an entry is cached, without marking it as used
+     *
+     * @param key - The key of the entry
+     */
+    has(key: K): boolean {
+        return this.entries.has(key);
+    }
+
+    /**
+     * Removes every entry from the cache
+     */
+    clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,95 @@
+import type { Course } from '../types/Course';
+import { Status } from '../types/Course';
+import type { CourseAlert } from '../types/CourseAlert';
+import type { CourseChangeRecord } from '../types/CourseChange';
+import { HOUR } from './time';
+
+/**
+ * Statuses that mean a student can't currently register for a section
+ */
+const UNAVAILABLE_STATUSES: string[] = [Status.CLOSED, Status.WAITLISTED];
+
+/**
+ * Builds the notification for a course change, if it's one the user should be told about:
+ * a closed or waitlisted section opening up, or a section getting cancelled
+ *
+ * @param record - What changed about the course
+ * @param course - The course that changed
+ * @returns The alert, or undefined if the change isn't worth a notification
+ */
+export function getCourseAlert(
+    record: CourseChangeRecord,
+    course: Pick<Course, 'department' | 'number' | 'courseName'>
+): CourseAlert | undefined {
+    const statusChange = record.changes.find(change => change.field === 'status');
+    if (!statusChange) {
+        return undefined;
+    }
+
+    const name = `${course.department} ${course.number}`;
+    const uniqueId = record.uniqueId.toString().padStart(5, '0');
+    const base = { uniqueId: record.uniqueId, detectedAt: record.detectedAt };
+
+    if (statusChange.current === Status.OPEN && UNAVAILABLE_STATUSES.includes(statusChange.previous)) {
+        return {
+            ...base,
+            reason: 'OPENED',
+            title: `${name} is open`,
+            message: `${course.courseName} (${uniqueId}) was ${statusChange.previous.toLowerCase()} and now has seats available.`,
+        };
+    }
+
+    if (statusChange.current === Status.CANCELLED) {
+        return {
+            ...base,
+            reason: 'CANCELLED',
+            title: `${name} was cancelled`,
+            message: `${course.courseName} (${uniqueId}) has been cancelled.`,
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether a time falls within quiet hours. Quiet hours may wrap around midnight, i.e. 10 pm to 8 am
+ *
+ * @param minutes - The time to check, in minutes since midnight
+ * @param start - When quiet hours start, in minutes since midnight
+ * @param end - When quiet hours end, in minutes since midnight
+ * @returns True if notifications should be held
+ */
+export function isInQuietHours(minutes: number, start: number, end: number): boolean {
+    if (start === end) {
+        return false;
+    }
+
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Splits the pending alerts into the ones that can be shown now and the ones that have to wait,
+ * so that no more than `maxPerHour` notifications are shown in any hour
+ *
+ * @param pending - The alerts waiting to be shown, oldest first
+ * @param sentAt - When notifications were shown recently
+ * @param maxPerHour - The most notifications to show in an hour
+ * @param now - The current time
+ * @returns The alerts to show now, the alerts to keep waiting, and the updated send times
+ */
+export function takeAlertsWithinRateLimit(
+    pending: CourseAlert[],
+    sentAt: number[],
+    maxPerHour: number,
+    now: number = Date.now()
+): { send: CourseAlert[]; pending: CourseAlert[]; sentAt: number[] } {
+    const recent = sentAt.filter(time => now - time < HOUR);
+    const budget = Math.max(0, maxPerHour - recent.length);
+    const send = pending.slice(0, budget);
+
+    return {
+        send,
+        pending: pending.slice(budget),
+        sentAt: [...recent, ...send.map(() => now)],
+    };
+}
@@ -0,0 +1,124 @@
+import type { ISODate } from '../types/AcademicCalendar';
+import type { Course, Semester } from '../types/Course';
+import {
+    ACADEMIC_CALENDAR,
+    estimateAcademicTerm,
+    getSemesterCode,
+    parseSemesterCode,
+    SEASON_CODES,
+    toISODate,
+} from './academicCalendar';
+import { inferScheduleSemester } from './scheduleSemester';
+
+/**
+ * A single unique id or course link the user typed into the quick add dialog
+ */
+export type QuickAddEntry = {
+    /** What the user typed */
+    input: string;
+    /** The unique id of the section, if the input could be read */
+    uniqueId?: number;
+    /** The course details URL to fetch the section from */
+    url?: string;
+    /** Why the input couldn't be read */
+    error?: string;
+};
+
+const COURSE_DETAILS_URL_REGEX = /course_schedule\/(\d{5})\/(\d{5})\/?/;
+
+/**
+ * Gets the semester that comes after the given one, i.e. Summer 2026 after Spring 2026
+ */
+const getNextSemester = ({ year, season }: Semester): Semester => {
+    const seasons = (Object.keys(SEASON_CODES) as Semester['season'][]).sort(
+        (a, b) => SEASON_CODES[a] - SEASON_CODES[b]
+    );
+    const next = seasons[seasons.indexOf(season) + 1];
+    return next ? { year, season: next } : { year: year + 1, season: seasons[0]! };
+};
+
+/**
+ * Builds the URL of the course details page of a section
+ *
+ * @param semester - The semester the section is in
+ * @param uniqueId - The unique id of the section
+ * @returns The URL of the course details page
+ */
+export function getCourseDetailsURL(semester: Semester, uniqueId: number): string {
+    return `https://utdirect.utexas.edu/apps/registrar/course_schedule/${getSemesterCode(semester)}/${uniqueId.toString().padStart(5, '0')}/`;
+}
+
+/**
+ * Reads the unique ids and course links the user typed, which may be separated by spaces, commas or new lines
+ *
+ * @example
+ * ```
+ * parseQuickAddInput('50805, 50810', fall2025) => [
+ *     { input: '50805', uniqueId: 50805, url: 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/' },
+ *     { input: '50810', uniqueId: 50810, url: 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50810/' },
+ * ]
+ * ```
+ * @param text - What the user typed
+ * @param semester - The semester that bare unique ids are looked up in; links keep their own semester
+ * @returns One entry per unique id or link, without repeats
+ */
+export function parseQuickAddInput(text: string, semester: Semester): QuickAddEntry[] {
+    const entries: QuickAddEntry[] = [];
+
+    for (const input of text.split(/[\s,;]+/).filter(Boolean)) {
+        const urlMatch = input.match(COURSE_DETAILS_URL_REGEX);
+        const linkSemester = urlMatch?.[1] ? parseSemesterCode(urlMatch[1]) : undefined;
+        let entry: QuickAddEntry;
+
+        if (urlMatch?.[2] && linkSemester) {
+            const uniqueId = Number(urlMatch[2]);
+            entry = { input, uniqueId, url: getCourseDetailsURL(linkSemester, uniqueId) };
+        } else if (/^\d{1,5}$/.test(input)) {
+            const uniqueId = Number(input);
+            entry = { input, uniqueId, url: getCourseDetailsURL(semester, uniqueId) };
+        } else {
+            entry = { input, error: 'Not a unique id or a link to a course' };
+        }
+
+        if (!entry.url || !entries.some(e => e.url === entry.url)) {
+            entries.push(entry);
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Picks the semester that quick add looks unique ids up in: the one most of the schedule's courses are in,
+ * or the current (or next) semester if the schedule is empty
+ *
+ * @param courses - The courses of the schedule being added to
+ * @param today - Today's date
+ * @returns The semester
+ */
+export function getQuickAddSemester(
+    courses: Pick<Course, 'semester'>[],
+    today: ISODate = toISODate(new Date())
+): Semester {
+    const scheduleSemester = inferScheduleSemester(courses);
+    if (scheduleSemester) {
+        return scheduleSemester;
+    }
+
+    const upcomingCode = Object.entries(ACADEMIC_CALENDAR.terms)
+        .filter(([, term]) => term.lastClassDay >= today)
+        .map(([code]) => code)
+        .sort()[0];
+    if (upcomingCode) {
+        return parseSemesterCode(upcomingCode)!;
+    }
+
+    // every bundled term is over, so keep going past the latest one using estimated dates
+    const { year, season } = parseSemesterCode(Object.keys(ACADEMIC_CALENDAR.terms).sort().at(-1)!)!;
+    let semester: Semester = { year, season };
+    while (estimateAcademicTerm(semester).lastClassDay < today) {
+        semester = getNextSemester(semester);
+    }
+
+    return semester;
+}
@@ -0,0 +1,114 @@
+import type { SavedSearch } from '../types/SavedSearch';
+
+/**
+ * The base URL of UT's course schedule, which every search results page is under
+ */
+export const COURSE_SCHEDULE_URL = 'https://utdirect.utexas.edu/apps/registrar/course_schedule';
+
+/**
+ * The most searches we keep, since sync storage only has room for a few kilobytes per item
+ */
+export const MAX_SAVED_SEARCHES = 25;
+
+/**
+ * The param we add to a results URL to have the results of other saved searches merged into the page
+ */
+export const MERGED_SEARCHES_PARAM = 'utrp_merge';
+
+/**
+ * Params of a results URL that aren't part of the search itself
+ */
+const IGNORED_PARAMS = [
+    MERGED_SEARCHES_PARAM,
+    // added by UT's "next page" link
+    'next_unique',
+];
+
+const LEVELS: Record<string, string> = {
+    L: 'lower division',
+    U: 'upper division',
+    G: 'graduate',
+};
+
+/**
+ * Pulls the semester and search params out of the URL of a course schedule results page
+ *
+ * @example
+ * ```
+ * parseSearchURL('https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/results/?fos_fl=C+S&level=U&search_type_main=FIELD')
+ *     => { semesterCode: '20259', params: { fos_fl: 'C S', level: 'U', search_type_main: 'FIELD' } }
+ * ```
+ * @param url - The URL of the results page
+ * @returns The semester code and params, or undefined if the URL isn't a results page
+ */
+export function parseSearchURL(url: string): Pick<SavedSearch, 'semesterCode' | 'params'> | undefined {
+    const { pathname, searchParams } = new URL(url);
+    const semesterCode = pathname.match(/\/course_schedule\/(\d{5})\/results\/?$/)?.[1];
+    if (!semesterCode) {
+        return undefined;
+    }
+
+    const params = Object.fromEntries(
+        [...searchParams.entries()].filter(([key, value]) => value.trim() && !IGNORED_PARAMS.includes(key))
+    );
+    if (Object.keys(params).length === 0) {
+        return undefined;
+    }
+
+    return { semesterCode, params };
+}
+
+/**
+ * Builds the URL of the results page of a saved search
+ *
+ * @param search - The search to run
+ * @param mergedSearches - Other searches whose results should be merged into the page
+ * @returns The URL of the results page
+ */
+export function getSearchURL(
+    search: Pick<SavedSearch, 'semesterCode' | 'params'>,
+    mergedSearches: Pick<SavedSearch, 'id'>[] = []
+): string {
+    const params = new URLSearchParams(search.params);
+    if (mergedSearches.length > 0) {
+        params.set(MERGED_SEARCHES_PARAM, mergedSearches.map(s => s.id).join(','));
+    }
+
+    return `${COURSE_SCHEDULE_URL}/${search.semesterCode}/results/?${params}`;
+}
+
+/**
+ * Gets the ids of the saved searches that should be merged into a results page
+ *
+ * @param url - The URL of the results page
+ * @returns The ids of the searches, in the order they were picked
+ */
+export function getMergedSearchIds(url: string): string[] {
+    const ids = new URL(url).searchParams.get(MERGED_SEARCHES_PARAM);
+    return ids ? ids.split(',').filter(Boolean) : [];
+}
+
+/**
+ * Describes what a search looks for, to suggest a name for it
+ *
+ * @example
+ * ```
+ * describeSearchParams({ fos_fl: 'C S', level: 'U' }) => 'C S, upper division'
+ * ```
+ * @param params - The params of the search
+ * @returns A short description of the search
+ */
+export function describeSearchParams(params: Record<string, string>): string {
+    if (params.unique_number) {
+        return `Unique ${params.unique_number}`;
+    }
+
+    const instructor = Object.entries(params)
+        .filter(([key]) => key.startsWith('instr'))
+        .map(([, value]) => value)
+        .join(' ');
+
+    return [params.fos_fl, params.fos_cn, params.level && (LEVELS[params.level] ?? params.level), instructor]
+        .filter(Boolean)
+        .join(', ');
+}
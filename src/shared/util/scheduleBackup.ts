@@ -0,0 +1,329 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { IOptionsStore } from '../storage/OptionsStore';
+import { isHexColor } from '../types/Color';
+import type { Course } from '../types/Course';
+import { Status } from '../types/Course';
+import type { CourseMeeting } from '../types/CourseMeeting';
+import { DAY_MAP } from '../types/CourseMeeting';
+import type { CustomBlock } from '../types/CustomBlock';
+import type { ScheduleBackup } from '../types/ScheduleBackup';
+import { SCHEDULE_BACKUP_VERSION } from '../types/ScheduleBackup';
+import type { UserSchedule } from '../types/UserSchedule';
+import { sumCreditHours } from './creditHours';
+
+type UnknownObject = Record<string, unknown>;
+
+/**
+ * A custom error class for backup files that can't be imported, pointing at the part of the file that is wrong
+ */
+export class ScheduleBackupError extends Error {
+    /** Where in the file the problem is, i.e. `schedules[0].courses[2].status` */
+    path: string;
+
+    constructor(path: string, message: string) {
+        super(path ? `${path} ${message}` : message);
+        this.name = 'ScheduleBackupError';
+        this.path = path;
+    }
+}
+
+/**
+ * The type of every option that can be restored from a backup.
+ * Options that aren't listed here (i.e. from a newer version of the extension) are skipped.
+ */
+const OPTION_TYPES = {
+    enableCourseStatusChips: 'boolean',
+    enableTimeAndLocationInPopup: 'boolean',
+    enableHighlightConflicts: 'boolean',
+    enableScrollToLoad: 'boolean',
+    enableDataRefreshing: 'boolean',
+    alwaysOpenCalendarInNewTab: 'boolean',
+    enableNotifications: 'boolean',
+    maxNotificationsPerHour: 'number',
+    enableQuietHours: 'boolean',
+    quietHoursStart: 'number',
+    quietHoursEnd: 'number',
+    calendarReminderMinutes: 'number',
+} as const satisfies Record<keyof IOptionsStore, 'boolean' | 'number'>;
+
+const STATUSES: string[] = Object.values(Status);
+const DAYS: string[] = Object.values(DAY_MAP);
+const INSTRUCTION_MODES = ['Online', 'In Person', 'Hybrid'];
+const SEASONS = ['Fall', 'Spring', 'Summer'];
+
+/**
+ * Upgrades a backup from the version it's keyed by to the next version
+ */
+const MIGRATIONS: Record<number, (backup: UnknownObject) => UnknownObject> = {
+    // the legacy format was a bare schedule, so wrap it in an envelope
+    0: schedule => ({
+        schemaVersion: 1,
+        extensionVersion: 'unknown',
+        exportedAt: typeof schedule.updatedAt === 'number' ? schedule.updatedAt : 0,
+        schedules: [schedule],
+    }),
+};
+
+const describeValue = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return `a ${typeof value}`;
+};
+
+const join = (path: string, key: string | number): string =>
+    typeof key === 'number' ? `${path}[${key}]` : `${path ? `${path}.` : ''}${key}`;
+
+const isObject = (value: unknown): value is UnknownObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function expectObject(value: unknown, path: string): UnknownObject {
+    if (!isObject(value)) {
+        throw new ScheduleBackupError(path, `should be an object, but got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new ScheduleBackupError(path, `should be a list, but got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+function expectString(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+        throw new ScheduleBackupError(path, `should be text, but got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ScheduleBackupError(path, `should be a number, but got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') {
+        throw new ScheduleBackupError(path, `should be true or false, but got ${describeValue(value)}`);
+    }
+    return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, allowed: readonly string[], path: string): T {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+        throw new ScheduleBackupError(path, `should be one of ${allowed.join(', ')}, but got ${JSON.stringify(value)}`);
+    }
+    return value as T;
+}
+
+const expectStrings = (value: unknown, path: string): string[] =>
+    expectArray(value, path).map((item, i) => expectString(item, join(path, i)));
+
+const optional = <T>(value: unknown, path: string, expect: (value: unknown, path: string) => T): T | undefined =>
+    value === undefined ? undefined : expect(value, path);
+
+function validateMeeting(value: unknown, path: string): Serialized<CourseMeeting> {
+    const meeting = expectObject(value, path);
+    const location = optional(meeting.location, join(path, 'location'), (loc, locPath) => {
+        const { building, room } = expectObject(loc, locPath);
+        return {
+            building: expectString(building, join(locPath, 'building')),
+            room: expectString(room, join(locPath, 'room')),
+        };
+    });
+
+    return {
+        days: expectArray(meeting.days, join(path, 'days')).map((day, i) =>
+            expectOneOf(day, DAYS, join(join(path, 'days'), i))
+        ),
+        startTime: expectNumber(meeting.startTime, join(path, 'startTime')),
+        endTime: expectNumber(meeting.endTime, join(path, 'endTime')),
+        ...(location && { location }),
+    };
+}
+
+function validateCourse(value: unknown, path: string): Serialized<Course> {
+    const course = expectObject(value, path);
+    const at = (key: string) => join(path, key);
+
+    const schedule = expectObject(course.schedule, at('schedule'));
+    const semester = expectObject(course.semester, at('semester'));
+    const colors = optional(course.colors, at('colors'), (c, colorsPath) => {
+        const { primaryColor, secondaryColor } = expectObject(c, colorsPath);
+        for (const [key, color] of Object.entries({ primaryColor, secondaryColor })) {
+            if (!isHexColor(expectString(color, join(colorsPath, key)))) {
+                throw new ScheduleBackupError(join(colorsPath, key), `should be a hex color, but got "${color}"`);
+            }
+        }
+        return { primaryColor, secondaryColor } as Serialized<Course>['colors'];
+    });
+
+    return {
+        ...course,
+        uniqueId: expectNumber(course.uniqueId, at('uniqueId')),
+        number: expectString(course.number, at('number')),
+        fullName: expectString(course.fullName, at('fullName')),
+        courseName: expectString(course.courseName, at('courseName')),
+        department: expectString(course.department, at('department')),
+        creditHours: expectNumber(course.creditHours, at('creditHours')),
+        maxCreditHours: optional(course.maxCreditHours, at('maxCreditHours'), expectNumber),
+        status: expectOneOf(course.status, STATUSES, at('status')),
+        instructors: expectArray(course.instructors, at('instructors')).map((instructor, i) => {
+            const instructorPath = join(at('instructors'), i);
+            const { fullName, firstName, lastName, middleInitial } = expectObject(instructor, instructorPath);
+            return {
+                fullName: optional(fullName, join(instructorPath, 'fullName'), expectString),
+                firstName: optional(firstName, join(instructorPath, 'firstName'), expectString),
+                lastName: optional(lastName, join(instructorPath, 'lastName'), expectString),
+                middleInitial: optional(middleInitial, join(instructorPath, 'middleInitial'), expectString),
+            };
+        }),
+        isReserved: expectBoolean(course.isReserved, at('isReserved')),
+        description: optional(course.description, at('description'), expectStrings),
+        schedule: {
+            meetings: expectArray(schedule.meetings, join(at('schedule'), 'meetings')).map((meeting, i) =>
+                validateMeeting(meeting, join(join(at('schedule'), 'meetings'), i))
+            ),
+        },
+        url: expectString(course.url, at('url')),
+        registerURL: optional(course.registerURL, at('registerURL'), expectString),
+        flags: expectStrings(course.flags, at('flags')),
+        instructionMode: expectOneOf(course.instructionMode, INSTRUCTION_MODES, at('instructionMode')),
+        semester: {
+            year: expectNumber(semester.year, join(at('semester'), 'year')),
+            season: expectOneOf(semester.season, SEASONS, join(at('semester'), 'season')),
+            code: optional(semester.code, join(at('semester'), 'code'), expectString),
+        },
+        scrapedAt: expectNumber(course.scrapedAt, at('scrapedAt')),
+        ...(colors && { colors }),
+        core: optional(course.core, at('core'), expectStrings) ?? [],
+    } as Serialized<Course>;
+}
+
+function validateBlock(value: unknown, path: string): Serialized<CustomBlock> {
+    const block = expectObject(value, path);
+    const at = (key: string) => join(path, key);
+
+    const color = expectString(block.color, at('color'));
+    if (!isHexColor(color)) {
+        throw new ScheduleBackupError(at('color'), `should be a hex color, but got "${color}"`);
+    }
+
+    return {
+        id: expectString(block.id, at('id')),
+        title: expectString(block.title, at('title')),
+        days: expectArray(block.days, at('days')).map((day, i) => expectOneOf(day, DAYS, join(at('days'), i))),
+        startTime: expectNumber(block.startTime, at('startTime')),
+        endTime: expectNumber(block.endTime, at('endTime')),
+        color,
+    } as Serialized<CustomBlock>;
+}
+
+function validateSchedule(value: unknown, path: string): Serialized<UserSchedule> {
+    const schedule = expectObject(value, path);
+    const courses = expectArray(schedule.courses, join(path, 'courses')).map((course, i) =>
+        validateCourse(course, join(join(path, 'courses'), i))
+    );
+    const hours = sumCreditHours(courses);
+
+    return {
+        id: expectString(schedule.id, join(path, 'id')),
+        name: expectString(schedule.name, join(path, 'name')),
+        courses,
+        // backups from before blocks existed don't have any
+        blocks: (optional(schedule.blocks, join(path, 'blocks'), expectArray) ?? []).map((block, i) =>
+            validateBlock(block, join(join(path, 'blocks'), i))
+        ),
+        hours: hours.min,
+        maxHours: hours.max,
+        updatedAt: optional(schedule.updatedAt, join(path, 'updatedAt'), expectNumber) ?? 0,
+    };
+}
+
+function validateOptions(value: unknown, path: string): Partial<IOptionsStore> {
+    const options = expectObject(value, path);
+    const validated: Partial<Record<keyof IOptionsStore, boolean | number>> = {};
+
+    for (const [key, type] of Object.entries(OPTION_TYPES) as [keyof IOptionsStore, 'boolean' | 'number'][]) {
+        if (options[key] !== undefined) {
+            validated[key] =
+                type === 'boolean'
+                    ? expectBoolean(options[key], join(path, key))
+                    : expectNumber(options[key], join(path, key));
+        }
+    }
+
+    return validated as Partial<IOptionsStore>;
+}
+
+/**
+ * Upgrades a backup file from any older version of the format to the current one
+ *
+ * @param data - The parsed contents of the backup file
+ * @returns The backup in the current format (not yet validated)
+ * @throws ScheduleBackupError if the file isn't a backup, or was made by a newer version of the extension
+ */
+export function migrateScheduleBackup(data: unknown): UnknownObject {
+    let backup = expectObject(data, '');
+
+    // files without a version are from before backups were versioned
+    let version = backup.schemaVersion === undefined ? 0 : expectNumber(backup.schemaVersion, 'schemaVersion');
+
+    if (version > SCHEDULE_BACKUP_VERSION) {
+        throw new ScheduleBackupError(
+            '',
+            `This file was made by a newer version of the extension (format version ${version}); please update to import it`
+        );
+    }
+
+    while (version < SCHEDULE_BACKUP_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new ScheduleBackupError('schemaVersion', `${version} is not a supported format version`);
+        }
+        backup = migrate(backup);
+        version++;
+    }
+
+    return backup;
+}
+
+/**
+ * Migrates and strictly validates a backup file, so that it can be imported
+ *
+ * @param data - The parsed contents of the backup file
+ * @returns The validated backup in the current format
+ * @throws ScheduleBackupError describing the first problem found in the file
+ */
+export function parseScheduleBackup(data: unknown): ScheduleBackup {
+    const backup = migrateScheduleBackup(data);
+
+    const schedules = expectArray(backup.schedules, 'schedules').map((schedule, i) =>
+        validateSchedule(schedule, join('schedules', i))
+    );
+    if (schedules.length === 0) {
+        throw new ScheduleBackupError('schedules', 'should contain at least one schedule');
+    }
+
+    const activeIndex = optional(backup.activeIndex, 'activeIndex', expectNumber);
+    if (
+        activeIndex !== undefined &&
+        !(Number.isInteger(activeIndex) && activeIndex >= 0 && activeIndex < schedules.length)
+    ) {
+        throw new ScheduleBackupError('activeIndex', `should point at one of the ${schedules.length} schedules`);
+    }
+
+    const options = optional(backup.options, 'options', validateOptions);
+
+    return {
+        schemaVersion: SCHEDULE_BACKUP_VERSION,
+        extensionVersion: expectString(backup.extensionVersion, 'extensionVersion'),
+        exportedAt: expectNumber(backup.exportedAt, 'exportedAt'),
+        schedules,
+        ...(activeIndex !== undefined && { activeIndex }),
+        ...(options && { options }),
+    };
+}
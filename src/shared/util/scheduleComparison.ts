@@ -0,0 +1,105 @@
+import type { Course } from '../types/Course';
+import type { Day } from '../types/CourseMeeting';
+import { DAY_MAP } from '../types/CourseMeeting';
+import type { UserSchedule } from '../types/UserSchedule';
+import { getDailyGaps } from './scheduleGaps';
+
+/**
+ * The stats of a schedule that are compared side by side in compare mode
+ */
+export type ScheduleSummary = {
+    /** The total credit hours, counting variable-credit courses at their fewest hours */
+    hours: number;
+    /** The total credit hours, counting variable-credit courses at their most hours */
+    maxHours: number;
+    courseCount: number;
+    /** The days with at least one class, Monday first */
+    daysOnCampus: Day[];
+    /** When the earliest class of the week starts, in minutes since midnight, or undefined without classes that meet */
+    earliestStart?: number;
+    /** When the latest class of the week ends, in minutes since midnight, or undefined without classes that meet */
+    latestEnd?: number;
+    /** The total time spent between classes on the same day, in minutes */
+    gapMinutes: number;
+};
+
+/**
+ * Computes the stats of a schedule that compare mode shows in its summary table
+ *
+ * @param schedule - The schedule to summarize
+ * @returns The schedule's summary
+ */
+export function getScheduleSummary(schedule: Pick<UserSchedule, 'courses' | 'hours' | 'maxHours'>): ScheduleSummary {
+    const meetings = schedule.courses
+        .flatMap(course => course.schedule.meetings)
+        .filter(meeting => meeting.days.length > 0);
+    const usedDays = new Set(meetings.flatMap(meeting => meeting.days));
+    const { gaps } = getDailyGaps(schedule.courses);
+
+    return {
+        hours: schedule.hours,
+        maxHours: schedule.maxHours,
+        courseCount: schedule.courses.length,
+        daysOnCampus: Object.values(DAY_MAP).filter(day => usedDays.has(day)),
+        earliestStart: meetings.length > 0 ? Math.min(...meetings.map(meeting => meeting.startTime)) : undefined,
+        latestEnd: meetings.length > 0 ? Math.max(...meetings.map(meeting => meeting.endTime)) : undefined,
+        gapMinutes: gaps.reduce((total, gap) => total + gap, 0),
+    };
+}
+
+/**
+ * Averages the GPAs of a schedule's courses, weighted by their credit hours like a transcript GPA.
+ * Courses without grade data are left out.
+ *
+ * @param courses - The schedule's courses
+ * @param averageGPAs - The average GPA of each course by unique id, or undefined if there's no data for it
+ * @returns The average GPA, or undefined if none of the courses have grade data
+ */
+export function getScheduleAverageGPA(
+    courses: Pick<Course, 'uniqueId' | 'creditHours'>[],
+    averageGPAs: Record<number, number | undefined>
+): number | undefined {
+    let points = 0;
+    let hours = 0;
+
+    for (const { uniqueId, creditHours } of courses) {
+        const gpa = averageGPAs[uniqueId];
+        // zero credit courses still count, just as little as possible
+        const weight = Math.max(creditHours, 1);
+        if (gpa !== undefined) {
+            points += gpa * weight;
+            hours += weight;
+        }
+    }
+
+    return hours > 0 ? points / hours : undefined;
+}
+
+/**
+ * Formats minutes since midnight as a time of day, i.e. "9:30 AM"
+ *
+ * @param minutes - The number of minutes since midnight
+ * @returns The formatted time
+ */
+export function formatTimeOfDay(minutes: number): string {
+    const hour = Math.floor(minutes / 60) % 24;
+    const minute = minutes % 60;
+
+    return `${hour % 12 === 0 ? 12 : hour % 12}:${minute.toString().padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Formats a duration in minutes, i.e. "2h 30m"
+ *
+ * @param minutes - The duration in minutes
+ * @returns The formatted duration
+ */
+export function formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+
+    if (hours === 0) {
+        return `${rest}m`;
+    }
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
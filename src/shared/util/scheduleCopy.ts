@@ -0,0 +1,29 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { UserSchedule } from '../types/UserSchedule';
+import { generateRandomId } from './random';
+
+/**
+ * Copies a schedule, i.e. to duplicate it. The copy gets its own id, and so do its blocks,
+ * so editing or removing a block in one schedule doesn't touch the other.
+ *
+ * @param schedule - The schedule to copy
+ * @param name - The name of the copy
+ * @param now - Unix timestamp that the copy's updatedAt is set to
+ * @returns The copy, with everything else (i.e. its courses, hours and semester) the same as the original
+ */
+export function copySchedule(
+    schedule: Serialized<UserSchedule>,
+    name: string,
+    now: number = Date.now()
+): Serialized<UserSchedule> {
+    return {
+        ...schedule,
+        id: generateRandomId(),
+        name,
+        courses: JSON.parse(JSON.stringify(schedule.courses)),
+        // schedules saved before blocks existed don't have any
+        blocks: (schedule.blocks ?? []).map(block => ({ ...block, days: [...block.days], id: generateRandomId() })),
+        updatedAt: now,
+    };
+}
@@ -0,0 +1,28 @@
+import type { Course } from '../types/Course';
+import type { Day } from '../types/CourseMeeting';
+
+/**
+ * Gets the length of the breaks between classes on every day of the week
+ *
+ * @param courses - The sections in a schedule
+ * @returns The gaps in minutes, and the number of days with classes
+ */
+export function getDailyGaps(courses: Course[]): { gaps: number[]; daysOnCampus: number } {
+    const meetingsByDay = new Map<Day, [number, number][]>();
+
+    for (const { days, startTime, endTime } of courses.flatMap(course => course.schedule.meetings)) {
+        for (const day of days) {
+            meetingsByDay.set(day, [...(meetingsByDay.get(day) ?? []), [startTime, endTime]]);
+        }
+    }
+
+    const gaps: number[] = [];
+    for (const times of meetingsByDay.values()) {
+        times.sort(([a], [b]) => a - b);
+        for (let i = 1; i < times.length; i++) {
+            gaps.push(Math.max(0, times[i]![0] - times[i - 1]![1]));
+        }
+    }
+
+    return { gaps, daysOnCampus: meetingsByDay.size };
+}
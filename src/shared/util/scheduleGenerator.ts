@@ -0,0 +1,256 @@
+import type { Course } from '../types/Course';
+import { Status } from '../types/Course';
+import type { Day } from '../types/CourseMeeting';
+import type { CustomBlock } from '../types/CustomBlock';
+import { getDailyGaps } from './scheduleGaps';
+
+/**
+ * A course that the user wants in their schedule, without a specific section picked
+ */
+export type DesiredCourse = {
+    /** The department of the course, i.e. "C S" */
+    department: string;
+    /** The course number, i.e. "429" */
+    number: string;
+};
+
+/**
+ * The constraints that every generated schedule has to satisfy
+ */
+export type ScheduleConstraints = {
+    /** No class may start before this time, in minutes since midnight */
+    earliestStartTime?: number;
+    /** No class may end after this time, in minutes since midnight */
+    latestEndTime?: number;
+    /** Days of the week that must be kept free of classes */
+    freeDays?: Day[];
+    /** The longest break allowed between two classes on the same day, in minutes */
+    maxGapMinutes?: number;
+    /** Instructors the user would rather take, matched against their last or full name. Sections taught by them rank higher */
+    preferredInstructors?: string[];
+    /** Whether to only consider sections that are open for registration */
+    onlyOpen?: boolean;
+    /** Blocks of time the user is busy (i.e. work), that no class may overlap */
+    blocks?: CustomBlock[];
+};
+
+/**
+ * A conflict-free combination of sections, one for every desired course
+ */
+export type GeneratedSchedule = {
+    /** The chosen sections, in the same order as the desired courses */
+    courses: Course[];
+    /** How well the schedule fits the user's preferences, higher is better */
+    score: number;
+    /** The number of distinct days with at least one class */
+    daysOnCampus: number;
+    /** The total time spent between classes on the same day, in minutes */
+    gapMinutes: number;
+    /** The number of sections taught by a preferred instructor */
+    preferredInstructorCount: number;
+};
+
+/**
+ * The outcome of generating schedules
+ */
+export type ScheduleGeneratorResult = {
+    /** The generated schedules, best first */
+    schedules: GeneratedSchedule[];
+    /** Desired courses that had no section matching the constraints, in which case no schedules are generated */
+    unmatched: DesiredCourse[];
+};
+
+/**
+ * Options to control how many schedules are generated
+ */
+export type ScheduleGeneratorOptions = {
+    /** The maximum number of schedules to return */
+    maxResults?: number;
+    /** The maximum number of conflict-free combinations to consider before giving up on finding more */
+    maxCombinations?: number;
+    /**
+     * The maximum number of sections to try before giving up on finding more. Unlike `maxCombinations`,
+     * this also counts partial combinations that run into a conflict, so conflict-heavy searches still stop
+     */
+    maxSteps?: number;
+};
+
+const DESIRED_COURSE_REGEX = /^([A-Z][A-Z ]*?)\s*(\d{3}[A-Z]?)$/;
+
+/**
+ * Normalizes a department so that "CS" and "C S" are treated the same
+ */
+const normalizeDepartment = (department: string): string => department.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Whether two courses (or a section and a desired course) have the same department and number
+ */
+const isSameCourse = (a: DesiredCourse, b: DesiredCourse): boolean =>
+    normalizeDepartment(a.department) === normalizeDepartment(b.department) &&
+    a.number.toUpperCase() === b.number.toUpperCase();
+
+/**
+ * Parses a comma, semicolon or newline separated list of course numbers, i.e. "C S 429, M 340L, RHE 306"
+ *
+ * @param input - The list of courses the user typed in
+ * @returns The parsed courses, without duplicates
+ * @throws An error naming the first entry that is not a valid course number
+ */
+export function parseDesiredCourses(input: string): DesiredCourse[] {
+    const courses: DesiredCourse[] = [];
+
+    for (const entry of input.split(/[,;\n]/)) {
+        const trimmed = entry.trim().replace(/\s+/g, ' ').toUpperCase();
+        if (!trimmed) continue;
+
+        const match = trimmed.match(DESIRED_COURSE_REGEX);
+        if (!match) {
+            throw new Error(`"${entry.trim()}" is not a valid course number, i.e. "C S 429"`);
+        }
+
+        const [, department, number] = match as [string, string, string];
+        const course = { department: department.trim(), number };
+        if (!courses.some(c => isSameCourse(c, course))) {
+            courses.push(course);
+        }
+    }
+
+    return courses;
+}
+
+/**
+ * Whether a section can be taken at all under the given constraints, ignoring the other courses
+ *
+ * @param course - The section to check
+ * @param constraints - The constraints to check against
+ * @returns True if the section satisfies the constraints
+ */
+export function isSectionAllowed(course: Course, constraints: ScheduleConstraints): boolean {
+    const { earliestStartTime, latestEndTime, freeDays = [], onlyOpen = false, blocks = [] } = constraints;
+
+    if (course.status === Status.CANCELLED || (onlyOpen && course.status !== Status.OPEN)) {
+        return false;
+    }
+    if (blocks.some(block => block.conflictsWith(course))) {
+        return false;
+    }
+
+    return course.schedule.meetings.every(
+        meeting =>
+            meeting.days.length === 0 ||
+            ((earliestStartTime === undefined || meeting.startTime >= earliestStartTime) &&
+                (latestEndTime === undefined || meeting.endTime <= latestEndTime) &&
+                !meeting.days.some(day => freeDays.includes(day)))
+    );
+}
+
+/**
+ * Whether a section is taught by one of the preferred instructors
+ */
+function hasPreferredInstructor(course: Course, preferredInstructors: string[]): boolean {
+    const preferred = preferredInstructors.map(name => name.trim().toLowerCase()).filter(Boolean);
+
+    return course.instructors.some(instructor => {
+        const names = [instructor.lastName, instructor.fullName, instructor.toString({ format: 'first_last' })].map(
+            name => name?.toLowerCase()
+        );
+
+        return preferred.some(name => names.includes(name));
+    });
+}
+
+/**
+ * Scores a conflict-free combination of sections. Preferred instructors matter most,
+ * then fewer days on campus, then less time spent waiting between classes.
+ */
+function rankSchedule(courses: Course[], constraints: ScheduleConstraints): GeneratedSchedule | undefined {
+    const { gaps, daysOnCampus } = getDailyGaps(courses);
+    const { maxGapMinutes, preferredInstructors = [] } = constraints;
+
+    if (maxGapMinutes !== undefined && gaps.some(gap => gap > maxGapMinutes)) {
+        return undefined;
+    }
+
+    const gapMinutes = gaps.reduce((total, gap) => total + gap, 0);
+    const preferredInstructorCount = courses.filter(course =>
+        hasPreferredInstructor(course, preferredInstructors)
+    ).length;
+
+    return {
+        courses,
+        score: preferredInstructorCount * 10 - daysOnCampus * 2 - gapMinutes / 30,
+        daysOnCampus,
+        gapMinutes,
+        preferredInstructorCount,
+    };
+}
+
+/**
+ * Generates every conflict-free schedule that contains one section of each desired course and satisfies the constraints,
+ * ranked from best to worst.
+ *
+ * @param desiredCourses - The courses the user wants to take
+ * @param sections - The sections to pick from, i.e. the ones scraped from the course catalog
+ * @param constraints - The constraints every schedule has to satisfy
+ * @param options - Limits on how many schedules to generate
+ * @returns The ranked schedules, and the desired courses that had no usable section
+ */
+export function generateSchedules(
+    desiredCourses: DesiredCourse[],
+    sections: Course[],
+    constraints: ScheduleConstraints = {},
+    options: ScheduleGeneratorOptions = {}
+): ScheduleGeneratorResult {
+    const { maxResults = 25, maxCombinations = 10_000, maxSteps = 100_000 } = options;
+
+    const candidates = desiredCourses.map(desired => {
+        const seen = new Set<number>();
+        return sections.filter(section => {
+            if (seen.has(section.uniqueId) || !isSameCourse(section, desired)) return false;
+            seen.add(section.uniqueId);
+            return isSectionAllowed(section, constraints);
+        });
+    });
+
+    const unmatched = desiredCourses.filter((_, i) => candidates[i]!.length === 0);
+    if (desiredCourses.length === 0 || unmatched.length > 0) {
+        return { schedules: [], unmatched };
+    }
+
+    // courses with the fewest sections go first, so that conflicts prune the search as early as possible
+    const order = candidates.map((_, i) => i).sort((a, b) => candidates[a]!.length - candidates[b]!.length);
+    const chosen: Course[] = new Array(desiredCourses.length);
+    const schedules: GeneratedSchedule[] = [];
+    let combinations = 0;
+    let steps = 0;
+
+    const search = (depth: number) => {
+        if (combinations >= maxCombinations || steps >= maxSteps) return;
+
+        if (depth === order.length) {
+            combinations++;
+            const schedule = rankSchedule([...chosen], constraints);
+            if (schedule) schedules.push(schedule);
+            return;
+        }
+
+        const index = order[depth]!;
+        for (const section of candidates[index]!) {
+            if (steps >= maxSteps) return;
+            steps++;
+
+            const conflicts = order
+                .slice(0, depth)
+                .some(previous => chosen[previous]!.getConflicts(section).length > 0);
+            if (conflicts) continue;
+
+            chosen[index] = section;
+            search(depth + 1);
+        }
+    };
+
+    search(0);
+
+    schedules.sort((a, b) => b.score - a.score);
+    return { schedules: schedules.slice(0, maxResults), unmatched: [] };
+}
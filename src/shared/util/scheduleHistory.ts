@@ -0,0 +1,155 @@
+import type { Serialized } from 'chrome-extension-toolkit';
+
+import type { Course } from '../types/Course';
+import type { ScheduleHistoryEntry, ScheduleOperation } from '../types/ScheduleHistory';
+import type { UserSchedule } from '../types/UserSchedule';
+
+/**
+ * The most mutations we keep in each of the undo and redo stacks, so the history doesn't grow without bound in storage
+ */
+export const MAX_SCHEDULE_HISTORY = 20;
+
+/**
+ * The user's schedules, as they are kept in the UserScheduleStore
+ */
+export type ScheduleState = {
+    schedules: Serialized<UserSchedule>[];
+    activeIndex: number;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const clampActiveIndex = (activeIndex: number, schedules: Serialized<UserSchedule>[]) =>
+    clamp(activeIndex, 0, Math.max(schedules.length - 1, 0));
+
+/**
+ * Describes a course for a history entry's label
+ *
+ * @param course - The course
+ * @returns i.e. "C S 314"
+ */
+export const describeCourse = (course: Pick<Course, 'department' | 'number'>): string =>
+    `${course.department} ${course.number}`;
+
+/**
+ * Replays an operation on the user's schedules, without changing the schedules that were passed in
+ *
+ * @param state - The schedules and the index of the active one
+ * @param operation - The operation to replay
+ * @param now - Unix timestamp that the changed schedule's updatedAt is set to
+ * @returns The schedules after the operation
+ * @throws An error if the operation changes a schedule that doesn't exist anymore
+ */
+export function applyScheduleOperation(
+    state: ScheduleState,
+    operation: ScheduleOperation,
+    now: number = Date.now()
+): ScheduleState {
+    const updateSchedule = (
+        scheduleId: string,
+        getChanges: (schedule: Serialized<UserSchedule>) => Partial<Serialized<UserSchedule>>
+    ): ScheduleState => {
+        const schedule = state.schedules.find(s => s.id === scheduleId);
+        if (!schedule) {
+            throw new Error(`Schedule ${scheduleId} does not exist`);
+        }
+
+        return {
+            ...state,
+            schedules: state.schedules.map(s => (s === schedule ? { ...s, ...getChanges(s), updatedAt: now } : s)),
+        };
+    };
+
+    switch (operation.type) {
+        case 'insertCourse':
+            return updateSchedule(operation.scheduleId, ({ courses }) => {
+                const rest = courses.filter(c => c.uniqueId !== operation.course.uniqueId);
+                const index = clamp(operation.index, 0, rest.length);
+                return { courses: [...rest.slice(0, index), operation.course, ...rest.slice(index)] };
+            });
+        case 'removeCourse':
+            return updateSchedule(operation.scheduleId, ({ courses }) => ({
+                courses: courses.filter(c => c.uniqueId !== operation.uniqueId),
+            }));
+        case 'replaceCourses':
+            return updateSchedule(operation.scheduleId, () => ({ courses: operation.courses }));
+        case 'replaceBlocks':
+            return updateSchedule(operation.scheduleId, () => ({ blocks: operation.blocks }));
+        case 'insertSchedule': {
+            const rest = state.schedules.filter(s => s.id !== operation.schedule.id);
+            const index = clamp(operation.index, 0, rest.length);
+            const schedules = [...rest.slice(0, index), operation.schedule, ...rest.slice(index)];
+            return { schedules, activeIndex: clampActiveIndex(operation.activeIndex, schedules) };
+        }
+        case 'removeSchedule': {
+            if (!state.schedules.some(s => s.id === operation.scheduleId)) {
+                throw new Error(`Schedule ${operation.scheduleId} does not exist`);
+            }
+            const schedules = state.schedules.filter(s => s.id !== operation.scheduleId);
+            return { schedules, activeIndex: clampActiveIndex(operation.activeIndex, schedules) };
+        }
+        case 'replaceSchedules':
+            return {
+                schedules: operation.schedules,
+                activeIndex: clampActiveIndex(operation.activeIndex, operation.schedules),
+            };
+        default:
+            throw new Error(`Unknown schedule operation: ${(operation as ScheduleOperation).type}`);
+    }
+}
+
+/**
+ * Adds an entry to the top of an undo or redo stack, dropping the oldest entries past MAX_SCHEDULE_HISTORY
+ *
+ * @param stack - The stack, most recent first
+ * @param entry - The entry to add
+ * @returns The new stack
+ */
+export function pushScheduleHistory(
+    stack: ScheduleHistoryEntry[],
+    entry: ScheduleHistoryEntry
+): ScheduleHistoryEntry[] {
+    return [entry, ...stack].slice(0, MAX_SCHEDULE_HISTORY);
+}
+
+/**
+ * The undo and redo stacks, as they are kept in the ScheduleHistoryStore
+ */
+export type ScheduleHistoryStacks = {
+    undoStack: ScheduleHistoryEntry[];
+    redoStack: ScheduleHistoryEntry[];
+};
+
+/**
+ * A change to the history that the user should be told about, along with what they can do about it
+ */
+export type ScheduleHistoryEvent = {
+    /** 'undo' after a mutation (or a redo) was recorded, 'redo' after a mutation was undone */
+    action: 'undo' | 'redo';
+    entry: ScheduleHistoryEntry;
+};
+
+/**
+ * Works out what happened between two versions of the history: a new entry on top of a stack that didn't shrink means
+ * a mutation was made (or redone) if it's the undo stack, and undone if it's the redo stack
+ *
+ * @param previous - The stacks before the change
+ * @param current - The stacks after the change
+ * @returns The event, or undefined if entries were only dropped (i.e. the redo stack was cleared by a new mutation)
+ */
+export function getScheduleHistoryEvent(
+    previous: ScheduleHistoryStacks,
+    current: ScheduleHistoryStacks
+): ScheduleHistoryEvent | undefined {
+    const [undone] = current.redoStack;
+    if (undone && undone.id !== previous.redoStack[0]?.id && current.redoStack.length >= previous.redoStack.length) {
+        return { action: 'redo', entry: undone };
+    }
+
+    const [made] = current.undoStack;
+    if (made && made.id !== previous.undoStack[0]?.id && current.undoStack.length >= previous.undoStack.length) {
+        return { action: 'undo', entry: made };
+    }
+
+    return undefined;
+}
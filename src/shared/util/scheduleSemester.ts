@@ -0,0 +1,91 @@
+import type { Course, Semester } from '../types/Course';
+import { formatSemester, getSemesterCode, isSameSemester, parseSemesterCode } from './academicCalendar';
+
+/**
+ * Infers which semester a schedule is for from its courses: the semester most of them are in
+ *
+ * @param courses - The schedule's courses
+ * @returns The semester, or undefined if the schedule has no courses
+ */
+export function inferScheduleSemester(courses: Pick<Course, 'semester'>[]): Semester | undefined {
+    const counts = new Map<string, number>();
+    for (const { semester } of courses) {
+        const code = getSemesterCode(semester);
+        counts.set(code, (counts.get(code) ?? 0) + 1);
+    }
+
+    const [code] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    return code ? parseSemesterCode(code) : undefined;
+}
+
+/**
+ * Checks whether a section is from a different semester than the schedule it's being added to
+ *
+ * @param schedule - The schedule's name and courses
+ * @param course - The section being added
+ * @returns A warning describing the mismatch, or undefined if the section can be added
+ */
+export function getSemesterMismatch(
+    schedule: { name: string; courses: Pick<Course, 'semester'>[] },
+    course: Pick<Course, 'department' | 'number' | 'semester'>
+): string | undefined {
+    const scheduleSemester = inferScheduleSemester(schedule.courses);
+    if (!scheduleSemester || isSameSemester(scheduleSemester, course.semester)) {
+        return undefined;
+    }
+
+    return `${course.department} ${course.number} is a ${formatSemester(course.semester)} section, but "${schedule.name}" is for ${formatSemester(scheduleSemester)}`;
+}
+
+/**
+ * Schedules that are for the same semester, as shown together in the schedule list
+ */
+export type SemesterScheduleGroup<T> = {
+    /** The semester, or undefined for the schedules that don't have any courses yet */
+    semester?: Semester;
+    /** i.e. "Fall 2024", or "No courses yet" */
+    label: string;
+    schedules: T[];
+};
+
+/**
+ * Groups schedules by the semester they're for, most recent semester first.
+ * Schedules keep their order within each group, and empty schedules go in a group at the end.
+ *
+ * @param schedules - The schedules, in the user's order
+ * @returns The groups
+ */
+export function groupSchedulesBySemester<T extends { courses: Pick<Course, 'semester'>[] }>(
+    schedules: T[]
+): SemesterScheduleGroup<T>[] {
+    const groups = new Map<string, SemesterScheduleGroup<T>>();
+
+    for (const schedule of schedules) {
+        const semester = inferScheduleSemester(schedule.courses);
+        const key = semester ? getSemesterCode(semester) : '';
+        const group = groups.get(key) ?? {
+            semester,
+            label: semester ? formatSemester(semester) : 'No courses yet',
+            schedules: [],
+        };
+        group.schedules.push(schedule);
+        groups.set(key, group);
+    }
+
+    // semester codes sort chronologically, and the empty key sorts last when reversed
+    return [...groups.entries()].sort(([a], [b]) => b.localeCompare(a)).map(([, group]) => group);
+}
+
+/**
+ * Puts a group of schedules that was reordered back into the full list, in the same spots the group's schedules had
+ *
+ * @param schedules - Every schedule, in the user's order
+ * @param reorderedGroup - The schedules of one group, in their new order
+ * @returns Every schedule, with the group's schedules reordered
+ */
+export function mergeReorderedGroup<T extends { id: string }>(schedules: T[], reorderedGroup: T[]): T[] {
+    const groupIds = new Set(reorderedGroup.map(s => s.id));
+    const remaining = [...reorderedGroup];
+
+    return schedules.map(schedule => (groupIds.has(schedule.id) ? (remaining.shift() ?? schedule) : schedule));
+}
@@ -0,0 +1,100 @@
+import type { ScheduleState } from './scheduleHistory';
+
+/**
+ * Where the user's schedules are read from and written to, i.e. the UserScheduleStore
+ */
+export interface ScheduleStorage {
+    get: () => Promise<ScheduleState>;
+    set: (state: ScheduleState) => Promise<void>;
+}
+
+/**
+ * A read-modify-write of the user's schedules. It changes the state it's given in place, and may return a result.
+ * It can run more than once if the schedules change underneath it, so anything it does besides changing the state
+ * (i.e. recording the change for undo) should be passed to `afterCommit`, which runs once the changes are saved.
+ */
+export type ScheduleTransaction<T> = (
+    state: ScheduleState,
+    afterCommit: (callback: () => Promise<unknown>) => void
+) => T | Promise<T>;
+
+/**
+ * A function that runs schedule transactions one at a time, in the order they were queued
+ */
+export type ScheduleTransactionRunner = <T>(transaction: ScheduleTransaction<T>) => Promise<T>;
+
+/**
+ * Thrown when the schedules kept being changed by something outside the queue while a transaction was running
+ */
+export class ScheduleConflictError extends Error {
+    constructor(message = 'Your schedules were changed somewhere else while saving, please try again') {
+        super(message);
+        this.name = 'ScheduleConflictError';
+    }
+}
+
+/**
+ * Creates a queue that runs async tasks one at a time, in the order they were added.
+ * A task that fails doesn't stop the tasks after it.
+ *
+ * @returns A function that queues a task, and resolves (or rejects) with the task's result once it has run
+ */
+export function createSerialQueue(): <T>(task: () => Promise<T>) => Promise<T> {
+    let tail: Promise<unknown> = Promise.resolve();
+
+    return task => {
+        const result = tail.then(() => task());
+        tail = result.catch(() => undefined);
+        return result;
+    };
+}
+
+/**
+ * Summarizes which version of the schedules a transaction read: every write bumps the `updatedAt` of the schedules
+ * it changes, and reordering or deleting schedules changes the ids' order
+ *
+ * @param state - The schedules and the index of the active one
+ * @returns A string that changes whenever the schedules are written to
+ */
+export function getScheduleVersion(state: ScheduleState): string {
+    return [state.activeIndex, ...state.schedules.map(s => `${s.id}@${s.updatedAt}`)].join(',');
+}
+
+/**
+ * Creates the single write path for the user's schedules. Transactions are queued so they never interleave,
+ * and each one is only saved if the schedules weren't changed by anything outside the queue while it ran
+ * (compare-and-set on the schedules' `updatedAt`); otherwise it's retried on the latest schedules.
+ *
+ * @param storage - Where the schedules are kept
+ * @param maxAttempts - How many times a transaction is run before giving up with a ScheduleConflictError
+ * @returns A function that runs a transaction, and resolves with its result once its changes are saved
+ */
+export function createScheduleTransactions(storage: ScheduleStorage, maxAttempts = 3): ScheduleTransactionRunner {
+    const enqueue = createSerialQueue();
+
+    const attempt = async <T>(transaction: ScheduleTransaction<T>, attemptsLeft: number): Promise<T> => {
+        const state = await storage.get();
+        const version = getScheduleVersion(state);
+        const callbacks: (() => Promise<unknown>)[] = [];
+
+        const result = await transaction(state, callback => callbacks.push(callback));
+
+        if (getScheduleVersion(await storage.get()) !== version) {
+            if (attemptsLeft <= 1) {
+                throw new ScheduleConflictError();
+            }
+            return attempt(transaction, attemptsLeft - 1);
+        }
+
+        await storage.set(state);
+        for (const callback of callbacks) {
+            // in order, i.e. so history entries are recorded in the order the changes were made
+            // eslint-disable-next-line no-await-in-loop
+            await callback();
+        }
+
+        return result;
+    };
+
+    return transaction => enqueue(() => attempt(transaction, maxAttempts));
+}
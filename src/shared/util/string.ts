@@ -48,3 +48,14 @@ export const ellipsify = (input: string, chars: number): string => {
     }
     return ellipisifed;
 };
+
+/**
+ * Parses a section's unique id out of some text from one of UT's pages, i.e. "50805" or "Swap: 50805"
+ *
+ * @param text - The text to search
+ * @returns The unique id, or undefined if the text doesn't have one
+ */
+export function parseUniqueId(text: string | null | undefined): number | undefined {
+    const match = text?.match(/\b\d{5}\b/);
+    return match ? Number(match[0]) : undefined;
+}
@@ -0,0 +1,139 @@
+import {
+    ACADEMIC_CALENDAR,
+    estimateAcademicTerm,
+    findAcademicTerm,
+    getAcademicTerm,
+    getClassWeeksRemaining,
+    getHolidayDates,
+    getSemesterCode,
+    parseSemesterCode,
+    parseSemesterName,
+} from '@shared/util/academicCalendar';
+import { describe, expect, it } from 'vitest';
+
+describe('getSemesterCode', () => {
+    it('should prefer the scraped semester code', () => {
+        expect(getSemesterCode({ year: 2024, season: 'Fall', code: '20249' })).toBe('20249');
+    });
+
+    it('should build the code from the year and season', () => {
+        expect(getSemesterCode({ year: 2025, season: 'Spring' })).toBe('20252');
+        expect(getSemesterCode({ year: 2025, season: 'Summer' })).toBe('20256');
+        expect(getSemesterCode({ year: 2025, season: 'Fall' })).toBe('20259');
+    });
+});
+
+describe('getAcademicTerm', () => {
+    it('should return a known term from the dataset', () => {
+        const term = getAcademicTerm({ year: 2025, season: 'Spring', code: '20252' });
+
+        expect(term.isEstimated).toBe(false);
+        expect(term.code).toBe('20252');
+        expect(term.firstClassDay).toBe('2025-01-13');
+        expect(term.lastClassDay).toBe('2025-04-28');
+    });
+
+    it('should fall back to an estimate for unknown terms', () => {
+        const term = getAcademicTerm({ year: 2030, season: 'Fall' });
+
+        expect(term.isEstimated).toBe(true);
+        expect(term.code).toBe('20309');
+        expect(findAcademicTerm('20309')).toBeUndefined();
+    });
+});
+
+describe('estimateAcademicTerm', () => {
+    it('should closely match known long semesters', () => {
+        for (const code of ['20249', '20252', '20259', '20262']) {
+            const known = findAcademicTerm(code)!;
+            const year = Number(code.slice(0, 4));
+            const season = code.endsWith('9') ? 'Fall' : 'Spring';
+            const estimate = estimateAcademicTerm({ year, season });
+
+            expect(estimate.firstClassDay).toBe(known.firstClassDay);
+            expect(estimate.lastClassDay).toBe(known.lastClassDay);
+        }
+    });
+
+    it('should keep holidays and finals consistent with the class days', () => {
+        for (const season of ['Fall', 'Spring', 'Summer'] as const) {
+            const term = estimateAcademicTerm({ year: 2031, season });
+
+            expect(term.firstClassDay < term.lastClassDay).toBe(true);
+            expect(term.finals.start > term.lastClassDay).toBe(true);
+            for (const holiday of term.holidays) {
+                expect(holiday.start >= term.firstClassDay && holiday.end <= term.lastClassDay).toBe(true);
+            }
+        }
+    });
+});
+
+describe('ACADEMIC_CALENDAR', () => {
+    it('should have well-formed terms', () => {
+        for (const [code, term] of Object.entries(ACADEMIC_CALENDAR.terms)) {
+            expect(code).toMatch(/^\d{4}[269]$/);
+            expect(term.firstClassDay < term.lastClassDay).toBe(true);
+            expect(term.lastClassDay < term.finals.start).toBe(true);
+            for (const { start, end } of [...term.holidays, ...term.registrationPeriods]) {
+                expect(start <= end).toBe(true);
+            }
+        }
+    });
+});
+
+describe('getHolidayDates', () => {
+    it('should expand holiday ranges into individual dates', () => {
+        const term = findAcademicTerm('20252')!;
+
+        expect(getHolidayDates(term)).toEqual([
+            '2025-01-20',
+            '2025-03-17',
+            '2025-03-18',
+            '2025-03-19',
+            '2025-03-20',
+            '2025-03-21',
+            '2025-03-22',
+        ]);
+    });
+});
+
+describe('getClassWeeksRemaining', () => {
+    const term = findAcademicTerm('20252')!;
+
+    it('should count the whole term before classes start', () => {
+        expect(getClassWeeksRemaining(term, '2024-12-01')).toBe(16);
+    });
+
+    it('should count the weeks left during the term', () => {
+        expect(getClassWeeksRemaining(term, '2025-04-22')).toBe(1);
+    });
+
+    it('should return 0 after the last class day', () => {
+        expect(getClassWeeksRemaining(term, '2025-05-01')).toBe(0);
+    });
+});
+
+describe('parseSemesterName', () => {
+    it('should parse terms in either order', () => {
+        expect(parseSemesterName('Spring 2025')).toEqual({ year: 2025, season: 'Spring' });
+        expect(parseSemesterName('2025 Fall')).toEqual({ year: 2025, season: 'Fall' });
+        expect(parseSemesterName('summer 2026')).toEqual({ year: 2026, season: 'Summer' });
+    });
+
+    it('should return undefined for other terms', () => {
+        expect(parseSemesterName('Winter 2025')).toBeUndefined();
+        expect(parseSemesterName('Spring')).toBeUndefined();
+    });
+});
+
+describe('parseSemesterCode', () => {
+    it('should parse semester codes', () => {
+        expect(parseSemesterCode('20249')).toEqual({ year: 2024, season: 'Fall', code: '20249' });
+        expect(parseSemesterCode('20252')).toEqual({ year: 2025, season: 'Spring', code: '20252' });
+    });
+
+    it('should reject invalid codes', () => {
+        expect(parseSemesterCode('20241')).toBeUndefined();
+        expect(parseSemesterCode('fall')).toBeUndefined();
+    });
+});
@@ -0,0 +1,46 @@
+import { Status } from '@shared/types/Course';
+import { diffCourses, formatCourseChange } from '@shared/util/courseChanges';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+describe('diffCourses', () => {
+    it('should return nothing when the course did not change', () => {
+        expect(diffCourses(makeCourse(), makeCourse({ scrapedAt: Date.now() }))).toEqual([]);
+    });
+
+    it('should detect status, instructor and meeting changes', () => {
+        const current = makeCourse({
+            status: Status.WAITLISTED,
+            instructors: [{ firstName: 'BEN', lastName: 'JONES', fullName: 'JONES, BEN' }],
+            schedule: {
+                meetings: [
+                    {
+                        days: ['Tuesday', 'Thursday'],
+                        startTime: 14 * 60,
+                        endTime: 15 * 60 + 30,
+                        location: { building: 'WEL', room: '2.224' },
+                    },
+                ],
+            },
+        });
+
+        expect(diffCourses(makeCourse(), current)).toEqual([
+            { field: 'status', previous: 'OPEN', current: 'WAITLISTED' },
+            { field: 'instructors', previous: 'Anna Smith', current: 'Ben Jones' },
+            {
+                field: 'meetings',
+                previous: 'TTH 2:00pm - 3:30pm in GDC 2.216',
+                current: 'TTH 2:00pm - 3:30pm in WEL 2.224',
+            },
+        ]);
+    });
+});
+
+describe('formatCourseChange', () => {
+    it('should describe the change', () => {
+        expect(formatCourseChange({ field: 'status', previous: 'OPEN', current: 'CLOSED' })).toBe(
+            'Status: OPEN → CLOSED'
+        );
+    });
+});
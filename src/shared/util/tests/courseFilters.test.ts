@@ -0,0 +1,89 @@
+import { Status } from '@shared/types/Course';
+import {
+    DEFAULT_COURSE_FILTERS,
+    getCourseComparator,
+    hasActiveFilters,
+    matchesCourseFilters,
+} from '@shared/util/courseFilters';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const at = (startTime: number, uniqueId = 50805) =>
+    makeCourse({ uniqueId, schedule: { meetings: [{ days: ['Monday'], startTime, endTime: startTime + 50 }] } });
+
+describe('matchesCourseFilters', () => {
+    it('should show everything by default', () => {
+        expect(matchesCourseFilters(makeCourse(), DEFAULT_COURSE_FILTERS)).toBe(true);
+        expect(hasActiveFilters(DEFAULT_COURSE_FILTERS)).toBe(false);
+    });
+
+    it('should filter by status and instruction mode', () => {
+        const course = makeCourse({ status: Status.WAITLISTED });
+
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, statuses: [Status.OPEN] })).toBe(false);
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, instructionModes: ['In Person'] })).toBe(true);
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, instructionModes: ['Online'] })).toBe(false);
+    });
+
+    it('should hide sections that meet outside of the picked days and times', () => {
+        const course = makeCourse();
+
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, days: ['Tuesday', 'Thursday'] })).toBe(true);
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, days: ['Tuesday'] })).toBe(false);
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, earliestStartTime: 15 * 60 })).toBe(false);
+        expect(matchesCourseFilters(course, { ...DEFAULT_COURSE_FILTERS, latestEndTime: 16 * 60 })).toBe(true);
+    });
+
+    it('should match instructors by any part of their name', () => {
+        expect(matchesCourseFilters(makeCourse(), { ...DEFAULT_COURSE_FILTERS, instructor: 'smi' })).toBe(true);
+        expect(matchesCourseFilters(makeCourse(), { ...DEFAULT_COURSE_FILTERS, instructor: 'jones' })).toBe(false);
+    });
+
+    it('should require every picked flag and core requirement', () => {
+        const course = makeCourse({
+            flags: ['Quantitative Reasoning'],
+            core: ['Natural Science and Technology, Part I'],
+        });
+        const filters = { ...DEFAULT_COURSE_FILTERS, flags: ['Quantitative Reasoning', 'Writing'] };
+
+        expect(matchesCourseFilters(course, filters)).toBe(false);
+        expect(
+            matchesCourseFilters(course, {
+                ...DEFAULT_COURSE_FILTERS,
+                core: ['Natural Science and Technology, Part I'],
+            })
+        ).toBe(true);
+    });
+
+    it('should hide conflicts with the active schedule', () => {
+        const filters = { ...DEFAULT_COURSE_FILTERS, hideConflicts: true };
+
+        expect(matchesCourseFilters(at(600), filters, [at(620, 1)])).toBe(false);
+        expect(matchesCourseFilters(at(600), filters, [at(600)])).toBe(true);
+        expect(matchesCourseFilters(at(600), filters, [at(700, 1)])).toBe(true);
+    });
+});
+
+describe('getCourseComparator', () => {
+    it('should keep the original order by default', () => {
+        expect(getCourseComparator('default')).toBeUndefined();
+    });
+
+    it('should sort by start time, with sections without times last', () => {
+        const online = makeCourse({ uniqueId: 3, schedule: { meetings: [] } });
+        const sorted = [at(700, 1), online, at(540, 2)].sort(getCourseComparator('startTime'));
+
+        expect(sorted.map(course => course.uniqueId)).toEqual([2, 1, 3]);
+    });
+
+    it('should sort by GPA, highest first', () => {
+        const gpas = new Map([
+            [1, 3.1],
+            [2, 3.8],
+        ]);
+        const sorted = [at(600, 3), at(600, 1), at(600, 2)].sort(getCourseComparator('gpa', gpas));
+
+        expect(sorted.map(course => course.uniqueId)).toEqual([2, 1, 3]);
+    });
+});
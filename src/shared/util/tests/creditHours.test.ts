@@ -0,0 +1,81 @@
+import {
+    formatCreditHours,
+    getCreditHourRange,
+    parseCreditHours,
+    parseDescriptionCreditHours,
+    sumCreditHours,
+} from '@shared/util/creditHours';
+import { describe, expect, it } from 'vitest';
+
+describe('parseCreditHours', () => {
+    it.each([
+        ['314', 3],
+        ['314H', 3],
+        ['408C', 4],
+        ['408D', 4],
+        ['101', 1],
+        ['118C', 1],
+        ['211', 2],
+        ['378', 3],
+        ['612', 6],
+        ['088L', 0],
+        ['098', 0],
+        ['698A', 3],
+        ['698B', 3],
+        ['660A', 3],
+        ['312X', 1],
+        ['312Y', 1],
+        ['312Z', 1],
+        ['f408C', 4],
+        ['s302', 3],
+        ['n310', 3],
+        ['w325', 3],
+    ])('should parse %s as %d hours', (courseNumber, hours) => {
+        expect(parseCreditHours(courseNumber)).toEqual({ min: hours, max: hours });
+    });
+
+    it('should return undefined for numbers without a leading digit', () => {
+        expect(parseCreditHours('TBA')).toBeUndefined();
+        expect(parseCreditHours('')).toBeUndefined();
+    });
+});
+
+describe('parseDescriptionCreditHours', () => {
+    it.each([
+        [['Conference course; one to six semester hours of credit.'], { min: 1, max: 6 }],
+        [['Individual research for 1-3 credit hours.'], { min: 1, max: 3 }],
+        [['May be taken for three or four hours of credit.'], { min: 3, max: 4 }],
+        [['Offered for 0 credit hours.'], { min: 0, max: 0 }],
+    ])('should parse %j', (description, hours) => {
+        expect(parseDescriptionCreditHours(description)).toEqual(hours);
+    });
+
+    it('should ignore contact hours and prerequisites', () => {
+        expect(
+            parseDescriptionCreditHours([
+                'Three lecture hours and two laboratory hours a week for one semester.',
+                'Prerequisite: Six semester hours of coursework in biology and 24 hours of credit.',
+            ])
+        ).toBeUndefined();
+    });
+});
+
+describe('sumCreditHours', () => {
+    it('should add up fixed and variable-credit courses', () => {
+        const courses = [{ creditHours: 3 }, { creditHours: 4 }, { creditHours: 1, maxCreditHours: 6 }];
+
+        expect(sumCreditHours(courses)).toEqual({ min: 8, max: 13 });
+        expect(sumCreditHours([])).toEqual({ min: 0, max: 0 });
+    });
+
+    it('should never let the maximum drop below the minimum', () => {
+        expect(getCreditHourRange({ creditHours: 3, maxCreditHours: 1 })).toEqual({ min: 3, max: 3 });
+    });
+});
+
+describe('formatCreditHours', () => {
+    it('should only show a range for variable-credit hours', () => {
+        expect(formatCreditHours({ min: 3, max: 3 })).toBe('3');
+        expect(formatCreditHours({ min: 1, max: 6 })).toBe('1–6');
+    });
+});
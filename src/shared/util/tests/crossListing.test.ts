@@ -0,0 +1,87 @@
+import type { CourseListing } from '@shared/types/Course';
+import { isListedAs, isSameClass, parseCrossListings, parseTopic } from '@shared/util/crossListing';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const makeSection = (
+    uniqueId: number,
+    department: string,
+    number: string,
+    crossListings: CourseListing[] = [],
+    startTime = 600
+) =>
+    makeCourse({
+        uniqueId,
+        number,
+        fullName: `${department} ${number} WOMEN IN SCIENCE`,
+        courseName: 'WOMEN IN SCIENCE',
+        department,
+        schedule: {
+            meetings: [{ days: ['Tuesday', 'Thursday'], startTime, endTime: startTime + 90 }],
+        },
+        crossListings,
+    });
+
+describe('parseCrossListings', () => {
+    it('should parse every listing of a "same as" sentence', () => {
+        expect(
+            parseCrossListings(['Same as AFR 372C (Topic 2) and WGS 340. Prerequisite: Upper-division standing.'])
+        ).toEqual([
+            { department: 'AFR', number: '372C', topic: 2 },
+            { department: 'WGS', number: '340' },
+        ]);
+    });
+
+    it('should keep spaces in department codes', () => {
+        expect(parseCrossListings(['Same as C S 378.'])).toEqual([{ department: 'C S', number: '378' }]);
+    });
+
+    it('should ignore descriptions without a "same as" sentence', () => {
+        expect(parseCrossListings(['Prerequisite: M 408D.'])).toEqual([]);
+    });
+});
+
+describe('parseTopic', () => {
+    it('should parse a numbered topic', () => {
+        expect(parseTopic(['Restricted to majors.', 'Topic 6: Modern Japan.'])).toEqual({
+            number: 6,
+            title: 'Modern Japan',
+        });
+    });
+
+    it('should return undefined for courses without a topic', () => {
+        expect(parseTopic(['Restricted to majors.'])).toBeUndefined();
+    });
+});
+
+describe('isListedAs', () => {
+    it('should match cross-listings regardless of department spacing', () => {
+        const course = makeSection(1, 'WGS', '340', [{ department: 'C S', number: '378' }]);
+
+        expect(isListedAs(course, { department: 'CS', number: '378' })).toBe(true);
+        expect(isListedAs(course, { department: 'WGS', number: '340' })).toBe(true);
+        expect(isListedAs(course, { department: 'C S', number: '379' })).toBe(false);
+    });
+});
+
+describe('isSameClass', () => {
+    it('should treat cross-listed sections that meet together as the same class', () => {
+        const a = makeSection(1, 'WGS', '340', [{ department: 'AFR', number: '372C' }]);
+        const b = makeSection(2, 'AFR', '372C');
+
+        expect(isSameClass(a, b)).toBe(true);
+        expect(isSameClass(b, a)).toBe(true);
+    });
+
+    it('should not treat cross-listed sections at different times as the same class', () => {
+        const a = makeSection(1, 'WGS', '340', [{ department: 'AFR', number: '372C' }]);
+        const b = makeSection(2, 'AFR', '372C', [], 720);
+
+        expect(isSameClass(a, b)).toBe(false);
+    });
+
+    it('should not treat unrelated sections as the same class', () => {
+        expect(isSameClass(makeSection(1, 'WGS', '340'), makeSection(2, 'AFR', '372C'))).toBe(false);
+    });
+});
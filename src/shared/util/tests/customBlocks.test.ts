@@ -0,0 +1,76 @@
+import type { CourseMeeting } from '@shared/types/CourseMeeting';
+import { CustomBlock } from '@shared/types/CustomBlock';
+import {
+    describeCustomBlock,
+    formatTimeInput,
+    getBlockConflicts,
+    parseTimeInput,
+    validateCustomBlock,
+} from '@shared/util/customBlocks';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const makeCourseWithMeetings = (meetings: Pick<CourseMeeting, 'days' | 'startTime' | 'endTime'>[]) =>
+    makeCourse({ schedule: { meetings } });
+
+const work = new CustomBlock({
+    id: 'work',
+    title: 'Work',
+    days: ['Monday', 'Wednesday'],
+    startTime: 540,
+    endTime: 720,
+    color: '#579D42',
+});
+
+describe('validateCustomBlock', () => {
+    it('should accept a complete block', () => {
+        expect(validateCustomBlock(work)).toBeUndefined();
+    });
+
+    it('should explain what is missing from a block', () => {
+        expect(validateCustomBlock({ ...work, title: '  ' })).toBe('Give the block a title');
+        expect(validateCustomBlock({ ...work, days: [] })).toBe('Pick at least one day');
+        expect(validateCustomBlock({ ...work, endTime: 540 })).toBe('The block has to end after it starts');
+    });
+});
+
+describe('getBlockConflicts', () => {
+    it('should find the blocks a course overlaps', () => {
+        const course = makeCourseWithMeetings([{ days: ['Wednesday'], startTime: 660, endTime: 750 }]);
+
+        expect(getBlockConflicts(course, [work])).toEqual([work]);
+    });
+
+    it('should ignore blocks on other days or at other times', () => {
+        const otherDay = makeCourseWithMeetings([{ days: ['Tuesday'], startTime: 540, endTime: 720 }]);
+        const afterWork = makeCourseWithMeetings([{ days: ['Monday'], startTime: 720, endTime: 800 }]);
+
+        expect(getBlockConflicts(otherDay, [work])).toEqual([]);
+        expect(getBlockConflicts(afterWork, [work])).toEqual([]);
+    });
+});
+
+describe('describeCustomBlock', () => {
+    it('should show the title and times of a block', () => {
+        expect(describeCustomBlock(work)).toBe('Work (9:00 AM – 12:00 PM)');
+    });
+});
+
+describe('time inputs', () => {
+    it('should read the value of a time input', () => {
+        expect(parseTimeInput('13:30')).toBe(810);
+        expect(parseTimeInput('9:05')).toBe(545);
+    });
+
+    it('should reject empty or invalid values', () => {
+        expect(parseTimeInput('')).toBeUndefined();
+        expect(parseTimeInput('24:00')).toBeUndefined();
+        expect(parseTimeInput('12:60')).toBeUndefined();
+    });
+
+    it('should format times for a time input', () => {
+        expect(formatTimeInput(545)).toBe('09:05');
+        expect(formatTimeInput(parseTimeInput('23:59')!)).toBe('23:59');
+    });
+});
@@ -0,0 +1,124 @@
+import type { Distribution } from '@shared/types/Distribution';
+import {
+    formatGradeStats,
+    getAverageGPA,
+    getGradeFractions,
+    getGradeStats,
+    sumDistributions,
+} from '@shared/util/gradeDistribution';
+import { describe, expect, it } from 'vitest';
+
+const emptyDistribution: Distribution = {
+    A: 0,
+    'A-': 0,
+    'B+': 0,
+    B: 0,
+    'B-': 0,
+    'C+': 0,
+    C: 0,
+    'C-': 0,
+    'D+': 0,
+    D: 0,
+    'D-': 0,
+    F: 0,
+    Other: 0,
+};
+
+describe('getAverageGPA', () => {
+    it('should average the grade points of every letter grade', () => {
+        expect(getAverageGPA({ ...emptyDistribution, A: 2, B: 1, F: 1 })).toBe(2.75);
+    });
+
+    it('should not count other grades', () => {
+        expect(getAverageGPA({ ...emptyDistribution, A: 1, Other: 10 })).toBe(4);
+    });
+
+    it('should return undefined when nobody got a letter grade', () => {
+        expect(getAverageGPA({ ...emptyDistribution, Other: 3 })).toBeUndefined();
+    });
+});
+
+describe('sumDistributions', () => {
+    it('should add up every grade', () => {
+        expect(
+            sumDistributions([
+                { ...emptyDistribution, A: 1, Other: 2 },
+                { ...emptyDistribution, A: 3 },
+            ])
+        ).toEqual({
+            ...emptyDistribution,
+            A: 4,
+            Other: 2,
+        });
+    });
+});
+
+describe('getGradeFractions', () => {
+    it('should divide each grade by the total number of students', () => {
+        expect(getGradeFractions({ ...emptyDistribution, A: 3, Other: 1 })).toEqual({
+            ...emptyDistribution,
+            A: 0.75,
+            Other: 0.25,
+        });
+    });
+
+    it('should be all zeros without any students', () => {
+        expect(getGradeFractions(emptyDistribution)).toEqual(emptyDistribution);
+    });
+});
+
+describe('getGradeStats', () => {
+    it('should compute the stats across every semester', () => {
+        const stats = getGradeStats([
+            { semester: { year: 2023, season: 'Fall' }, distribution: { ...emptyDistribution, A: 3, B: 1, Other: 1 } },
+            { semester: { year: 2024, season: 'Spring' }, distribution: { ...emptyDistribution, 'A-': 1, F: 3 } },
+        ]);
+
+        expect(stats).toMatchObject({ percentA: 0.5, otherRate: 1 / 9, sampleSize: 9, semesterCount: 2 });
+        expect(stats?.averageGPA).toBeCloseTo((3 * 4 + 3 + 3.67) / 8);
+    });
+
+    it('should follow the GPA over time, oldest semester first', () => {
+        const stats = getGradeStats([
+            { semester: { year: 2024, season: 'Fall' }, distribution: { ...emptyDistribution, A: 1 } },
+            { semester: { year: 2023, season: 'Fall' }, distribution: { ...emptyDistribution, C: 1 } },
+            { semester: { year: 2024, season: 'Spring' }, distribution: { ...emptyDistribution, B: 1 } },
+        ]);
+
+        expect(stats?.gpaChangePerSemester).toBeCloseTo(1);
+        expect(stats?.trend).toBe('rising');
+    });
+
+    it('should call small changes steady and skip the trend with one semester', () => {
+        const steady = getGradeStats([
+            { semester: { year: 2023, season: 'Fall' }, distribution: { ...emptyDistribution, A: 100, B: 1 } },
+            { semester: { year: 2024, season: 'Spring' }, distribution: { ...emptyDistribution, A: 100 } },
+        ]);
+        const single = getGradeStats([
+            { semester: { year: 2023, season: 'Fall' }, distribution: { ...emptyDistribution, A: 1 } },
+        ]);
+
+        expect(steady?.trend).toBe('steady');
+        expect(single?.trend).toBeUndefined();
+        expect(single?.gpaChangePerSemester).toBeUndefined();
+    });
+
+    it('should return undefined without any students', () => {
+        expect(getGradeStats([])).toBeUndefined();
+    });
+});
+
+describe('formatGradeStats', () => {
+    it('should describe each stat on its own line', () => {
+        const stats = getGradeStats([
+            { semester: { year: 2023, season: 'Fall' }, distribution: { ...emptyDistribution, A: 3, Other: 1 } },
+        ]);
+
+        expect(formatGradeStats(stats!)).toEqual([
+            'Average GPA: 4.00',
+            "100% A's",
+            '25% dropped or other grades',
+            '4 students over 1 semester',
+        ]);
+    });
+});
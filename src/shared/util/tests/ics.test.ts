@@ -0,0 +1,218 @@
+import type { AcademicTerm } from '@shared/types/AcademicCalendar';
+import { CustomBlock } from '@shared/types/CustomBlock';
+import { escapeICSText, foldICSLine, generateICS } from '@shared/util/ics';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+type ParsedProperty = {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+};
+
+/**
+ * Unfolds and parses an .ics file into its components (a minimal RFC 5545 reader for testing)
+ */
+function parseICS(ics: string): Record<string, ParsedProperty[]>[] {
+    const lines = ics
+        .replace(/\r\n[ \t]/g, '')
+        .split('\r\n')
+        .filter(Boolean);
+    const components: Record<string, ParsedProperty[]>[] = [];
+    const stack: Record<string, ParsedProperty[]>[] = [];
+
+    for (const line of lines) {
+        const separator = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+        const [nameAndParams, value] = [line.slice(0, separator), line.slice(separator + 1)];
+        const [name, ...rawParams] = nameAndParams.split(';');
+        const params = Object.fromEntries(rawParams.map(param => param.split('=') as [string, string]));
+
+        if (name === 'BEGIN') {
+            const component: Record<string, ParsedProperty[]> = { BEGIN: [{ name, params, value }] };
+            stack.push(component);
+            components.push(component);
+        } else if (name === 'END') {
+            stack.pop();
+        } else {
+            const current = stack[stack.length - 1]!;
+            current[name!] = [...(current[name!] ?? []), { name: name!, params, value }];
+        }
+    }
+
+    return components;
+}
+
+const getEvents = (ics: string) => parseICS(ics).filter(c => c.BEGIN?.[0]?.value === 'VEVENT');
+
+const unescape = (text: string) => text.replace(/\\n/g, '\n').replace(/\\([\\;,])/g, '$1');
+
+const springTerm: AcademicTerm = {
+    code: '20252',
+    firstClassDay: '2025-01-13',
+    lastClassDay: '2025-04-28',
+    holidays: [
+        { name: 'Martin Luther King Jr. Day', start: '2025-01-20', end: '2025-01-20' },
+        { name: 'Spring Break', start: '2025-03-17', end: '2025-03-22' },
+    ],
+    finals: { start: '2025-05-02', end: '2025-05-08' },
+    registrationPeriods: [],
+    isEstimated: false,
+};
+
+const work = new CustomBlock({
+    id: 'work',
+    title: 'Work',
+    days: ['Tuesday'],
+    startTime: 9 * 60,
+    endTime: 12 * 60,
+    color: '#000000',
+});
+
+describe('generateICS', () => {
+    const timestamp = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+    it('should wrap events in a calendar with a timezone definition', () => {
+        const ics = generateICS([makeCourse()], { termDates: () => springTerm, timestamp });
+        const components = parseICS(ics);
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(components[0]!.VERSION?.[0]?.value).toBe('2.0');
+        expect(components[0]!.PRODID).toBeDefined();
+
+        const timezone = components.find(c => c.BEGIN?.[0]?.value === 'VTIMEZONE');
+        expect(timezone?.TZID?.[0]?.value).toBe('America/Chicago');
+    });
+
+    it('should anchor each meeting to its first weekday in the term', () => {
+        const [event] = getEvents(generateICS([makeCourse()], { termDates: () => springTerm, timestamp }));
+
+        // Jan 13 2025 is a Monday, so the first Tuesday class is Jan 14
+        expect(event!.DTSTART?.[0]).toMatchObject({ params: { TZID: 'America/Chicago' }, value: '20250114T140000' });
+        expect(event!.DTEND?.[0]).toMatchObject({ params: { TZID: 'America/Chicago' }, value: '20250114T153000' });
+    });
+
+    it('should end the recurrence on the last class day', () => {
+        const [event] = getEvents(generateICS([makeCourse()], { termDates: () => springTerm, timestamp }));
+        const rrule = Object.fromEntries(event!.RRULE![0]!.value.split(';').map(part => part.split('=')));
+
+        expect(rrule.FREQ).toBe('WEEKLY');
+        expect(rrule.BYDAY).toBe('TU,TH');
+        expect(rrule.COUNT).toBeUndefined();
+        // 11:59 pm CDT on Apr 28 2025 is 4:59 am UTC on Apr 29
+        expect(rrule.UNTIL).toBe('20250429T045900Z');
+    });
+
+    it('should exclude holidays that fall on meeting days', () => {
+        const [event] = getEvents(generateICS([makeCourse()], { termDates: () => springTerm, timestamp }));
+        const exdates = event!.EXDATE![0]!;
+
+        expect(exdates.params.TZID).toBe('America/Chicago');
+        // Only the Tuesday and Thursday of spring break, MLK day is a Monday
+        expect(exdates.value.split(',')).toEqual(['20250318T140000', '20250320T140000']);
+    });
+
+    it('should include a unique id, timestamp, summary, and location', () => {
+        const [event] = getEvents(generateICS([makeCourse()], { termDates: () => springTerm, timestamp }));
+
+        expect(event!.UID?.[0]?.value).toBe('20252-50805-0@utregistrationplus');
+        expect(event!.DTSTAMP?.[0]?.value).toBe('20250101T120000Z');
+        expect(event!.SUMMARY?.[0]?.value).toBe('C S 429 COMP ORGANIZATN AND ARCH');
+        expect(event!.LOCATION?.[0]?.value).toBe('GDC 2.216');
+        expect(unescape(event!.DESCRIPTION![0]!.value)).toContain('Instructor: Anna Smith');
+    });
+
+    it('should create one event per meeting with distinct ids', () => {
+        const course = makeCourse({
+            schedule: {
+                meetings: [
+                    { days: ['Monday', 'Wednesday', 'Friday'], startTime: 600, endTime: 650 },
+                    { days: ['Friday'], startTime: 780, endTime: 900 },
+                ],
+            },
+        });
+        const events = getEvents(generateICS([course], { termDates: () => springTerm, timestamp }));
+
+        expect(events).toHaveLength(2);
+        expect(new Set(events.map(e => e.UID?.[0]?.value)).size).toBe(2);
+        // MLK day is the only Monday holiday before spring break
+        expect(events[0]!.EXDATE?.[0]?.value.split(',')).toContain('20250120T100000');
+    });
+
+    it('should only add alarms when requested', () => {
+        const withoutAlarm = generateICS([makeCourse()], { termDates: () => springTerm, timestamp });
+        const withAlarm = generateICS([makeCourse()], {
+            termDates: () => springTerm,
+            timestamp,
+            alarmMinutesBefore: 15,
+        });
+
+        expect(parseICS(withoutAlarm).some(c => c.BEGIN?.[0]?.value === 'VALARM')).toBe(false);
+
+        const alarm = parseICS(withAlarm).find(c => c.BEGIN?.[0]?.value === 'VALARM');
+        expect(alarm?.ACTION?.[0]?.value).toBe('DISPLAY');
+        expect(alarm?.TRIGGER?.[0]?.value).toBe('-PT15M');
+    });
+
+    it('should add blocks over the term of the schedule, without skipping holidays', () => {
+        const events = getEvents(
+            generateICS([makeCourse()], { termDates: () => springTerm, timestamp, blocks: [work] })
+        );
+        const block = events.find(event => event.SUMMARY?.[0]?.value === 'Work');
+
+        expect(events).toHaveLength(2);
+        expect(block!.DTSTART?.[0]?.value).toBe('20250114T090000');
+        expect(block!.EXDATE).toBeUndefined();
+    });
+
+    it('should leave blocks out when the schedule has no courses to take the term from', () => {
+        expect(getEvents(generateICS([], { termDates: () => springTerm, timestamp, blocks: [work] }))).toHaveLength(0);
+    });
+
+    it('should use the academic calendar by default', () => {
+        const [event] = getEvents(generateICS([makeCourse()], { timestamp }));
+
+        expect(event!.DTSTART?.[0]?.value).toBe('20250114T140000');
+    });
+
+    it('should skip courses without term dates and meetings without days', () => {
+        const asyncCourse = makeCourse({ schedule: { meetings: [] } });
+        const ics = generateICS([makeCourse(), asyncCourse], { termDates: () => undefined, timestamp });
+
+        expect(getEvents(ics)).toHaveLength(0);
+    });
+
+    it('should escape and fold long text values', () => {
+        const course = makeCourse({ fullName: `C S 429 TOPICS; ARCH, SYSTEMS, AND ${'MORE '.repeat(20).trim()}` });
+        const ics = generateICS([course], { termDates: () => springTerm, timestamp });
+
+        for (const line of ics.split('\r\n')) {
+            expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+        }
+
+        const [event] = getEvents(ics);
+        expect(unescape(event!.SUMMARY![0]!.value)).toBe(course.fullName);
+    });
+});
+
+describe('escapeICSText', () => {
+    it('should escape special characters', () => {
+        expect(escapeICSText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+});
+
+describe('foldICSLine', () => {
+    it('should not fold short lines', () => {
+        expect(foldICSLine('SUMMARY:short')).toBe('SUMMARY:short');
+    });
+
+    it('should not split multi-byte characters', () => {
+        const folded = foldICSLine(`SUMMARY:${'é'.repeat(80)}`);
+
+        for (const line of folded.split('\r\n')) {
+            expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+        }
+        expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(80)}`);
+    });
+});
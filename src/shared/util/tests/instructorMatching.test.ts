@@ -0,0 +1,74 @@
+import { formatDatabaseInstructor, isSameInstructor, matchInstructorRows } from '@shared/util/instructorMatching';
+import { describe, expect, it } from 'vitest';
+
+const smith = { fullName: 'SMITH, ANNA M', lastName: 'SMITH', firstName: 'ANNA', middleInitial: 'M' };
+
+describe('isSameInstructor', () => {
+    it('should tell apart instructors with the same last name', () => {
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: 'ANNA' })).toBe(true);
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: 'JOHN' })).toBe(false);
+    });
+
+    it('should use the middle initial when both sides have one', () => {
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: 'ANNA M' })).toBe(true);
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: 'ANNA K' })).toBe(false);
+    });
+
+    it('should fall back to the last name when a first name is missing', () => {
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: null })).toBe(true);
+        expect(isSameInstructor({ lastName: 'SMITH' }, { lastName: 'SMITH', firstName: 'JOHN' })).toBe(true);
+    });
+
+    it('should treat a single letter as an initial', () => {
+        expect(isSameInstructor(smith, { lastName: 'SMITH', firstName: 'A' })).toBe(true);
+    });
+
+    it('should match hyphenated and compound last names written differently', () => {
+        const garcia = { lastName: 'GARCIA-LOPEZ', firstName: 'MARIA' };
+
+        expect(isSameInstructor(garcia, { lastName: 'GARCIA LOPEZ', firstName: 'MARIA' })).toBe(true);
+        expect(isSameInstructor(garcia, { lastName: 'Garcia', firstName: 'Maria' })).toBe(true);
+        expect(isSameInstructor({ lastName: 'DE LA CRUZ' }, { lastName: 'DELACRUZ', firstName: null })).toBe(true);
+        expect(isSameInstructor(garcia, { lastName: 'LOPEZ-GARCIA', firstName: 'JUAN' })).toBe(false);
+    });
+
+    it('should ignore accents and punctuation', () => {
+        expect(isSameInstructor({ lastName: "O'BRIEN" }, { lastName: 'OBRIEN', firstName: null })).toBe(true);
+        expect(isSameInstructor({ lastName: 'PEÑA' }, { lastName: 'PENA', firstName: null })).toBe(true);
+    });
+
+    it('should parse the full name when the parts are missing', () => {
+        expect(isSameInstructor({ fullName: 'SMITH, JOHN' }, { lastName: 'SMITH', firstName: 'ANNA' })).toBe(false);
+        expect(isSameInstructor({ fullName: 'SMITH, ANNA' }, { lastName: 'SMITH', firstName: 'ANNA' })).toBe(true);
+    });
+});
+
+describe('matchInstructorRows', () => {
+    const rows = [
+        { id: 1, lastName: 'SMITH', firstName: 'ANNA' },
+        { id: 2, lastName: 'SMITH', firstName: 'JOHN' },
+        { id: 3, lastName: 'LEE', firstName: 'DAVID' },
+        { id: 4, lastName: 'LEE', firstName: 'DAVID' },
+    ];
+
+    it('should combine the rows of every instructor of a co-taught section', () => {
+        const [matched, coverage] = matchInstructorRows([smith, { lastName: 'LEE', firstName: 'DAVID' }], rows);
+
+        expect(matched.map(row => row.id)).toEqual([1, 3, 4]);
+        expect(coverage).toEqual({ matched: ['Anna Smith', 'David Lee'], unmatched: [] });
+    });
+
+    it('should report the instructors without data', () => {
+        const [matched, coverage] = matchInstructorRows([{ lastName: 'JONES', firstName: 'AMY' }], rows);
+
+        expect(matched).toEqual([]);
+        expect(coverage).toEqual({ matched: [], unmatched: ['Amy Jones'] });
+    });
+});
+
+describe('formatDatabaseInstructor', () => {
+    it('should capitalize the name', () => {
+        expect(formatDatabaseInstructor({ firstName: 'MARY-KATE', lastName: 'SMITH' })).toBe('Mary-Kate Smith');
+        expect(formatDatabaseInstructor({ firstName: null, lastName: 'SMITH' })).toBe('Smith');
+    });
+});
@@ -0,0 +1,39 @@
+import { LRUCache } from '@shared/util/lruCache';
+import { describe, expect, it } from 'vitest';
+
+describe('LRUCache', () => {
+    it('should evict the least recently used entry when full', () => {
+        const cache = new LRUCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+
+        expect(cache.has('a')).toBe(true);
+        expect(cache.has('b')).toBe(false);
+        expect(cache.get('c')).toBe(3);
+        expect(cache.size).toBe(2);
+    });
+
+    it('should replace existing entries without evicting others', () => {
+        const cache = new LRUCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.set('a', 10);
+
+        expect(cache.get('a')).toBe(10);
+        expect(cache.get('b')).toBe(2);
+    });
+
+    it('should cache falsy values', () => {
+        const cache = new LRUCache<string, number | undefined>(1);
+        cache.set('a', undefined);
+
+        expect(cache.has('a')).toBe(true);
+        expect(cache.get('a')).toBeUndefined();
+    });
+
+    it('should need room for at least one entry', () => {
+        expect(() => new LRUCache(0)).toThrow(RangeError);
+    });
+});
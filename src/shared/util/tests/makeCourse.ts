@@ -0,0 +1,40 @@
+import { Course, Status } from '@shared/types/Course';
+import type { Serialized } from 'chrome-extension-toolkit';
+
+/**
+ * Makes a course for a test: a section of C S 429 in Spring 2025 that meets Tuesdays and Thursdays from 2:00 to 3:30 pm
+ *
+ * @param overrides - The fields the test cares about
+ * @returns The course
+ */
+export default function makeCourse(overrides: Partial<Serialized<Course>> = {}): Course {
+    return new Course({
+        uniqueId: 50805,
+        number: '429',
+        fullName: 'C S 429 COMP ORGANIZATN AND ARCH',
+        courseName: 'COMP ORGANIZATN AND ARCH',
+        department: 'C S',
+        creditHours: 4,
+        status: Status.OPEN,
+        instructors: [{ firstName: 'ANNA', lastName: 'SMITH', fullName: 'SMITH, ANNA' }],
+        isReserved: false,
+        schedule: {
+            meetings: [
+                {
+                    days: ['Tuesday', 'Thursday'],
+                    startTime: 14 * 60,
+                    endTime: 15 * 60 + 30,
+                    location: { building: 'GDC', room: '2.216' },
+                },
+            ],
+        },
+        url: 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20252/50805/',
+        flags: [],
+        instructionMode: 'In Person',
+        semester: { year: 2025, season: 'Spring', code: '20252' },
+        scrapedAt: 0,
+        colors: { primaryColor: '#000000', secondaryColor: '#000000' },
+        core: [],
+        ...overrides,
+    });
+}
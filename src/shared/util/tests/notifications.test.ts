@@ -0,0 +1,79 @@
+import type { CourseAlert } from '@shared/types/CourseAlert';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
+import { getCourseAlert, isInQuietHours, takeAlertsWithinRateLimit } from '@shared/util/notifications';
+import { HOUR, MINUTE } from '@shared/util/time';
+import { describe, expect, it } from 'vitest';
+
+const course = { department: 'C S', number: '429', courseName: 'COMP ORGANIZATN AND ARCH' };
+
+const statusChange = (previous: string, current: string): CourseChangeRecord => ({
+    uniqueId: 50805,
+    detectedAt: 0,
+    changes: [{ field: 'status', previous, current }],
+});
+
+describe('getCourseAlert', () => {
+    it('should alert when a closed or waitlisted section opens up', () => {
+        expect(getCourseAlert(statusChange('CLOSED', 'OPEN'), course)).toMatchObject({
+            uniqueId: 50805,
+            reason: 'OPENED',
+            title: 'C S 429 is open',
+        });
+        expect(getCourseAlert(statusChange('WAITLISTED', 'OPEN'), course)?.reason).toBe('OPENED');
+    });
+
+    it('should alert when a section is cancelled', () => {
+        expect(getCourseAlert(statusChange('OPEN', 'CANCELLED'), course)).toMatchObject({
+            reason: 'CANCELLED',
+            title: 'C S 429 was cancelled',
+        });
+    });
+
+    it('should ignore other changes', () => {
+        expect(getCourseAlert(statusChange('OPEN', 'CLOSED'), course)).toBeUndefined();
+        expect(getCourseAlert(statusChange('CANCELLED', 'OPEN'), course)).toBeUndefined();
+        expect(
+            getCourseAlert(
+                { uniqueId: 1, detectedAt: 0, changes: [{ field: 'instructors', previous: 'A', current: 'B' }] },
+                course
+            )
+        ).toBeUndefined();
+    });
+});
+
+describe('isInQuietHours', () => {
+    it('should handle quiet hours within a day', () => {
+        expect(isInQuietHours(13 * 60, 12 * 60, 14 * 60)).toBe(true);
+        expect(isInQuietHours(14 * 60, 12 * 60, 14 * 60)).toBe(false);
+    });
+
+    it('should handle quiet hours that wrap around midnight', () => {
+        expect(isInQuietHours(23 * 60, 22 * 60, 8 * 60)).toBe(true);
+        expect(isInQuietHours(7 * 60, 22 * 60, 8 * 60)).toBe(true);
+        expect(isInQuietHours(12 * 60, 22 * 60, 8 * 60)).toBe(false);
+    });
+
+    it('should treat an empty range as no quiet hours', () => {
+        expect(isInQuietHours(12 * 60, 12 * 60, 12 * 60)).toBe(false);
+    });
+});
+
+describe('takeAlertsWithinRateLimit', () => {
+    const now = 10 * HOUR;
+    const alerts = [1, 2, 3].map(uniqueId => ({ uniqueId }) as CourseAlert);
+
+    it('should send as many alerts as the budget allows', () => {
+        const result = takeAlertsWithinRateLimit(alerts, [now - 10 * MINUTE], 3, now);
+
+        expect(result.send.map(a => a.uniqueId)).toEqual([1, 2]);
+        expect(result.pending.map(a => a.uniqueId)).toEqual([3]);
+        expect(result.sentAt).toEqual([now - 10 * MINUTE, now, now]);
+    });
+
+    it('should forget notifications older than an hour', () => {
+        const result = takeAlertsWithinRateLimit(alerts, [now - 2 * HOUR, now - HOUR], 3, now);
+
+        expect(result.send).toHaveLength(3);
+        expect(result.sentAt).toEqual([now, now, now]);
+    });
+});
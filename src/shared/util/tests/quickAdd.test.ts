@@ -0,0 +1,83 @@
+import type { Semester } from '@shared/types/Course';
+import { getCourseDetailsURL, getQuickAddSemester, parseQuickAddInput } from '@shared/util/quickAdd';
+import { describe, expect, it } from 'vitest';
+
+const FALL_2025: Semester = { year: 2025, season: 'Fall' };
+const SPRING_2026: Semester = { year: 2026, season: 'Spring' };
+
+describe('getCourseDetailsURL', () => {
+    it('should build the details URL of a section', () => {
+        expect(getCourseDetailsURL(FALL_2025, 50805)).toBe(
+            'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/'
+        );
+    });
+
+    it('should pad short unique ids to five digits', () => {
+        expect(getCourseDetailsURL(FALL_2025, 1234)).toBe(
+            'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/01234/'
+        );
+    });
+});
+
+describe('parseQuickAddInput', () => {
+    it('should read unique ids separated by spaces, commas and new lines', () => {
+        expect(parseQuickAddInput('50805, 50810\n50815;50820', FALL_2025).map(entry => entry.uniqueId)).toEqual([
+            50805, 50810, 50815, 50820,
+        ]);
+    });
+
+    it('should look bare unique ids up in the given semester', () => {
+        expect(parseQuickAddInput('50805', SPRING_2026)).toEqual([
+            {
+                input: '50805',
+                uniqueId: 50805,
+                url: 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20262/50805/',
+            },
+        ]);
+    });
+
+    it('should keep the semester of a course link', () => {
+        const link = 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/?from=search';
+        expect(parseQuickAddInput(link, SPRING_2026)).toEqual([
+            {
+                input: link,
+                uniqueId: 50805,
+                url: 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/',
+            },
+        ]);
+    });
+
+    it('should drop repeats of the same section', () => {
+        const link = 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/';
+        expect(parseQuickAddInput(`50805 ${link} 50805`, FALL_2025)).toHaveLength(1);
+    });
+
+    it('should report inputs that are not unique ids or links', () => {
+        const [entry] = parseQuickAddInput('CS314', FALL_2025);
+        expect(entry?.uniqueId).toBeUndefined();
+        expect(entry?.url).toBeUndefined();
+        expect(entry?.error).toBeDefined();
+    });
+
+    it('should return nothing for blank input', () => {
+        expect(parseQuickAddInput('  \n ', FALL_2025)).toEqual([]);
+    });
+});
+
+describe('getQuickAddSemester', () => {
+    it("should pick the semester most of the schedule's courses are in", () => {
+        const courses = [{ semester: FALL_2025 }, { semester: SPRING_2026 }, { semester: SPRING_2026 }];
+        expect(getQuickAddSemester(courses, '2023-01-01')).toMatchObject(SPRING_2026);
+    });
+
+    it('should pick the current or next semester for an empty schedule', () => {
+        expect(getQuickAddSemester([], '2025-09-15')).toMatchObject(FALL_2025);
+        expect(getQuickAddSemester([], '2025-12-20')).toMatchObject(SPRING_2026);
+    });
+
+    it('should estimate the current or next semester once the bundled calendar runs out', () => {
+        expect(getQuickAddSemester([], '2026-07-01')).toEqual({ year: 2026, season: 'Summer' });
+        expect(getQuickAddSemester([], '2026-10-19')).toEqual({ year: 2026, season: 'Fall' });
+        expect(getQuickAddSemester([], '2030-01-01')).toEqual({ year: 2030, season: 'Spring' });
+    });
+});
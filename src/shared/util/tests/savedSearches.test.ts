@@ -0,0 +1,64 @@
+import {
+    describeSearchParams,
+    getMergedSearchIds,
+    getSearchURL,
+    MERGED_SEARCHES_PARAM,
+    parseSearchURL,
+} from '@shared/util/savedSearches';
+import { describe, expect, it } from 'vitest';
+
+const RESULTS_URL =
+    'https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/results/?fos_fl=C+S&level=U&search_type_main=FIELD';
+
+describe('parseSearchURL', () => {
+    it('should parse the semester and params of a results page', () => {
+        expect(parseSearchURL(RESULTS_URL)).toEqual({
+            semesterCode: '20259',
+            params: { fos_fl: 'C S', level: 'U', search_type_main: 'FIELD' },
+        });
+    });
+
+    it('should drop empty, paging and merge params', () => {
+        expect(parseSearchURL(`${RESULTS_URL}&fos_cn=&next_unique=50805&${MERGED_SEARCHES_PARAM}=abc`)?.params).toEqual(
+            {
+                fos_fl: 'C S',
+                level: 'U',
+                search_type_main: 'FIELD',
+            }
+        );
+    });
+
+    it('should ignore pages that are not search results', () => {
+        expect(
+            parseSearchURL('https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/')
+        ).toBeUndefined();
+        expect(
+            parseSearchURL('https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/results/')
+        ).toBeUndefined();
+    });
+});
+
+describe('getSearchURL', () => {
+    it('should round trip through parseSearchURL', () => {
+        const search = parseSearchURL(RESULTS_URL)!;
+
+        expect(parseSearchURL(getSearchURL(search))).toEqual(search);
+    });
+
+    it('should list the searches to merge in', () => {
+        const url = getSearchURL(parseSearchURL(RESULTS_URL)!, [{ id: 'abc' }, { id: 'def' }]);
+
+        expect(getMergedSearchIds(url)).toEqual(['abc', 'def']);
+        expect(getMergedSearchIds(RESULTS_URL)).toEqual([]);
+    });
+});
+
+describe('describeSearchParams', () => {
+    it('should describe department, unique and instructor searches', () => {
+        expect(describeSearchParams({ fos_fl: 'C S', level: 'U', search_type_main: 'FIELD' })).toBe(
+            'C S, upper division'
+        );
+        expect(describeSearchParams({ unique_number: '50805', search_type_main: 'UNIQUE' })).toBe('Unique 50805');
+        expect(describeSearchParams({ instr_last_name: 'Norman', search_type_main: 'INSTR' })).toBe('Norman');
+    });
+});
@@ -0,0 +1,152 @@
+import { SCHEDULE_BACKUP_VERSION } from '@shared/types/ScheduleBackup';
+import { migrateScheduleBackup, parseScheduleBackup, ScheduleBackupError } from '@shared/util/scheduleBackup';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+/**
+ * A course as it's written in a backup file
+ */
+const makeCourseData = (overrides: Record<string, unknown> = {}) => ({
+    ...JSON.parse(JSON.stringify(makeCourse({ colors: { primaryColor: '#123456', secondaryColor: '#abcdef' } }))),
+    ...overrides,
+});
+
+const makeSchedule = (overrides: Record<string, unknown> = {}) => ({
+    id: 'abc',
+    name: 'Spring 2025',
+    courses: [makeCourseData(), makeCourseData({ uniqueId: 50810, creditHours: 3 })],
+    hours: 7,
+    updatedAt: 1000,
+    ...overrides,
+});
+
+const makeBackup = (overrides: Record<string, unknown> = {}) => ({
+    schemaVersion: SCHEDULE_BACKUP_VERSION,
+    extensionVersion: '2.0.2',
+    exportedAt: 2000,
+    schedules: [makeSchedule()],
+    ...overrides,
+});
+
+describe('migrateScheduleBackup', () => {
+    it('should wrap a legacy schedule export in an envelope', () => {
+        const schedule = makeSchedule();
+
+        expect(migrateScheduleBackup(schedule)).toEqual({
+            schemaVersion: SCHEDULE_BACKUP_VERSION,
+            extensionVersion: 'unknown',
+            exportedAt: 1000,
+            schedules: [schedule],
+        });
+    });
+
+    it('should leave a current backup alone', () => {
+        const backup = makeBackup();
+
+        expect(migrateScheduleBackup(backup)).toEqual(backup);
+    });
+
+    it('should reject backups from a newer version', () => {
+        expect(() => migrateScheduleBackup(makeBackup({ schemaVersion: SCHEDULE_BACKUP_VERSION + 1 }))).toThrow(
+            /newer version/
+        );
+    });
+
+    it('should reject files that are not objects', () => {
+        expect(() => migrateScheduleBackup([])).toThrow(ScheduleBackupError);
+        expect(() => migrateScheduleBackup('schedule')).toThrow('should be an object, but got a string');
+    });
+});
+
+describe('parseScheduleBackup', () => {
+    it('should keep the order and colors of the courses', () => {
+        const backup = parseScheduleBackup(makeBackup());
+        const [schedule] = backup.schedules;
+
+        expect(schedule?.courses.map(course => course.uniqueId)).toEqual([50805, 50810]);
+        expect(schedule?.courses[0]?.colors).toEqual({ primaryColor: '#123456', secondaryColor: '#abcdef' });
+    });
+
+    it('should recompute the credit hours of each schedule', () => {
+        const backup = parseScheduleBackup(makeBackup({ schedules: [makeSchedule({ hours: 99 })] }));
+
+        expect(backup.schedules[0]?.hours).toBe(7);
+    });
+
+    it('should parse legacy schedule exports', () => {
+        const backup = parseScheduleBackup(makeSchedule());
+
+        expect(backup.schemaVersion).toBe(SCHEDULE_BACKUP_VERSION);
+        expect(backup.schedules).toHaveLength(1);
+        expect(backup.activeIndex).toBeUndefined();
+    });
+
+    it('should point at the field that is wrong', () => {
+        const schedule = makeSchedule({ courses: [makeCourseData(), makeCourseData({ status: 'FULL' })] });
+
+        expect(() => parseScheduleBackup(makeBackup({ schedules: [schedule] }))).toThrow(
+            'schedules[0].courses[1].status should be one of OPEN, CLOSED, WAITLISTED, CANCELLED, but got "FULL"'
+        );
+    });
+
+    it('should reject malformed meetings', () => {
+        const course = makeCourseData({
+            schedule: { meetings: [{ days: ['Monday'], startTime: '9:00', endTime: 600 }] },
+        });
+
+        expect(() => parseScheduleBackup(makeSchedule({ courses: [course] }))).toThrow(
+            'schedules[0].courses[0].schedule.meetings[0].startTime should be a number, but got a string'
+        );
+    });
+
+    it('should reject colors that are not hex colors', () => {
+        const course = makeCourseData({ colors: { primaryColor: 'red', secondaryColor: '#000000' } });
+
+        expect(() => parseScheduleBackup(makeSchedule({ courses: [course] }))).toThrow(
+            'schedules[0].courses[0].colors.primaryColor should be a hex color'
+        );
+    });
+
+    it('should keep the blocks of each schedule', () => {
+        const block = { id: 'work', title: 'Work', days: ['Tuesday'], startTime: 540, endTime: 720, color: '#579D42' };
+        const backup = parseScheduleBackup(makeBackup({ schedules: [makeSchedule({ blocks: [block] })] }));
+
+        expect(backup.schedules[0]?.blocks).toEqual([block]);
+    });
+
+    it('should default to no blocks for backups made before blocks existed', () => {
+        expect(parseScheduleBackup(makeBackup()).schedules[0]?.blocks).toEqual([]);
+    });
+
+    it('should reject blocks on days that do not exist', () => {
+        const block = { id: 'gym', title: 'Gym', days: ['Funday'], startTime: 420, endTime: 480, color: '#000000' };
+
+        expect(() => parseScheduleBackup(makeSchedule({ blocks: [block] }))).toThrow(
+            'schedules[0].blocks[0].days[0] should be one of'
+        );
+    });
+
+    it('should reject an active index outside of the schedules', () => {
+        expect(() => parseScheduleBackup(makeBackup({ activeIndex: 1 }))).toThrow(
+            'activeIndex should point at one of the 1 schedules'
+        );
+    });
+
+    it('should reject backups without schedules', () => {
+        expect(() => parseScheduleBackup(makeBackup({ schedules: [] }))).toThrow(
+            'schedules should contain at least one schedule'
+        );
+    });
+
+    it('should validate known options and skip unknown ones', () => {
+        const backup = parseScheduleBackup(
+            makeBackup({ options: { enableScrollToLoad: false, quietHoursStart: 60, somethingNew: 'yes' } })
+        );
+
+        expect(backup.options).toEqual({ enableScrollToLoad: false, quietHoursStart: 60 });
+        expect(() => parseScheduleBackup(makeBackup({ options: { enableScrollToLoad: 'no' } }))).toThrow(
+            'options.enableScrollToLoad should be true or false, but got a string'
+        );
+    });
+});
@@ -0,0 +1,78 @@
+import type { CourseMeeting } from '@shared/types/CourseMeeting';
+import {
+    formatDuration,
+    formatTimeOfDay,
+    getScheduleAverageGPA,
+    getScheduleSummary,
+} from '@shared/util/scheduleComparison';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const makeSection = (
+    uniqueId: number,
+    meetings: Pick<CourseMeeting, 'days' | 'startTime' | 'endTime'>[],
+    creditHours = 3
+) => makeCourse({ uniqueId, creditHours, schedule: { meetings } });
+
+describe('getScheduleSummary', () => {
+    it('should summarize the days, times and gaps of a schedule', () => {
+        const courses = [
+            makeSection(1, [{ days: ['Wednesday', 'Monday'], startTime: 540, endTime: 600 }]),
+            makeSection(2, [{ days: ['Monday'], startTime: 660, endTime: 750 }]),
+            makeSection(3, [{ days: ['Friday'], startTime: 900, endTime: 1020 }]),
+        ];
+
+        expect(getScheduleSummary({ courses, hours: 9, maxHours: 9 })).toEqual({
+            hours: 9,
+            maxHours: 9,
+            courseCount: 3,
+            daysOnCampus: ['Monday', 'Wednesday', 'Friday'],
+            earliestStart: 540,
+            latestEnd: 1020,
+            gapMinutes: 60,
+        });
+    });
+
+    it('should leave the times out when no course meets on a day', () => {
+        const courses = [makeSection(1, [{ days: [], startTime: 0, endTime: 0 }])];
+
+        expect(getScheduleSummary({ courses, hours: 3, maxHours: 3 })).toMatchObject({
+            daysOnCampus: [],
+            earliestStart: undefined,
+            latestEnd: undefined,
+            gapMinutes: 0,
+        });
+    });
+});
+
+describe('getScheduleAverageGPA', () => {
+    it('should weigh each course by its credit hours', () => {
+        const courses = [makeSection(1, [], 3), makeSection(2, [], 1)];
+
+        expect(getScheduleAverageGPA(courses, { 1: 3.0, 2: 4.0 })).toBeCloseTo(3.25);
+    });
+
+    it('should skip courses without grade data', () => {
+        const courses = [makeSection(1, []), makeSection(2, [])];
+
+        expect(getScheduleAverageGPA(courses, { 1: 3.5, 2: undefined })).toBe(3.5);
+        expect(getScheduleAverageGPA(courses, {})).toBeUndefined();
+    });
+});
+
+describe('formatTimeOfDay', () => {
+    it('should format minutes since midnight', () => {
+        expect(formatTimeOfDay(540)).toBe('9:00 AM');
+        expect(formatTimeOfDay(750)).toBe('12:30 PM');
+        expect(formatTimeOfDay(1260)).toBe('9:00 PM');
+    });
+});
+
+describe('formatDuration', () => {
+    it('should format minutes as hours and minutes', () => {
+        expect(formatDuration(45)).toBe('45m');
+        expect(formatDuration(120)).toBe('2h');
+        expect(formatDuration(150)).toBe('2h 30m');
+    });
+});
@@ -0,0 +1,58 @@
+import { CustomBlock } from '@shared/types/CustomBlock';
+import { UserSchedule } from '@shared/types/UserSchedule';
+import { copySchedule } from '@shared/util/scheduleCopy';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const course = makeCourse({ creditHours: 3, semester: { year: 2025, season: 'Fall', code: '20259' } });
+
+const work = new CustomBlock({
+    id: 'work',
+    title: 'Work',
+    days: ['Monday', 'Wednesday'],
+    startTime: 540,
+    endTime: 720,
+    color: '#579D42',
+});
+
+const schedule = new UserSchedule({
+    id: 'fall',
+    name: 'Fall',
+    courses: [course],
+    blocks: [work],
+    hours: 3,
+    maxHours: 3,
+    updatedAt: 0,
+});
+
+describe('copySchedule', () => {
+    it('should copy the courses, hours and semester under a new id and name', () => {
+        const copy = copySchedule(schedule, 'Copy of Fall', 100);
+
+        expect(copy.id).not.toBe(schedule.id);
+        expect(copy).toMatchObject({
+            name: 'Copy of Fall',
+            hours: 3,
+            maxHours: 3,
+            semester: { year: 2025, season: 'Fall', code: '20259' },
+            updatedAt: 100,
+        });
+        expect(copy.courses).toEqual([JSON.parse(JSON.stringify(course))]);
+        expect(copy.courses[0]).not.toBe(course);
+    });
+
+    it('should copy the blocks with new ids', () => {
+        const [block] = copySchedule(schedule, 'Copy of Fall').blocks;
+
+        expect(block).toEqual({ ...work, id: block?.id });
+        expect(block?.id).not.toBe(work.id);
+        expect(block?.days).not.toBe(work.days);
+    });
+
+    it('should copy schedules saved before blocks existed', () => {
+        const { blocks: _blocks, ...saved } = schedule;
+
+        expect(copySchedule(saved as UserSchedule, 'Copy of Fall').blocks).toEqual([]);
+    });
+});
@@ -0,0 +1,215 @@
+import type { StatusType } from '@shared/types/Course';
+import { Course, Status } from '@shared/types/Course';
+import type { Day } from '@shared/types/CourseMeeting';
+import { CustomBlock } from '@shared/types/CustomBlock';
+import { generateSchedules, isSectionAllowed, parseDesiredCourses } from '@shared/util/scheduleGenerator';
+import { describe, expect, it, vi } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+type SectionOptions = {
+    uniqueId: number;
+    department: string;
+    number: string;
+    days: Day[];
+    startTime: number;
+    endTime: number;
+    status?: StatusType;
+    instructor?: string;
+};
+
+const makeSection = ({
+    uniqueId,
+    department,
+    number,
+    days,
+    startTime,
+    endTime,
+    status = Status.OPEN,
+    instructor = 'SMITH',
+}: SectionOptions) =>
+    makeCourse({
+        uniqueId,
+        number,
+        fullName: `${department} ${number} COURSE`,
+        courseName: 'COURSE',
+        department,
+        creditHours: 3,
+        status,
+        instructors: [{ firstName: 'ALEX', lastName: instructor, fullName: `${instructor}, ALEX` }],
+        schedule: { meetings: [{ days, startTime, endTime }] },
+    });
+
+const MWF: Day[] = ['Monday', 'Wednesday', 'Friday'];
+const TTH: Day[] = ['Tuesday', 'Thursday'];
+
+const cs429a = makeSection({ uniqueId: 1, department: 'C S', number: '429', days: MWF, startTime: 600, endTime: 650 });
+const cs429b = makeSection({ uniqueId: 2, department: 'C S', number: '429', days: TTH, startTime: 480, endTime: 570 });
+const m340a = makeSection({ uniqueId: 3, department: 'M', number: '340L', days: MWF, startTime: 600, endTime: 650 });
+const m340b = makeSection({ uniqueId: 4, department: 'M', number: '340L', days: TTH, startTime: 600, endTime: 690 });
+
+describe('parseDesiredCourses', () => {
+    it('should parse a list of course numbers', () => {
+        expect(parseDesiredCourses('C S 429, m 340l; RHE 306\nCS 439')).toEqual([
+            { department: 'C S', number: '429' },
+            { department: 'M', number: '340L' },
+            { department: 'RHE', number: '306' },
+            { department: 'CS', number: '439' },
+        ]);
+    });
+
+    it('should drop duplicates regardless of department spacing', () => {
+        expect(parseDesiredCourses('C S 429, CS 429,')).toEqual([{ department: 'C S', number: '429' }]);
+    });
+
+    it('should reject entries that are not course numbers', () => {
+        expect(() => parseDesiredCourses('C S 429, calculus')).toThrow('"calculus"');
+    });
+});
+
+describe('isSectionAllowed', () => {
+    it('should filter by status, time, and free days', () => {
+        const closed = makeSection({
+            uniqueId: 5,
+            department: 'C S',
+            number: '429',
+            days: MWF,
+            startTime: 600,
+            endTime: 650,
+            status: Status.CLOSED,
+        });
+
+        expect(isSectionAllowed(closed, {})).toBe(true);
+        expect(isSectionAllowed(closed, { onlyOpen: true })).toBe(false);
+        expect(isSectionAllowed(cs429b, { earliestStartTime: 540 })).toBe(false);
+        expect(isSectionAllowed(m340b, { latestEndTime: 660 })).toBe(false);
+        expect(isSectionAllowed(cs429a, { freeDays: ['Friday'] })).toBe(false);
+        expect(isSectionAllowed(cs429a, { freeDays: ['Tuesday'] })).toBe(true);
+    });
+
+    it('should reject sections that overlap a block', () => {
+        const work = new CustomBlock({
+            id: 'work',
+            title: 'Work',
+            days: ['Friday'],
+            startTime: 540,
+            endTime: 630,
+            color: '#000000',
+        });
+
+        expect(isSectionAllowed(cs429a, { blocks: [work] })).toBe(false);
+        expect(isSectionAllowed(cs429b, { blocks: [work] })).toBe(true);
+    });
+});
+
+describe('generateSchedules', () => {
+    const desired = parseDesiredCourses('C S 429, M 340L');
+    const sections = [cs429a, cs429b, m340a, m340b];
+
+    it('should only generate conflict-free combinations', () => {
+        const { schedules, unmatched } = generateSchedules(desired, sections);
+        const combinations = schedules.map(s => s.courses.map(c => c.uniqueId).sort());
+
+        expect(unmatched).toEqual([]);
+        // cs429a and m340a meet at the same time
+        expect(combinations).toHaveLength(3);
+        expect(combinations).not.toContainEqual([1, 3]);
+        for (const { courses } of schedules) {
+            expect(courses[0]!.getConflicts(courses[1]!)).toEqual([]);
+        }
+    });
+
+    it('should keep the chosen sections in the order of the desired courses', () => {
+        const { schedules } = generateSchedules(desired, sections);
+
+        for (const { courses } of schedules) {
+            expect(courses.map(c => c.department)).toEqual(['C S', 'M']);
+        }
+    });
+
+    it('should rank schedules with fewer days on campus higher', () => {
+        const { schedules } = generateSchedules(desired, sections);
+
+        expect(schedules[0]!.courses.map(c => c.uniqueId)).toEqual([2, 4]);
+        expect(schedules[0]!.daysOnCampus).toBe(2);
+    });
+
+    it('should rank preferred instructors above everything else', () => {
+        const preferred = makeSection({
+            uniqueId: 6,
+            department: 'M',
+            number: '340L',
+            days: MWF,
+            startTime: 720,
+            endTime: 770,
+            instructor: 'NGUYEN',
+        });
+        const { schedules } = generateSchedules(desired, [...sections, preferred], {
+            preferredInstructors: ['nguyen'],
+        });
+
+        expect(schedules[0]!.courses).toContain(preferred);
+        expect(schedules[0]!.preferredInstructorCount).toBe(1);
+    });
+
+    it('should enforce the maximum gap between classes', () => {
+        const { schedules } = generateSchedules(desired, sections, { maxGapMinutes: 15 });
+
+        // 8:00-9:30 and 10:00-11:30 on the same days leaves a 30 minute gap
+        expect(schedules.map(s => s.courses.map(c => c.uniqueId))).not.toContainEqual([2, 4]);
+        expect(schedules.every(s => s.gapMinutes <= 15)).toBe(true);
+    });
+
+    it('should report desired courses without usable sections', () => {
+        const { schedules, unmatched } = generateSchedules(parseDesiredCourses('C S 429, RHE 306'), sections, {
+            freeDays: ['Tuesday'],
+        });
+
+        expect(schedules).toEqual([]);
+        expect(unmatched).toEqual([{ department: 'RHE', number: '306' }]);
+    });
+
+    it('should limit the number of results', () => {
+        expect(generateSchedules(desired, sections, {}, { maxResults: 1 }).schedules).toHaveLength(1);
+    });
+
+    it('should stop searching when every combination runs into a conflict at the last course', () => {
+        // six courses with six sections each that never conflict with each other (6^6 partial combinations)...
+        const spread = Array.from({ length: 6 }, (_, course) =>
+            Array.from({ length: 6 }, (__, section) =>
+                makeSection({
+                    uniqueId: course * 10 + section,
+                    department: 'C S',
+                    number: `${301 + course}`,
+                    days: [(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as Day[])[section]!],
+                    startTime: 480 + course * 60,
+                    endTime: 530 + course * 60,
+                })
+            )
+        ).flat();
+        // ...and a course with more sections, so it's picked last, that conflicts with all of them
+        const allDay = Array.from({ length: 7 }, (_, section) =>
+            makeSection({
+                uniqueId: 100 + section,
+                department: 'M',
+                number: '408C',
+                days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+                startTime: 480,
+                endTime: 1320,
+            })
+        );
+        const conflictChecks = vi.spyOn(Course.prototype, 'getConflicts');
+
+        const { schedules } = generateSchedules(
+            parseDesiredCourses('C S 301, C S 302, C S 303, C S 304, C S 305, C S 306, M 408C'),
+            [...spread, ...allDay],
+            {},
+            { maxSteps: 1_000 }
+        );
+
+        expect(schedules).toEqual([]);
+        // every step checks the section against at most the six sections chosen before it
+        expect(conflictChecks.mock.calls.length).toBeLessThanOrEqual(1_000 * 6);
+        conflictChecks.mockRestore();
+    });
+});
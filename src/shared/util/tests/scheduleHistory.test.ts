@@ -0,0 +1,141 @@
+import type { Course } from '@shared/types/Course';
+import type { ScheduleHistoryEntry } from '@shared/types/ScheduleHistory';
+import { UserSchedule } from '@shared/types/UserSchedule';
+import type { ScheduleState } from '@shared/util/scheduleHistory';
+import {
+    applyScheduleOperation,
+    getScheduleHistoryEvent,
+    MAX_SCHEDULE_HISTORY,
+    pushScheduleHistory,
+} from '@shared/util/scheduleHistory';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const makeSchedule = (id: string, courses: Course[] = []) =>
+    new UserSchedule({ id, name: id, courses, blocks: [], hours: 0, maxHours: 0, updatedAt: 0 });
+
+const makeEntry = (id: string): ScheduleHistoryEntry => ({
+    id,
+    label: id,
+    createdAt: 0,
+    undo: { type: 'removeCourse', scheduleId: 'a', uniqueId: 1 },
+    redo: { type: 'removeCourse', scheduleId: 'a', uniqueId: 1 },
+});
+
+const state = (): ScheduleState => ({
+    schedules: [makeSchedule('a', [makeCourse({ uniqueId: 1 }), makeCourse({ uniqueId: 2 })]), makeSchedule('b')],
+    activeIndex: 1,
+});
+
+describe('applyScheduleOperation', () => {
+    it('should insert a course where it was', () => {
+        const result = applyScheduleOperation(state(), {
+            type: 'insertCourse',
+            scheduleId: 'a',
+            course: makeCourse({ uniqueId: 3 }),
+            index: 1,
+        });
+        expect(result.schedules[0]?.courses.map(c => c.uniqueId)).toEqual([1, 3, 2]);
+    });
+
+    it('should not add a course twice', () => {
+        const result = applyScheduleOperation(state(), {
+            type: 'insertCourse',
+            scheduleId: 'a',
+            course: makeCourse({ uniqueId: 2 }),
+            index: 0,
+        });
+        expect(result.schedules[0]?.courses.map(c => c.uniqueId)).toEqual([2, 1]);
+    });
+
+    it('should remove and replace courses, and mark the schedule as updated', () => {
+        const removed = applyScheduleOperation(state(), { type: 'removeCourse', scheduleId: 'a', uniqueId: 1 }, 42);
+        expect(removed.schedules[0]?.courses.map(c => c.uniqueId)).toEqual([2]);
+        expect(removed.schedules[0]?.updatedAt).toBe(42);
+
+        const cleared = applyScheduleOperation(state(), { type: 'replaceCourses', scheduleId: 'a', courses: [] });
+        expect(cleared.schedules[0]?.courses).toEqual([]);
+    });
+
+    it('should not change the schedules that were passed in', () => {
+        const before = state();
+        applyScheduleOperation(before, { type: 'replaceCourses', scheduleId: 'a', courses: [] });
+        expect(before.schedules[0]?.courses).toHaveLength(2);
+    });
+
+    it('should restore a deleted schedule and the active index', () => {
+        const result = applyScheduleOperation(
+            { schedules: [makeSchedule('b')], activeIndex: 0 },
+            { type: 'insertSchedule', schedule: makeSchedule('a'), index: 0, activeIndex: 1 }
+        );
+        expect(result.schedules.map(s => s.id)).toEqual(['a', 'b']);
+        expect(result.activeIndex).toBe(1);
+    });
+
+    it('should keep the active index in bounds when removing a schedule', () => {
+        const result = applyScheduleOperation(state(), { type: 'removeSchedule', scheduleId: 'b', activeIndex: 1 });
+        expect(result.schedules.map(s => s.id)).toEqual(['a']);
+        expect(result.activeIndex).toBe(0);
+    });
+
+    it('should replace every schedule', () => {
+        const result = applyScheduleOperation(state(), {
+            type: 'replaceSchedules',
+            schedules: [makeSchedule('c')],
+            activeIndex: 0,
+        });
+        expect(result.schedules.map(s => s.id)).toEqual(['c']);
+    });
+
+    it("should throw when the schedule doesn't exist anymore", () => {
+        expect(() => applyScheduleOperation(state(), { type: 'removeCourse', scheduleId: 'z', uniqueId: 1 })).toThrow();
+        expect(() =>
+            applyScheduleOperation(state(), { type: 'removeSchedule', scheduleId: 'z', activeIndex: 0 })
+        ).toThrow();
+    });
+});
+
+describe('pushScheduleHistory', () => {
+    it('should put the newest entry first', () => {
+        expect(pushScheduleHistory([makeEntry('old')], makeEntry('new')).map(e => e.id)).toEqual(['new', 'old']);
+    });
+
+    it('should drop the oldest entries past the limit', () => {
+        let stack: ScheduleHistoryEntry[] = [];
+        for (let i = 0; i < MAX_SCHEDULE_HISTORY + 5; i++) {
+            stack = pushScheduleHistory(stack, makeEntry(String(i)));
+        }
+        expect(stack).toHaveLength(MAX_SCHEDULE_HISTORY);
+        expect(stack[0]?.id).toBe(String(MAX_SCHEDULE_HISTORY + 4));
+    });
+});
+
+describe('getScheduleHistoryEvent', () => {
+    const a = makeEntry('a');
+    const b = makeEntry('b');
+
+    it('should offer to undo a new mutation', () => {
+        expect(
+            getScheduleHistoryEvent({ undoStack: [a], redoStack: [] }, { undoStack: [b, a], redoStack: [] })
+        ).toEqual({ action: 'undo', entry: b });
+    });
+
+    it('should offer to redo an undone mutation', () => {
+        expect(
+            getScheduleHistoryEvent({ undoStack: [b, a], redoStack: [] }, { undoStack: [a], redoStack: [b] })
+        ).toEqual({ action: 'redo', entry: b });
+    });
+
+    it('should offer to undo a redone mutation', () => {
+        expect(
+            getScheduleHistoryEvent({ undoStack: [a], redoStack: [b] }, { undoStack: [b, a], redoStack: [] })
+        ).toEqual({ action: 'undo', entry: b });
+    });
+
+    it('should ignore the undo stack shrinking before the redo stack catches up', () => {
+        expect(
+            getScheduleHistoryEvent({ undoStack: [b, a], redoStack: [] }, { undoStack: [a], redoStack: [] })
+        ).toBeUndefined();
+    });
+});
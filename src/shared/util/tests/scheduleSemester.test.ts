@@ -0,0 +1,86 @@
+import type { Semester } from '@shared/types/Course';
+import {
+    getSemesterMismatch,
+    groupSchedulesBySemester,
+    inferScheduleSemester,
+    mergeReorderedGroup,
+} from '@shared/util/scheduleSemester';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const FALL_2025: Semester = { year: 2025, season: 'Fall' };
+const SPRING_2026: Semester = { year: 2026, season: 'Spring' };
+
+const makeSection = (uniqueId: number, semester: Semester, startTime = 600) =>
+    makeCourse({
+        uniqueId,
+        semester,
+        schedule: {
+            meetings: [{ days: ['Monday', 'Wednesday'], startTime, endTime: startTime + 60 }],
+        },
+    });
+
+describe('inferScheduleSemester', () => {
+    it('should pick the semester most of the courses are in', () => {
+        const courses = [makeSection(1, FALL_2025), makeSection(2, SPRING_2026), makeSection(3, SPRING_2026)];
+
+        expect(inferScheduleSemester(courses)).toMatchObject(SPRING_2026);
+    });
+
+    it('should return undefined for an empty schedule', () => {
+        expect(inferScheduleSemester([])).toBeUndefined();
+    });
+});
+
+describe('getSemesterMismatch', () => {
+    it('should describe a section from another semester', () => {
+        const schedule = { name: 'Plan A', courses: [makeSection(1, FALL_2025)] };
+
+        expect(getSemesterMismatch(schedule, makeSection(2, SPRING_2026))).toBe(
+            'C S 429 is a Spring 2026 section, but "Plan A" is for Fall 2025'
+        );
+    });
+
+    it('should allow sections from the same semester', () => {
+        const schedule = { name: 'Plan A', courses: [makeSection(1, FALL_2025)] };
+
+        expect(getSemesterMismatch(schedule, makeSection(2, FALL_2025))).toBeUndefined();
+    });
+
+    it('should allow any section in an empty schedule', () => {
+        expect(getSemesterMismatch({ name: 'Plan A', courses: [] }, makeSection(2, SPRING_2026))).toBeUndefined();
+    });
+});
+
+describe('groupSchedulesBySemester', () => {
+    const fallA = { id: 'a', courses: [makeSection(1, FALL_2025)] };
+    const spring = { id: 'b', courses: [makeSection(2, SPRING_2026)] };
+    const empty = { id: 'c', courses: [] };
+    const fallB = { id: 'd', courses: [makeSection(3, FALL_2025)] };
+
+    it('should put the most recent semester first and empty schedules last', () => {
+        const groups = groupSchedulesBySemester([empty, fallA, spring, fallB]);
+
+        expect(groups.map(group => group.label)).toEqual(['Spring 2026', 'Fall 2025', 'No courses yet']);
+        expect(groups.map(group => group.schedules.map(s => s.id))).toEqual([['b'], ['a', 'd'], ['c']]);
+    });
+});
+
+describe('mergeReorderedGroup', () => {
+    it('should reorder the group in place, keeping the other schedules where they were', () => {
+        const schedules = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+
+        expect(mergeReorderedGroup(schedules, [{ id: 'd' }, { id: 'a' }]).map(s => s.id)).toEqual(['d', 'b', 'c', 'a']);
+    });
+});
+
+describe('Course.getConflicts', () => {
+    it('should not report conflicts between sections of different semesters', () => {
+        expect(makeSection(1, FALL_2025).getConflicts(makeSection(2, SPRING_2026))).toEqual([]);
+    });
+
+    it('should still report conflicts within a semester', () => {
+        expect(makeSection(1, FALL_2025).getConflicts(makeSection(2, FALL_2025, 630)).length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,190 @@
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import type { ScheduleState } from '@shared/util/scheduleHistory';
+import type { ScheduleStorage } from '@shared/util/scheduleTransactions';
+import {
+    createScheduleTransactions,
+    createSerialQueue,
+    getScheduleVersion,
+    ScheduleConflictError,
+} from '@shared/util/scheduleTransactions';
+import { describe, expect, it } from 'vitest';
+
+const makeSchedule = (id: string, updatedAt = 0) =>
+    ({ id, name: id, courses: [], updatedAt }) as unknown as UserSchedule;
+
+/**
+ * An in-memory stand-in for the UserScheduleStore. Like chrome.storage, every read returns a fresh copy,
+ * and reads and writes take a tick to resolve so transactions can interleave if they aren't queued.
+ */
+const createMemoryStorage = (initial: ScheduleState) => {
+    let stored = structuredClone(initial);
+    let writes = 0;
+
+    const storage: ScheduleStorage = {
+        get: async () => {
+            await Promise.resolve();
+            return structuredClone(stored);
+        },
+        set: async state => {
+            await Promise.resolve();
+            stored = structuredClone(state);
+            writes += 1;
+        },
+    };
+
+    return {
+        storage,
+        read: () => stored,
+        writes: () => writes,
+        // a write that doesn't go through the queue, i.e. from an older version of a page
+        writeOutsideQueue: (state: ScheduleState) => {
+            stored = structuredClone(state);
+        },
+    };
+};
+
+const wait = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createSerialQueue', () => {
+    it('should run tasks one at a time, in order', async () => {
+        const enqueue = createSerialQueue();
+        const events: string[] = [];
+
+        const task = (name: string) => async () => {
+            events.push(`start ${name}`);
+            await wait();
+            events.push(`end ${name}`);
+            return name;
+        };
+
+        expect(await Promise.all([enqueue(task('a')), enqueue(task('b'))])).toEqual(['a', 'b']);
+        expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('should keep running tasks after one fails', async () => {
+        const enqueue = createSerialQueue();
+
+        const failed = enqueue(async () => {
+            throw new Error('oops');
+        });
+        const next = enqueue(async () => 'next');
+
+        await expect(failed).rejects.toThrow('oops');
+        expect(await next).toBe('next');
+    });
+});
+
+describe('getScheduleVersion', () => {
+    it('should change when a schedule is updated, reordered or switched to', () => {
+        const state = { schedules: [makeSchedule('a', 1), makeSchedule('b', 1)], activeIndex: 0 };
+        const version = getScheduleVersion(state);
+
+        expect(getScheduleVersion({ ...state, schedules: [makeSchedule('a', 2), makeSchedule('b', 1)] })).not.toBe(
+            version
+        );
+        expect(getScheduleVersion({ ...state, schedules: [makeSchedule('b', 1), makeSchedule('a', 1)] })).not.toBe(
+            version
+        );
+        expect(getScheduleVersion({ ...state, activeIndex: 1 })).not.toBe(version);
+        expect(getScheduleVersion(structuredClone(state))).toBe(version);
+    });
+});
+
+describe('createScheduleTransactions', () => {
+    it('should not lose writes when transactions are started at the same time', async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage);
+
+        await Promise.all(
+            Array.from({ length: 20 }, (_, i) =>
+                updateSchedules(async ({ schedules }) => {
+                    await wait();
+                    schedules[0]!.courses.push({ uniqueId: i } as UserSchedule['courses'][number]);
+                    schedules[0]!.updatedAt += 1;
+                })
+            )
+        );
+
+        expect(memory.read().schedules[0]?.courses.map(c => c.uniqueId)).toEqual(
+            Array.from({ length: 20 }, (_, i) => i)
+        );
+        expect(memory.writes()).toBe(20);
+    });
+
+    it("should resolve with the transaction's result", async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage);
+
+        expect(await updateSchedules(({ schedules }) => schedules.length)).toBe(1);
+    });
+
+    it('should not save anything when the transaction throws, and keep running later ones', async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage);
+
+        const failed = updateSchedules(state => {
+            state.schedules = [];
+            throw new Error('Schedule not found');
+        });
+        const next = updateSchedules(state => {
+            state.activeIndex = 0;
+        });
+
+        await expect(failed).rejects.toThrow('Schedule not found');
+        await next;
+        expect(memory.read().schedules).toHaveLength(1);
+        expect(memory.writes()).toBe(1);
+    });
+
+    it('should retry on the latest schedules when they were changed outside the queue', async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage);
+        let runs = 0;
+
+        await updateSchedules(async ({ schedules }) => {
+            runs += 1;
+            if (runs === 1) {
+                memory.writeOutsideQueue({ schedules: [makeSchedule('a', 5), makeSchedule('b', 5)], activeIndex: 0 });
+            }
+            schedules[0]!.name = 'renamed';
+        });
+
+        expect(runs).toBe(2);
+        expect(memory.read().schedules.map(s => s.id)).toEqual(['a', 'b']);
+        expect(memory.read().schedules[0]?.name).toBe('renamed');
+    });
+
+    it('should give up after too many conflicts', async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage, 2);
+        let updatedAt = 0;
+
+        const transaction = updateSchedules(() => {
+            updatedAt += 1;
+            memory.writeOutsideQueue({ schedules: [makeSchedule('a', updatedAt)], activeIndex: 0 });
+        });
+
+        await expect(transaction).rejects.toThrow(ScheduleConflictError);
+        expect(memory.writes()).toBe(0);
+    });
+
+    it('should run afterCommit callbacks once, after the changes are saved', async () => {
+        const memory = createMemoryStorage({ schedules: [makeSchedule('a')], activeIndex: 0 });
+        const updateSchedules = createScheduleTransactions(memory.storage);
+        const events: string[] = [];
+        let runs = 0;
+
+        await updateSchedules(async (state, afterCommit) => {
+            runs += 1;
+            if (runs === 1) {
+                memory.writeOutsideQueue({ schedules: [makeSchedule('a', 1)], activeIndex: 0 });
+            }
+            state.activeIndex = 0;
+            afterCommit(async () => {
+                events.push(`committed after ${memory.writes()} write(s)`);
+            });
+        });
+
+        expect(events).toEqual(['committed after 1 write(s)']);
+    });
+});
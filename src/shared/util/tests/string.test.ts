@@ -1,4 +1,4 @@
-import { capitalize, capitalizeFirstLetter, ellipsify } from '@shared/util/string';
+import { capitalize, capitalizeFirstLetter, ellipsify, parseUniqueId } from '@shared/util/string';
 import { describe, expect, it } from 'vitest';
 
 // TODO: Fix `string.ts` and `string.test.ts` to make the tests pass
@@ -54,3 +54,16 @@ describe('ellipsify', () => {
         expect(ellipsify('', 5)).toBe('');
     });
 });
+
+describe('parseUniqueId', () => {
+    it('should find the unique id in a cell', () => {
+        expect(parseUniqueId('50805')).toBe(50805);
+        expect(parseUniqueId(' Swap: 01234 ')).toBe(1234);
+    });
+
+    it('should return undefined for empty cells', () => {
+        expect(parseUniqueId('')).toBeUndefined();
+        expect(parseUniqueId('none')).toBeUndefined();
+        expect(parseUniqueId(null)).toBeUndefined();
+    });
+});
@@ -0,0 +1,56 @@
+import { getWaitlistConflicts, parseWaitlistExpiration, parseWaitlistPosition } from '@shared/util/waitlist';
+import { describe, expect, it } from 'vitest';
+
+import makeCourse from './makeCourse';
+
+const makeSection = (uniqueId: number, startTime: number, overrides: Parameters<typeof makeCourse>[0] = {}) =>
+    makeCourse({
+        uniqueId,
+        schedule: {
+            meetings: [{ days: ['Tuesday', 'Thursday'], startTime, endTime: startTime + 90 }],
+        },
+        ...overrides,
+    });
+
+describe('parseWaitlistPosition', () => {
+    it('should parse the position', () => {
+        expect(parseWaitlistPosition('3')).toBe(3);
+        expect(parseWaitlistPosition('#12')).toBe(12);
+        expect(parseWaitlistPosition('4 of 20')).toBe(4);
+    });
+
+    it('should reject cells without a position', () => {
+        expect(parseWaitlistPosition('n/a')).toBeUndefined();
+        expect(parseWaitlistPosition('0')).toBeUndefined();
+    });
+});
+
+describe('parseWaitlistExpiration', () => {
+    it('should parse dates with times', () => {
+        expect(parseWaitlistExpiration('08/25/2025  11:59 p.m.')).toBe(new Date(2025, 7, 25, 23, 59).getTime());
+    });
+
+    it('should return undefined for text that is not a date', () => {
+        expect(parseWaitlistExpiration('')).toBeUndefined();
+        expect(parseWaitlistExpiration('never')).toBeUndefined();
+    });
+});
+
+describe('getWaitlistConflicts', () => {
+    const waitlisted = makeSection(50805, 600, { waitlist: { position: 2, swapUniqueId: 50810, scrapedAt: 0 } });
+
+    it('should find courses that overlap the waitlisted course', () => {
+        const overlapping = makeSection(50820, 630);
+        const later = makeSection(50830, 720);
+
+        expect(getWaitlistConflicts(waitlisted, [waitlisted, overlapping, later])).toEqual([overlapping]);
+    });
+
+    it('should ignore the swap course', () => {
+        expect(getWaitlistConflicts(waitlisted, [waitlisted, makeSection(50810, 600)])).toEqual([]);
+    });
+
+    it('should ignore courses that are not waitlisted', () => {
+        expect(getWaitlistConflicts(makeSection(50840, 600), [makeSection(50820, 630)])).toEqual([]);
+    });
+});
@@ -0,0 +1,70 @@
+import type { Course } from '../types/Course';
+import type { WaitlistInfo } from '../types/Waitlist';
+import { isSameClass } from './crossListing';
+
+/**
+ * Parses the user's position out of the position cell on the waitlist page, i.e. "3", "#3" or "3 of 12"
+ *
+ * @param text - The text of the cell
+ * @returns The position, or undefined if the cell doesn't have one
+ */
+export function parseWaitlistPosition(text: string | null | undefined): number | undefined {
+    const match = text?.match(/\d+/);
+    const position = match ? Number(match[0]) : undefined;
+    return position && position > 0 ? position : undefined;
+}
+
+/**
+ * Parses the expiration cell on the waitlist page, i.e. "08/25/2025 11:59 PM" or "Aug 25, 2025"
+ *
+ * @param text - The text of the cell
+ * @returns The expiration as a unix timestamp, or undefined if it can't be parsed
+ */
+export function parseWaitlistExpiration(text: string | null | undefined): number | undefined {
+    const cleaned = text
+        ?.replace(/\s+/g, ' ')
+        .replace(/\b(a|p)\.m\./gi, '$1m')
+        .trim();
+    if (!cleaned) {
+        return undefined;
+    }
+
+    const timestamp = Date.parse(cleaned);
+    return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Describes a waitlist entry for tooltips, i.e. "Waitlist position 3, swaps with 50805"
+ *
+ * @param waitlist - The user's spot on the waitlist
+ * @returns A human readable description
+ */
+export function formatWaitlistInfo(waitlist: WaitlistInfo): string {
+    let text = `Waitlist position ${waitlist.position}`;
+    if (waitlist.swapUniqueId) {
+        text += `, swaps with ${waitlist.swapUniqueId.toString().padStart(5, '0')}`;
+    }
+    if (waitlist.expiresAt) {
+        text += `, expires ${new Date(waitlist.expiresAt).toLocaleString()}`;
+    }
+    return text;
+}
+
+/**
+ * Finds the courses in a schedule that a waitlisted course conflicts with.
+ * The swap course is ignored, since it gets dropped when the user gets off the waitlist.
+ *
+ * @param course - The waitlisted course
+ * @param courses - The courses in the schedule
+ * @returns The conflicting courses, empty if the course isn't waitlisted
+ */
+export function getWaitlistConflicts(course: Course, courses: Course[]): Course[] {
+    if (!course.waitlist) {
+        return [];
+    }
+
+    const { swapUniqueId } = course.waitlist;
+    return courses.filter(
+        other => !isSameClass(course, other) && other.uniqueId !== swapUniqueId && course.getConflicts(other).length > 0
+    );
+}
@@ -11,6 +11,7 @@ const meta = {
     argTypes: {
         scheduleName: { control: 'text' },
         totalHours: { control: 'number' },
+        maxTotalHours: { control: 'number' },
         totalCourses: { control: 'number' },
     },
 } satisfies Meta<typeof ScheduleTotalHoursAndCourses>;
@@ -25,3 +26,12 @@ export const Default: Story = {
         totalCourses: 8,
     },
 };
+
+export const VariableCredit: Story = {
+    args: {
+        scheduleName: 'SCHEDULE',
+        totalHours: 13,
+        maxTotalHours: 18,
+        totalCourses: 5,
+    },
+};
@@ -14,9 +14,7 @@ const meta = {
         tags: ['autodocs'],
     },
     tags: ['autodocs'],
-    argTypes: {
-        saturdayClass: { control: 'boolean' },
-    },
+    argTypes: {},
 } satisfies Meta<typeof CalendarGrid>;
 export default meta;
 
@@ -230,8 +228,19 @@ type Story = StoryObj<typeof meta>;
 
 export const Default: Story = {
     args: {
-        saturdayClass: true,
         courseCells: testData,
         setCourse: () => {},
     },
 };
+
+export const WeekendAndEarlyClasses: Story = {
+    args: {
+        courseCells: testData,
+        gridBounds: {
+            days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+            startHour: 7,
+            endHour: 22,
+        },
+        setCourse: () => {},
+    },
+};
@@ -58,9 +58,11 @@ export const exampleCourse: Course = new Course({
 
 export const exampleSchedule: UserSchedule = new UserSchedule({
     courses: [exampleCourse],
+    blocks: [],
     id: 'az372389blep',
     name: 'Example Schedule',
     hours: 3,
+    maxHours: 3,
     updatedAt: Date.now(),
 });
 
@@ -113,9 +115,11 @@ export const bevoCourse: Course = new Course({
 
 export const bevoSchedule: UserSchedule = new UserSchedule({
     courses: [bevoCourse],
+    blocks: [],
     id: 'bevoshenanigans52',
     name: 'Bevo Schedule',
     hours: 3,
+    maxHours: 3,
     updatedAt: Date.now(),
 });
 
@@ -169,8 +173,10 @@ export const mikeScottCS314Course: Course = new Course({
 
 export const mikeScottCS314Schedule: UserSchedule = new UserSchedule({
     courses: [mikeScottCS314Course],
+    blocks: [],
     id: 'omgitsmikescott314',
     name: 'Mike Scott CS314 Schedule',
     hours: 3,
+    maxHours: 3,
     updatedAt: Date.now(),
 });
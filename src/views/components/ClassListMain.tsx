@@ -0,0 +1,131 @@
+import { DownloadSimple } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import type { Course } from '@shared/types/Course';
+import type { RegisteredScheduleSummary } from '@shared/types/RegisteredSchedule';
+import { REGISTERED_SCHEDULE_NAME } from '@shared/types/RegisteredSchedule';
+import { getCourseDetailsURL } from '@shared/util/quickAdd';
+import { Button } from '@views/components/common/Button';
+import ExtensionRoot from '@views/components/common/ExtensionRoot/ExtensionRoot';
+import Text from '@views/components/common/Text/Text';
+import fetchCourseDetails from '@views/lib/fetchCourseDetails';
+import scrapeClassList from '@views/lib/scrapeClassList';
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+type ImportResult = RegisteredScheduleSummary & {
+    /** Unique ids of the sections that couldn't be found in the course schedule */
+    failed: number[];
+};
+
+const formatUniqueIds = (uniqueIds: number[]) => uniqueIds.map(id => id.toString().padStart(5, '0')).join(', ');
+
+/**
+ * This is the top level react component for UT's class list page.
+ * It adds a button above the class list that imports the student's registered sections into a "Registered" schedule.
+ *
+ * @returns a react portal to the button container or null if the class list has not been found.
+ */
+export default function ClassListMain(): JSX.Element | null {
+    const [container, setContainer] = useState<HTMLDivElement | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [result, setResult] = useState<ImportResult | undefined>();
+    const [error, setError] = useState<string | undefined>();
+
+    useEffect(() => {
+        const table = document.querySelector('table');
+        if (!table) {
+            return;
+        }
+
+        const containerElement = document.createElement('div');
+        containerElement.setAttribute('id', 'ut-registration-plus-class-list');
+        table.before(containerElement);
+        setContainer(containerElement);
+
+        return () => {
+            containerElement.remove();
+        };
+    }, []);
+
+    if (!container) {
+        return null;
+    }
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        setError(undefined);
+        setResult(undefined);
+
+        try {
+            const classList = scrapeClassList(document);
+            if (!classList) {
+                throw new Error("Couldn't find your registered classes on this page");
+            }
+
+            const courses: Course[] = [];
+            const failed: number[] = [];
+            for (const uniqueId of classList.uniqueIds) {
+                const url = getCourseDetailsURL(classList.semester, uniqueId);
+                // one at a time, so we don't flood UT's servers
+                // eslint-disable-next-line no-await-in-loop
+                const course = await fetchCourseDetails(url).catch(() => undefined);
+                if (course) {
+                    courses.push(course);
+                } else {
+                    failed.push(uniqueId);
+                }
+            }
+
+            const summary = await background.importRegisteredCourses({ courses, uniqueIds: classList.uniqueIds });
+            if (typeof summary === 'string') {
+                throw new Error(summary);
+            }
+            setResult({ ...summary, failed });
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return createPortal(
+        <ExtensionRoot>
+            <div className='my-3 flex flex-col items-start gap-1'>
+                <Button
+                    variant='filled'
+                    color='ut-burntorange'
+                    icon={DownloadSimple}
+                    disabled={isImporting}
+                    onClick={handleImport}
+                >
+                    {isImporting ? 'Importing...' : 'Import my registered classes'}
+                </Button>
+                {error && (
+                    <Text variant='small' as='p' className='text-theme-red'>
+                        {error}
+                    </Text>
+                )}
+                {result && (
+                    <>
+                        <Text variant='small' as='p' className='text-ut-black'>
+                            Updated your &quot;{REGISTERED_SCHEDULE_NAME}&quot; schedule: {result.added.length} added,{' '}
+                            {result.skipped.length} already there, {result.removed.length} removed,{' '}
+                            {result.failed.length} failed.
+                        </Text>
+                        {result.removed.length > 0 && (
+                            <Text variant='small' as='p' className='text-ut-gray'>
+                                Removed (no longer registered): {formatUniqueIds(result.removed)}
+                            </Text>
+                        )}
+                        {result.failed.length > 0 && (
+                            <Text variant='small' as='p' className='text-theme-red'>
+                                Couldn&apos;t find in the course schedule: {formatUniqueIds(result.failed)}
+                            </Text>
+                        )}
+                    </>
+                )}
+            </div>
+        </ExtensionRoot>,
+        container
+    );
+}
@@ -2,9 +2,12 @@ import { OptionsStore } from '@shared/storage/OptionsStore';
 import type { Course, ScrapedRow } from '@shared/types/Course';
 import ExtensionRoot from '@views/components/common/ExtensionRoot/ExtensionRoot';
 import AutoLoad from '@views/components/injected/AutoLoad/AutoLoad';
+import CourseCatalogFilters from '@views/components/injected/CourseCatalogFilters/CourseCatalogFilters';
 import CourseCatalogInjectedPopup from '@views/components/injected/CourseCatalogInjectedPopup/CourseCatalogInjectedPopup';
 import NewSearchLink from '@views/components/injected/NewSearchLink';
 import RecruitmentBanner from '@views/components/injected/RecruitmentBanner/RecruitmentBanner';
+import SavedSearchBar from '@views/components/injected/SavedSearchBar';
+import ScheduleGenerator from '@views/components/injected/ScheduleGenerator/ScheduleGenerator';
 import TableHead from '@views/components/injected/TableHead';
 import TableRow from '@views/components/injected/TableRow/TableRow';
 // import TableSubheading from '@views/components/injected/TableSubheading/TableSubheading';
@@ -12,8 +15,9 @@ import useSchedules from '@views/hooks/useSchedules';
 import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
 import getCourseTableRows from '@views/lib/getCourseTableRows';
 import type { SiteSupportType } from '@views/lib/getSiteSupport';
+import { dedupeScrapedRows } from '@views/lib/loadSavedSearchRows';
 import { populateSearchInputs } from '@views/lib/populateSearchInputs';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 
 interface Props {
     support: Extract<SiteSupportType, 'COURSE_CATALOG_DETAILS' | 'COURSE_CATALOG_LIST'>;
@@ -24,6 +28,8 @@ interface Props {
  */
 export default function CourseCatalogMain({ support }: Props): JSX.Element | null {
     const [rows, setRows] = React.useState<ScrapedRow[]>([]);
+    // rows are added from async callbacks (AutoLoad, merged searches), which would otherwise see stale state
+    const rowsRef = useRef<ScrapedRow[]>([]);
     const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
     const [showPopup, setShowPopup] = useState(false);
     const [enableScrollToLoad, setEnableScrollToLoad] = useState<boolean>(false);
@@ -42,6 +48,7 @@ export default function CourseCatalogMain({ support }: Props): JSX.Element | nul
         const tableRows = getCourseTableRows(document);
         const ccs = new CourseCatalogScraper(support);
         const scrapedRows = ccs.scrape(tableRows, true);
+        rowsRef.current = scrapedRows;
         setRows(scrapedRows);
     }, [support]);
 
@@ -50,10 +57,12 @@ export default function CourseCatalogMain({ support }: Props): JSX.Element | nul
     }, []);
 
     const addRows = (newRows: ScrapedRow[]) => {
-        newRows.forEach(row => {
+        const uniqueRows = dedupeScrapedRows(rowsRef.current, newRows);
+        uniqueRows.forEach(row => {
             document.querySelector('table tbody')!.appendChild(row.element);
         });
-        setRows([...rows, ...newRows]);
+        rowsRef.current = [...rowsRef.current, ...uniqueRows];
+        setRows(rowsRef.current);
     };
 
     const handleRowButtonClick = (course: Course) => () => {
@@ -70,6 +79,9 @@ export default function CourseCatalogMain({ support }: Props): JSX.Element | nul
         <ExtensionRoot>
             <NewSearchLink />
             <RecruitmentBanner />
+            <SavedSearchBar addRows={addRows} />
+            <ScheduleGenerator courses={rows.flatMap(row => (row.course ? [row.course] : []))} />
+            <CourseCatalogFilters rows={rows} activeSchedule={activeSchedule} />
             <TableHead>Plus</TableHead>
             {rows.map(
                 row =>
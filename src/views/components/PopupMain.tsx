@@ -1,15 +1,19 @@
 import splashText from '@assets/insideJokes';
-import createSchedule from '@pages/background/lib/createSchedule';
-import { CalendarDots, Flag, GearSix, Plus } from '@phosphor-icons/react';
+import { ArrowClockwise, CalendarDots, Flag, GearSix, Plus, PlusCircle } from '@phosphor-icons/react';
 import { background } from '@shared/messages';
+import { CourseRefreshStore } from '@shared/storage/CourseRefreshStore';
 import { initSettings, OptionsStore } from '@shared/storage/OptionsStore';
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
 import { openReportWindow } from '@shared/util/openReportWindow';
+import { getWaitlistConflicts } from '@shared/util/waitlist';
 import Divider from '@views/components/common/Divider';
 import Text from '@views/components/common/Text/Text';
 import { useEnforceScheduleLimit } from '@views/hooks/useEnforceScheduleLimit';
-import useSchedules, { getActiveSchedule, replaceSchedule, switchSchedule } from '@views/hooks/useSchedules';
+import useQuickAdd from '@views/hooks/useQuickAdd';
+import useSavedSearches from '@views/hooks/useSavedSearches';
+import useSchedules, { getActiveSchedule, replaceSchedule } from '@views/hooks/useSchedules';
 import { getUpdatedAtDateTimeString } from '@views/lib/getUpdatedAtDateTimeString';
+import clsx from 'clsx';
 import useKC_DABR_WASM from 'kc-dabr-wasm';
 import React, { useEffect, useState } from 'react';
 
@@ -17,8 +21,10 @@ import { Button } from './common/Button';
 import CourseStatus from './common/CourseStatus';
 import { SmallLogo } from './common/LogoIcon';
 import PopupCourseBlock from './common/PopupCourseBlock';
+import SavedSearchLauncher from './common/SavedSearchLauncher';
 import ScheduleDropdown from './common/ScheduleDropdown';
-import ScheduleListItem from './common/ScheduleListItem';
+import ScheduleHistoryToast from './common/ScheduleHistoryToast';
+import SemesterScheduleList from './common/SemesterScheduleList';
 import { SortableList } from './common/SortableList';
 
 /**
@@ -56,14 +62,38 @@ export default function PopupMain(): JSX.Element {
     }, []);
 
     const [activeSchedule, schedules] = useSchedules();
+    const savedSearches = useSavedSearches();
+    const showQuickAdd = useQuickAdd();
 
-    // const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [courseChanges, setCourseChanges] = useState<Record<string, CourseChangeRecord>>({});
     const [funny, setFunny] = useState<string>('');
 
     const enforceScheduleLimit = useEnforceScheduleLimit();
     const handleAddSchedule = () => {
         if (enforceScheduleLimit()) {
-            createSchedule('New Schedule');
+            background.createSchedule({ scheduleName: 'New Schedule' });
+        }
+    };
+
+    useEffect(() => {
+        CourseRefreshStore.get('changes').then(setCourseChanges);
+
+        const listener = CourseRefreshStore.listen('changes', ({ newValue }) => {
+            setCourseChanges(newValue);
+        });
+
+        return () => {
+            CourseRefreshStore.removeListener(listener);
+        };
+    }, []);
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await background.refreshCourses();
+        } finally {
+            setIsRefreshing(false);
         }
     };
 
@@ -96,6 +126,7 @@ export default function PopupMain(): JSX.Element {
                             onClick={handleCalendarOpenOnClick}
                             icon={CalendarDots}
                         />
+                        <Button variant='minimal' color='ut-black' onClick={showQuickAdd} icon={PlusCircle} />
                         <Button variant='minimal' color='ut-black' onClick={handleOpenOptions} icon={GearSix} />
                         <Button variant='minimal' color='ut-black' onClick={openReportWindow} icon={Flag} />
                     </div>
@@ -104,20 +135,7 @@ export default function PopupMain(): JSX.Element {
             <Divider orientation='horizontal' size='100%' />
             <div className='px-5 pb-2.5 pt-3.75'>
                 <ScheduleDropdown>
-                    <SortableList
-                        draggables={schedules}
-                        onChange={reordered => {
-                            const activeSchedule = getActiveSchedule();
-                            const activeIndex = reordered.findIndex(s => s.id === activeSchedule.id);
-
-                            // don't care about the promise
-                            UserScheduleStore.set('schedules', reordered);
-                            UserScheduleStore.set('activeIndex', activeIndex);
-                        }}
-                        renderItem={schedule => (
-                            <ScheduleListItem schedule={schedule} onClick={() => switchSchedule(schedule.id)} />
-                        )}
-                    />
+                    <SemesterScheduleList schedules={schedules} />
                     <div className='bottom-0 right-0 mt-2.5 w-full flex justify-end'>
                         <Button
                             variant='filled'
@@ -129,6 +147,11 @@ export default function PopupMain(): JSX.Element {
                     </div>
                 </ScheduleDropdown>
             </div>
+            {savedSearches.length > 0 && (
+                <div className='max-h-40 overflow-y-auto px-5 pb-2.5'>
+                    <SavedSearchLauncher onLaunch={() => window.close()} />
+                </div>
+            )}
             {activeSchedule?.courses?.length === 0 && (
                 <div className='max-w-64 flex flex-col items-center self-center gap-1.25 px-2 py-2 pt-24'>
                     <Text variant='p' className='text-center text-ut-gray !font-normal'>
@@ -152,7 +175,13 @@ export default function PopupMain(): JSX.Element {
                             replaceSchedule(getActiveSchedule(), activeSchedule);
                         }}
                         renderItem={course => (
-                            <PopupCourseBlock key={course.id} course={course} colors={course.colors} />
+                            <PopupCourseBlock
+                                key={course.id}
+                                course={course}
+                                colors={course.colors}
+                                changes={courseChanges[course.uniqueId]}
+                                waitlistConflicts={getWaitlistConflicts(course, activeSchedule.courses)}
+                            />
                         )}
                     />
                 )}
@@ -172,21 +201,21 @@ export default function PopupMain(): JSX.Element {
                         <Text variant='mini' className='text-ut-gray !font-normal'>
                             LAST UPDATED: {getUpdatedAtDateTimeString(activeSchedule.updatedAt)}
                         </Text>
-                        {/* <button
+                        <button
                             className='h-4 w-4 bg-transparent p-0 btn'
-                            onClick={() => {
-                                setIsRefreshing(true);
-                            }}
+                            disabled={isRefreshing}
+                            onClick={handleRefresh}
                         >
-                            <RefreshIcon
+                            <ArrowClockwise
                                 className={clsx('h-4 w-4 text-ut-black animate-duration-800', {
                                     'animate-spin': isRefreshing,
                                 })}
                             />
-                        </button> */}
+                        </button>
                     </div>
                 )}
             </div>
+            <ScheduleHistoryToast />
         </div>
     );
 }
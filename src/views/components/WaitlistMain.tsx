@@ -0,0 +1,18 @@
+import { background } from '@shared/messages';
+import scrapeWaitlist from '@views/lib/scrapeWaitlist';
+import { useEffect } from 'react';
+
+/**
+ * This is the top level react component for UT's waitlist page.
+ * It scrapes the user's waitlist positions and saves them onto the matching courses in their schedules.
+ */
+export default function WaitlistMain(): null {
+    useEffect(() => {
+        const entries = scrapeWaitlist(document);
+        if (entries) {
+            background.updateWaitlist({ entries });
+        }
+    }, []);
+
+    return null;
+}
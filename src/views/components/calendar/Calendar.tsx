@@ -8,10 +8,14 @@ import CalendarGrid from '@views/components/calendar/CalendarGrid';
 import CalendarHeader from '@views/components/calendar/CalendarHeader/CalendarHeader';
 import { CalendarSchedules } from '@views/components/calendar/CalendarSchedules';
 import ResourceLinks from '@views/components/calendar/ResourceLinks';
+import ScheduleComparison from '@views/components/calendar/ScheduleComparison';
 import Divider from '@views/components/common/Divider';
+import SavedSearchLauncher from '@views/components/common/SavedSearchLauncher';
+import ScheduleHistoryToast from '@views/components/common/ScheduleHistoryToast';
 import CourseCatalogInjectedPopup from '@views/components/injected/CourseCatalogInjectedPopup/CourseCatalogInjectedPopup';
 import { CalendarContext } from '@views/contexts/CalendarContext';
 import useCourseFromUrl from '@views/hooks/useCourseFromUrl';
+import useCustomBlockEditor from '@views/hooks/useCustomBlockEditor';
 import { useFlattenedCourseSchedule } from '@views/hooks/useFlattenedCourseSchedule';
 import { MessageListener } from 'chrome-extension-toolkit';
 import clsx from 'clsx';
@@ -28,12 +32,14 @@ import CalendarFooter from './CalendarFooter';
  * Calendar page component
  */
 export default function Calendar(): JSX.Element {
-    const { courseCells, activeSchedule } = useFlattenedCourseSchedule();
+    const { courseCells, blockCells, activeSchedule, gridBounds } = useFlattenedCourseSchedule();
+    const editBlock = useCustomBlockEditor();
 
     const [course, setCourse] = useState<Course | null>(useCourseFromUrl());
 
     const [showPopup, setShowPopup] = useState<boolean>(course !== null);
     const [showSidebar, setShowSidebar] = useState<boolean>(true);
+    const [isComparing, setIsComparing] = useState<boolean>(false);
 
     useEffect(() => {
         const listener = new MessageListener<CalendarTabMessages>({
@@ -96,6 +102,8 @@ export default function Calendar(): JSX.Element {
                         >
                             <CalendarSchedules />
                             <Divider orientation='horizontal' size='100%' />
+                            <SavedSearchLauncher />
+                            <Divider orientation='horizontal' size='100%' />
                             <ResourceLinks />
                             <Divider orientation='horizontal' size='100%' />
                             {/* <TeamLinks /> */}
@@ -130,11 +138,25 @@ export default function Calendar(): JSX.Element {
                             onSidebarToggle={() => {
                                 setShowSidebar(!showSidebar);
                             }}
+                            isComparing={isComparing}
+                            onCompareToggle={() => setIsComparing(!isComparing)}
                         />
-                        <div className='min-h-2xl min-w-5xl flex-grow overflow-auto pl-spacing-3 pt-spacing-3 screenshot:min-h-xl'>
-                            <CalendarGrid courseCells={courseCells} setCourse={setCourse} />
-                        </div>
-                        <CalendarBottomBar courseCells={courseCells} setCourse={setCourse} />
+                        {isComparing ? (
+                            <ScheduleComparison setCourse={setCourse} />
+                        ) : (
+                            <>
+                                <div className='min-h-2xl min-w-5xl flex-grow overflow-auto pl-spacing-3 pt-spacing-3 screenshot:min-h-xl'>
+                                    <CalendarGrid
+                                        courseCells={courseCells}
+                                        blockCells={blockCells}
+                                        gridBounds={gridBounds}
+                                        setCourse={setCourse}
+                                        onBlockClick={editBlock}
+                                    />
+                                </div>
+                                <CalendarBottomBar courseCells={courseCells} setCourse={setCourse} />
+                            </>
+                        )}
                     </div>
                 </div>
 
@@ -146,6 +168,7 @@ export default function Calendar(): JSX.Element {
                     open={showPopup}
                     afterLeave={() => setCourse(null)}
                 />
+                <ScheduleHistoryToast className='screenshot:hidden' />
             </div>
         </CalendarContext.Provider>
     );
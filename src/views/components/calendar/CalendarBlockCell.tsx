@@ -0,0 +1,44 @@
+import type { CustomBlock } from '@shared/types/CustomBlock';
+import { pickFontColor } from '@shared/util/colors';
+import Text from '@views/components/common/Text/Text';
+import clsx from 'clsx';
+import React from 'react';
+
+/**
+ * Props for the CalendarBlockCell component.
+ */
+export interface CalendarBlockCellProps {
+    block: CustomBlock;
+    onClick?: React.MouseEventHandler<HTMLDivElement>;
+    className?: string;
+}
+
+/**
+ * Renders a cell for a block (i.e. work or the gym) on the calendar. Blocks are dashed, to tell them apart from courses.
+ *
+ * @param block - The block to show.
+ * @param onClick - Called when the cell is clicked, i.e. to edit the block.
+ * @param className - Additional CSS class name for the cell.
+ * @returns The rendered component.
+ */
+export default function CalendarBlockCell({ block, onClick, className }: CalendarBlockCellProps): JSX.Element {
+    return (
+        <div
+            className={clsx(
+                'h-full min-w-full w-0 flex flex-col gap-0.25 overflow-hidden border-2 border-white/60 rounded border-dashed p-x-2 p-y-1.2 screenshot:p-1.5',
+                { 'cursor-pointer hover:shadow-md transition-shadow-100 ease-out': onClick },
+                pickFontColor(block.color),
+                className
+            )}
+            style={{ backgroundColor: block.color }}
+            onClick={onClick}
+        >
+            <Text variant='h1-course' as='p' className='truncate -mb-0.2 leading-tight!'>
+                {block.title}
+            </Text>
+            <Text variant='h3-course' as='p' className='truncate'>
+                {block.toMeeting().getTimeString({ separator: '–' })}
+            </Text>
+        </div>
+    );
+}
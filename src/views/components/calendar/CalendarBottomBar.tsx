@@ -40,12 +40,14 @@ export default function CalendarBottomBar({ courseCells, setCourse }: CalendarBo
                         <div className='inline-flex gap-2.5'>
                             <ColorPickerProvider>
                                 {asyncCourseCells.map(block => {
-                                    const { courseDeptAndInstr, status, className } = block.componentProps;
+                                    const { courseDeptAndInstr, status, outlineColor, className } =
+                                        block.componentProps;
                                     return (
                                         <CalendarCourseBlock
                                             courseDeptAndInstr={courseDeptAndInstr}
                                             status={status}
-                                            key={courseDeptAndInstr}
+                                            key={`${courseDeptAndInstr}${outlineColor ?? ''}`}
+                                            outlineColor={outlineColor}
                                             className={clsx(className, 'w-35! h-15!')}
                                             onClick={() => setCourse(block.course)}
                                             blockData={block}
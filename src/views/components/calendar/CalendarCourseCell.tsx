@@ -1,8 +1,9 @@
-import { ClockUser, LockKey, Palette, Prohibit } from '@phosphor-icons/react';
+import { ClockUser, LockKey, Palette, Prohibit, Warning } from '@phosphor-icons/react';
 import { initSettings, OptionsStore } from '@shared/storage/OptionsStore';
-import type { StatusType } from '@shared/types/Course';
+import type { Course, StatusType } from '@shared/types/Course';
 import { Status } from '@shared/types/Course';
 import { hexToRGB, pickFontColor } from '@shared/util/colors';
+import { formatWaitlistInfo } from '@shared/util/waitlist';
 import Text from '@views/components/common/Text/Text';
 import { useColorPickerContext } from '@views/contexts/ColorPickerContext';
 import type { CalendarGridCourse } from '@views/hooks/useFlattenedCourseSchedule';
@@ -19,8 +20,12 @@ export interface CalendarCourseCellProps {
     courseDeptAndInstr: string;
     timeAndLocation?: string;
     status: StatusType;
+    waitlistConflicts?: Course[];
     onClick?: React.MouseEventHandler<HTMLDivElement>;
     blockData: CalendarGridCourse;
+    isLastDay?: boolean;
+    /** Outlines the cell, i.e. to tell schedules apart when they are overlaid in compare mode */
+    outlineColor?: string;
     className?: string;
 }
 
@@ -30,7 +35,10 @@ export interface CalendarCourseCellProps {
  * @param courseDeptAndInstr - The course department and instructor.
  * @param timeAndLocation - The time and location of the course.
  * @param status - The status of the course.
+ * @param waitlistConflicts - The other courses in the schedule that the course conflicts with, if the user is waitlisted for it.
  * @param colors - The colors for styling the cell.
+ * @param isLastDay - Whether the cell is in the rightmost day column, so its actions open to the left.
+ * @param outlineColor - The color to outline the cell with.
  * @param className - Additional CSS class name for the cell.
  * @returns The rendered component.
  */
@@ -38,8 +46,11 @@ export default function CalendarCourseCell({
     courseDeptAndInstr,
     timeAndLocation,
     status,
+    waitlistConflicts = [],
     onClick,
     blockData,
+    isLastDay = false,
+    outlineColor,
     className,
 }: CalendarCourseCellProps): JSX.Element {
     const [enableCourseStatusChips, setEnableCourseStatusChips] = useState<boolean>(false);
@@ -47,7 +58,7 @@ export default function CalendarCourseCell({
     const { selectedColor, setSelectedCourse, handleCloseColorPicker, isSelectedBlock, isSelectedCourse } =
         useColorPickerContext();
 
-    const { colors, uniqueId: courseID } = blockData.course;
+    const { colors, uniqueId: courseID, waitlist } = blockData.course;
     const { dayIndex, startIndex } = blockData.calendarGridPoint;
 
     let selectedCourse = false;
@@ -119,6 +130,8 @@ export default function CalendarCourseCell({
             )}
             style={{
                 backgroundColor: colors.primaryColor,
+                outline: outlineColor && `3px solid ${outlineColor}`,
+                outlineOffset: outlineColor && '-3px',
             }}
             onClick={onClick}
         >
@@ -149,6 +162,23 @@ export default function CalendarCourseCell({
                     {rightIcon}
                 </div>
             )}
+            {waitlist && (
+                <div
+                    className='h-fit flex items-center justify-center justify-self-start gap-0.5 rounded p-0.5 text-white screenshot:hidden'
+                    style={{
+                        backgroundColor: colors.secondaryColor,
+                    }}
+                    title={[
+                        formatWaitlistInfo(waitlist),
+                        ...waitlistConflicts.map(other => `Conflicts with ${other.department} ${other.number}`),
+                    ].join('\n')}
+                >
+                    {waitlistConflicts.length > 0 && <Warning weight='fill' className='h-5 w-5' />}
+                    <Text variant='h3-course' as='span'>
+                        #{waitlist.position}
+                    </Text>
+                </div>
+            )}
 
             <div
                 onClick={e => {
@@ -156,7 +186,7 @@ export default function CalendarCourseCell({
                 }}
                 className={clsx(
                     'absolute screenshot:opacity-0! text-black transition-all ease-in-out group-focus-within:pointer-events-auto group-hover:pointer-events-auto group-focus-within:opacity-100 group-hover:opacity-100 gap-y-0.75',
-                    dayIndex === 4 ? 'left-0 -translate-x-full pr-0.75 items-end' : 'right-0 translate-x-full pl-0.75', // If the cell is on the right side of the screen
+                    isLastDay ? 'left-0 -translate-x-full pr-0.75 items-end' : 'right-0 translate-x-full pl-0.75', // If the cell is on the right side of the screen
                     selectedBlock ? 'opacity-100 pointer-events-auto' : 'opacity-0   pointer-events-none'
                 )}
                 style={{
@@ -164,7 +194,7 @@ export default function CalendarCourseCell({
                     zIndex: selectedBlock ? 30 : 29,
                 }}
             >
-                <div className={clsx('relative', dayIndex === 4 && 'flex flex-col items-end')}>
+                <div className={clsx('relative', isLastDay && 'flex flex-col items-end')}>
                     <Button
                         onClick={() => {
                             if (selectedBlock) {
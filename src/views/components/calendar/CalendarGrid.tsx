@@ -1,19 +1,27 @@
 import type { Course } from '@shared/types/Course';
+import type { CustomBlock } from '@shared/types/CustomBlock';
+import CalendarBlockCell from '@views/components/calendar/CalendarBlockCell';
 import CalendarCourseCell from '@views/components/calendar/CalendarCourseCell';
 import Text from '@views/components/common/Text/Text';
 import { ColorPickerProvider } from '@views/contexts/ColorPickerContext';
-import type { CalendarGridCourse } from '@views/hooks/useFlattenedCourseSchedule';
+import type {
+    CalendarGridBlock,
+    CalendarGridBounds,
+    CalendarGridCourse,
+} from '@views/hooks/useFlattenedCourseSchedule';
+import { getCalendarGridBounds } from '@views/hooks/useFlattenedCourseSchedule';
 import React from 'react';
 
 import CalendarCell from './CalendarGridCell';
 
-const daysOfWeek = ['MON', 'TUE', 'WED', 'THU', 'FRI'];
-const hoursOfDay = Array.from({ length: 14 }, (_, index) => index + 8);
+const defaultGridBounds = getCalendarGridBounds([]);
 
 interface Props {
     courseCells?: CalendarGridCourse[];
-    saturdayClass?: boolean;
+    blockCells?: CalendarGridBlock[];
+    gridBounds?: CalendarGridBounds;
     setCourse: React.Dispatch<React.SetStateAction<Course | null>>;
+    onBlockClick?: (block: CustomBlock) => void;
 }
 
 function CalendarHour({ hour }: { hour: number }) {
@@ -26,56 +34,83 @@ function CalendarHour({ hour }: { hour: number }) {
     );
 }
 
-function makeGridRow(row: number, cols: number): JSX.Element {
-    const hour = hoursOfDay[row]!;
+function makeGridRow(row: number, cols: number, startHour: number): JSX.Element {
+    const hour = startHour + row;
 
     return (
-        <>
+        <React.Fragment key={hour}>
             <CalendarHour hour={hour} />
             <div className='grid-row-span-2 w-4 border-b border-r border-gray-300' />
             {[...Array(cols).keys()].map(col => (
                 <CalendarCell key={`${row}${col}`} row={row} col={col} />
             ))}
-        </>
+        </React.Fragment>
     );
 }
 
-// TODO: add Saturday class support
-
 /**
  * Grid of CalendarGridCell components forming the user's course schedule calendar view
  *
  * @param courseCells - The courses to display on the calendar
- * @param saturdayClass - Whether the user has a Saturday class
+ * @param blockCells - The blocks (i.e. work) to display on the calendar, behind the courses
+ * @param gridBounds - The day columns and hour range to show, defaults to Monday through Friday from 8 AM to 9 PM
  * @param setCourse - Function to set the course to display in the course details panel
+ * @param onBlockClick - Called when a block is clicked, leave out to make blocks read-only
  * @returns The CalendarGrid component
  */
 export default function CalendarGrid({
     courseCells,
-    saturdayClass: _saturdayClass, // TODO: implement/move away from props
+    blockCells,
+    gridBounds = defaultGridBounds,
     setCourse,
+    onBlockClick,
 }: React.PropsWithChildren<Props>): JSX.Element {
+    const { days, startHour, endHour } = gridBounds;
+    const hourCount = endHour - startHour;
+
     return (
-        <div className='grid grid-cols-[auto_auto_repeat(5,1fr)] grid-rows-[auto_repeat(26,1fr)] h-full'>
+        <div
+            className='grid h-full'
+            style={{
+                gridTemplateColumns: `auto auto repeat(${days.length}, 1fr)`,
+                gridTemplateRows: `auto repeat(${hourCount * 2}, 1fr)`,
+            }}
+        >
             {/* Displaying day labels */}
             <div />
             <div className='w-4 border-b border-r border-gray-300' />
-            {daysOfWeek.map(day => (
-                <div className='h-4 flex items-end justify-center border-b border-r border-gray-300 pb-1.5'>
-                    <Text key={day} variant='small' className='text-center text-ut-burntorange' as='div'>
-                        {day}
+            {days.map(day => (
+                <div key={day} className='h-4 flex items-end justify-center border-b border-r border-gray-300 pb-1.5'>
+                    <Text variant='small' className='text-center text-ut-burntorange' as='div'>
+                        {day.slice(0, 3).toUpperCase()}
                     </Text>
                 </div>
             ))}
-            {[...Array(13).keys()].map(i => makeGridRow(i, 5))}
-            <CalendarHour hour={21} />
-            {Array(6)
-                .fill(1)
-                .map(() => (
-                    <div className='h-4 flex items-end justify-center border-r border-gray-300' />
-                ))}
+            {[...Array(hourCount).keys()].map(i => makeGridRow(i, days.length, startHour))}
+            <CalendarHour hour={endHour} />
+            {[...Array(days.length + 1).keys()].map(i => (
+                <div key={i} className='h-4 flex items-end justify-center border-r border-gray-300' />
+            ))}
+            {blockCells?.map(({ block, calendarGridPoint }) => (
+                <div
+                    key={`${block.id}-${calendarGridPoint.dayIndex}`}
+                    style={{
+                        gridColumn: `${calendarGridPoint.dayIndex + 3}`,
+                        gridRow: `${calendarGridPoint.startIndex} / ${calendarGridPoint.endIndex}`,
+                    }}
+                    className='pb-1 pl-0 pr-2.5 pt-0 screenshot:pb-0.5 screenshot:pr-0.5'
+                >
+                    <CalendarBlockCell block={block} onClick={onBlockClick && (() => onBlockClick(block))} />
+                </div>
+            ))}
             <ColorPickerProvider>
-                {courseCells && <AccountForCourseConflicts courseCells={courseCells} setCourse={setCourse} />}
+                {courseCells && (
+                    <AccountForCourseConflicts
+                        courseCells={courseCells}
+                        lastDayIndex={days.length - 1}
+                        setCourse={setCourse}
+                    />
+                )}
             </ColorPickerProvider>
         </div>
     );
@@ -83,12 +118,17 @@ export default function CalendarGrid({
 
 interface AccountForCourseConflictsProps {
     courseCells: CalendarGridCourse[];
+    lastDayIndex: number;
     setCourse: React.Dispatch<React.SetStateAction<Course | null>>;
 }
 
 // TODO: Possibly refactor to be more concise
 // TODO: Deal with react strict mode (wacky movements)
-function AccountForCourseConflicts({ courseCells, setCourse }: AccountForCourseConflictsProps): JSX.Element[] {
+function AccountForCourseConflicts({
+    courseCells,
+    lastDayIndex,
+    setCourse,
+}: AccountForCourseConflictsProps): JSX.Element[] {
     //  Groups by dayIndex to identify overlaps
     const days = courseCells.reduce(
         (acc, cell: CalendarGridCourse) => {
@@ -133,7 +173,8 @@ function AccountForCourseConflicts({ courseCells, setCourse }: AccountForCourseC
     return courseCells
         .filter(block => !block.async)
         .map(block => {
-            const { courseDeptAndInstr, timeAndLocation, status } = block.componentProps;
+            const { courseDeptAndInstr, timeAndLocation, status, waitlistConflicts, outlineColor } =
+                block.componentProps;
 
             return (
                 <div
@@ -150,8 +191,11 @@ function AccountForCourseConflicts({ courseCells, setCourse }: AccountForCourseC
                         courseDeptAndInstr={courseDeptAndInstr}
                         timeAndLocation={timeAndLocation}
                         status={status}
+                        waitlistConflicts={waitlistConflicts}
+                        outlineColor={outlineColor}
                         onClick={() => setCourse(block.course)}
                         blockData={block}
+                        isLastDay={block.calendarGridPoint.dayIndex === lastDayIndex}
                     />
                 </div>
             );
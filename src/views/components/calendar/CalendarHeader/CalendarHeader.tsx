@@ -1,11 +1,13 @@
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
-import { CalendarDots, Export, FilePng, Sidebar } from '@phosphor-icons/react';
+import { CalendarDots, Columns, Export, FilePng, PlusCircle, SelectionPlus, Sidebar } from '@phosphor-icons/react';
 import styles from '@views/components/calendar/CalendarHeader/CalendarHeader.module.scss';
 import { Button } from '@views/components/common/Button';
 import DialogProvider from '@views/components/common/DialogProvider/DialogProvider';
 import Divider from '@views/components/common/Divider';
 import { ExtensionRootWrapper, styleResetClass } from '@views/components/common/ExtensionRoot/ExtensionRoot';
 import ScheduleTotalHoursAndCourses from '@views/components/common/ScheduleTotalHoursAndCourses';
+import useCustomBlockEditor from '@views/hooks/useCustomBlockEditor';
+import useQuickAdd from '@views/hooks/useQuickAdd';
 import useSchedules from '@views/hooks/useSchedules';
 import clsx from 'clsx';
 import React from 'react';
@@ -15,14 +17,24 @@ import { saveAsCal, saveCalAsPng } from '../utils';
 interface CalendarHeaderProps {
     sidebarOpen?: boolean;
     onSidebarToggle?: () => void;
+    /** Whether the calendar is showing several schedules at once */
+    isComparing?: boolean;
+    onCompareToggle?: () => void;
 }
 
 /**
  * Renders the header component for the calendar.
  * @returns The JSX element representing the calendar header.
  */
-export default function CalendarHeader({ sidebarOpen, onSidebarToggle }: CalendarHeaderProps): JSX.Element {
-    const [activeSchedule] = useSchedules();
+export default function CalendarHeader({
+    sidebarOpen,
+    onSidebarToggle,
+    isComparing = false,
+    onCompareToggle,
+}: CalendarHeaderProps): JSX.Element {
+    const [activeSchedule, schedules] = useSchedules();
+    const showQuickAdd = useQuickAdd();
+    const showBlockEditor = useCustomBlockEditor();
 
     return (
         <div
@@ -43,7 +55,9 @@ export default function CalendarHeader({ sidebarOpen, onSidebarToggle }: Calenda
                 <ScheduleTotalHoursAndCourses
                     scheduleName={activeSchedule.name}
                     totalHours={activeSchedule.hours}
+                    maxTotalHours={activeSchedule.maxHours}
                     totalCourses={activeSchedule.courses.length}
+                    semester={activeSchedule.semester}
                 />
             </div>
             <Divider className='self-center screenshot:hidden' size='1.75rem' orientation='vertical' />
@@ -85,7 +99,7 @@ export default function CalendarHeader({ sidebarOpen, onSidebarToggle }: Calenda
                                 <MenuItem>
                                     <Button
                                         className='w-full flex justify-start'
-                                        onClick={saveAsCal}
+                                        onClick={() => saveAsCal()}
                                         color='ut-black'
                                         size='small'
                                         variant='minimal'
@@ -102,12 +116,30 @@ export default function CalendarHeader({ sidebarOpen, onSidebarToggle }: Calenda
                             </MenuItems>
                         </Menu>
                     </DialogProvider>
-                    {/* <Button className='invisible' color='ut-black' size='small' variant='minimal' icon={PlusCircle}>
+                    <Button color='ut-black' size='small' variant='minimal' icon={PlusCircle} onClick={showQuickAdd}>
                         Quick Add
                     </Button>
-                    <Button className='invisible' color='ut-black' size='small' variant='minimal' icon={SelectionPlus}>
+                    {onCompareToggle && (
+                        <Button
+                            color={isComparing ? 'ut-burntorange' : 'ut-black'}
+                            size='small'
+                            variant='minimal'
+                            icon={Columns}
+                            disabled={!isComparing && schedules.length < 2}
+                            onClick={onCompareToggle}
+                        >
+                            {isComparing ? 'Done Comparing' : 'Compare'}
+                        </Button>
+                    )}
+                    <Button
+                        color='ut-black'
+                        size='small'
+                        variant='minimal'
+                        icon={SelectionPlus}
+                        onClick={() => showBlockEditor()}
+                    >
                         Block
-                    </Button> */}
+                    </Button>
                 </div>
                 {/* <Divider className='self-center' size='1.75rem' orientation='vertical' />
                 <div className={clsx(styles.secondaryActions, 'min-w-fit flex flex-1 justify-end gap-5')}>
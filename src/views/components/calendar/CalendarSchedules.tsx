@@ -1,12 +1,10 @@
-import createSchedule from '@pages/background/lib/createSchedule';
 import { Plus } from '@phosphor-icons/react';
-import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { background } from '@shared/messages';
 import { Button } from '@views/components/common/Button';
-import ScheduleListItem from '@views/components/common/ScheduleListItem';
-import { SortableList } from '@views/components/common/SortableList';
+import SemesterScheduleList from '@views/components/common/SemesterScheduleList';
 import Text from '@views/components/common/Text/Text';
 import { useEnforceScheduleLimit } from '@views/hooks/useEnforceScheduleLimit';
-import useSchedules, { getActiveSchedule, switchSchedule } from '@views/hooks/useSchedules';
+import useSchedules from '@views/hooks/useSchedules';
 import React from 'react';
 
 /**
@@ -21,7 +19,7 @@ export function CalendarSchedules() {
     const enforceScheduleLimit = useEnforceScheduleLimit();
     const handleAddSchedule = () => {
         if (enforceScheduleLimit()) {
-            createSchedule('New Schedule');
+            background.createSchedule({ scheduleName: 'New Schedule' });
         }
     };
 
@@ -39,23 +37,7 @@ export function CalendarSchedules() {
                     icon={Plus}
                 />
             </div>
-            <div className='w-full flex flex-col'>
-                <SortableList
-                    className='gap-spacing-3'
-                    draggables={schedules}
-                    onChange={reordered => {
-                        const activeSchedule = getActiveSchedule();
-                        const activeIndex = reordered.findIndex(s => s.id === activeSchedule.id);
-
-                        // don't care about the promise
-                        UserScheduleStore.set('schedules', reordered);
-                        UserScheduleStore.set('activeIndex', activeIndex);
-                    }}
-                    renderItem={schedule => (
-                        <ScheduleListItem schedule={schedule} onClick={() => switchSchedule(schedule.id)} />
-                    )}
-                />
-            </div>
+            <SemesterScheduleList schedules={schedules} className='gap-spacing-3' />
         </div>
     );
 }
@@ -0,0 +1,240 @@
+import { Columns, Stack } from '@phosphor-icons/react';
+import type { Course } from '@shared/types/Course';
+import type { ThemeColor } from '@shared/types/ThemeColors';
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import { formatCreditHours } from '@shared/util/creditHours';
+import type { ScheduleSummary } from '@shared/util/scheduleComparison';
+import {
+    formatDuration,
+    formatTimeOfDay,
+    getScheduleAverageGPA,
+    getScheduleSummary,
+} from '@shared/util/scheduleComparison';
+import { getThemeColorHexByName } from '@shared/util/themeColors';
+import CalendarBottomBar from '@views/components/calendar/CalendarBottomBar';
+import CalendarGrid from '@views/components/calendar/CalendarGrid';
+import { Button } from '@views/components/common/Button';
+import Text from '@views/components/common/Text/Text';
+import {
+    flattenCourseSchedule,
+    flattenCustomBlocks,
+    getCalendarGridBounds,
+} from '@views/hooks/useFlattenedCourseSchedule';
+import { useAverageGPAs } from '@views/hooks/useGradeStats';
+import useSchedules from '@views/hooks/useSchedules';
+import React, { useState } from 'react';
+
+/**
+ * The colors that tell the compared schedules apart, one for each schedule the user can have
+ */
+const SCHEDULE_COLORS: ThemeColor[] = [
+    'ut-burntorange',
+    'ut-blue',
+    'ut-green',
+    'theme-red',
+    'ut-teal',
+    'ut-orange',
+    'ut-black',
+    'ut-lightgreen',
+    'ut-yellow',
+    'ut-gray',
+];
+
+type ComparisonLayout = 'side-by-side' | 'overlay';
+
+/**
+ * Props for the ScheduleComparison component.
+ */
+interface ScheduleComparisonProps {
+    setCourse: React.Dispatch<React.SetStateAction<Course | null>>;
+}
+
+/**
+ * Shows two or more of the user's schedules at once, either side by side or overlaid on the same calendar
+ * with each schedule's courses outlined in its own color, along with a table comparing their stats.
+ *
+ * @param setCourse - Function to set the course to display in the course details panel
+ * @returns The ScheduleComparison component
+ */
+export default function ScheduleComparison({ setCourse }: ScheduleComparisonProps): JSX.Element {
+    const [activeSchedule, schedules] = useSchedules();
+    const [selectedIds, setSelectedIds] = useState(() =>
+        [
+            activeSchedule.id,
+            ...schedules.filter(schedule => schedule.id !== activeSchedule.id).map(schedule => schedule.id),
+        ].slice(0, 2)
+    );
+    const [layout, setLayout] = useState<ComparisonLayout>('side-by-side');
+
+    const getColor = (schedule: UserSchedule) =>
+        getThemeColorHexByName(SCHEDULE_COLORS[schedules.indexOf(schedule) % SCHEDULE_COLORS.length]!);
+    const compared = schedules.filter(schedule => selectedIds.includes(schedule.id));
+    // every schedule goes on the same rows, so classes at the same time line up
+    const gridBounds = getCalendarGridBounds(
+        compared.flatMap(schedule => schedule.courses),
+        compared.flatMap(schedule => schedule.blocks)
+    );
+
+    const toggleSchedule = (id: string) => {
+        setSelectedIds(previous => (previous.includes(id) ? previous.filter(i => i !== id) : [...previous, id]));
+    };
+
+    const overlayCells = compared.flatMap(schedule =>
+        flattenCourseSchedule(schedule.courses, gridBounds).map(cell => ({
+            ...cell,
+            componentProps: { ...cell.componentProps, outlineColor: getColor(schedule) },
+        }))
+    );
+
+    return (
+        <div className='flex flex-col gap-spacing-5 pb-spacing-5 pl-spacing-7 pt-spacing-3'>
+            <div className='flex flex-wrap items-center gap-spacing-3'>
+                {schedules.map(schedule => (
+                    <label key={schedule.id} className='flex cursor-pointer items-center gap-1.5 text-ut-black'>
+                        <input
+                            type='checkbox'
+                            checked={selectedIds.includes(schedule.id)}
+                            onChange={() => toggleSchedule(schedule.id)}
+                        />
+                        <span className='h-3 w-3 rounded-full' style={{ backgroundColor: getColor(schedule) }} />
+                        <Text variant='small'>{schedule.name}</Text>
+                    </label>
+                ))}
+                <div className='ml-auto flex gap-spacing-3'>
+                    <Button
+                        variant={layout === 'side-by-side' ? 'filled' : 'minimal'}
+                        size='small'
+                        color='ut-burntorange'
+                        icon={Columns}
+                        onClick={() => setLayout('side-by-side')}
+                    >
+                        Side by side
+                    </Button>
+                    <Button
+                        variant={layout === 'overlay' ? 'filled' : 'minimal'}
+                        size='small'
+                        color='ut-burntorange'
+                        icon={Stack}
+                        onClick={() => setLayout('overlay')}
+                    >
+                        Overlay
+                    </Button>
+                </div>
+            </div>
+
+            {compared.length < 2 && (
+                <Text variant='p' className='text-ut-gray'>
+                    Pick at least two schedules to compare.
+                </Text>
+            )}
+
+            {compared.length >= 2 && (
+                <>
+                    <ScheduleComparisonTable schedules={compared} getColor={getColor} />
+                    {layout === 'side-by-side' ? (
+                        <div className='flex gap-spacing-5 overflow-x-auto'>
+                            {compared.map(schedule => {
+                                const courseCells = flattenCourseSchedule(schedule.courses, gridBounds);
+
+                                return (
+                                    <div key={schedule.id} className='min-w-xl flex flex-1 flex-col gap-spacing-3'>
+                                        <Text variant='h3' style={{ color: getColor(schedule) }}>
+                                            {schedule.name}
+                                        </Text>
+                                        <div className='min-h-2xl'>
+                                            <CalendarGrid
+                                                courseCells={courseCells}
+                                                blockCells={flattenCustomBlocks(schedule.blocks, gridBounds)}
+                                                gridBounds={gridBounds}
+                                                setCourse={setCourse}
+                                            />
+                                        </div>
+                                        <CalendarBottomBar courseCells={courseCells} setCourse={setCourse} />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <div className='flex flex-col'>
+                            <div className='min-h-2xl min-w-5xl'>
+                                <CalendarGrid
+                                    courseCells={overlayCells}
+                                    blockCells={flattenCustomBlocks(
+                                        compared.flatMap(schedule => schedule.blocks),
+                                        gridBounds
+                                    )}
+                                    gridBounds={gridBounds}
+                                    setCourse={setCourse}
+                                />
+                            </div>
+                            <CalendarBottomBar courseCells={overlayCells} setCourse={setCourse} />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
+
+interface ScheduleComparisonTableProps {
+    schedules: UserSchedule[];
+    getColor: (schedule: UserSchedule) => string;
+}
+
+/**
+ * A table of the stats of each compared schedule, one column per schedule
+ */
+function ScheduleComparisonTable({ schedules, getColor }: ScheduleComparisonTableProps): JSX.Element {
+    const averageGPAs = useAverageGPAs(schedules.flatMap(schedule => schedule.courses));
+
+    const summaries = new Map(schedules.map(schedule => [schedule.id, getScheduleSummary(schedule)]));
+
+    const rows: [label: string, getValue: (summary: ScheduleSummary, schedule: UserSchedule) => string][] = [
+        ['Hours', ({ hours, maxHours }) => formatCreditHours({ min: hours, max: maxHours })],
+        ['Courses', ({ courseCount }) => courseCount.toString()],
+        [
+            'Days on campus',
+            ({ daysOnCampus }) =>
+                daysOnCampus.length > 0
+                    ? `${daysOnCampus.length} (${daysOnCampus.map(day => day.slice(0, 3)).join(', ')})`
+                    : '0',
+        ],
+        ['Earliest class', ({ earliestStart }) => (earliestStart === undefined ? '—' : formatTimeOfDay(earliestStart))],
+        ['Latest class', ({ latestEnd }) => (latestEnd === undefined ? '—' : formatTimeOfDay(latestEnd))],
+        ['Time between classes', ({ gapMinutes }) => formatDuration(gapMinutes)],
+        ['Average GPA', (_, schedule) => getScheduleAverageGPA(schedule.courses, averageGPAs)?.toFixed(2) ?? '—'],
+    ];
+
+    return (
+        <table className='w-fit border-collapse text-ut-black'>
+            <thead>
+                <tr>
+                    <th />
+                    {schedules.map(schedule => (
+                        <th key={schedule.id} className='px-spacing-4 py-1 text-left'>
+                            <Text variant='h4' style={{ color: getColor(schedule) }}>
+                                {schedule.name}
+                            </Text>
+                        </th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(([label, getValue]) => (
+                    <tr key={label} className='border-theme-offwhite1 border-t'>
+                        <th className='py-1 pr-spacing-4 text-left'>
+                            <Text variant='small' className='text-ut-gray'>
+                                {label}
+                            </Text>
+                        </th>
+                        {schedules.map(schedule => (
+                            <td key={schedule.id} className='px-spacing-4 py-1'>
+                                <Text variant='small'>{getValue(summaries.get(schedule.id)!, schedule)}</Text>
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
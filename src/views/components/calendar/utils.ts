@@ -1,18 +1,14 @@
+import { OptionsStore } from '@shared/storage/OptionsStore';
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
+import { Course } from '@shared/types/Course';
+import { CustomBlock } from '@shared/types/CustomBlock';
 import type { UserSchedule } from '@shared/types/UserSchedule';
 import { downloadBlob } from '@shared/util/downloadBlob';
+import { generateICS } from '@shared/util/ics';
 import type { Serialized } from 'chrome-extension-toolkit';
 import { toBlob } from 'html-to-image';
 
-export const CAL_MAP = {
-    Sunday: 'SU',
-    Monday: 'MO',
-    Tuesday: 'TU',
-    Wednesday: 'WE',
-    Thursday: 'TH',
-    Friday: 'FR',
-    Saturday: 'SA',
-} as const satisfies Record<string, string>;
+export { CAL_MAP, formatToHHMMSS } from '@shared/util/ics';
 
 /**
  * Retrieves the schedule from the UserScheduleStore based on the active index.
@@ -26,64 +22,30 @@ const getSchedule = async (): Promise<Serialized<UserSchedule> | undefined> => {
     return schedule;
 };
 
-/**
- * Formats the given number of minutes into a string representation of HHMMSS format.
- *
- * @param minutes - The number of minutes to format.
- * @returns A string representation of the given minutes in HHMMSS format.
- */
-export const formatToHHMMSS = (minutes: number) => {
-    const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
-    const mins = String(minutes % 60).padStart(2, '0');
-    return `${hours}${mins}00`;
-};
-
 /**
  * Saves the current schedule as a calendar file in the iCalendar format (ICS).
  * Fetches the current active schedule and converts it into an ICS string.
  * Downloads the ICS file to the user's device.
+ * Adds a reminder before each class if the user turned reminders on in the settings.
  */
 export const saveAsCal = async () => {
-    const schedule = await getSchedule(); // Assumes this fetches the current active schedule
-
-    let icsString = 'BEGIN:VCALENDAR\nVERSION:2.0\nCALSCALE:GREGORIAN\nX-WR-CALNAME:My Schedule\n';
+    const schedule = await getSchedule();
+    const reminderMinutes = await OptionsStore.get('calendarReminderMinutes');
 
     if (!schedule) {
         throw new Error('No schedule found');
     }
 
-    schedule.courses.forEach(course => {
-        course.schedule.meetings.forEach(meeting => {
-            const { startTime, endTime, days, location } = meeting;
-
-            // Format start and end times to HHMMSS
-            const formattedStartTime = formatToHHMMSS(startTime);
-            const formattedEndTime = formatToHHMMSS(endTime);
-
-            // Map days to ICS compatible format
-            console.log(days);
-            const icsDays = days.map(day => CAL_MAP[day]).join(',');
-            console.log(icsDays);
-
-            // Assuming course has date started and ended, adapt as necessary
-            // const year = new Date().getFullYear(); // Example year, adapt accordingly
-            // Example event date, adapt startDate according to your needs
-            const startDate = `20240101T${formattedStartTime}`;
-            const endDate = `20240101T${formattedEndTime}`;
-
-            icsString += `BEGIN:VEVENT\n`;
-            icsString += `DTSTART:${startDate}\n`;
-            icsString += `DTEND:${endDate}\n`;
-            icsString += `RRULE:FREQ=WEEKLY;BYDAY=${icsDays}\n`;
-            icsString += `SUMMARY:${course.fullName}\n`;
-            icsString += `LOCATION:${location?.building ?? ''} ${location?.room ?? ''}\n`;
-            icsString += `END:VEVENT\n`;
-        });
-    });
-
-    icsString += 'END:VCALENDAR';
+    const icsString = generateICS(
+        schedule.courses.map(course => new Course(course)),
+        {
+            calendarName: schedule.name,
+            alarmMinutesBefore: reminderMinutes > 0 ? reminderMinutes : undefined,
+            blocks: (schedule.blocks ?? []).map(block => new CustomBlock(block)),
+        }
+    );
 
-    downloadBlob(icsString, 'CALENDAR', 'schedule.ics');
+    await downloadBlob(icsString, 'CALENDAR', 'schedule.ics');
 };
 
 /**
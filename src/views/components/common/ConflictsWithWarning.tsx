@@ -1,4 +1,5 @@
 import type { Course } from '@shared/types/Course';
+import type { CustomBlock } from '@shared/types/CustomBlock';
 import Text from '@views/components/common/Text/Text';
 import clsx from 'clsx';
 import React from 'react';
@@ -9,6 +10,8 @@ import React from 'react';
 export interface ConflictsWithWarningProps {
     className?: string;
     conflicts: Course[];
+    /** The blocks (i.e. work or the gym) that the current course meets during */
+    blockConflicts?: CustomBlock[];
 }
 
 /**
@@ -17,9 +20,14 @@ export interface ConflictsWithWarningProps {
  *
  * @param className - The class name for the component
  * @param conflicts - The courses that conflict with the current course
+ * @param blockConflicts - The blocks that conflict with the current course
  * @returns The ConflictsWithWarning component
  */
-export default function ConflictsWithWarning({ className, conflicts }: ConflictsWithWarningProps): JSX.Element {
+export default function ConflictsWithWarning({
+    className,
+    conflicts,
+    blockConflicts = [],
+}: ConflictsWithWarningProps): JSX.Element {
     return (
         <Text
             variant='mini'
@@ -37,6 +45,13 @@ export default function ConflictsWithWarning({ className, conflicts }: Conflicts
                     ({course.uniqueId})
                 </div>
             ))}
+            {blockConflicts.map(block => (
+                <div key={block.id}>
+                    <Text as='strong' variant='mini' className='font-bold!'>
+                        {block.title}
+                    </Text>
+                </div>
+            ))}
         </Text>
     );
 }
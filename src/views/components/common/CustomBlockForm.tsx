@@ -0,0 +1,177 @@
+import { FloppyDisk, Trash } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import type { HexColor } from '@shared/types/Color';
+import { isHexColor } from '@shared/types/Color';
+import type { Day } from '@shared/types/CourseMeeting';
+import { DAY_MAP } from '@shared/types/CourseMeeting';
+import { CustomBlock } from '@shared/types/CustomBlock';
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import { formatTimeInput, parseTimeInput, validateCustomBlock } from '@shared/util/customBlocks';
+import { generateRandomId } from '@shared/util/random';
+import React, { useState } from 'react';
+
+import { Button } from './Button';
+import Text from './Text/Text';
+
+const DEFAULT_COLOR: HexColor = '#579D42';
+
+/**
+ * Props for the CustomBlockForm component.
+ */
+interface CustomBlockFormProps {
+    /** The schedule the block is in */
+    schedule: UserSchedule;
+    /** The block to edit, or undefined to add a new one */
+    block?: CustomBlock;
+    /** Closes the dialog the form is in */
+    close: () => void;
+}
+
+/**
+ * Adds a recurring block (i.e. work, the gym or a commute) to a schedule, or edits or removes an existing one
+ *
+ * @returns The block form.
+ */
+export default function CustomBlockForm({ schedule, block, close }: CustomBlockFormProps): JSX.Element {
+    const [title, setTitle] = useState(block?.title ?? '');
+    const [days, setDays] = useState<Day[]>(block?.days ?? []);
+    const [startTime, setStartTime] = useState(formatTimeInput(block?.startTime ?? 9 * 60));
+    const [endTime, setEndTime] = useState(formatTimeInput(block?.endTime ?? 10 * 60));
+    const [color, setColor] = useState<HexColor>(block?.color ?? DEFAULT_COLOR);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | undefined>();
+
+    const toggleDay = (day: Day) => {
+        setDays(previous => (previous.includes(day) ? previous.filter(d => d !== day) : [...previous, day]));
+    };
+
+    const handleSave = async () => {
+        const start = parseTimeInput(startTime);
+        const end = parseTimeInput(endTime);
+        if (start === undefined || end === undefined) {
+            setError('Pick a start and end time');
+            return;
+        }
+
+        const fields = {
+            title: title.trim(),
+            // keep the days in week order, no matter the order they were picked in
+            days: Object.values(DAY_MAP).filter(day => days.includes(day)),
+            startTime: start,
+            endTime: end,
+        };
+        const invalid = validateCustomBlock(fields);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+
+        setIsBusy(true);
+        const message = await background.saveCustomBlock({
+            scheduleId: schedule.id,
+            block: new CustomBlock({ id: block?.id ?? generateRandomId(), color, ...fields }),
+        });
+        setIsBusy(false);
+
+        if (message) {
+            setError(message);
+        } else {
+            close();
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!block) {
+            return;
+        }
+
+        setIsBusy(true);
+        await background.removeCustomBlock({ scheduleId: schedule.id, blockId: block.id });
+        close();
+    };
+
+    return (
+        <div className='flex flex-col gap-3 text-ut-black'>
+            <label className='flex flex-col gap-1'>
+                <Text variant='small'>Title</Text>
+                <input
+                    className='border rounded border-solid px-3 py-2'
+                    value={title}
+                    placeholder='Work, gym, commute...'
+                    onChange={e => setTitle(e.target.value)}
+                />
+            </label>
+            <div className='flex flex-col gap-1'>
+                <Text variant='small'>Repeats on</Text>
+                <div className='flex flex-wrap gap-3'>
+                    {Object.values(DAY_MAP).map(day => (
+                        <label key={day} className='flex cursor-pointer items-center gap-1'>
+                            <input type='checkbox' checked={days.includes(day)} onChange={() => toggleDay(day)} />
+                            <Text variant='small'>{day.slice(0, 3)}</Text>
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <div className='flex gap-3'>
+                <label className='flex flex-1 flex-col gap-1'>
+                    <Text variant='small'>Starts</Text>
+                    <input
+                        type='time'
+                        className='border rounded border-solid px-3 py-2'
+                        value={startTime}
+                        onChange={e => setStartTime(e.target.value)}
+                    />
+                </label>
+                <label className='flex flex-1 flex-col gap-1'>
+                    <Text variant='small'>Ends</Text>
+                    <input
+                        type='time'
+                        className='border rounded border-solid px-3 py-2'
+                        value={endTime}
+                        onChange={e => setEndTime(e.target.value)}
+                    />
+                </label>
+                <label className='flex flex-col gap-1'>
+                    <Text variant='small'>Color</Text>
+                    <input
+                        type='color'
+                        className='h-10 w-12 border rounded border-solid p-1'
+                        value={color}
+                        onChange={e => isHexColor(e.target.value) && setColor(e.target.value)}
+                    />
+                </label>
+            </div>
+            {error && (
+                <Text variant='small' className='text-theme-red'>
+                    {error}
+                </Text>
+            )}
+            <div className='flex justify-end gap-2.5'>
+                {block && (
+                    <Button
+                        variant='minimal'
+                        color='theme-red'
+                        icon={Trash}
+                        disabled={isBusy}
+                        onClick={handleRemove}
+                        className='mr-auto'
+                    >
+                        Remove
+                    </Button>
+                )}
+                <Button variant='minimal' color='ut-black' onClick={close}>
+                    Cancel
+                </Button>
+                <Button
+                    variant='filled'
+                    color='ut-burntorange'
+                    icon={FloppyDisk}
+                    disabled={isBusy}
+                    onClick={handleSave}
+                >
+                    Save to &quot;{schedule.name}&quot;
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,61 @@
+import { ArrowRight, TrendDown, TrendUp } from '@phosphor-icons/react';
+import type { GradeStats, InstructorCoverage } from '@shared/types/Distribution';
+import { formatGradeStats } from '@shared/util/gradeDistribution';
+import Text from '@views/components/common/Text/Text';
+import clsx from 'clsx';
+import React from 'react';
+
+/**
+ * Props for GradeStatsBadge
+ */
+export interface GradeStatsBadgeProps {
+    className?: string;
+    style?: React.CSSProperties;
+    stats: GradeStats;
+    coverage?: InstructorCoverage;
+}
+
+const TREND_ICONS = {
+    rising: TrendUp,
+    falling: TrendDown,
+    steady: ArrowRight,
+} as const;
+
+/**
+ * A compact badge showing the average GPA of a course and which way it's trending,
+ * with the rest of the grade stats in its tooltip
+ *
+ * @param className - The class name to apply to the badge
+ * @param style - The style to apply to the badge
+ * @param stats - The grade stats of the course
+ * @param coverage - Which of the course's instructors the stats cover
+ * @returns The GradeStatsBadge component, or null if the course has no letter grades
+ */
+export default function GradeStatsBadge({
+    className,
+    style,
+    stats,
+    coverage,
+}: GradeStatsBadgeProps): JSX.Element | null {
+    if (stats.averageGPA === undefined) {
+        return null;
+    }
+
+    const TrendIcon = stats.trend && TREND_ICONS[stats.trend];
+
+    return (
+        <div
+            style={style}
+            className={clsx('flex items-center justify-center gap-0.5 rounded px-1 py-0.5', className)}
+            title={[
+                coverage?.matched.length ? `Grades for ${coverage.matched.join(', ')}` : 'Grades for all sections',
+                ...formatGradeStats(stats),
+            ].join('\n')}
+        >
+            <Text variant='small' className='font-bold!'>
+                {stats.averageGPA.toFixed(2)}
+            </Text>
+            {TrendIcon && <TrendIcon weight='bold' className='h-4 w-4' />}
+        </div>
+    );
+}
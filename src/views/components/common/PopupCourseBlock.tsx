@@ -1,12 +1,18 @@
-import { Check, Copy, DotsSixVertical } from '@phosphor-icons/react';
+import { BellRinging, Check, ClockUser, Copy, DotsSixVertical, Warning } from '@phosphor-icons/react';
 import { background } from '@shared/messages';
+import { CourseRefreshStore } from '@shared/storage/CourseRefreshStore';
 import { initSettings, OptionsStore } from '@shared/storage/OptionsStore';
 import type { Course } from '@shared/types/Course';
 import { Status } from '@shared/types/Course';
+import type { CourseChangeRecord } from '@shared/types/CourseChange';
 import type { CourseColors } from '@shared/types/ThemeColors';
 import { pickFontColor } from '@shared/util/colors';
+import { formatCourseChange } from '@shared/util/courseChanges';
 import { StatusIcon } from '@shared/util/icons';
+import { formatWaitlistInfo } from '@shared/util/waitlist';
+import GradeStatsBadge from '@views/components/common/GradeStatsBadge';
 import Text from '@views/components/common/Text/Text';
+import useGradeStats from '@views/hooks/useGradeStats';
 import clsx from 'clsx';
 import React, { useEffect, useRef, useState } from 'react';
 
@@ -20,6 +26,8 @@ export interface PopupCourseBlockProps {
     className?: string;
     course: Course;
     colors: CourseColors;
+    changes?: CourseChangeRecord;
+    waitlistConflicts?: Course[];
 }
 
 const IS_STORYBOOK = import.meta.env.STORYBOOK;
@@ -30,14 +38,23 @@ const IS_STORYBOOK = import.meta.env.STORYBOOK;
  * @param className - The class name to apply to the component.
  * @param course - The course object to display.
  * @param colors - The colors to use for the course block.
+ * @param changes - What changed about the course during the last background refresh, if anything.
+ * @param waitlistConflicts - The other courses in the schedule that the course conflicts with, if the user is waitlisted for it.
  * @param dragHandleProps - The drag handle props for the course block.
  * @returns The rendered PopupCourseBlock component.
  */
-export default function PopupCourseBlock({ className, course, colors }: PopupCourseBlockProps): JSX.Element {
+export default function PopupCourseBlock({
+    className,
+    course,
+    colors,
+    changes,
+    waitlistConflicts = [],
+}: PopupCourseBlockProps): JSX.Element {
     const [enableCourseStatusChips, setEnableCourseStatusChips] = useState<boolean>(false);
     const [isCopied, setIsCopied] = useState<boolean>(false);
     const lastCopyTime = useRef<number>(0);
     const ref = useRef<HTMLDivElement>(null);
+    const [gradeStats, gradeCoverage] = useGradeStats(course) ?? [];
 
     useEffect(() => {
         initSettings().then(({ enableCourseStatusChips }) => setEnableCourseStatusChips(enableCourseStatusChips));
@@ -84,6 +101,13 @@ export default function PopupCourseBlock({ className, course, colors }: PopupCou
         setTimeout(() => setIsCopied(false), 500);
     };
 
+    const handleDismissChanges = async (e: React.MouseEvent<HTMLButtonElement, MouseEvent>) => {
+        e.stopPropagation();
+        const allChanges = await CourseRefreshStore.get('changes');
+        delete allChanges[course.uniqueId];
+        await CourseRefreshStore.set('changes', allChanges);
+    };
+
     return (
         <div
             style={{
@@ -117,6 +141,49 @@ export default function PopupCourseBlock({ className, course, colors }: PopupCou
                 {course.instructors.length > 0 ? <> &ndash; </> : ''}
                 {course.instructors.map(v => v.toString({ format: 'last' })).join('; ')}
             </Text>
+            {changes && changes.changes.length > 0 && (
+                <button
+                    style={{
+                        backgroundColor: colors.secondaryColor,
+                    }}
+                    className='ml-1 flex items-center justify-center justify-self-end rounded p-[3px] text-white btn'
+                    title={`${changes.changes.map(formatCourseChange).join('\n')}\n(click to dismiss)`}
+                    onClick={handleDismissChanges}
+                >
+                    <BellRinging weight='fill' className='h-6 w-6' />
+                </button>
+            )}
+            {gradeStats && (
+                <GradeStatsBadge
+                    style={{
+                        backgroundColor: colors.secondaryColor,
+                    }}
+                    className='ml-1 justify-self-end p-[3px] text-white'
+                    stats={gradeStats}
+                    coverage={gradeCoverage}
+                />
+            )}
+            {course.waitlist && (
+                <div
+                    style={{
+                        backgroundColor: colors.secondaryColor,
+                    }}
+                    className='ml-1 flex items-center justify-center justify-self-end gap-0.5 rounded p-[3px] text-white'
+                    title={[
+                        formatWaitlistInfo(course.waitlist),
+                        ...waitlistConflicts.map(other => `Conflicts with ${other.department} ${other.number}`),
+                    ].join('\n')}
+                >
+                    {waitlistConflicts.length > 0 ? (
+                        <Warning weight='fill' className='h-6 w-6' />
+                    ) : (
+                        <ClockUser weight='fill' className='h-6 w-6' />
+                    )}
+                    <Text variant='h2' className='no-select text-base!'>
+                        #{course.waitlist.position}
+                    </Text>
+                </div>
+            )}
             {enableCourseStatusChips && course.status !== Status.OPEN && (
                 <div
                     style={{
@@ -0,0 +1,244 @@
+import { MagnifyingGlass, Plus } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import type { Course } from '@shared/types/Course';
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import { ACADEMIC_CALENDAR, formatSemester, getSemesterCode, parseSemesterCode } from '@shared/util/academicCalendar';
+import { isSameClass } from '@shared/util/crossListing';
+import type { QuickAddEntry } from '@shared/util/quickAdd';
+import { getQuickAddSemester, parseQuickAddInput } from '@shared/util/quickAdd';
+import { getSemesterMismatch } from '@shared/util/scheduleSemester';
+import fetchCourseDetails from '@views/lib/fetchCourseDetails';
+import React, { useState } from 'react';
+
+import { Button } from './Button';
+import Spinner from './Spinner';
+import Text from './Text/Text';
+
+/**
+ * A quick add entry, after its course has been looked up
+ */
+type QuickAddResult = QuickAddEntry & {
+    course?: Course;
+};
+
+const formatUniqueId = (uniqueId: number) => uniqueId.toString().padStart(5, '0');
+
+const formatCourse = (course: Course) => `${course.department} ${course.number} (${formatUniqueId(course.uniqueId)})`;
+
+/**
+ * Props for the QuickAddForm component.
+ */
+interface QuickAddFormProps {
+    /** The schedule the courses are added to */
+    schedule: UserSchedule;
+    /** Closes the dialog the form is in */
+    close: () => void;
+}
+
+/**
+ * Looks up sections by unique id or course link, previews them along with any conflicts, and adds the ones the user picks
+ *
+ * @returns The quick add form.
+ */
+export default function QuickAddForm({ schedule, close }: QuickAddFormProps): JSX.Element {
+    const [text, setText] = useState('');
+    const [semesterCode, setSemesterCode] = useState(() => getSemesterCode(getQuickAddSemester(schedule.courses)));
+    const [results, setResults] = useState<QuickAddResult[]>([]);
+    const [selected, setSelected] = useState<number[]>([]);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | undefined>();
+
+    const semesterCodes = [...new Set([semesterCode, ...Object.keys(ACADEMIC_CALENDAR.terms)])].sort().reverse();
+    const selectedCourses = results.flatMap(result =>
+        result.course && selected.includes(result.course.uniqueId) ? [result.course] : []
+    );
+
+    const handleLookUp = async () => {
+        const semester = parseSemesterCode(semesterCode);
+        if (!semester) {
+            return;
+        }
+
+        setIsBusy(true);
+        setError(undefined);
+        const lookedUp: QuickAddResult[] = [];
+        for (const entry of parseQuickAddInput(text, semester)) {
+            if (entry.url) {
+                try {
+                    // one at a time, so we don't flood UT's servers
+                    // eslint-disable-next-line no-await-in-loop
+                    const course = await fetchCourseDetails(entry.url);
+                    lookedUp.push(
+                        course
+                            ? { ...entry, course }
+                            : { ...entry, error: "Couldn't find this section in the course schedule" }
+                    );
+                } catch {
+                    lookedUp.push({ ...entry, error: "Couldn't reach UT's course schedule" });
+                }
+            } else {
+                lookedUp.push(entry);
+            }
+            setResults([...lookedUp]);
+        }
+
+        setSelected(
+            lookedUp.flatMap(result =>
+                result.course &&
+                !schedule.containsCourse(result.course) &&
+                !getSemesterMismatch(schedule, result.course)
+                    ? [result.course.uniqueId]
+                    : []
+            )
+        );
+        setIsBusy(false);
+    };
+
+    const handleAdd = async () => {
+        setIsBusy(true);
+        try {
+            for (const course of selectedCourses) {
+                // sections from another semester are only selected if the user checked them after seeing the warning
+                // eslint-disable-next-line no-await-in-loop
+                const message = await background.addCourse({
+                    scheduleId: schedule.id,
+                    course,
+                    allowOtherSemester: true,
+                });
+                if (message) {
+                    throw new Error(message);
+                }
+            }
+            close();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const getConflicts = (course: Course) =>
+        [...schedule.courses, ...selectedCourses].filter(
+            other => !isSameClass(course, other) && course.getConflicts(other).length > 0
+        );
+
+    return (
+        <div className='flex flex-col gap-3 text-ut-black'>
+            <label className='flex flex-col gap-1'>
+                <Text variant='small'>Unique ids or course links, separated by spaces, commas or new lines</Text>
+                <textarea
+                    className='min-h-20 border rounded border-solid px-3 py-2'
+                    value={text}
+                    placeholder='50805, 50810'
+                    onChange={e => setText(e.target.value)}
+                />
+            </label>
+            <div className='flex items-end gap-3'>
+                <label className='flex flex-1 flex-col gap-1'>
+                    <Text variant='small'>Semester</Text>
+                    <select
+                        className='border rounded border-solid px-3 py-2'
+                        value={semesterCode}
+                        onChange={e => setSemesterCode(e.target.value)}
+                    >
+                        {semesterCodes.map(code => {
+                            const semester = parseSemesterCode(code);
+                            return (
+                                <option key={code} value={code}>
+                                    {semester ? formatSemester(semester) : code}
+                                </option>
+                            );
+                        })}
+                    </select>
+                </label>
+                <Button
+                    variant='outline'
+                    color='ut-burntorange'
+                    icon={MagnifyingGlass}
+                    disabled={isBusy || !text.trim()}
+                    onClick={handleLookUp}
+                >
+                    Look up
+                </Button>
+            </div>
+            {isBusy && <Spinner />}
+            {results.length > 0 && (
+                <ul className='m-0 flex flex-col list-none gap-2 p-0'>
+                    {results.map(result => {
+                        const { course } = result;
+                        if (!course) {
+                            return (
+                                <li key={result.input}>
+                                    <Text variant='small' className='text-theme-red'>
+                                        {result.input}: {result.error}
+                                    </Text>
+                                </li>
+                            );
+                        }
+
+                        const isAdded = schedule.containsCourse(course);
+                        const conflicts = getConflicts(course);
+                        const semesterMismatch = getSemesterMismatch(schedule, course);
+                        return (
+                            <li key={result.input}>
+                                <label className='flex cursor-pointer items-start gap-2'>
+                                    <input
+                                        type='checkbox'
+                                        checked={selected.includes(course.uniqueId)}
+                                        disabled={isAdded}
+                                        onChange={() =>
+                                            setSelected(previous =>
+                                                previous.includes(course.uniqueId)
+                                                    ? previous.filter(id => id !== course.uniqueId)
+                                                    : [...previous, course.uniqueId]
+                                            )
+                                        }
+                                    />
+                                    <div className='flex flex-col'>
+                                        <Text variant='small'>
+                                            {formatCourse(course)} {course.courseName}
+                                        </Text>
+                                        {isAdded && (
+                                            <Text variant='mini' className='text-ut-gray'>
+                                                Already in &quot;{schedule.name}&quot;
+                                            </Text>
+                                        )}
+                                        {!isAdded && semesterMismatch && (
+                                            <Text variant='mini' className='text-theme-red'>
+                                                {semesterMismatch}
+                                            </Text>
+                                        )}
+                                        {!isAdded && conflicts.length > 0 && (
+                                            <Text variant='mini' className='text-theme-red'>
+                                                Conflicts with {conflicts.map(formatCourse).join(', ')}
+                                            </Text>
+                                        )}
+                                    </div>
+                                </label>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {error && (
+                <Text variant='small' className='text-theme-red'>
+                    {error}
+                </Text>
+            )}
+            <div className='flex justify-end gap-2.5'>
+                <Button variant='minimal' color='ut-black' onClick={close}>
+                    Cancel
+                </Button>
+                <Button
+                    variant='filled'
+                    color='ut-burntorange'
+                    icon={Plus}
+                    disabled={isBusy || selectedCourses.length === 0}
+                    onClick={handleAdd}
+                >
+                    Add {selectedCourses.length > 0 ? selectedCourses.length : ''} to &quot;{schedule.name}&quot;
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { MagnifyingGlass, X } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import { formatSemester, parseSemesterCode } from '@shared/util/academicCalendar';
+import { describeSearchParams, getSearchURL } from '@shared/util/savedSearches';
+import { Button } from '@views/components/common/Button';
+import Text from '@views/components/common/Text/Text';
+import useSavedSearches, { deleteSavedSearch } from '@views/hooks/useSavedSearches';
+import clsx from 'clsx';
+import React, { useState } from 'react';
+
+/**
+ * Props for the SavedSearchLauncher component.
+ */
+interface SavedSearchLauncherProps {
+    className?: string;
+    /** Called after the results page is opened, i.e. to close the popup */
+    onLaunch?: () => void;
+}
+
+/**
+ * Lists the user's saved searches, and opens the results of the ones they pick in a new tab.
+ * Picking more than one search merges all of their results into a single page.
+ *
+ * @param className - Additional classes for the container.
+ * @param onLaunch - Called after the results page is opened.
+ * @returns The saved search launcher.
+ */
+export default function SavedSearchLauncher({ className, onLaunch }: SavedSearchLauncherProps): JSX.Element {
+    const savedSearches = useSavedSearches();
+    const [selected, setSelected] = useState<string[]>([]);
+
+    const selectedSearches = savedSearches.filter(search => selected.includes(search.id));
+
+    const toggleSearch = (id: string) => {
+        setSelected(previous => (previous.includes(id) ? previous.filter(i => i !== id) : [...previous, id]));
+    };
+
+    const handleRun = async () => {
+        const [first, ...rest] = selectedSearches;
+        if (!first) {
+            return;
+        }
+
+        await background.openNewTab({ url: getSearchURL(first, rest) });
+        onLaunch?.();
+    };
+
+    return (
+        <div className={clsx('w-full flex flex-col gap-spacing-3', className)}>
+            <div className='flex items-center justify-between'>
+                <Text variant='h3' className='text-nowrap text-theme-black'>
+                    SAVED SEARCHES
+                </Text>
+                <Button
+                    variant='filled'
+                    size='mini'
+                    color='ut-burntorange'
+                    icon={MagnifyingGlass}
+                    disabled={selectedSearches.length === 0}
+                    onClick={handleRun}
+                >
+                    {selectedSearches.length > 1 ? `Run ${selectedSearches.length}` : 'Run'}
+                </Button>
+            </div>
+            {savedSearches.length === 0 && (
+                <Text variant='small' className='text-ut-gray'>
+                    Save a search from UT&apos;s course schedule to run it again from here.
+                </Text>
+            )}
+            {savedSearches.map(search => {
+                const semester = parseSemesterCode(search.semesterCode);
+
+                return (
+                    <label key={search.id} className='flex cursor-pointer items-center gap-2 text-ut-black'>
+                        <input
+                            type='checkbox'
+                            checked={selected.includes(search.id)}
+                            onChange={() => toggleSearch(search.id)}
+                        />
+                        <div className='min-w-0 flex flex-1 flex-col'>
+                            <Text variant='small' className='truncate'>
+                                {search.name}
+                            </Text>
+                            <Text variant='mini' className='truncate text-ut-gray'>
+                                {[semester && formatSemester(semester), describeSearchParams(search.params)]
+                                    .filter(Boolean)
+                                    .join(' · ')}
+                            </Text>
+                        </div>
+                        <button
+                            className='bg-transparent p-0 text-ut-gray btn'
+                            title='Delete saved search'
+                            onClick={event => {
+                                event.preventDefault();
+                                setSelected(previous => previous.filter(id => id !== search.id));
+                                deleteSavedSearch(search.id);
+                            }}
+                        >
+                            <X className='h-4 w-4' />
+                        </button>
+                    </label>
+                );
+            })}
+        </div>
+    );
+}
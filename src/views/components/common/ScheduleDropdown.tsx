@@ -1,5 +1,7 @@
 import { Disclosure, DisclosureButton, DisclosurePanel, Transition } from '@headlessui/react';
 import { CaretDown, CaretUp } from '@phosphor-icons/react';
+import { formatSemester } from '@shared/util/academicCalendar';
+import { formatCreditHours } from '@shared/util/creditHours';
 import Text from '@views/components/common/Text/Text';
 import useSchedules from '@views/hooks/useSchedules';
 import React from 'react';
@@ -30,9 +32,16 @@ export default function ScheduleDropdown({ defaultOpen, children }: ScheduleDrop
                                 </Text>
                                 <div className='flex gap-2.5 text-theme-black leading-[75%]!'>
                                     <div className='flex gap-1.25'>
-                                        <Text variant='h4'>{activeSchedule ? activeSchedule.hours : 0}</Text>
+                                        <Text variant='h4'>
+                                            {formatCreditHours({
+                                                min: activeSchedule.hours,
+                                                max: activeSchedule.maxHours,
+                                            })}
+                                        </Text>
                                         <Text variant='h4' className='font-all-small-caps!'>
-                                            {activeSchedule.hours === 1 ? 'HOUR' : 'HOURS'}
+                                            {activeSchedule.hours === 1 && activeSchedule.maxHours === 1
+                                                ? 'HOUR'
+                                                : 'HOURS'}
                                         </Text>
                                     </div>
                                     <div className='flex gap-1.25'>
@@ -41,6 +50,11 @@ export default function ScheduleDropdown({ defaultOpen, children }: ScheduleDrop
                                             {activeSchedule.courses.length === 1 ? 'COURSE' : 'COURSES'}
                                         </Text>
                                     </div>
+                                    {activeSchedule.semester && (
+                                        <Text variant='h4' className='text-ut-gray font-all-small-caps!'>
+                                            {formatSemester(activeSchedule.semester)}
+                                        </Text>
+                                    )}
                                 </div>
                             </div>
                             <Text className='text-ut-burntorange text-2xl! font-normal!'>
@@ -0,0 +1,84 @@
+import { ArrowClockwise, ArrowCounterClockwise, X } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import Text from '@views/components/common/Text/Text';
+import useScheduleHistory from '@views/hooks/useScheduleHistory';
+import clsx from 'clsx';
+import React, { useEffect, useState } from 'react';
+
+import { Button } from './Button';
+
+/**
+ * How long the toast stays up after a change, in milliseconds
+ */
+const TOAST_DURATION = 8000;
+
+/**
+ * Props for the ScheduleHistoryToast component.
+ */
+interface ScheduleHistoryToastProps {
+    className?: string;
+}
+
+/**
+ * Pops up after the user changes their schedules, so they can undo the change (or redo it, after undoing it).
+ *
+ * @param className - Additional classes for the toast.
+ * @returns The toast, or null when there's nothing to undo.
+ */
+export default function ScheduleHistoryToast({ className }: ScheduleHistoryToastProps): JSX.Element | null {
+    const event = useScheduleHistory();
+    const [isVisible, setIsVisible] = useState(false);
+    const [error, setError] = useState<string | undefined>();
+
+    useEffect(() => {
+        if (!event) {
+            return;
+        }
+
+        setIsVisible(true);
+        setError(undefined);
+        const timeout = setTimeout(() => setIsVisible(false), TOAST_DURATION);
+
+        return () => clearTimeout(timeout);
+    }, [event]);
+
+    if (!event || !isVisible) {
+        return null;
+    }
+
+    const handleClick = async () => {
+        const message =
+            event.action === 'undo' ? await background.undoScheduleChange() : await background.redoScheduleChange();
+        if (message) {
+            setError(message);
+        }
+    };
+
+    return (
+        <div
+            role='status'
+            className={clsx(
+                'fixed bottom-4 left-1/2 z-50 flex items-center gap-3 rounded bg-ut-black px-4 py-2 text-white shadow-md -translate-x-1/2',
+                className
+            )}
+        >
+            <Text variant='small' className='max-w-64 truncate'>
+                {error ?? (event.action === 'undo' ? event.entry.label : `Undid "${event.entry.label}"`)}
+            </Text>
+            {!error && (
+                <Button
+                    variant='minimal'
+                    size='mini'
+                    color='ut-orange'
+                    icon={event.action === 'undo' ? ArrowCounterClockwise : ArrowClockwise}
+                    onClick={handleClick}
+                >
+                    {event.action === 'undo' ? 'Undo' : 'Redo'}
+                </Button>
+            )}
+            <button className='bg-transparent p-0 text-white btn' title='Dismiss' onClick={() => setIsVisible(false)}>
+                <X className='h-4 w-4' />
+            </button>
+        </div>
+    );
+}
@@ -1,7 +1,4 @@
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
-import deleteSchedule from '@pages/background/lib/deleteSchedule';
-import duplicateSchedule from '@pages/background/lib/duplicateSchedule';
-import renameSchedule from '@pages/background/lib/renameSchedule';
 import {
     Circle,
     CopySimple,
@@ -11,6 +8,7 @@ import {
     RadioButton,
     Trash,
 } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
 import type { UserSchedule } from '@shared/types/UserSchedule';
 import Text from '@views/components/common/Text/Text';
 import { useEnforceScheduleLimit } from '@views/hooks/useEnforceScheduleLimit';
@@ -45,7 +43,7 @@ export default function ScheduleListItem({ schedule, onClick }: ScheduleListItem
     const enforceScheduleLimit = useEnforceScheduleLimit();
     const handleDuplicateSchedule = (scheduleId: string) => {
         if (enforceScheduleLimit()) {
-            duplicateSchedule(scheduleId);
+            background.duplicateSchedule({ scheduleId });
         }
     };
 
@@ -64,7 +62,10 @@ export default function ScheduleListItem({ schedule, onClick }: ScheduleListItem
 
     const handleBlur = async () => {
         if (editorValue.trim() !== '' && editorValue.trim() !== schedule.name) {
-            schedule.name = (await renameSchedule(schedule.id, editorValue.trim())) as string;
+            schedule.name = (await background.renameSchedule({
+                scheduleId: schedule.id,
+                newName: editorValue.trim(),
+            })) as string;
         }
         setIsEditing(false);
     };
@@ -90,7 +91,7 @@ export default function ScheduleListItem({ schedule, onClick }: ScheduleListItem
                         color='theme-red'
                         onClick={() => {
                             close();
-                            deleteSchedule(schedule.id);
+                            background.deleteSchedule({ scheduleId: schedule.id });
                         }}
                     >
                         Delete Permanently
@@ -1,3 +1,6 @@
+import type { Semester } from '@shared/types/Course';
+import { formatSemester } from '@shared/util/academicCalendar';
+import { formatCreditHours } from '@shared/util/creditHours';
 import Text from '@views/components/common/Text/Text';
 import React from 'react';
 
@@ -7,7 +10,11 @@ import React from 'react';
 export interface ScheduleTotalHoursAndCoursesProps {
     scheduleName: string;
     totalHours: number;
+    /** The most hours the schedule can add up to, if it has variable-credit courses */
+    maxTotalHours?: number;
     totalCourses: number;
+    /** The semester the schedule is for, if it has any courses */
+    semester?: Semester;
 }
 
 /**
@@ -15,13 +22,17 @@ export interface ScheduleTotalHoursAndCoursesProps {
  *
  * @param scheduleName - The name of the schedule.
  * @param totalHours - The total number of hours.
+ * @param maxTotalHours - The most hours the schedule can add up to, shown as a range when it's more than totalHours.
  * @param totalCourses - The total number of courses.
+ * @param semester - The semester the schedule is for.
  * @returns The rendered ScheduleTotalHoursAndCourses component.
  */
 export default function ScheduleTotalHoursAndCourses({
     scheduleName,
     totalHours,
+    maxTotalHours = totalHours,
     totalCourses,
+    semester,
 }: ScheduleTotalHoursAndCoursesProps): JSX.Element {
     return (
         <div className='w-full flex flex-col items-start'>
@@ -32,9 +43,9 @@ export default function ScheduleTotalHoursAndCourses({
             </div>
             <Text variant='h3' as='div' className='flex flex-row items-center gap-2.5 text-theme-black'>
                 <Text variant='h4' as='span' className='inline text-theme-black'>
-                    {totalHours}&nbsp;
+                    {formatCreditHours({ min: totalHours, max: maxTotalHours })}&nbsp;
                     <Text variant='h3' as='span' className='inline text-theme-black font-all-small-caps!'>
-                        {totalHours === 1 ? 'Hour' : 'Hours'}
+                        {totalHours === 1 && maxTotalHours === 1 ? 'Hour' : 'Hours'}
                     </Text>
                 </Text>
                 <Text variant='h4' as='span' className='inline text-theme-black'>
@@ -43,6 +54,11 @@ export default function ScheduleTotalHoursAndCourses({
                         {totalCourses === 1 ? 'Course' : 'Courses'}
                     </Text>
                 </Text>
+                {semester && (
+                    <Text variant='h3' as='span' className='inline text-ut-gray font-all-small-caps!'>
+                        {formatSemester(semester)}
+                    </Text>
+                )}
             </Text>
         </div>
     );
@@ -0,0 +1,51 @@
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import { groupSchedulesBySemester, mergeReorderedGroup } from '@shared/util/scheduleSemester';
+import ScheduleListItem from '@views/components/common/ScheduleListItem';
+import { SortableList } from '@views/components/common/SortableList';
+import Text from '@views/components/common/Text/Text';
+import { reorderSchedules, switchSchedule } from '@views/hooks/useSchedules';
+import React from 'react';
+
+/**
+ * Props for the SemesterScheduleList component.
+ */
+interface SemesterScheduleListProps {
+    schedules: UserSchedule[];
+    /** Classes for each group's list, i.e. the spacing between schedules */
+    className?: string;
+}
+
+/**
+ * Lists the user's schedules grouped by the semester they're for. Schedules can be dragged to reorder them within their semester.
+ *
+ * @returns The grouped schedule list.
+ */
+export default function SemesterScheduleList({ schedules, className }: SemesterScheduleListProps): JSX.Element {
+    const groups = groupSchedulesBySemester(schedules);
+
+    return (
+        <div className='w-full flex flex-col gap-spacing-3'>
+            {groups.map(group => (
+                <div key={group.label} className='flex flex-col gap-1'>
+                    {/* no need to label the only group */}
+                    {groups.length > 1 && (
+                        <Text variant='mini' className='text-ut-gray uppercase'>
+                            {group.label}
+                        </Text>
+                    )}
+                    <SortableList
+                        className={className}
+                        draggables={group.schedules}
+                        onChange={reordered => {
+                            // don't care about the promise
+                            reorderSchedules(mergeReorderedGroup(schedules, reordered));
+                        }}
+                        renderItem={schedule => (
+                            <ScheduleListItem schedule={schedule} onClick={() => switchSchedule(schedule.id)} />
+                        )}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -40,7 +40,7 @@ export default function InjectedButton(): JSX.Element | null {
         if (loggedInToUT) {
             for (const a of uniqueAnchorTags) {
                 // eslint-disable-next-line no-await-in-loop
-                await addCourseByURL(activeSchedule, a);
+                await addCourseByURL(activeSchedule.id, a).catch(error => console.error('Error adding course:', error));
             }
         } else {
             window.alert('Logged into UT Registrar.');
@@ -0,0 +1,397 @@
+import { ArrowCounterClockwise, Funnel } from '@phosphor-icons/react';
+import type { Course, InstructionMode, ScrapedRow, StatusType } from '@shared/types/Course';
+import { Status } from '@shared/types/Course';
+import type { Day } from '@shared/types/CourseMeeting';
+import type { UserSchedule } from '@shared/types/UserSchedule';
+import type { CourseFilters, CourseSortOrder } from '@shared/util/courseFilters';
+import {
+    DEFAULT_COURSE_FILTERS,
+    getCourseComparator,
+    hasActiveFilters,
+    matchesCourseFilters,
+} from '@shared/util/courseFilters';
+import { getAverageGPA } from '@shared/util/gradeDistribution';
+import { Button } from '@views/components/common/Button';
+import Text from '@views/components/common/Text/Text';
+import { queryAggregateDistribution } from '@views/lib/database/queryDistribution';
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+const STATUSES = Object.values(Status);
+const INSTRUCTION_MODES = ['In Person', 'Hybrid', 'Online'] as const satisfies InstructionMode[];
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const satisfies Day[];
+
+const START_TIME_OPTIONS = [8, 9, 10, 11, 12, 13, 14].map(hour => hour * 60);
+const END_TIME_OPTIONS = [12, 13, 14, 15, 16, 17, 18, 19, 20, 21].map(hour => hour * 60);
+
+const SORT_OPTIONS: Record<CourseSortOrder, string> = {
+    default: 'Catalog order',
+    startTime: 'Earliest start time',
+    gpa: 'Highest average GPA',
+};
+
+/**
+ * Formats minutes since midnight as a time of day, i.e. 9:00 am
+ */
+const formatTime = (minutes: number) => {
+    const hour = Math.floor(minutes / 60);
+    return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${hour >= 12 ? 'pm' : 'am'}`;
+};
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+/**
+ * A course header row in the catalog table, and the sections listed under it
+ */
+type RowGroup = {
+    header?: HTMLTableRowElement;
+    sections: (ScrapedRow & { course: Course })[];
+};
+
+/**
+ * Splits the scraped rows into the groups they are listed in, each starting at a course header row
+ */
+function groupRows(rows: ScrapedRow[]): RowGroup[] {
+    const groups: RowGroup[] = [];
+
+    for (const row of rows) {
+        if (row.course) {
+            if (groups.length === 0) {
+                groups.push({ sections: [] });
+            }
+            groups.at(-1)!.sections.push({ ...row, course: row.course });
+        } else if (!row.failure) {
+            // rows we couldn't scrape aren't headers, so they're left where UT put them
+            groups.push({ header: row.element, sections: [] });
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Props for the CourseCatalogFilters component.
+ */
+interface CourseCatalogFiltersProps {
+    /** Every row scraped from the course catalog table, including the ones added by AutoLoad */
+    rows: ScrapedRow[];
+    /** The schedule to check for conflicts against */
+    activeSchedule: UserSchedule;
+}
+
+/**
+ * Adds a toolbar above the course catalog table that filters and sorts the sections on the page.
+ * Rows that don't match are hidden in place, so nothing has to be fetched again.
+ *
+ * @returns a react portal to the toolbar container or null if the table has not been found.
+ */
+export default function CourseCatalogFilters({ rows, activeSchedule }: CourseCatalogFiltersProps): JSX.Element | null {
+    const [container, setContainer] = useState<HTMLDivElement | null>(null);
+    const [open, setOpen] = useState(false);
+    const [filters, setFilters] = useState<CourseFilters>(DEFAULT_COURSE_FILTERS);
+    const [sortOrder, setSortOrder] = useState<CourseSortOrder>('default');
+    const [gpas, setGpas] = useState<Map<number, number | undefined>>(new Map());
+
+    useEffect(() => {
+        const table = document.querySelector('table');
+        if (!table) {
+            return;
+        }
+
+        const containerElement = document.createElement('div');
+        containerElement.setAttribute('id', 'ut-registration-plus-course-filters');
+        table.before(containerElement);
+        setContainer(containerElement);
+
+        return () => {
+            containerElement.remove();
+        };
+    }, []);
+
+    const courses = useMemo(() => rows.flatMap(row => (row.course ? [row.course] : [])), [rows]);
+    const flagOptions = useMemo(() => [...new Set(courses.flatMap(course => course.flags))].sort(), [courses]);
+    const coreOptions = useMemo(() => [...new Set(courses.flatMap(course => course.core))].sort(), [courses]);
+
+    // grade distributions are only looked up once someone sorts by them, and only for sections we haven't seen yet
+    useEffect(() => {
+        const missing = courses.filter(course => !gpas.has(course.uniqueId));
+        if (sortOrder !== 'gpa' || missing.length === 0) {
+            return;
+        }
+
+        let cancelled = false;
+        Promise.all(
+            missing.map(course =>
+                queryAggregateDistribution(course)
+                    .then(([distribution]) => [course.uniqueId, getAverageGPA(distribution)] as const)
+                    .catch(() => [course.uniqueId, undefined] as const)
+            )
+        ).then(entries => {
+            if (!cancelled) {
+                setGpas(previous => new Map([...previous, ...entries]));
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sortOrder, courses, gpas]);
+
+    const visibleCount = useMemo(
+        () => courses.filter(course => matchesCourseFilters(course, filters, activeSchedule.courses)).length,
+        [courses, filters, activeSchedule]
+    );
+
+    useEffect(() => {
+        const tbody = document.querySelector('table tbody');
+        const compare = getCourseComparator(sortOrder, gpas);
+        const groups = groupRows(rows);
+
+        for (const group of groups) {
+            let hasVisibleSections = false;
+            for (const { element, course } of group.sections) {
+                const isVisible = matchesCourseFilters(course, filters, activeSchedule.courses);
+                element.style.display = isVisible ? '' : 'none';
+                hasVisibleSections ||= isVisible;
+            }
+            if (group.header) {
+                group.header.style.display = hasVisibleSections || group.sections.length === 0 ? '' : 'none';
+            }
+        }
+
+        if (!tbody) {
+            return;
+        }
+
+        // sort the sections within each course, then the courses by their best section
+        if (compare) {
+            for (const group of groups) {
+                group.sections.sort((a, b) => compare(a.course, b.course));
+            }
+            groups.sort((a, b) => {
+                if (!a.sections[0] || !b.sections[0]) {
+                    return Number(!a.sections[0]) - Number(!b.sections[0]);
+                }
+                return compare(a.sections[0].course, b.sections[0].course);
+            });
+        }
+
+        // re-appending moves the existing rows, so the catalog order comes back when sorting is turned off
+        for (const group of groups) {
+            if (group.header) {
+                tbody.appendChild(group.header);
+            }
+            for (const { element } of group.sections) {
+                tbody.appendChild(element);
+            }
+        }
+    }, [rows, filters, sortOrder, gpas, activeSchedule]);
+
+    if (!container) {
+        return null;
+    }
+
+    const updateFilter = <K extends keyof CourseFilters>(key: K, value: CourseFilters[K]) => {
+        setFilters(previous => ({ ...previous, [key]: value }));
+    };
+
+    const handleTimeSelect =
+        (key: 'earliestStartTime' | 'latestEndTime') => (e: React.ChangeEvent<HTMLSelectElement>) => {
+            updateFilter(key, e.target.value === '' ? undefined : Number(e.target.value));
+        };
+
+    const handleReset = () => {
+        setFilters(DEFAULT_COURSE_FILTERS);
+        setSortOrder('default');
+    };
+
+    const isFiltered = hasActiveFilters(filters) || sortOrder !== 'default';
+
+    return createPortal(
+        <div className='my-2 flex flex-col gap-2 text-ut-black'>
+            <div className='flex items-center gap-3'>
+                <Button
+                    variant={open ? 'filled' : 'outline'}
+                    color='ut-burntorange'
+                    icon={Funnel}
+                    onClick={() => setOpen(!open)}
+                >
+                    Filter & Sort
+                </Button>
+                <Text variant='small' className='text-ut-gray'>
+                    Showing {visibleCount} of {courses.length} sections
+                    {sortOrder === 'gpa' && gpas.size < courses.length && ' (loading grades...)'}
+                </Text>
+                {isFiltered && (
+                    <Button variant='minimal' color='ut-black' icon={ArrowCounterClockwise} onClick={handleReset}>
+                        Reset
+                    </Button>
+                )}
+            </div>
+            {open && (
+                <div className='flex flex-col gap-3 border rounded p-3'>
+                    <div className='flex flex-wrap gap-4'>
+                        <div className='flex flex-col gap-1'>
+                            <Text variant='small'>Status</Text>
+                            <div className='flex gap-2'>
+                                {STATUSES.map(status => (
+                                    <Button
+                                        key={status}
+                                        size='small'
+                                        color='ut-burntorange'
+                                        variant={filters.statuses.includes(status) ? 'filled' : 'outline'}
+                                        onClick={() =>
+                                            updateFilter('statuses', toggle<StatusType>(filters.statuses, status))
+                                        }
+                                    >
+                                        {status.toLowerCase()}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className='flex flex-col gap-1'>
+                            <Text variant='small'>Instruction mode</Text>
+                            <div className='flex gap-2'>
+                                {INSTRUCTION_MODES.map(mode => (
+                                    <Button
+                                        key={mode}
+                                        size='small'
+                                        color='ut-burntorange'
+                                        variant={filters.instructionModes.includes(mode) ? 'filled' : 'outline'}
+                                        onClick={() =>
+                                            updateFilter(
+                                                'instructionModes',
+                                                toggle<InstructionMode>(filters.instructionModes, mode)
+                                            )
+                                        }
+                                    >
+                                        {mode}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <div className='flex flex-wrap gap-4'>
+                        <div className='flex flex-col gap-1'>
+                            <Text variant='small'>Only meets on</Text>
+                            <div className='flex gap-2'>
+                                {DAYS.map(day => (
+                                    <Button
+                                        key={day}
+                                        size='small'
+                                        color='ut-burntorange'
+                                        variant={filters.days.includes(day) ? 'filled' : 'outline'}
+                                        onClick={() => updateFilter('days', toggle<Day>(filters.days, day))}
+                                    >
+                                        {day.slice(0, 3)}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>Starts at or after</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={filters.earliestStartTime ?? ''}
+                                onChange={handleTimeSelect('earliestStartTime')}
+                            >
+                                <option value=''>Any time</option>
+                                {START_TIME_OPTIONS.map(time => (
+                                    <option key={time} value={time}>
+                                        {formatTime(time)}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>Ends by</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={filters.latestEndTime ?? ''}
+                                onChange={handleTimeSelect('latestEndTime')}
+                            >
+                                <option value=''>Any time</option>
+                                {END_TIME_OPTIONS.map(time => (
+                                    <option key={time} value={time}>
+                                        {formatTime(time)}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    <div className='flex flex-wrap gap-4'>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>Instructor</Text>
+                            <input
+                                type='text'
+                                value={filters.instructor}
+                                onChange={e => updateFilter('instructor', e.target.value)}
+                                className='border border-gray-300 rounded px-3 py-2 text-sm'
+                                placeholder='Any instructor'
+                            />
+                        </label>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>Sort by</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={sortOrder}
+                                onChange={e => setSortOrder(e.target.value as CourseSortOrder)}
+                            >
+                                {Object.entries(SORT_OPTIONS).map(([order, label]) => (
+                                    <option key={order} value={order}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className='flex items-center self-end gap-2 pb-2'>
+                            <input
+                                type='checkbox'
+                                checked={filters.hideConflicts}
+                                onChange={e => updateFilter('hideConflicts', e.target.checked)}
+                            />
+                            <Text variant='small'>Hide conflicts with &quot;{activeSchedule.name}&quot;</Text>
+                        </label>
+                    </div>
+                    {flagOptions.length > 0 && (
+                        <div className='flex flex-col gap-1'>
+                            <Text variant='small'>Flags</Text>
+                            <div className='flex flex-wrap gap-2'>
+                                {flagOptions.map(flag => (
+                                    <Button
+                                        key={flag}
+                                        size='small'
+                                        color='ut-burntorange'
+                                        variant={filters.flags.includes(flag) ? 'filled' : 'outline'}
+                                        onClick={() => updateFilter('flags', toggle(filters.flags, flag))}
+                                    >
+                                        {flag}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {coreOptions.length > 0 && (
+                        <div className='flex flex-col gap-1'>
+                            <Text variant='small'>Core curriculum</Text>
+                            <div className='flex flex-wrap gap-2'>
+                                {coreOptions.map(core => (
+                                    <Button
+                                        key={core}
+                                        size='small'
+                                        color='ut-burntorange'
+                                        variant={filters.core.includes(core) ? 'filled' : 'outline'}
+                                        onClick={() => updateFilter('core', toggle(filters.core, core))}
+                                    >
+                                        {core}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>,
+        container
+    );
+}
@@ -7,6 +7,7 @@ import React from 'react';
 import Description from './Description';
 import GradeDistribution from './GradeDistribution';
 import HeadingAndActions from './HeadingAndActions';
+import InstructorComparison from './InstructorComparison';
 
 /**
  * Props for the CourseCatalogInjectedPopup component.
@@ -34,6 +35,7 @@ function CourseCatalogInjectedPopup({ course, ...rest }: CourseCatalogInjectedPo
             <div className='overflow-y-auto px-2'>
                 <Description course={course} />
                 <GradeDistribution course={course} />
+                <InstructorComparison course={course} />
             </div>
         </Dialog>
     );
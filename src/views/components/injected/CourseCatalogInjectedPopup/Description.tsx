@@ -1,4 +1,5 @@
 import type { Course } from '@shared/types/Course';
+import { parseCrossListings, parseTopic } from '@shared/util/crossListing';
 import Text from '@views/components/common/Text/Text';
 import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
 import { SiteSupport } from '@views/lib/getSiteSupport';
@@ -25,6 +26,8 @@ const fetchDescription = async (course: Course): Promise<string[]> => {
 
         const scraper = new CourseCatalogScraper(SiteSupport.COURSE_CATALOG_DETAILS);
         course.description = scraper.getDescription(doc);
+        course.crossListings = parseCrossListings(course.description);
+        course.topic = parseTopic(course.description);
     }
     return course.description;
 };
@@ -50,7 +53,7 @@ export default function Description({ course }: DescriptionProps): JSX.Element {
             });
     }, [course]);
 
-    const keywords = ['prerequisite', 'restricted'];
+    const keywords = ['prerequisite', 'restricted', 'same as'];
     return (
         <>
             {status === LoadStatus.ERROR && (
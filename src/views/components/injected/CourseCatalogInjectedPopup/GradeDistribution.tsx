@@ -1,13 +1,10 @@
 import type { Course } from '@shared/types/Course';
-import type { Distribution, LetterGrade } from '@shared/types/Distribution';
+import type { Distribution, InstructorCoverage, LetterGrade } from '@shared/types/Distribution';
 import { extendedColors } from '@shared/types/ThemeColors';
+import { sumDistributions } from '@shared/util/gradeDistribution';
 import Link from '@views/components/common/Link';
 import Text from '@views/components/common/Text/Text';
-import {
-    NoDataError,
-    queryAggregateDistribution,
-    querySemesterDistribution,
-} from '@views/lib/database/queryDistribution';
+import { NoDataError, queryCourseGrades } from '@views/lib/database/queryDistribution';
 import Highcharts from 'highcharts';
 import HighchartsReact from 'highcharts-react-official';
 import type { ChangeEvent } from 'react';
@@ -45,6 +42,12 @@ const GRADE_COLORS = {
     Other: extendedColors.gradeDistribution.other,
 } as const satisfies Record<LetterGrade, string>;
 
+/**
+ * Joins names into a readable list, i.e. "Smith, Jones and Lee"
+ */
+const formatList = (names: string[]) =>
+    names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names.at(-1)}` : (names[0] ?? '');
+
 /**
  * Renders the grade distribution chart for a specific course.
  *
@@ -53,7 +56,7 @@ const GRADE_COLORS = {
  */
 export default function GradeDistribution({ course }: GradeDistributionProps): JSX.Element {
     const [semester, setSemester] = useState('Aggregate');
-    type Distributions = Record<string, { data: Distribution; instructorIncluded: boolean }>;
+    type Distributions = Record<string, { data: Distribution; coverage: InstructorCoverage }>;
     const [distributions, setDistributions] = useState<Distributions>({});
     const [status, setStatus] = useState<DataStatusType>(DataStatus.LOADING);
     const ref = useRef<HighchartsReact.RefObject>(null);
@@ -71,27 +74,18 @@ export default function GradeDistribution({ course }: GradeDistributionProps): J
     useEffect(() => {
         const fetchInitialData = async () => {
             try {
-                const [aggregateDist, semesters, instructorIncludedAggregate] =
-                    await queryAggregateDistribution(course);
+                const { semesters, coverage } = await queryCourseGrades(course);
                 const initialDistributions: Distributions = {
-                    Aggregate: { data: aggregateDist, instructorIncluded: instructorIncludedAggregate },
+                    Aggregate: {
+                        data: sumDistributions(semesters.map(({ distribution }) => distribution)),
+                        coverage,
+                    },
                 };
-                const semesterPromises = semesters.map(semester => querySemesterDistribution(course, semester));
-                const semesterDistributions = await Promise.allSettled(semesterPromises);
-                semesters.forEach((semester, i) => {
-                    const distributionResult = semesterDistributions[i];
-
-                    if (!distributionResult) {
-                        throw new Error('Distribution result is undefined');
-                    }
-
-                    if (distributionResult.status === 'fulfilled') {
-                        const [distribution, instructorIncluded] = distributionResult.value;
-                        initialDistributions[`${semester.season} ${semester.year}`] = {
-                            data: distribution,
-                            instructorIncluded,
-                        };
-                    }
+                semesters.forEach(({ semester, distribution, coverage: semesterCoverage }) => {
+                    initialDistributions[`${semester.season} ${semester.year}`] = {
+                        data: distribution,
+                        coverage: semesterCoverage,
+                    };
                 });
                 setDistributions(initialDistributions);
                 setStatus(DataStatus.FOUND);
@@ -108,6 +102,8 @@ export default function GradeDistribution({ course }: GradeDistributionProps): J
         fetchInitialData();
     }, [course]);
 
+    const coverage = distributions[semester]?.coverage;
+
     const handleSelectSemester = (event: ChangeEvent<HTMLSelectElement>) => {
         setSemester(event.target.value);
     };
@@ -263,11 +259,26 @@ export default function GradeDistribution({ course }: GradeDistributionProps): J
                             About the data
                         </Link>
                     </div>
-                    {distributions[semester] && !distributions[semester]!.instructorIncluded && (
+                    {coverage && coverage.matched.length > 0 && (
+                        <div className='mt-3 flex flex-wrap content-center items-center self-stretch justify-center gap-3 text-center'>
+                            <Text variant='small' className='text-ut-black'>
+                                Showing grades for {formatList(coverage.matched)}
+                                {coverage.unmatched.length > 0 && (
+                                    <Text variant='small' className='text-theme-red'>
+                                        {' '}
+                                        (we couldn&apos;t find {semester !== 'Aggregate' && ` ${semester}`} grades for{' '}
+                                        {formatList(coverage.unmatched)})
+                                    </Text>
+                                )}
+                            </Text>
+                        </div>
+                    )}
+                    {coverage && coverage.matched.length === 0 && (
                         <div className='mt-3 flex flex-wrap content-center items-center self-stretch justify-center gap-3 text-center'>
                             <Text variant='small' className='text-theme-red'>
-                                We couldn&apos;t find {semester !== 'Aggregate' && ` ${semester}`} grades for this
-                                instructor, so here are the grades for all {course.department} {course.number} sections.
+                                We couldn&apos;t find {semester !== 'Aggregate' && ` ${semester}`} grades for{' '}
+                                {coverage.unmatched.length > 0 ? formatList(coverage.unmatched) : 'this instructor'}, so
+                                here are the grades for all {course.department} {course.number} sections.
                             </Text>
                         </div>
                     )}
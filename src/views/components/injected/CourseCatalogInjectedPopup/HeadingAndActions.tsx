@@ -1,5 +1,7 @@
 import {
     ArrowUpRight,
+    Bell,
+    BellRinging,
     CalendarDots,
     ChatText,
     Check,
@@ -14,12 +16,15 @@ import { background } from '@shared/messages';
 import type { Course } from '@shared/types/Course';
 import type Instructor from '@shared/types/Instructor';
 import type { UserSchedule } from '@shared/types/UserSchedule';
+import { getSemesterMismatch } from '@shared/util/scheduleSemester';
 import { Button } from '@views/components/common/Button';
 import { Chip, coreMap, flagMap } from '@views/components/common/Chip';
 import Divider from '@views/components/common/Divider';
 import Link from '@views/components/common/Link';
 import Text from '@views/components/common/Text/Text';
 import { useCalendar } from '@views/contexts/CalendarContext';
+import useSchedules from '@views/hooks/useSchedules';
+import useWatchlist from '@views/hooks/useWatchlist';
 import clsx from 'clsx';
 import React, { useRef, useState } from 'react';
 
@@ -55,8 +60,14 @@ interface HeadingAndActionProps {
 export default function HeadingAndActions({ course, activeSchedule, onClose }: HeadingAndActionProps): JSX.Element {
     const { courseName, department, number: courseNumber, uniqueId, instructors, flags, core } = course;
     const courseAdded = activeSchedule.courses.some(ourCourse => ourCourse.uniqueId === uniqueId);
+    const semesterMismatch = courseAdded ? undefined : getSemesterMismatch(activeSchedule, course);
+    const addButtonLabel = semesterMismatch ? 'Add Anyway' : 'Add Course';
     const formattedUniqueId = uniqueId.toString().padStart(5, '0');
     const isInCalendar = useCalendar();
+    const [isWatching, toggleWatching] = useWatchlist(uniqueId);
+    const [, schedules] = useSchedules();
+    // only saved courses are refreshed in the background, so only they can be watched
+    const isSaved = schedules.some(schedule => schedule.courses.some(ourCourse => ourCourse.uniqueId === uniqueId));
 
     const [isCopied, setIsCopied] = useState<boolean>(false);
     const lastCopyTime = useRef<number>(0);
@@ -115,7 +126,8 @@ export default function HeadingAndActions({ course, activeSchedule, onClose }: H
     const handleAddOrRemoveCourse = async () => {
         if (!activeSchedule) return;
         if (!courseAdded) {
-            addCourse({ course, scheduleId: activeSchedule.id });
+            // the user has seen the semester warning by the time they click "Add Anyway"
+            addCourse({ course, scheduleId: activeSchedule.id, allowOtherSemester: true });
         } else {
             removeCourse({ course, scheduleId: activeSchedule.id });
         }
@@ -230,15 +242,32 @@ export default function HeadingAndActions({ course, activeSchedule, onClose }: H
                 <Button variant='outline' color='ut-orange' icon={FileText} onClick={handleOpenPastSyllabi}>
                     Past Syllabi
                 </Button>
+                {(isSaved || isWatching) && (
+                    <Button
+                        variant='outline'
+                        color='ut-burntorange'
+                        icon={isWatching ? BellRinging : Bell}
+                        iconProps={{ weight: isWatching ? 'fill' : 'regular' }}
+                        onClick={toggleWatching}
+                        title='Get a notification when this section opens up or gets cancelled'
+                    >
+                        {isWatching ? 'Watching' : 'Notify Me'}
+                    </Button>
+                )}
                 <Button
                     variant='filled'
                     color={!courseAdded ? 'ut-green' : 'theme-red'}
                     icon={!courseAdded ? Plus : Minus}
                     onClick={handleAddOrRemoveCourse}
                 >
-                    {!courseAdded ? 'Add Course' : 'Remove Course'}
+                    {courseAdded ? 'Remove Course' : addButtonLabel}
                 </Button>
             </div>
+            {semesterMismatch && (
+                <Text variant='small' as='p' className='mb-3 text-theme-red'>
+                    {semesterMismatch}
+                </Text>
+            )}
             <Divider orientation='horizontal' size='100%' />
         </div>
     );
@@ -0,0 +1,246 @@
+import type { Course } from '@shared/types/Course';
+import type { InstructorDistribution } from '@shared/types/Distribution';
+import { colors, extendedColors } from '@shared/types/ThemeColors';
+import { getAverageGPA, getGradeFractions } from '@shared/util/gradeDistribution';
+import { formatDatabaseInstructor, isSameInstructor } from '@shared/util/instructorMatching';
+import { Button } from '@views/components/common/Button';
+import Text from '@views/components/common/Text/Text';
+import { NoDataError, queryInstructorDistributions } from '@views/lib/database/queryDistribution';
+import clsx from 'clsx';
+import Highcharts from 'highcharts';
+import HighchartsReact from 'highcharts-react-official';
+import React, { useEffect, useState } from 'react';
+import Skeleton from 'react-loading-skeleton';
+
+/**
+ * How many instructors are compared when the popup opens
+ */
+const DEFAULT_SELECTED_COUNT = 3;
+
+const SERIES_COLORS = [
+    colors.ut.burntorange,
+    colors.ut.blue,
+    colors.ut.teal,
+    colors.ut.green,
+    colors.ut.orange,
+    colors.ut.black,
+];
+
+const GRADES = ['A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F', 'Other'] as const;
+
+type ChartMode = 'side-by-side' | 'overlaid';
+
+const getInstructorKey = (instructor: InstructorDistribution) =>
+    `${instructor.lastName}, ${instructor.firstName ?? ''}`.toLowerCase();
+
+const formatInstructorName = ({ firstName, lastName }: InstructorDistribution) =>
+    formatDatabaseInstructor({ firstName: firstName ?? null, lastName });
+
+interface InstructorComparisonProps {
+    course: Course;
+}
+
+/**
+ * Compares the grade distributions of every instructor that has taught a course.
+ * Grades are shown as a percentage of each instructor's students, so instructors with more sections don't dwarf the rest.
+ *
+ * @param course - The course to compare the instructors of.
+ * @returns The instructor comparison panel.
+ */
+export default function InstructorComparison({ course }: InstructorComparisonProps): JSX.Element | null {
+    const [instructors, setInstructors] = useState<InstructorDistribution[] | undefined>();
+    const [selected, setSelected] = useState<string[]>([]);
+    const [mode, setMode] = useState<ChartMode>('side-by-side');
+    const [error, setError] = useState(false);
+
+    useEffect(() => {
+        setInstructors(undefined);
+        setError(false);
+
+        queryInstructorDistributions(course)
+            .then(results => {
+                // start with the instructors of this section, then whoever has taught the course the most
+                const ownInstructors = results.filter(result =>
+                    course.instructors.some(instructor =>
+                        isSameInstructor(instructor, { firstName: result.firstName ?? null, lastName: result.lastName })
+                    )
+                );
+                const initial = [...new Set([...ownInstructors, ...results])].slice(
+                    0,
+                    Math.max(DEFAULT_SELECTED_COUNT, ownInstructors.length)
+                );
+
+                setInstructors(results);
+                setSelected(initial.map(getInstructorKey));
+            })
+            .catch(e => {
+                if (!(e instanceof NoDataError)) {
+                    console.error(e);
+                    setError(true);
+                }
+                setInstructors([]);
+            });
+    }, [course]);
+
+    if (error) {
+        return <Text variant='p'>Error fetching instructor grade data</Text>;
+    }
+
+    if (!instructors) {
+        return <Skeleton height={300} />;
+    }
+
+    // comparing only makes sense with more than one instructor
+    if (instructors.length < 2) {
+        return null;
+    }
+
+    const toggleInstructor = (key: string) => {
+        setSelected(previous => (previous.includes(key) ? previous.filter(k => k !== key) : [...previous, key]));
+    };
+
+    const selectedInstructors = instructors.filter(instructor => selected.includes(getInstructorKey(instructor)));
+    const getColor = (instructor: InstructorDistribution) =>
+        SERIES_COLORS[selectedInstructors.indexOf(instructor) % SERIES_COLORS.length]!;
+
+    const chartOptions: Highcharts.Options = {
+        title: { text: undefined },
+        legend: { enabled: true, itemStyle: { fontSize: '0.75rem', fontWeight: '500' } },
+        xAxis: {
+            categories: [...GRADES],
+            tickInterval: 1,
+            tickColor: '#9CADB7',
+            crosshair: { color: extendedColors.theme.offwhite2 },
+            lineColor: '#9CADB7',
+        },
+        yAxis: {
+            min: 0,
+            title: { text: 'Share of students', style: { color: '#333F48', fontSize: '0.80rem', fontWeight: '400' } },
+            labels: { format: '{value}%' },
+        },
+        chart: {
+            type: mode === 'side-by-side' ? 'column' : 'areaspline',
+            style: { fontFamily: 'Roboto Flex, Roboto Flex Local', fontWeight: '600' },
+            height: 250,
+        },
+        credits: { enabled: false },
+        accessibility: { enabled: true },
+        tooltip: {
+            shared: true,
+            valueDecimals: 1,
+            valueSuffix: '%',
+        },
+        plotOptions: {
+            column: { pointPadding: 0.05, groupPadding: 0.1, borderWidth: 0 },
+            areaspline: { fillOpacity: 0.15, marker: { radius: 3 } },
+            series: { animation: { duration: 700 } },
+        },
+        series: selectedInstructors.map(instructor => {
+            const fractions = getGradeFractions(instructor.distribution);
+            return {
+                type: mode === 'side-by-side' ? 'column' : 'areaspline',
+                name: formatInstructorName(instructor),
+                color: getColor(instructor),
+                data: GRADES.map(grade => fractions[grade] * 100),
+            };
+        }),
+    };
+
+    return (
+        <div className='flex flex-col gap-2 pb-3 pt-3'>
+            <div className='flex items-center justify-between'>
+                <Text variant='small' className='text-ut-black'>
+                    Instructors of{' '}
+                    <Text variant='small' className='font-extrabold!' as='strong'>
+                        {course.department} {course.number}
+                    </Text>
+                </Text>
+                <div className='flex gap-2'>
+                    {(['side-by-side', 'overlaid'] as const).map(chartMode => (
+                        <Button
+                            key={chartMode}
+                            size='mini'
+                            color='ut-burntorange'
+                            variant={mode === chartMode ? 'filled' : 'outline'}
+                            onClick={() => setMode(chartMode)}
+                        >
+                            {chartMode === 'side-by-side' ? 'Side by side' : 'Overlaid'}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+            {selectedInstructors.length > 0 ? (
+                <HighchartsReact highcharts={Highcharts} options={chartOptions} />
+            ) : (
+                <Text variant='small' className='text-center text-ut-gray'>
+                    Pick instructors below to compare them
+                </Text>
+            )}
+            <table className='w-full border-collapse text-left text-ut-black'>
+                <thead>
+                    <tr>
+                        <th />
+                        <th>
+                            <Text variant='mini'>Instructor</Text>
+                        </th>
+                        <th>
+                            <Text variant='mini'>Sections</Text>
+                        </th>
+                        <th>
+                            <Text variant='mini'>Semesters</Text>
+                        </th>
+                        <th>
+                            <Text variant='mini'>Students</Text>
+                        </th>
+                        <th>
+                            <Text variant='mini'>Avg. GPA</Text>
+                        </th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {instructors.map(instructor => {
+                        const key = getInstructorKey(instructor);
+                        const isSelected = selected.includes(key);
+                        const students = Object.values(instructor.distribution).reduce((acc, n) => acc + n, 0);
+
+                        return (
+                            <tr
+                                key={key}
+                                className={clsx('cursor-pointer hover:bg-ut-offwhite/25', {
+                                    'font-bold': isSelected,
+                                })}
+                                onClick={() => toggleInstructor(key)}
+                            >
+                                <td>
+                                    <span
+                                        className='inline-block h-3 w-3 border rounded-full'
+                                        style={{
+                                            backgroundColor: isSelected ? getColor(instructor) : 'transparent',
+                                        }}
+                                    />
+                                </td>
+                                <td>
+                                    <Text variant='small'>{formatInstructorName(instructor)}</Text>
+                                </td>
+                                <td>
+                                    <Text variant='small'>{instructor.sectionCount}</Text>
+                                </td>
+                                <td>
+                                    <Text variant='small'>{instructor.semesterCount}</Text>
+                                </td>
+                                <td>
+                                    <Text variant='small'>{students.toLocaleString()}</Text>
+                                </td>
+                                <td>
+                                    <Text variant='small'>
+                                        {getAverageGPA(instructor.distribution)?.toFixed(2) ?? 'N/A'}
+                                    </Text>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
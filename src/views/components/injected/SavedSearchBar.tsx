@@ -0,0 +1,126 @@
+import { BookmarkSimple } from '@phosphor-icons/react';
+import { SavedSearchStore } from '@shared/storage/SavedSearchStore';
+import type { ScrapedRow } from '@shared/types/Course';
+import { describeSearchParams, getMergedSearchIds, parseSearchURL } from '@shared/util/savedSearches';
+import { Button } from '@views/components/common/Button';
+import Text from '@views/components/common/Text/Text';
+import { saveSearch } from '@views/hooks/useSavedSearches';
+import { loadSavedSearchRows } from '@views/lib/loadSavedSearchRows';
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+/**
+ * Props for the SavedSearchBar component.
+ */
+interface SavedSearchBarProps {
+    /** Adds rows to the course catalog table, skipping sections that are already on the page */
+    addRows: (rows: ScrapedRow[]) => void;
+}
+
+/**
+ * Adds a bar above the course catalog results that saves the current search, and merges in the results of
+ * other saved searches when the page was opened from the saved search launcher.
+ *
+ * @returns a react portal to the bar container or null if this isn't a search results page.
+ */
+export default function SavedSearchBar({ addRows }: SavedSearchBarProps): JSX.Element | null {
+    const [container, setContainer] = useState<HTMLDivElement | null>(null);
+    const [search] = useState(() => parseSearchURL(window.location.href));
+    const [name, setName] = useState(() => (search ? describeSearchParams(search.params) : ''));
+    const [isSaved, setIsSaved] = useState(false);
+    const [mergeStatus, setMergeStatus] = useState<string | undefined>();
+    const [mergeErrors, setMergeErrors] = useState<string[]>([]);
+
+    useEffect(() => {
+        const table = document.querySelector('table');
+        if (!table || !search) {
+            return;
+        }
+
+        const containerElement = document.createElement('div');
+        containerElement.setAttribute('id', 'ut-registration-plus-saved-search');
+        table.before(containerElement);
+        setContainer(containerElement);
+
+        return () => {
+            containerElement.remove();
+        };
+    }, [search]);
+
+    // the launcher opens the first picked search, and lists the rest in the URL to be merged in here
+    useEffect(() => {
+        const mergedIds = getMergedSearchIds(window.location.href);
+        if (mergedIds.length === 0) {
+            return;
+        }
+
+        const mergeSearches = async () => {
+            const savedSearches = await SavedSearchStore.get('savedSearches');
+            const searches = mergedIds.flatMap(id => savedSearches.filter(s => s.id === id));
+
+            for (const [i, savedSearch] of searches.entries()) {
+                setMergeStatus(`Loading "${savedSearch.name}" (${i + 1} of ${searches.length})...`);
+                try {
+                    // one search at a time, so we don't flood UT's servers
+                    // eslint-disable-next-line no-await-in-loop
+                    addRows(await loadSavedSearchRows(savedSearch));
+                } catch (e) {
+                    setMergeErrors(previous => [
+                        ...previous,
+                        e instanceof Error ? e.message : `Failed to load "${savedSearch.name}"`,
+                    ]);
+                }
+            }
+
+            setMergeStatus(`Merged the results of ${searches.length} more saved searches`);
+        };
+
+        mergeSearches();
+        // rows should only be merged in once, when the page loads
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    if (!container || !search) {
+        return null;
+    }
+
+    const handleSave = async () => {
+        await saveSearch({ ...search, name: name.trim() || describeSearchParams(search.params) });
+        setIsSaved(true);
+    };
+
+    return createPortal(
+        <div className='my-3 flex flex-col gap-1 text-ut-black'>
+            <div className='flex items-center gap-2'>
+                <input
+                    className='border rounded border-solid px-2 py-1'
+                    value={name}
+                    placeholder='Name this search'
+                    disabled={isSaved}
+                    onChange={e => setName(e.target.value)}
+                />
+                <Button
+                    variant={isSaved ? 'minimal' : 'filled'}
+                    size='small'
+                    color='ut-burntorange'
+                    icon={BookmarkSimple}
+                    disabled={isSaved}
+                    onClick={handleSave}
+                >
+                    {isSaved ? 'Saved' : 'Save search'}
+                </Button>
+            </div>
+            {mergeStatus && (
+                <Text variant='small' as='p' className='text-ut-gray'>
+                    {mergeStatus}
+                </Text>
+            )}
+            {mergeErrors.map(error => (
+                <Text key={error} variant='small' as='p' className='text-theme-red'>
+                    {error}
+                </Text>
+            ))}
+        </div>,
+        container
+    );
+}
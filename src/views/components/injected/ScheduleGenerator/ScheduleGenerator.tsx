@@ -0,0 +1,332 @@
+import { Check, FloppyDisk, MagicWand, X } from '@phosphor-icons/react';
+import { background } from '@shared/messages';
+import type { Course } from '@shared/types/Course';
+import type { Day } from '@shared/types/CourseMeeting';
+import { SCHEDULE_LIMIT } from '@shared/types/UserSchedule';
+import type { GeneratedSchedule, ScheduleConstraints } from '@shared/util/scheduleGenerator';
+import { generateSchedules, parseDesiredCourses } from '@shared/util/scheduleGenerator';
+import { Button } from '@views/components/common/Button';
+import Dialog from '@views/components/common/Dialog';
+import Divider from '@views/components/common/Divider';
+import Text from '@views/components/common/Text/Text';
+import useSchedules from '@views/hooks/useSchedules';
+import clsx from 'clsx';
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'] as const satisfies Day[];
+
+const START_TIME_OPTIONS = [8, 9, 10, 11, 12].map(hour => hour * 60);
+const END_TIME_OPTIONS = [15, 16, 17, 18, 19].map(hour => hour * 60);
+const GAP_OPTIONS = [30, 60, 90, 120];
+
+/**
+ * Formats minutes since midnight as a time of day, i.e. 9:00 am
+ */
+const formatTime = (minutes: number) => {
+    const hour = Math.floor(minutes / 60);
+    return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${hour >= 12 ? 'pm' : 'am'}`;
+};
+
+/**
+ * Props for the ScheduleGenerator component.
+ */
+interface ScheduleGeneratorProps {
+    /** The sections scraped from the course catalog, to build schedules from */
+    courses: Course[];
+}
+
+/**
+ * Adds a button above the course catalog table that opens a dialog for generating conflict-free schedules
+ * out of a list of desired courses, using the sections on the page.
+ *
+ * @returns a react portal to the button container or null if the table has not been found.
+ */
+export default function ScheduleGenerator({ courses }: ScheduleGeneratorProps): JSX.Element | null {
+    const [container, setContainer] = useState<HTMLDivElement | null>(null);
+    const [open, setOpen] = useState(false);
+
+    const [desiredCourses, setDesiredCourses] = useState('');
+    const [constraints, setConstraints] = useState<ScheduleConstraints>({ onlyOpen: true });
+    const [preferredInstructors, setPreferredInstructors] = useState('');
+    const [results, setResults] = useState<GeneratedSchedule[] | undefined>();
+    const [error, setError] = useState<string | undefined>();
+    const [savedIndexes, setSavedIndexes] = useState<number[]>([]);
+    const [activeSchedule, userSchedules] = useSchedules();
+    const [avoidBlocks, setAvoidBlocks] = useState(true);
+    const blocks = avoidBlocks ? activeSchedule.blocks : [];
+
+    useEffect(() => {
+        const table = document.querySelector('table');
+        if (!table) {
+            return;
+        }
+
+        const containerElement = document.createElement('div');
+        containerElement.setAttribute('id', 'ut-registration-plus-schedule-generator');
+        table.before(containerElement);
+        setContainer(containerElement);
+
+        return () => {
+            containerElement.remove();
+        };
+    }, []);
+
+    if (!container) {
+        return null;
+    }
+
+    const updateConstraint = <K extends keyof ScheduleConstraints>(key: K, value: ScheduleConstraints[K]) => {
+        setConstraints(previous => ({ ...previous, [key]: value }));
+    };
+
+    const toggleFreeDay = (day: Day) => {
+        const freeDays = constraints.freeDays ?? [];
+        updateConstraint('freeDays', freeDays.includes(day) ? freeDays.filter(d => d !== day) : [...freeDays, day]);
+    };
+
+    const handleGenerate = () => {
+        setSavedIndexes([]);
+
+        try {
+            const desired = parseDesiredCourses(desiredCourses);
+            const { schedules, unmatched } = generateSchedules(desired, courses, {
+                ...constraints,
+                preferredInstructors: preferredInstructors.split(','),
+                blocks,
+            });
+
+            if (unmatched.length > 0) {
+                const names = unmatched.map(({ department, number }) => `${department} ${number}`).join(', ');
+                setError(`No sections on this page match your constraints for ${names}`);
+                setResults(undefined);
+            } else {
+                setError(schedules.length === 0 ? 'Every combination of these courses has a conflict' : undefined);
+                setResults(schedules);
+            }
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+            setResults(undefined);
+        }
+    };
+
+    const handleSave = async (schedule: GeneratedSchedule, index: number) => {
+        const limitMessage = `You already have ${SCHEDULE_LIMIT} schedules, remove one to save this schedule`;
+        if (userSchedules.length >= SCHEDULE_LIMIT) {
+            setError(limitMessage);
+            return;
+        }
+
+        try {
+            const scheduleId = await background.createSchedule({ scheduleName: 'Generated Schedule' });
+            if (!scheduleId) {
+                throw new Error(limitMessage);
+            }
+
+            for (const course of schedule.courses) {
+                // eslint-disable-next-line no-await-in-loop
+                const message = await background.addCourse({ scheduleId, course });
+                if (message) {
+                    throw new Error(message);
+                }
+            }
+            // the schedule was built around the blocks, so it should keep them
+            for (const block of blocks) {
+                // eslint-disable-next-line no-await-in-loop
+                const message = await background.saveCustomBlock({ scheduleId, block });
+                if (message) {
+                    throw new Error(message);
+                }
+            }
+            setSavedIndexes(previous => [...previous, index]);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleNumberSelect =
+        (key: 'earliestStartTime' | 'latestEndTime' | 'maxGapMinutes') => (e: React.ChangeEvent<HTMLSelectElement>) => {
+            updateConstraint(key, e.target.value === '' ? undefined : Number(e.target.value));
+        };
+
+    return createPortal(
+        <>
+            <Button variant='filled' color='ut-burntorange' icon={MagicWand} onClick={() => setOpen(true)}>
+                Generate Schedules
+            </Button>
+            <Dialog className='w-[640px] px-6 py-5' open={open} onClose={() => setOpen(false)}>
+                <div className='flex items-center justify-between'>
+                    <Text variant='h2' className='text-ut-burntorange'>
+                        Schedule Generator
+                    </Text>
+                    <button className='bg-transparent p-0 text-ut-black btn' onClick={() => setOpen(false)}>
+                        <X className='h-6 w-6' />
+                    </button>
+                </div>
+                <Text variant='small' as='p' className='mb-3 text-ut-gray'>
+                    Builds conflict-free schedules from the sections on this page.
+                </Text>
+                <div className='flex flex-col gap-3 text-ut-black'>
+                    <label className='flex flex-col gap-1'>
+                        <Text variant='small'>Courses</Text>
+                        <input
+                            type='text'
+                            value={desiredCourses}
+                            onChange={e => setDesiredCourses(e.target.value)}
+                            className='border border-gray-300 rounded px-3 py-2 text-sm'
+                            placeholder='C S 429, M 340L, RHE 306'
+                        />
+                    </label>
+                    <div className='flex flex-wrap gap-3'>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>No classes before</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={constraints.earliestStartTime ?? ''}
+                                onChange={handleNumberSelect('earliestStartTime')}
+                            >
+                                <option value=''>Any time</option>
+                                {START_TIME_OPTIONS.map(time => (
+                                    <option key={time} value={time}>
+                                        {formatTime(time)}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>No classes after</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={constraints.latestEndTime ?? ''}
+                                onChange={handleNumberSelect('latestEndTime')}
+                            >
+                                <option value=''>Any time</option>
+                                {END_TIME_OPTIONS.map(time => (
+                                    <option key={time} value={time}>
+                                        {formatTime(time)}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className='flex flex-col gap-1'>
+                            <Text variant='small'>Longest break</Text>
+                            <select
+                                className='border rounded border-solid px-3 py-2'
+                                value={constraints.maxGapMinutes ?? ''}
+                                onChange={handleNumberSelect('maxGapMinutes')}
+                            >
+                                <option value=''>Any length</option>
+                                {GAP_OPTIONS.map(minutes => (
+                                    <option key={minutes} value={minutes}>
+                                        {minutes} minutes
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    <div className='flex flex-col gap-1'>
+                        <Text variant='small'>Days off</Text>
+                        <div className='flex gap-2'>
+                            {WEEKDAYS.map(day => (
+                                <Button
+                                    key={day}
+                                    size='small'
+                                    color='ut-burntorange'
+                                    variant={constraints.freeDays?.includes(day) ? 'filled' : 'outline'}
+                                    onClick={() => toggleFreeDay(day)}
+                                >
+                                    {day.slice(0, 3)}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                    <label className='flex flex-col gap-1'>
+                        <Text variant='small'>Preferred instructors</Text>
+                        <input
+                            type='text'
+                            value={preferredInstructors}
+                            onChange={e => setPreferredInstructors(e.target.value)}
+                            className='border border-gray-300 rounded px-3 py-2 text-sm'
+                            placeholder='Last names, separated by commas'
+                        />
+                    </label>
+                    <label className='flex items-center gap-2'>
+                        <input
+                            type='checkbox'
+                            checked={constraints.onlyOpen ?? false}
+                            onChange={e => updateConstraint('onlyOpen', e.target.checked)}
+                        />
+                        <Text variant='small'>Only open sections</Text>
+                    </label>
+                    {activeSchedule.blocks.length > 0 && (
+                        <label className='flex items-center gap-2'>
+                            <input
+                                type='checkbox'
+                                checked={avoidBlocks}
+                                onChange={e => setAvoidBlocks(e.target.checked)}
+                            />
+                            <Text variant='small'>
+                                Avoid {activeSchedule.blocks.map(block => block.title).join(', ')}
+                            </Text>
+                        </label>
+                    )}
+                    <Button variant='filled' color='ut-burntorange' icon={MagicWand} onClick={handleGenerate}>
+                        Generate
+                    </Button>
+                </div>
+                {error && (
+                    <Text variant='small' as='p' className='mt-3 text-theme-red'>
+                        {error}
+                    </Text>
+                )}
+                {results && results.length > 0 && (
+                    <div className='mt-3 flex flex-col gap-2'>
+                        <Divider orientation='horizontal' size='100%' />
+                        {results.map((schedule, index) => {
+                            const isSaved = savedIndexes.includes(index);
+                            const key = schedule.courses.map(course => course.uniqueId).join('-');
+
+                            return (
+                                <div
+                                    key={key}
+                                    className={clsx('flex items-center gap-3 border rounded p-2', {
+                                        'border-ut-green': isSaved,
+                                    })}
+                                >
+                                    <div className='flex flex-1 flex-col'>
+                                        {schedule.courses.map(course => (
+                                            <Text key={course.uniqueId} variant='small'>
+                                                {course.department} {course.number} ({course.uniqueId}):{' '}
+                                                {course.schedule.meetings
+                                                    .map(
+                                                        meeting =>
+                                                            `${meeting.getDaysString({ format: 'short', separator: 'none' })} ${meeting.getTimeString({ separator: '-' })}`
+                                                    )
+                                                    .join(', ') || 'Asynchronous'}
+                                            </Text>
+                                        ))}
+                                        <Text variant='mini' className='text-ut-gray'>
+                                            {schedule.daysOnCampus} days on campus, {schedule.gapMinutes} minutes
+                                            between classes
+                                        </Text>
+                                    </div>
+                                    <Button
+                                        size='small'
+                                        variant='outline'
+                                        color={isSaved ? 'ut-green' : 'ut-burntorange'}
+                                        icon={isSaved ? Check : FloppyDisk}
+                                        disabled={isSaved}
+                                        onClick={() => handleSave(schedule, index)}
+                                    >
+                                        {isSaved ? 'Saved' : 'Save'}
+                                    </Button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </Dialog>
+        </>,
+        container
+    );
+}
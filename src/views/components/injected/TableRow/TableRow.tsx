@@ -1,9 +1,14 @@
 import { ChartBar } from '@phosphor-icons/react';
 import { initSettings, OptionsStore } from '@shared/storage/OptionsStore';
 import type { Course, ScrapedRow } from '@shared/types/Course';
+import type { CustomBlock } from '@shared/types/CustomBlock';
 import type { UserSchedule } from '@shared/types/UserSchedule';
+import { isSameClass } from '@shared/util/crossListing';
+import { getBlockConflicts } from '@shared/util/customBlocks';
 import ConflictsWithWarning from '@views/components/common/ConflictsWithWarning';
 import ExtensionRoot from '@views/components/common/ExtensionRoot/ExtensionRoot';
+import GradeStatsBadge from '@views/components/common/GradeStatsBadge';
+import useGradeStats from '@views/hooks/useGradeStats';
 import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom';
 
@@ -25,9 +30,12 @@ export default function TableRow({ row, isSelected, activeSchedule, onClick }: P
 
     // the courses in the active schedule that conflict with the course for this row
     const [conflicts, setConflicts] = useState<Course[]>([]);
+    // the blocks (i.e. work) in the active schedule that the course for this row meets during
+    const [blockConflicts, setBlockConflicts] = useState<CustomBlock[]>([]);
     const [highlightConflicts, setHighlightConflicts] = useState<boolean>(false);
 
     const { element, course } = row;
+    const [gradeStats, gradeCoverage] = useGradeStats(course) ?? [];
 
     useEffect(() => {
         initSettings().then(({ enableHighlightConflicts }) => {
@@ -84,26 +92,30 @@ export default function TableRow({ row, isSelected, activeSchedule, onClick }: P
         let conflicts: Course[] = [];
 
         for (const c of activeSchedule.courses) {
-            if (c.uniqueId !== course.uniqueId && course.getConflicts(c).length > 0) {
+            if (!isSameClass(course, c) && course.getConflicts(c).length > 0) {
                 conflicts.push(c);
             }
         }
+        const blocks = getBlockConflicts(course, activeSchedule.blocks);
+        const hasConflicts = conflicts.length + blocks.length > 0;
 
         // Clear conflict styling
         element.classList.remove(styles.isConflict!);
         element.classList.remove(styles.isConflictNoLineThrough!);
 
         if (highlightConflicts) {
-            element.classList[conflicts.length ? 'add' : 'remove'](styles.isConflict!);
+            element.classList[hasConflicts ? 'add' : 'remove'](styles.isConflict!);
         } else {
-            element.classList[conflicts.length ? 'add' : 'remove'](styles.isConflictNoLineThrough!);
+            element.classList[hasConflicts ? 'add' : 'remove'](styles.isConflictNoLineThrough!);
         }
 
         setConflicts(conflicts);
+        setBlockConflicts(blocks);
 
         return () => {
             element.classList.remove(styles.isConflict!);
             setConflicts([]);
+            setBlockConflicts([]);
         };
     }, [activeSchedule, course, element.classList, highlightConflicts]);
 
@@ -113,17 +125,25 @@ export default function TableRow({ row, isSelected, activeSchedule, onClick }: P
 
     return ReactDOM.createPortal(
         <ExtensionRoot>
-            <div className='relative'>
+            <div className='relative flex items-center'>
                 <button
                     className='m1 h-6 w-6 flex items-center justify-center rounded bg-ut-burntorange color-white!'
                     onClick={onClick}
                 >
                     <ChartBar className='text-ut-white h-4 w-4' weight='fill' />
                 </button>
-                {conflicts.length > 0 && (
+                {gradeStats && (
+                    <GradeStatsBadge
+                        className='bg-ut-offwhite text-ut-black'
+                        stats={gradeStats}
+                        coverage={gradeCoverage}
+                    />
+                )}
+                {conflicts.length + blockConflicts.length > 0 && (
                     <ConflictsWithWarning
                         className='invisible absolute left-13 top--3 text-white group-hover:visible'
                         conflicts={conflicts}
+                        blockConflicts={blockConflicts}
                     />
                 )}
             </div>
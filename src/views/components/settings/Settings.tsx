@@ -1,13 +1,11 @@
 // import addCourse from '@pages/background/lib/addCourse';
-import { addCourseByURL } from '@pages/background/lib/addCourseByURL';
-import { deleteAllSchedules } from '@pages/background/lib/deleteSchedule';
 import exportSchedule from '@pages/background/lib/exportSchedule';
-import importSchedule from '@pages/background/lib/importSchedule';
 import { CalendarDots, Trash } from '@phosphor-icons/react';
 import { background } from '@shared/messages';
 import { initSettings, OptionsStore } from '@shared/storage/OptionsStore';
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import { downloadBlob } from '@shared/util/downloadBlob';
+import { parseScheduleBackup, ScheduleBackupError } from '@shared/util/scheduleBackup';
 // import { addCourseByUrl } from '@shared/util/courseUtils';
 // import { getCourseColors } from '@shared/util/colors';
 // import CalendarCourseCell from '@views/components/calendar/CalendarCourseCell';
@@ -16,9 +14,11 @@ import { usePrompt } from '@views/components/common/DialogProvider/DialogProvide
 import Divider from '@views/components/common/Divider';
 import { LargeLogo } from '@views/components/common/LogoIcon';
 // import PopupCourseBlock from '@views/components/common/PopupCourseBlock';
+import ScheduleHistoryToast from '@views/components/common/ScheduleHistoryToast';
 import SwitchButton from '@views/components/common/SwitchButton';
 import Text from '@views/components/common/Text/Text';
 import useChangelog from '@views/hooks/useChangelog';
+import useQuickAdd from '@views/hooks/useQuickAdd';
 import useSchedules from '@views/hooks/useSchedules';
 // import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
 // import getCourseTableRows from '@views/lib/getCourseTableRows';
@@ -41,6 +41,18 @@ const PREVIEW_SECTION_DIV_CLASSNAME = DISPLAY_PREVIEWS ? 'w-1/2 space-y-4' : 'fl
 
 const manifest = chrome.runtime.getManifest();
 
+const QUIET_HOURS_OPTIONS = Array.from({ length: 24 }, (_, hour) => (
+    <option key={hour} value={hour * 60}>
+        {hour % 12 === 0 ? 12 : hour % 12}:00 {hour < 12 ? 'AM' : 'PM'}
+    </option>
+));
+
+const CALENDAR_REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60].map(minutes => (
+    <option key={minutes} value={minutes}>
+        {minutes === 0 ? 'No reminders' : `${minutes} minutes before`}
+    </option>
+));
+
 const gitHubStatsService = new GitHubStatsService();
 const includeMergedPRs = false;
 
@@ -91,6 +103,11 @@ export default function Settings(): JSX.Element {
     const [loadAllCourses, setLoadAllCourses] = useState<boolean>(false);
     const [_enableDataRefreshing, setEnableDataRefreshing] = useState<boolean>(false);
     const [calendarNewTab, setCalendarNewTab] = useState<boolean>(false);
+    const [enableNotifications, setEnableNotifications] = useState<boolean>(false);
+    const [enableQuietHours, setEnableQuietHours] = useState<boolean>(false);
+    const [quietHoursStart, setQuietHoursStart] = useState<number>(0);
+    const [quietHoursEnd, setQuietHoursEnd] = useState<number>(0);
+    const [calendarReminderMinutes, setCalendarReminderMinutes] = useState<number>(0);
 
     const showMigrationDialog = useMigrationDialog();
 
@@ -101,6 +118,7 @@ export default function Settings(): JSX.Element {
     > | null>(null);
 
     const [activeSchedule] = useSchedules();
+    const showQuickAdd = useQuickAdd();
     // const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
 
     const showDialog = usePrompt();
@@ -124,6 +142,11 @@ export default function Settings(): JSX.Element {
                 enableScrollToLoad,
                 enableDataRefreshing,
                 alwaysOpenCalendarInNewTab,
+                enableNotifications,
+                enableQuietHours,
+                quietHoursStart,
+                quietHoursEnd,
+                calendarReminderMinutes,
             } = await initSettings();
             setEnableCourseStatusChips(enableCourseStatusChips);
             setShowTimeLocation(enableTimeAndLocationInPopup);
@@ -131,6 +154,11 @@ export default function Settings(): JSX.Element {
             setLoadAllCourses(enableScrollToLoad);
             setEnableDataRefreshing(enableDataRefreshing);
             setCalendarNewTab(alwaysOpenCalendarInNewTab);
+            setEnableNotifications(enableNotifications);
+            setEnableQuietHours(enableQuietHours);
+            setQuietHoursStart(quietHoursStart);
+            setQuietHoursEnd(quietHoursEnd);
+            setCalendarReminderMinutes(calendarReminderMinutes);
         };
 
         fetchGitHubStats();
@@ -175,6 +203,26 @@ export default function Settings(): JSX.Element {
             // console.log('alwaysOpenCalendarInNewTab', newValue);
         });
 
+        const l7 = OptionsStore.listen('enableNotifications', async ({ newValue }) => {
+            setEnableNotifications(newValue);
+        });
+
+        const l8 = OptionsStore.listen('enableQuietHours', async ({ newValue }) => {
+            setEnableQuietHours(newValue);
+        });
+
+        const l9 = OptionsStore.listen('quietHoursStart', async ({ newValue }) => {
+            setQuietHoursStart(newValue);
+        });
+
+        const l10 = OptionsStore.listen('quietHoursEnd', async ({ newValue }) => {
+            setQuietHoursEnd(newValue);
+        });
+
+        const l11 = OptionsStore.listen('calendarReminderMinutes', async ({ newValue }) => {
+            setCalendarReminderMinutes(newValue);
+        });
+
         // Remove listeners when the component is unmounted
         return () => {
             OptionsStore.removeListener(l1);
@@ -183,6 +231,11 @@ export default function Settings(): JSX.Element {
             OptionsStore.removeListener(l4);
             OptionsStore.removeListener(l5);
             OptionsStore.removeListener(l6);
+            OptionsStore.removeListener(l7);
+            OptionsStore.removeListener(l8);
+            OptionsStore.removeListener(l9);
+            OptionsStore.removeListener(l10);
+            OptionsStore.removeListener(l11);
 
             window.removeEventListener('keydown', handleKeyPress);
         };
@@ -194,8 +247,8 @@ export default function Settings(): JSX.Element {
             description: (
                 <>
                     <p>
-                        Are you sure you want to erase all schedules and courses you have? This action is permanent and
-                        cannot be undone.
+                        Are you sure you want to erase all schedules and courses you have? If you change your mind, you
+                        can undo it right after from the message at the bottom of the page.
                     </p>
                     <br />
                     <p className='text-sm text-gray-600'>Note: This will not erase your settings and preferences.</p>
@@ -207,7 +260,7 @@ export default function Settings(): JSX.Element {
                     variant='filled'
                     color='ut-burntorange'
                     onClick={() => {
-                        deleteAllSchedules();
+                        background.deleteAllSchedules();
                         accept();
                     }}
                 >
@@ -217,43 +270,64 @@ export default function Settings(): JSX.Element {
         });
     };
 
-    const handleExportClick = async (id: string) => {
+    const handleExportClick = async (id?: string) => {
         const jsonString = await exportSchedule(id);
         if (jsonString) {
             const schedules = await UserScheduleStore.get('schedules');
             const schedule = schedules.find(s => s.id === id);
-            const fileName = `${schedule?.name ?? `schedule_${id}`}_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+            const baseName = id === undefined ? 'all_schedules' : (schedule?.name ?? `schedule_${id}`);
+            const fileName = `${baseName}_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
             await downloadBlob(jsonString, 'JSON', fileName);
         } else {
             console.error('Error exporting schedule: jsonString is undefined');
         }
     };
 
+    const showImportError = (message: string) => {
+        showDialog({
+            title: 'Unable to Import Schedule',
+            description: message,
+            // eslint-disable-next-line react/no-unstable-nested-components
+            buttons: accept => (
+                <Button variant='filled' color='ut-burntorange' onClick={accept}>
+                    I Understand
+                </Button>
+            ),
+        });
+    };
+
     const handleImportClick = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
             const reader = new FileReader();
             reader.onload = async e => {
+                let jsonObject: unknown;
+                try {
+                    jsonObject = JSON.parse(e.target?.result as string);
+                } catch (error) {
+                    showImportError('This file is not a schedule backup.');
+                    return;
+                }
+
                 try {
-                    const result = e.target?.result as string;
-                    const jsonObject = JSON.parse(result);
-                    await importSchedule(jsonObject);
+                    // check the backup here, so problems with it can be shown to the user before it's sent to be imported
+                    parseScheduleBackup(jsonObject);
+                    const message = await background.importSchedule({ backupData: jsonObject });
+                    if (message) {
+                        showImportError(`This backup could not be imported: ${message}`);
+                    }
                 } catch (error) {
-                    console.error('Invalid import file!');
+                    if (error instanceof ScheduleBackupError) {
+                        showImportError(`This backup could not be imported: ${error.message}`);
+                    } else {
+                        console.error('Error importing schedule:', error);
+                    }
                 }
             };
             reader.readAsText(file);
         }
     };
 
-    // const handleAddCourseByLink = async () => {
-    //     // todo: Use a proper modal instead of a prompt
-    //     const link: string | null = prompt('Enter course link');
-    //     // Exit if the user cancels the prompt
-    //     if (link === null) return;
-    //     await addCourseByUrl(link, activeSchedule);
-    // };
-
     const [devMode, toggleDevMode] = useDevMode(10);
 
     if (devMode) {
@@ -392,12 +466,32 @@ export default function Settings(): JSX.Element {
 
                                 <Divider size='auto' orientation='horizontal' />
 
+                                <div className='flex items-center justify-between'>
+                                    <div className='max-w-xs'>
+                                        <Text variant='h4' className='text-ut-burntorange font-semibold'>
+                                            Export All Schedules
+                                        </Text>
+                                        <p className='text-sm text-gray-600'>
+                                            Backup every schedule and your settings to a single file
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant='outline'
+                                        color='ut-burntorange'
+                                        onClick={() => handleExportClick()}
+                                    >
+                                        Export All
+                                    </Button>
+                                </div>
+
+                                <Divider size='auto' orientation='horizontal' />
+
                                 <div className='flex items-center justify-between'>
                                     <div className='max-w-xs'>
                                         <Text variant='h4' className='text-ut-burntorange font-semibold'>
                                             Import Schedule
                                         </Text>
-                                        <p className='text-sm text-gray-600'>Import from a schedule file</p>
+                                        <p className='text-sm text-gray-600'>Import from a schedule or backup file</p>
                                     </div>
                                     <FileUpload variant='filled' color='ut-burntorange' onChange={handleImportClick}>
                                         Import Schedule
@@ -468,6 +562,97 @@ export default function Settings(): JSX.Element {
 
                                 <Divider size='auto' orientation='horizontal' />
 
+                                <div className='flex items-center justify-between'>
+                                    <div className='max-w-xs'>
+                                        <Text variant='h4' className='text-ut-burntorange font-semibold'>
+                                            Calendar Reminders
+                                        </Text>
+                                        <p className='text-sm text-gray-600'>
+                                            Adds a reminder before each class when you save your schedule as a .cal
+                                            file.
+                                        </p>
+                                    </div>
+                                    <select
+                                        className='border rounded border-solid px-2 py-1 text-sm text-gray-600'
+                                        value={calendarReminderMinutes}
+                                        onChange={e => {
+                                            setCalendarReminderMinutes(Number(e.target.value));
+                                            OptionsStore.set('calendarReminderMinutes', Number(e.target.value));
+                                        }}
+                                    >
+                                        {CALENDAR_REMINDER_OPTIONS}
+                                    </select>
+                                </div>
+
+                                <Divider size='auto' orientation='horizontal' />
+
+                                <div className='flex items-center justify-between'>
+                                    <div className='max-w-xs'>
+                                        <Text variant='h4' className='text-ut-burntorange font-semibold'>
+                                            Course Notifications
+                                        </Text>
+                                        <p className='text-sm text-gray-600'>
+                                            Shows a notification when a course you&apos;re watching opens up or gets
+                                            cancelled. Watch a saved course with the &quot;Notify Me&quot; button on its
+                                            details.
+                                        </p>
+                                    </div>
+                                    <SwitchButton
+                                        isChecked={enableNotifications}
+                                        onChange={() => {
+                                            setEnableNotifications(!enableNotifications);
+                                            OptionsStore.set('enableNotifications', !enableNotifications);
+                                        }}
+                                    />
+                                </div>
+
+                                <Divider size='auto' orientation='horizontal' />
+
+                                <div className='flex items-center justify-between'>
+                                    <div className='max-w-xs'>
+                                        <Text variant='h4' className='text-ut-burntorange font-semibold'>
+                                            Quiet Hours
+                                        </Text>
+                                        <p className='text-sm text-gray-600'>
+                                            Holds notifications until quiet hours are over.
+                                        </p>
+                                        <div className='mt-2 flex items-center gap-2 text-sm text-gray-600'>
+                                            <select
+                                                className='border rounded border-solid px-2 py-1'
+                                                value={quietHoursStart}
+                                                disabled={!enableQuietHours}
+                                                onChange={e => {
+                                                    setQuietHoursStart(Number(e.target.value));
+                                                    OptionsStore.set('quietHoursStart', Number(e.target.value));
+                                                }}
+                                            >
+                                                {QUIET_HOURS_OPTIONS}
+                                            </select>
+                                            to
+                                            <select
+                                                className='border rounded border-solid px-2 py-1'
+                                                value={quietHoursEnd}
+                                                disabled={!enableQuietHours}
+                                                onChange={e => {
+                                                    setQuietHoursEnd(Number(e.target.value));
+                                                    OptionsStore.set('quietHoursEnd', Number(e.target.value));
+                                                }}
+                                            >
+                                                {QUIET_HOURS_OPTIONS}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <SwitchButton
+                                        isChecked={enableQuietHours}
+                                        onChange={() => {
+                                            setEnableQuietHours(!enableQuietHours);
+                                            OptionsStore.set('enableQuietHours', !enableQuietHours);
+                                        }}
+                                    />
+                                </div>
+
+                                <Divider size='auto' orientation='horizontal' />
+
                                 <div className='flex items-center justify-between'>
                                     <div className='max-w-xs'>
                                         <Text variant='h4' className='text-ut-burntorange font-semibold'>
@@ -503,7 +688,7 @@ export default function Settings(): JSX.Element {
                         <h2 className='mb-4 text-xl text-ut-black font-semibold' onClick={toggleDevMode}>
                             Developer Mode
                         </h2>
-                        <Button variant='filled' color='ut-black' onClick={() => addCourseByURL(activeSchedule)}>
+                        <Button variant='filled' color='ut-black' onClick={showQuickAdd}>
                             Add course by link
                         </Button>
                         <Button variant='filled' color='ut-burntorange' onClick={showMigrationDialog}>
@@ -653,6 +838,7 @@ export default function Settings(): JSX.Element {
                     </section>
                 </section>
             </div>
+            <ScheduleHistoryToast />
         </div>
     );
 }
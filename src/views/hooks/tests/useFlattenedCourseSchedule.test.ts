@@ -1,6 +1,11 @@
+import type { CourseMeeting } from '@shared/types/CourseMeeting';
+import makeCourse from '@shared/util/tests/makeCourse';
 import { describe, expect, it } from 'vitest';
 
-import { convertMinutesToIndex } from '../useFlattenedCourseSchedule';
+import { convertMinutesToIndex, flattenCourseSchedule, getCalendarGridBounds } from '../useFlattenedCourseSchedule';
+
+const makeCourseWithMeetings = (meetings: Pick<CourseMeeting, 'days' | 'startTime' | 'endTime'>[]) =>
+    makeCourse({ schedule: { meetings } });
 
 describe('useFlattenedCourseSchedule', () => {
     it('should convert minutes to index correctly', () => {
@@ -9,4 +14,76 @@ describe('useFlattenedCourseSchedule', () => {
         const result = convertMinutesToIndex(minutes);
         expect(result).toBe(expectedIndex);
     });
+
+    it('should convert minutes to index relative to the first hour of the grid', () => {
+        expect(convertMinutesToIndex(420, 7)).toBe(2); // 7:00 AM is the first row
+        expect(convertMinutesToIndex(450, 7)).toBe(3); // 7:30 AM
+        expect(convertMinutesToIndex(480, 7)).toBe(4); // 8:00 AM
+    });
+});
+
+describe('getCalendarGridBounds', () => {
+    it('should default to weekdays from 8 AM to 9 PM', () => {
+        expect(getCalendarGridBounds([])).toEqual({
+            days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+            startHour: 8,
+            endHour: 21,
+        });
+    });
+
+    it('should add weekend columns only when there are weekend meetings', () => {
+        const saturdayLab = makeCourseWithMeetings([{ days: ['Saturday'], startTime: 600, endTime: 720 }]);
+        const sundayReview = makeCourseWithMeetings([{ days: ['Sunday'], startTime: 600, endTime: 720 }]);
+
+        expect(getCalendarGridBounds([saturdayLab]).days).toEqual([
+            'Monday',
+            'Tuesday',
+            'Wednesday',
+            'Thursday',
+            'Friday',
+            'Saturday',
+        ]);
+        expect(getCalendarGridBounds([saturdayLab, sundayReview]).days.slice(-2)).toEqual(['Saturday', 'Sunday']);
+    });
+
+    it('should extend the hours to fit early and late meetings', () => {
+        const early = makeCourseWithMeetings([{ days: ['Monday'], startTime: 7 * 60, endTime: 8 * 60 }]);
+        const late = makeCourseWithMeetings([{ days: ['Tuesday'], startTime: 19 * 60 + 30, endTime: 22 * 60 + 15 }]);
+
+        expect(getCalendarGridBounds([early, late])).toMatchObject({ startHour: 7, endHour: 23 });
+    });
+
+    it('should ignore meetings without days', () => {
+        const async = makeCourseWithMeetings([{ days: [], startTime: 6 * 60, endTime: 23 * 60 }]);
+
+        expect(getCalendarGridBounds([async])).toMatchObject({ startHour: 8, endHour: 21 });
+    });
+});
+
+describe('flattenCourseSchedule', () => {
+    it('should make a cell for every day a course meets', () => {
+        const course = makeCourseWithMeetings([{ days: ['Monday', 'Wednesday'], startTime: 600, endTime: 660 }]);
+
+        expect(flattenCourseSchedule([course]).map(cell => cell.calendarGridPoint)).toEqual([
+            { dayIndex: 0, startIndex: 6, endIndex: 8 },
+            { dayIndex: 2, startIndex: 6, endIndex: 8 },
+        ]);
+    });
+
+    it('should place cells on the given grid bounds', () => {
+        const course = makeCourseWithMeetings([{ days: ['Friday'], startTime: 600, endTime: 660 }]);
+        const bounds = { days: getCalendarGridBounds([]).days, startHour: 7, endHour: 21 };
+
+        expect(flattenCourseSchedule([course], bounds)[0]?.calendarGridPoint).toEqual({
+            dayIndex: 4,
+            startIndex: 8,
+            endIndex: 10,
+        });
+    });
+
+    it('should keep courses without meeting days off the grid', () => {
+        const course = makeCourseWithMeetings([{ days: [], startTime: 0, endTime: 0 }]);
+
+        expect(flattenCourseSchedule([course])).toMatchObject([{ async: true }]);
+    });
 });
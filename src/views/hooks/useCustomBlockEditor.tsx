@@ -0,0 +1,36 @@
+import { X } from '@phosphor-icons/react';
+import type { CustomBlock } from '@shared/types/CustomBlock';
+import CustomBlockForm from '@views/components/common/CustomBlockForm';
+import Text from '@views/components/common/Text/Text';
+import { useDialog } from '@views/contexts/DialogContext';
+import React from 'react';
+
+import { Button } from '../components/common/Button';
+import useSchedules from './useSchedules';
+
+/**
+ * Custom hook that provides a function to open the block dialog, which adds a block (i.e. work) to the active schedule or edits one.
+ *
+ * @returns A function that, when called, shows the block dialog for the given block, or for a new block if none is given.
+ */
+export default function useCustomBlockEditor(): (block?: CustomBlock) => void {
+    const showDialog = useDialog();
+    const [activeSchedule] = useSchedules();
+
+    return block => {
+        showDialog(close => ({
+            title: (
+                <div className='flex items-center justify-between'>
+                    <Text variant='h2' as='h1' className='text-theme-black'>
+                        {block ? 'Edit Block' : 'Add Block'}
+                    </Text>
+                    <Button variant='minimal' onClick={close} color='theme-black' className='p-1 text-gray-700'>
+                        <X className='h-6 w-6' />
+                    </Button>
+                </div>
+            ),
+            description: <CustomBlockForm schedule={activeSchedule} block={block} close={close} />,
+            className: 'w-[520px] flex flex-col gap-2.5 p-6.25',
+        }));
+    };
+}
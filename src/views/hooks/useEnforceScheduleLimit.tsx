@@ -1,11 +1,10 @@
+import { SCHEDULE_LIMIT } from '@shared/types/UserSchedule';
 import useSchedules from '@views/hooks/useSchedules';
 import React, { useCallback } from 'react';
 
 import { Button } from '../components/common/Button';
 import { usePrompt } from '../components/common/DialogProvider/DialogProvider';
 
-const SCHEDULE_LIMIT = 10;
-
 /**
  * Hook that creates a function that enforces a maximum amount of schedules
  *
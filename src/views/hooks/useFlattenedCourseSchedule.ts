@@ -1,19 +1,46 @@
 import type { Course, StatusType } from '@shared/types/Course';
-import { type CourseMeeting, DAY_MAP } from '@shared/types/CourseMeeting';
+import type { CourseMeeting, Day } from '@shared/types/CourseMeeting';
+import type { CustomBlock } from '@shared/types/CustomBlock';
 import type { UserSchedule } from '@shared/types/UserSchedule';
+import { getWaitlistConflicts } from '@shared/util/waitlist';
 import type { CalendarCourseCellProps } from '@views/components/calendar/CalendarCourseCell';
 
 import useSchedules from './useSchedules';
 
-const dayToNumber = {
-    Monday: 0,
-    Tuesday: 1,
-    Wednesday: 2,
-    Thursday: 3,
-    Friday: 4,
-    Saturday: 5,
-    Sunday: 6,
-} as const satisfies Record<string, number>;
+/** The days of the week in the order they appear on the calendar */
+const calendarDays = [
+    'Monday',
+    'Tuesday',
+    'Wednesday',
+    'Thursday',
+    'Friday',
+    'Saturday',
+    'Sunday',
+] as const satisfies readonly Day[];
+
+/** The days that are always shown on the calendar, even if there are no classes on them */
+const defaultDays: readonly Day[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+/** The earliest hour that is always shown on the calendar (8 AM) */
+const defaultStartHour = 8;
+
+/** The latest hour that is always shown on the calendar (9 PM) */
+const defaultEndHour = 21;
+
+const midnightIndex = 1440;
+const normalizingTimeFactor = 720;
+
+/**
+ * The visible area of the calendar grid: which day columns are shown and which hours the rows span
+ */
+export interface CalendarGridBounds {
+    /** The day columns, in the order they are shown */
+    days: Day[];
+    /** The hour of the first row (0-23) */
+    startHour: number;
+    /** The hour that the last row ends at (1-24) */
+    endHour: number;
+}
 
 interface CalendarGridPoint {
     dayIndex: number;
@@ -38,50 +65,137 @@ export interface CalendarGridCourse {
     totalColumns?: number;
 }
 
+/**
+ * A block (i.e. work or the gym) on one day of the calendar grid
+ */
+export interface CalendarGridBlock {
+    calendarGridPoint: CalendarGridPoint;
+    block: CustomBlock;
+}
+
 /**
  * Represents a flattened course schedule.
  */
 export interface FlattenedCourseSchedule {
     courseCells: CalendarGridCourse[];
+    blockCells: CalendarGridBlock[];
+    /** The schedule the cells are for, which is the active schedule unless another one was passed in */
     activeSchedule: UserSchedule;
+    gridBounds: CalendarGridBounds;
 }
 
 /**
- * Converts minutes to an index value.
+ * Converts minutes to the index of the grid row line it falls on.
+ * Each hour takes up two rows, and the first row of the grid is the day header.
  *
- * @param minutes - The number of minutes.
+ * @param minutes - The number of minutes since midnight.
+ * @param startHour - The hour of the first row of the grid.
  * @returns The index value.
  */
-export const convertMinutesToIndex = (minutes: number): number => Math.floor((minutes - 420) / 30);
+export const convertMinutesToIndex = (minutes: number, startHour: number = defaultStartHour): number =>
+    Math.floor((minutes - startHour * 60) / 30) + 2;
 
 /**
- * Get the active schedule, and convert it to be render-able into a calendar.
- * @returns CalendarGridCourse
+ * Undo the extra 12 hours that are added to some times when they are parsed
  */
-export function useFlattenedCourseSchedule(): FlattenedCourseSchedule {
-    const [activeSchedule] = useSchedules();
+const normalizeTime = (time: number): number => (time >= midnightIndex ? time - normalizingTimeFactor : time);
+
+/**
+ * Computes which days and hours the calendar grid needs to show so that every meeting of the given courses
+ * and every block fits. Monday through Friday from 8 AM to 9 PM is always shown.
+ *
+ * @param courses - The courses that will be shown on the grid
+ * @param blocks - The blocks that will be shown on the grid
+ * @returns The bounds of the calendar grid
+ */
+export function getCalendarGridBounds(courses: Course[], blocks: CustomBlock[] = []): CalendarGridBounds {
+    const meetings = [
+        ...courses.flatMap(course => course.schedule.meetings),
+        ...blocks.map(block => block.toMeeting()),
+    ].filter(meeting => meeting.days.length > 0);
+    const usedDays = new Set<Day>([...defaultDays, ...meetings.flatMap(meeting => meeting.days)]);
+
+    let startHour = defaultStartHour;
+    let endHour = defaultEndHour;
+    for (const meeting of meetings) {
+        startHour = Math.min(startHour, Math.floor(normalizeTime(meeting.startTime) / 60));
+        endHour = Math.max(endHour, Math.ceil(normalizeTime(meeting.endTime) / 60));
+    }
+
+    return {
+        days: calendarDays.filter(day => usedDays.has(day)),
+        startHour: Math.max(0, startHour),
+        endHour: Math.min(24, endHour),
+    };
+}
 
-    const processedCourses = activeSchedule.courses
+/**
+ * Converts the courses of a schedule into the cells of a calendar grid
+ *
+ * @param courses - The courses of the schedule
+ * @param gridBounds - The bounds of the grid the cells are placed on, i.e. to line several schedules up on the same rows
+ * @returns The cells, sorted by day and time
+ */
+export function flattenCourseSchedule(
+    courses: Course[],
+    gridBounds: CalendarGridBounds = getCalendarGridBounds(courses)
+): CalendarGridCourse[] {
+    return courses
         .flatMap(course => {
             const { status, courseDeptAndInstr, meetings } = extractCourseInfo(course);
+            const datedMeetings = meetings.filter(meeting => meeting.days.length > 0);
+            const waitlistConflicts = course.waitlist ? getWaitlistConflicts(course, courses) : undefined;
 
-            if (meetings.length === 0) {
-                return processAsyncCourses({ courseDeptAndInstr, status, course });
+            if (datedMeetings.length === 0) {
+                return processAsyncCourses({ courseDeptAndInstr, status, course, waitlistConflicts });
             }
 
-            return meetings.flatMap(meeting => {
-                if (meeting.days.includes(DAY_MAP.S) || meeting.startTime < 480) {
-                    return processAsyncCourses({ courseDeptAndInstr, status, course });
-                }
-
-                return processInPersonMeetings(meeting, courseDeptAndInstr, status, course);
-            });
+            return datedMeetings.flatMap(meeting =>
+                processInPersonMeetings(meeting, courseDeptAndInstr, status, course, gridBounds, waitlistConflicts)
+            );
         })
         .sort(sortCourses);
+}
+
+/**
+ * Converts the blocks of a schedule into cells of a calendar grid, one for each day a block repeats on
+ *
+ * @param blocks - The blocks of the schedule
+ * @param gridBounds - The bounds of the grid the cells are placed on
+ * @returns The cells
+ */
+export function flattenCustomBlocks(
+    blocks: CustomBlock[],
+    gridBounds: CalendarGridBounds = getCalendarGridBounds([], blocks)
+): CalendarGridBlock[] {
+    return blocks.flatMap(block =>
+        block.days.map(day => ({
+            calendarGridPoint: {
+                dayIndex: gridBounds.days.indexOf(day),
+                startIndex: convertMinutesToIndex(block.startTime, gridBounds.startHour),
+                endIndex: convertMinutesToIndex(block.endTime, gridBounds.startHour),
+            },
+            block,
+        }))
+    );
+}
+
+/**
+ * Get a schedule, and convert it to be render-able into a calendar.
+ *
+ * @param schedule - The schedule to convert, defaults to the active schedule
+ * @returns CalendarGridCourse
+ */
+export function useFlattenedCourseSchedule(schedule?: UserSchedule): FlattenedCourseSchedule {
+    const [activeSchedule] = useSchedules();
+    const shownSchedule = schedule ?? activeSchedule;
+    const gridBounds = getCalendarGridBounds(shownSchedule.courses, shownSchedule.blocks);
 
     return {
-        courseCells: processedCourses,
-        activeSchedule,
+        courseCells: flattenCourseSchedule(shownSchedule.courses, gridBounds),
+        blockCells: flattenCustomBlocks(shownSchedule.blocks, gridBounds),
+        activeSchedule: shownSchedule,
+        gridBounds,
     };
 }
 
@@ -111,10 +225,12 @@ function processAsyncCourses({
     courseDeptAndInstr,
     status,
     course,
+    waitlistConflicts,
 }: {
     courseDeptAndInstr: string;
     status: StatusType;
     course: Course;
+    waitlistConflicts?: Course[];
 }): CalendarGridCourse[] {
     return [
         {
@@ -126,6 +242,7 @@ function processAsyncCourses({
             componentProps: {
                 courseDeptAndInstr,
                 status,
+                waitlistConflicts,
                 blockData: {
                     calendarGridPoint: { dayIndex: -1, startIndex: -1, endIndex: -1 },
                     componentProps: { courseDeptAndInstr, status, blockData: {} as CalendarGridCourse },
@@ -146,15 +263,15 @@ function processInPersonMeetings(
     meeting: CourseMeeting,
     courseDeptAndInstr: string,
     status: StatusType,
-    course: Course
+    course: Course,
+    gridBounds: CalendarGridBounds,
+    waitlistConflicts?: Course[]
 ): CalendarGridCourse[] {
     const { days, startTime, endTime, location } = meeting;
-    const midnightIndex = 1440;
-    const normalizingTimeFactor = 720;
     const oneHour = 60;
     const time = meeting.getTimeString({ separator: '–' });
-    const normalizedStartTime = startTime >= midnightIndex ? startTime - normalizingTimeFactor : startTime;
-    const normalizedEndTime = endTime >= midnightIndex ? endTime - normalizingTimeFactor : endTime;
+    const normalizedStartTime = normalizeTime(startTime);
+    const normalizedEndTime = normalizeTime(endTime);
     const courseDuration = normalizedEndTime - normalizedStartTime;
     let timeAndLocation = `${time}`;
     if (location) {
@@ -167,14 +284,15 @@ function processInPersonMeetings(
 
     return days.map(day => ({
         calendarGridPoint: {
-            dayIndex: dayToNumber[day],
-            startIndex: convertMinutesToIndex(normalizedStartTime),
-            endIndex: convertMinutesToIndex(normalizedEndTime),
+            dayIndex: gridBounds.days.indexOf(day),
+            startIndex: convertMinutesToIndex(normalizedStartTime, gridBounds.startHour),
+            endIndex: convertMinutesToIndex(normalizedEndTime, gridBounds.startHour),
         },
         componentProps: {
             courseDeptAndInstr,
             timeAndLocation,
             status,
+            waitlistConflicts,
             blockData: {} as CalendarGridCourse,
         },
         course,
@@ -0,0 +1,87 @@
+import type { Course } from '@shared/types/Course';
+import type { GradeStats, InstructorCoverage } from '@shared/types/Distribution';
+import { queryGradeStats } from '@views/lib/database/queryDistribution';
+import { useEffect, useState } from 'react';
+
+type GradeStatsResult = [stats: GradeStats, coverage: InstructorCoverage];
+
+/**
+ * Stats are the same for every section of a course taught by the same instructors,
+ * so they are only looked up once per page
+ */
+const statsCache = new Map<string, Promise<GradeStatsResult | undefined>>();
+
+/**
+ * Looks up the grade stats of a course, or reuses the lookup of an earlier section with the same instructors
+ */
+function loadGradeStats(course: Course): Promise<GradeStatsResult | undefined> {
+    const instructors = course.instructors.map(i => i.fullName ?? i.lastName ?? '').join('; ');
+    const key = `${course.department} ${course.number} ${instructors}`.toLowerCase();
+    if (!statsCache.has(key)) {
+        statsCache.set(
+            key,
+            queryGradeStats(course).catch(() => undefined)
+        );
+    }
+
+    return statsCache.get(key)!;
+}
+
+/**
+ * Custom hook that looks up the grade stats of a course from the grade distribution database.
+ *
+ * @param course - The course to get the stats for.
+ * @returns The stats and which of the course's instructors they cover, or undefined while loading or if there is no data for the course.
+ */
+export default function useGradeStats(course: Course | null): GradeStatsResult | undefined {
+    const [stats, setStats] = useState<GradeStatsResult | undefined>();
+
+    useEffect(() => {
+        if (!course) {
+            return;
+        }
+
+        let cancelled = false;
+        loadGradeStats(course).then(courseStats => {
+            if (!cancelled) {
+                setStats(courseStats);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [course]);
+
+    return stats;
+}
+
+/**
+ * Custom hook that looks up the average GPA of several courses at once, i.e. every course of the schedules being compared.
+ *
+ * @param courses - The courses to get the average GPAs of.
+ * @returns The average GPA of each course by unique id. Courses that are still loading are missing, and ones without data are undefined.
+ */
+export function useAverageGPAs(courses: Course[]): Record<number, number | undefined> {
+    const [averageGPAs, setAverageGPAs] = useState<Record<number, number | undefined>>({});
+    // only look the courses up again when the set of sections changes, not on every render
+    const uniqueIds = [...new Set(courses.map(course => course.uniqueId))].sort().join(',');
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(
+            courses.map(async course => [course.uniqueId, (await loadGradeStats(course))?.[0].averageGPA] as const)
+        ).then(entries => {
+            if (!cancelled) {
+                setAverageGPAs(Object.fromEntries(entries));
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [uniqueIds]);
+
+    return averageGPAs;
+}
@@ -0,0 +1,35 @@
+import { X } from '@phosphor-icons/react';
+import QuickAddForm from '@views/components/common/QuickAddForm';
+import Text from '@views/components/common/Text/Text';
+import { useDialog } from '@views/contexts/DialogContext';
+import React from 'react';
+
+import { Button } from '../components/common/Button';
+import useSchedules from './useSchedules';
+
+/**
+ * Custom hook that provides a function to open the quick add dialog, which adds sections to the active schedule by unique id.
+ *
+ * @returns A function that, when called, shows the quick add dialog.
+ */
+export default function useQuickAdd(): () => void {
+    const showDialog = useDialog();
+    const [activeSchedule] = useSchedules();
+
+    return () => {
+        showDialog(close => ({
+            title: (
+                <div className='flex items-center justify-between'>
+                    <Text variant='h2' as='h1' className='text-theme-black'>
+                        Quick Add
+                    </Text>
+                    <Button variant='minimal' onClick={close} color='theme-black' className='p-1 text-gray-700'>
+                        <X className='h-6 w-6' />
+                    </Button>
+                </div>
+            ),
+            description: <QuickAddForm schedule={activeSchedule} close={close} />,
+            className: 'w-[520px] flex flex-col gap-2.5 p-6.25',
+        }));
+    };
+}
@@ -0,0 +1,55 @@
+import { SavedSearchStore } from '@shared/storage/SavedSearchStore';
+import type { SavedSearch } from '@shared/types/SavedSearch';
+import { generateRandomId } from '@shared/util/random';
+import { MAX_SAVED_SEARCHES } from '@shared/util/savedSearches';
+import { useEffect, useState } from 'react';
+
+/**
+ * Saves a course schedule search, dropping the oldest saved search if there are too many
+ *
+ * @param search - The name, semester and params of the search
+ * @returns The saved search
+ */
+export async function saveSearch(search: Pick<SavedSearch, 'name' | 'semesterCode' | 'params'>): Promise<SavedSearch> {
+    const saved: SavedSearch = { ...search, id: generateRandomId(), createdAt: Date.now() };
+    const current = await SavedSearchStore.get('savedSearches');
+    await SavedSearchStore.set('savedSearches', [...current, saved].slice(-MAX_SAVED_SEARCHES));
+
+    return saved;
+}
+
+/**
+ * Deletes a saved search
+ *
+ * @param id - The id of the search to delete
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+    const current = await SavedSearchStore.get('savedSearches');
+    await SavedSearchStore.set(
+        'savedSearches',
+        current.filter(search => search.id !== id)
+    );
+}
+
+/**
+ * Custom hook that keeps track of the user's saved searches.
+ *
+ * @returns The saved searches, oldest first.
+ */
+export default function useSavedSearches(): SavedSearch[] {
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+    useEffect(() => {
+        SavedSearchStore.get('savedSearches').then(setSavedSearches);
+
+        const listener = SavedSearchStore.listen('savedSearches', ({ newValue }) => {
+            setSavedSearches(newValue);
+        });
+
+        return () => {
+            SavedSearchStore.removeListener(listener);
+        };
+    }, []);
+
+    return savedSearches;
+}
@@ -0,0 +1,46 @@
+import { ScheduleHistoryStore } from '@shared/storage/ScheduleHistoryStore';
+import type { ScheduleHistoryEvent, ScheduleHistoryStacks } from '@shared/util/scheduleHistory';
+import { getScheduleHistoryEvent } from '@shared/util/scheduleHistory';
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Custom hook that tells about the latest change to the schedule history made since the page was opened,
+ * i.e. so the user can undo a schedule they just deleted.
+ *
+ * @returns The latest history event, or undefined if nothing has changed yet.
+ */
+export default function useScheduleHistory(): ScheduleHistoryEvent | undefined {
+    const [event, setEvent] = useState<ScheduleHistoryEvent | undefined>();
+    const stacksRef = useRef<ScheduleHistoryStacks>({ undoStack: [], redoStack: [] });
+
+    useEffect(() => {
+        Promise.all([ScheduleHistoryStore.get('undoStack'), ScheduleHistoryStore.get('redoStack')]).then(
+            ([undoStack, redoStack]) => {
+                stacksRef.current = { undoStack, redoStack };
+            }
+        );
+
+        const handleChange = (current: ScheduleHistoryStacks) => {
+            const latest = getScheduleHistoryEvent(stacksRef.current, current);
+            stacksRef.current = current;
+            if (latest) {
+                setEvent(latest);
+            }
+        };
+
+        const l1 = ScheduleHistoryStore.listen('undoStack', ({ newValue }) => {
+            handleChange({ ...stacksRef.current, undoStack: newValue });
+        });
+
+        const l2 = ScheduleHistoryStore.listen('redoStack', ({ newValue }) => {
+            handleChange({ ...stacksRef.current, redoStack: newValue });
+        });
+
+        return () => {
+            ScheduleHistoryStore.removeListener(l1);
+            ScheduleHistoryStore.removeListener(l2);
+        };
+    }, []);
+
+    return event;
+}
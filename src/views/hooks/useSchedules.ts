@@ -1,3 +1,4 @@
+import { background } from '@shared/messages';
 import { UserScheduleStore } from '@shared/storage/UserScheduleStore';
 import type { HexColor } from '@shared/types/Color';
 import { UserSchedule } from '@shared/types/UserSchedule';
@@ -10,9 +11,11 @@ let initialLoad = true;
 
 const errorSchedule = new UserSchedule({
     courses: [],
+    blocks: [],
     id: 'error',
     name: 'No Schedule Selected',
     hours: 0,
+    maxHours: 0,
     updatedAt: Date.now(),
 });
 
@@ -82,15 +85,20 @@ export function getActiveSchedule(): UserSchedule {
 
 /**
  * Replaces the old schedule with the new schedule.
+ * The background only saves it if the old schedule is still the latest version, so a stale copy can't overwrite newer changes.
  * @param oldSchedule - The old schedule to be replaced.
  * @param newSchedule - The new schedule to replace the old schedule.
+ * @throws If the schedule was changed somewhere else since the old schedule was read.
  */
 export async function replaceSchedule(oldSchedule: UserSchedule, newSchedule: UserSchedule) {
-    const schedules = await UserScheduleStore.get('schedules');
-    let oldIndex = schedules.findIndex(s => s.id === oldSchedule.id);
-    oldIndex = oldIndex !== -1 ? oldIndex : 0;
-    schedules[oldIndex] = newSchedule;
-    await UserScheduleStore.set('schedules', schedules);
+    const error = await background.replaceSchedule({
+        scheduleId: oldSchedule.id,
+        schedule: newSchedule,
+        expectedUpdatedAt: oldSchedule.updatedAt,
+    });
+    if (error) {
+        throw new Error(error);
+    }
 }
 
 /**
@@ -100,9 +108,7 @@ export async function replaceSchedule(oldSchedule: UserSchedule, newSchedule: Us
  */
 export async function switchSchedule(id: string): Promise<void> {
     console.log('Switching schedule...');
-    const schedules = await UserScheduleStore.get('schedules');
-    const activeIndex = schedules.findIndex(s => s.id === id);
-    await UserScheduleStore.set('activeIndex', activeIndex);
+    await background.switchSchedule({ scheduleId: id });
 }
 
 /**
@@ -113,8 +119,19 @@ export async function switchSchedule(id: string): Promise<void> {
 export async function switchScheduleByName(name: string): Promise<void> {
     console.log('Switching schedule...');
     const schedules = await UserScheduleStore.get('schedules');
-    const activeIndex = schedules.findIndex(s => s.name === name);
-    await UserScheduleStore.set('activeIndex', activeIndex);
+    const schedule = schedules.find(s => s.name === name);
+    if (schedule) {
+        await background.switchSchedule({ scheduleId: schedule.id });
+    }
+}
+
+/**
+ * Reorders the schedules, keeping the active schedule active.
+ * @param reordered - The schedules, in their new order.
+ * @returns A promise that resolves when the schedules have been reordered.
+ */
+export async function reorderSchedules(reordered: UserSchedule[]): Promise<void> {
+    await background.reorderSchedules({ scheduleIds: reordered.map(s => s.id) });
 }
 
 /**
@@ -0,0 +1,34 @@
+import { NotificationStore } from '@shared/storage/NotificationStore';
+import { useEffect, useState } from 'react';
+
+/**
+ * Custom hook that tells whether the user is watching a course for notifications, and lets them toggle it.
+ *
+ * @param uniqueId - The unique id of the course.
+ * @returns A tuple of whether the course is watched and a function to toggle watching it.
+ */
+export default function useWatchlist(uniqueId: number): [boolean, () => Promise<void>] {
+    const [watchlist, setWatchlist] = useState<number[]>([]);
+
+    useEffect(() => {
+        NotificationStore.get('watchlist').then(setWatchlist);
+
+        const listener = NotificationStore.listen('watchlist', ({ newValue }) => {
+            setWatchlist(newValue);
+        });
+
+        return () => {
+            NotificationStore.removeListener(listener);
+        };
+    }, []);
+
+    const toggleWatching = async () => {
+        const current = await NotificationStore.get('watchlist');
+        await NotificationStore.set(
+            'watchlist',
+            current.includes(uniqueId) ? current.filter(id => id !== uniqueId) : [...current, uniqueId]
+        );
+    };
+
+    return [watchlist.includes(uniqueId), toggleWatching];
+}
@@ -1,8 +1,10 @@
 import { ContextInvalidated, createShadowDOM, onContextInvalidated } from 'chrome-extension-toolkit';
 import React from 'react';
 
+import ClassListMain from './components/ClassListMain';
 import CourseCatalogMain from './components/CourseCatalogMain';
 import PopupMain from './components/PopupMain';
+import WaitlistMain from './components/WaitlistMain';
 import getSiteSupport, { SiteSupport } from './lib/getSiteSupport';
 import render from './lib/react';
 
@@ -33,7 +35,14 @@ if (support === SiteSupport.COURSE_CATALOG_DETAILS || support === SiteSupport.CO
 }
 
 if (support === SiteSupport.WAITLIST) {
-    // TODO: Implement waitlist support
+    const shadowDom = createShadowDOM('ut-registration-plus-container');
+    render(<WaitlistMain />, shadowDom.shadowRoot);
+}
+
+if (support === SiteSupport.CLASSLIST) {
+    const shadowDom = createShadowDOM('ut-registration-plus-container');
+    render(<ClassListMain />, shadowDom.shadowRoot);
+    shadowDom.addStyle('static/css/content.css');
 }
 
 if (support === SiteSupport.UT_PLANNER) {
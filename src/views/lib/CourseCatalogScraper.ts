@@ -1,8 +1,10 @@
-import type { InstructionMode, ScrapedRow, Semester, StatusType } from '@shared/types/Course';
+import type { CreditHourRange, InstructionMode, ScrapedRow, Semester, StatusType } from '@shared/types/Course';
 import { Course, Status } from '@shared/types/Course';
 import { CourseSchedule } from '@shared/types/CourseSchedule';
 import Instructor from '@shared/types/Instructor';
 import { getCourseColors } from '@shared/util/colors';
+import { parseCreditHours, parseDescriptionCreditHours } from '@shared/util/creditHours';
+import { parseCrossListings, parseTopic } from '@shared/util/crossListing';
 import type { SiteSupportType } from '@views/lib/getSiteSupport';
 
 /**
@@ -30,6 +32,57 @@ const DetailsSelector = {
     COURSE_DESCRIPTION: '#details p',
 } as const;
 
+/**
+ * Parses the text of the status cell of a course catalog row, i.e. "open", "closed; reserved" or "waitlisted"
+ *
+ * @param text - the text of the status cell
+ * @returns a tuple of the status of the course and whether the course is reserved
+ * @throws if the text is empty or isn't a status we know about
+ */
+export function parseStatus(text: string): [status: StatusType, isReserved: boolean] {
+    const status = text.trim().toLowerCase();
+    if (!status) {
+        throw new Error('Status not found');
+    }
+    const isReserved = status.includes('reserved');
+
+    if (status.includes('open')) {
+        return [Status.OPEN, isReserved];
+    }
+    if (status.includes('closed')) {
+        return [Status.CLOSED, isReserved];
+    }
+    if (status.includes('waitlisted')) {
+        return [Status.WAITLISTED, isReserved];
+    }
+    if (status.includes('cancelled')) {
+        return [Status.CANCELLED, isReserved];
+    }
+    throw new Error(`Unknown status: ${status}`);
+}
+
+/**
+ * Parses the text of the days, hour and room cells of a course catalog row, which list one meeting per line
+ *
+ * @param dayLines - the days of each meeting, i.e. "MWF"
+ * @param hourLines - the time of each meeting, i.e. "10:00 a.m.-11:00 a.m."
+ * @param locationLines - the room of each meeting, i.e. "GDC 2.216"
+ * @returns a CourseSchedule object representing all of the meetings of the course
+ * @throws if the days and hours don't line up, or a meeting can't be parsed
+ */
+export function parseSchedule(dayLines: string[], hourLines: string[], locationLines: string[]): CourseSchedule {
+    if (dayLines.length !== hourLines.length) {
+        throw new Error('Schedule data is malformed');
+    }
+
+    const schedule = new CourseSchedule();
+    for (let i = 0; i < dayLines.length; i += 1) {
+        schedule.meetings.push(CourseSchedule.parse(dayLines[i]!, hourLines[i]!, locationLines[i] ?? ''));
+    }
+
+    return schedule;
+}
+
 /**
  * A class that allows us to scrape information from UT's course catalog to create our internal representation of a course
  */
@@ -49,7 +102,7 @@ export class CourseCatalogScraper {
      *
      * @param rows - the rows of the course catalog table
      * @param keepHeaders - whether to keep the header rows (which contain the course name) in the output
-     * @returns an array of course row objects (which contain courses corresponding to the htmltable row)
+     * @returns an array of course row objects (which contain courses corresponding to the htmltable row, or why the row couldn't be scraped)
      */
     public scrape(rows: NodeListOf<HTMLTableRowElement> | HTMLTableRowElement[], keepHeaders = false): ScrapedRow[] {
         const courses: ScrapedRow[] = [];
@@ -67,45 +120,72 @@ export class CourseCatalogScraper {
                 }
                 return;
             }
-            // we are now ready to build the course object
 
-            if (!fullName) {
-                throw new Error('Course name not found');
+            // one malformed row shouldn't stop us from scraping the rest of the page
+            try {
+                courses.push({
+                    element: row,
+                    course: this.scrapeCourse(row, fullName),
+                });
+            } catch (e) {
+                const reason = e instanceof Error ? e.message : String(e);
+                console.warn(`Failed to scrape course catalog row: ${reason}`);
+                courses.push({
+                    element: row,
+                    course: null,
+                    failure: { reason, html: row.outerHTML },
+                });
             }
+        });
 
-            fullName = fullName.replace(/\s\s+/g, ' ').trim();
+        return courses;
+    }
 
-            const [courseName, department, number] = this.separateCourseName(fullName);
-            const [status, isReserved] = this.getStatus(row);
+    /**
+     * Scrape the course from a single (non-header) row of the course catalog table
+     *
+     * @param row - the row of the course catalog table
+     * @param rawFullName - the full name from the header row the course is listed under
+     * @returns the course in the row
+     * @throws if the row is missing information we need, or has information we don't understand
+     */
+    scrapeCourse(row: HTMLTableRowElement, rawFullName: string): Course {
+        if (!rawFullName) {
+            throw new Error('Course name not found');
+        }
 
-            const newCourse = new Course({
-                fullName,
-                courseName,
-                department,
-                number,
-                status,
-                isReserved,
-                creditHours: this.getCreditHours(number),
-                schedule: this.getSchedule(row),
-                registerURL: this.getRegisterURL(row),
-                url: this.getURL(row),
-                flags: this.getFlags(row),
-                uniqueId: this.getUniqueId(row),
-                instructionMode: this.getInstructionMode(row),
-                instructors: this.getInstructors(row) as Instructor[],
-                description: this.getDescription(this.doc),
-                semester: this.getSemester(),
-                scrapedAt: Date.now(),
-                colors: getCourseColors('emerald', 500),
-                core: this.getCore(row),
-            });
-            courses.push({
-                element: row,
-                course: newCourse,
-            });
+        const fullName = rawFullName.replace(/\s\s+/g, ' ').trim();
+
+        const [courseName, department, number] = this.separateCourseName(fullName);
+        const [status, isReserved] = this.getStatus(row);
+        const description = this.getDescription(this.doc);
+        const topic = parseTopic(description);
+        const creditHours = this.getCreditHours(number, description);
+
+        return new Course({
+            fullName,
+            courseName,
+            department,
+            number,
+            status,
+            isReserved,
+            creditHours: creditHours.min,
+            ...(creditHours.max > creditHours.min && { maxCreditHours: creditHours.max }),
+            schedule: this.getSchedule(row),
+            registerURL: this.getRegisterURL(row),
+            url: this.getURL(row),
+            flags: this.getFlags(row),
+            uniqueId: this.getUniqueId(row),
+            instructionMode: this.getInstructionMode(row),
+            instructors: this.getInstructors(row) as Instructor[],
+            description,
+            crossListings: parseCrossListings(description),
+            ...(topic && { topic }),
+            semester: this.getSemester(),
+            scrapedAt: Date.now(),
+            colors: getCourseColors('emerald', 500),
+            core: this.getCore(row),
         });
-
-        return courses;
     }
 
     /**
@@ -128,29 +208,14 @@ export class CourseCatalogScraper {
     }
 
     /**
-     * Gets how many credit hours the course is worth
+     * Gets how many credit hours the course is worth, preferring what the course details page says over the course number
      *
      * @param courseNumber - the course number, CS 314H
-     * @returns the number of credit hours the course is worth
+     * @param description - the lines of the course description, only available on the course details page
+     * @returns the range of credit hours the course is worth
      */
-    getCreditHours(courseNumber: string): number {
-        let creditHours = Number(courseNumber.split('')[0]);
-        const lastChar = courseNumber.slice(-1);
-
-        // eslint-disable-next-line default-case
-        switch (lastChar) {
-            case 'A':
-            case 'B':
-                creditHours /= 2;
-                break;
-            case 'X':
-            case 'Y':
-            case 'Z':
-                creditHours /= 3;
-                break;
-        }
-
-        return creditHours;
+    getCreditHours(courseNumber: string, description: string[]): CreditHourRange {
+        return parseDescriptionCreditHours(description) ?? parseCreditHours(courseNumber) ?? { min: 0, max: 0 };
     }
 
     /**
@@ -319,25 +384,7 @@ export class CourseCatalogScraper {
         if (!div) {
             throw new Error('Status not found');
         }
-        const text = (div.textContent || '').trim().toLowerCase();
-        if (!text) {
-            throw new Error('Status not found');
-        }
-        const isReserved = text.includes('reserved');
-
-        if (text.includes('open')) {
-            return [Status.OPEN, isReserved];
-        }
-        if (text.includes('closed')) {
-            return [Status.CLOSED, isReserved];
-        }
-        if (text.includes('waitlisted')) {
-            return [Status.WAITLISTED, isReserved];
-        }
-        if (text.includes('cancelled')) {
-            return [Status.CANCELLED, isReserved];
-        }
-        throw new Error(`Unknown status: ${text}`);
+        return parseStatus(div.textContent || '');
     }
 
     /**
@@ -374,24 +421,13 @@ export class CourseCatalogScraper {
      * @returns a CourseSchedule object representing all of the meetings of the course
      */
     getSchedule(row: HTMLTableRowElement): CourseSchedule {
-        const dayLines = row.querySelectorAll(TableDataSelector.SCHEDULE_DAYS);
-        const hourLines = row.querySelectorAll(TableDataSelector.SCHEDULE_HOURS);
-        const locLines = row.querySelectorAll(TableDataSelector.SCHEDULE_LOCATION);
-
-        if (dayLines.length !== hourLines.length) {
-            throw new Error('Schedule data is malformed');
-        }
-
-        const schedule = new CourseSchedule();
-
-        for (let i = 0; i < dayLines.length; i += 1) {
-            const dayText = dayLines[i]?.textContent || '';
-            const hourText = hourLines[i]?.textContent || '';
-            const locationText = locLines[i]?.textContent || '';
+        const getLines = (selector: string) =>
+            Array.from(row.querySelectorAll(selector)).map(line => line.textContent || '');
 
-            schedule.meetings.push(CourseSchedule.parse(dayText, hourText, locationText));
-        }
-
-        return schedule;
+        return parseSchedule(
+            getLines(TableDataSelector.SCHEDULE_DAYS),
+            getLines(TableDataSelector.SCHEDULE_HOURS),
+            getLines(TableDataSelector.SCHEDULE_LOCATION)
+        );
     }
 }
@@ -34,10 +34,9 @@ export const courseMigration = async (links: string[]) => {
         const courses = scraper.scrape(tableRows, false);
 
         // Check if the course was found
-        if (courses.length === 1) {
+        const course = courses.length === 1 ? courses[0]!.course : null;
+        if (course) {
             const description = scraper.getDescription(doc);
-            const row = courses[0]!;
-            const course = row.course!;
             course.description = description;
 
             // Add the course to the migrated courses
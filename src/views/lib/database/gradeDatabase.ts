@@ -0,0 +1,204 @@
+import type { Semester } from '@shared/types/Course';
+import type {
+    CourseGrades,
+    CourseGradesRequest,
+    CourseSQLRow,
+    Distribution,
+    InstructorCoverage,
+    InstructorDistribution,
+    LetterGrade,
+} from '@shared/types/Distribution';
+import { getSemesterCode } from '@shared/util/academicCalendar';
+import { sumDistributions } from '@shared/util/gradeDistribution';
+import type { DatabaseInstructor } from '@shared/util/instructorMatching';
+import { matchInstructorRows } from '@shared/util/instructorMatching';
+import { LRUCache } from '@shared/util/lruCache';
+import type { Statement } from 'sql.js';
+
+import { initializeDB } from './initializeDB';
+
+/**
+ * The grades of the sections an instructor taught in one semester
+ */
+type GroupedGradeRow = DatabaseInstructor & {
+    semester: string;
+    sectionCount: number;
+    distribution: Distribution;
+};
+
+/**
+ * The column in the grade_distributions table that holds the number of students with each letter grade
+ */
+const GRADE_COLUMNS: Record<LetterGrade, keyof CourseSQLRow> = {
+    A: 'A',
+    'A-': 'A_Minus',
+    'B+': 'B_Plus',
+    B: 'B',
+    'B-': 'B_Minus',
+    'C+': 'C_Plus',
+    C: 'C',
+    'C-': 'C_Minus',
+    'D+': 'D_Plus',
+    D: 'D',
+    'D-': 'D_Minus',
+    F: 'F',
+    Other: 'Other',
+};
+
+/**
+ * Every semester of every instructor of a course in one go, so a course only ever takes one query
+ */
+const COURSE_GRADES_QUERY = `
+    select Semester, Instructor_First, Instructor_Last, count(*) as Sections,
+        ${Object.values(GRADE_COLUMNS)
+            .map(column => `sum(${column}) as ${column}`)
+            .join(', ')}
+    from grade_distributions
+    where Department_Code = :department_code
+    and Course_Number = :course_number
+    group by Semester, Instructor_Last, Instructor_First
+`;
+
+/**
+ * How many courses' grades are kept in memory
+ */
+const CACHE_SIZE = 200;
+
+const cache = new LRUCache<string, CourseGrades | undefined>(CACHE_SIZE);
+
+let statement: Statement | undefined;
+
+/**
+ * Parses a semester from the format used in the grade_distributions table, i.e. "Fall 2023"
+ */
+function parseSemester(semester: string): Semester {
+    const [season, year] = semester.split(' ');
+    if (!season || !year) {
+        throw new Error('Season is undefined');
+    }
+    return { year: parseInt(year, 10), season: season as Semester['season'] };
+}
+
+/**
+ * Runs the prepared query for a course
+ */
+async function queryGroupedRows(department: string, number: string): Promise<GroupedGradeRow[]> {
+    const db = await initializeDB();
+    statement ??= db.prepare(COURSE_GRADES_QUERY);
+
+    const rows: GroupedGradeRow[] = [];
+    try {
+        statement.bind({ ':department_code': department, ':course_number': number });
+        while (statement.step()) {
+            const row = statement.getAsObject();
+            rows.push({
+                semester: String(row.Semester),
+                firstName: (row.Instructor_First as string | null) ?? null,
+                lastName: (row.Instructor_Last as string | null) ?? null,
+                sectionCount: Number(row.Sections),
+                distribution: Object.fromEntries(
+                    Object.entries(GRADE_COLUMNS).map(([grade, column]) => [grade, Number(row[column] ?? 0)])
+                ) as Distribution,
+            });
+        }
+    } finally {
+        statement.reset();
+    }
+
+    return rows;
+}
+
+/**
+ * Combines the rows of each instructor across every semester
+ */
+function groupByInstructor(rows: GroupedGradeRow[]): InstructorDistribution[] {
+    const instructors = new Map<string, InstructorDistribution & { semesters: Set<string> }>();
+
+    for (const row of rows) {
+        if (row.lastName) {
+            const key = `${row.lastName}, ${row.firstName ?? ''}`.toLowerCase();
+            const instructor = instructors.get(key) ?? {
+                firstName: row.firstName ?? undefined,
+                lastName: row.lastName,
+                distribution: sumDistributions([]),
+                sectionCount: 0,
+                semesterCount: 0,
+                semesters: new Set<string>(),
+            };
+
+            instructor.distribution = sumDistributions([instructor.distribution, row.distribution]);
+            instructor.sectionCount += row.sectionCount;
+            instructor.semesters.add(row.semester);
+            instructors.set(key, instructor);
+        }
+    }
+
+    return [...instructors.values()]
+        .map(({ semesters, ...instructor }) => ({ ...instructor, semesterCount: semesters.size }))
+        .sort((a, b) => b.sectionCount - a.sectionCount);
+}
+
+/**
+ * Looks up the grades of a course and its cross-listings in the grade distribution database.
+ * Results are cached by course and instructors.
+ *
+ * @param request - The course and instructors to look up
+ * @returns The grades of the course, or undefined if we have no data for it
+ */
+export default async function queryGradeDatabase({
+    department,
+    number,
+    instructors,
+    crossListings = [],
+}: CourseGradesRequest): Promise<CourseGrades | undefined> {
+    const listings = [{ department, number }, ...crossListings];
+    const key = [
+        ...listings.map(listing => `${listing.department} ${listing.number}`),
+        ...instructors.map(i => i.fullName ?? `${i.lastName}, ${i.firstName}`),
+    ]
+        .join('|')
+        .toLowerCase();
+    if (cache.has(key)) {
+        return cache.get(key);
+    }
+
+    // cross-listed sections are the same class, so their grades are combined
+    const rows: GroupedGradeRow[] = [];
+    for (const listing of listings) {
+        // eslint-disable-next-line no-await-in-loop
+        rows.push(...(await queryGroupedRows(listing.department, listing.number)));
+    }
+    if (rows.length === 0) {
+        cache.set(key, undefined);
+        return undefined;
+    }
+
+    // fall back to every section of the course if none of its instructors have taught it before
+    const [instructorRows, coverage] = matchInstructorRows(instructors, rows);
+    const shownRows = instructorRows.length > 0 ? instructorRows : rows;
+
+    const semesterNames = [...new Set(shownRows.map(row => row.semester))];
+    const semesters = semesterNames
+        .map(name => {
+            const semesterCoverage: InstructorCoverage =
+                instructorRows.length > 0
+                    ? matchInstructorRows(
+                          instructors,
+                          rows.filter(row => row.semester === name)
+                      )[1]
+                    : { matched: [], unmatched: coverage.unmatched };
+
+            return {
+                semester: parseSemester(name),
+                distribution: sumDistributions(
+                    shownRows.filter(row => row.semester === name).map(row => row.distribution)
+                ),
+                coverage: semesterCoverage,
+            };
+        })
+        .sort((a, b) => getSemesterCode(a.semester).localeCompare(getSemesterCode(b.semester)));
+
+    const grades: CourseGrades = { semesters, coverage, instructors: groupByInstructor(rows) };
+    cache.set(key, grades);
+    return grades;
+}
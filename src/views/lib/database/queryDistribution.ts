@@ -1,201 +1,83 @@
+import { background } from '@shared/messages';
 import type { Course, Semester } from '@shared/types/Course';
-import type { CourseSQLRow, Distribution } from '@shared/types/Distribution';
-import type { QueryExecResult } from 'sql.js';
-
-import { initializeDB } from './initializeDB';
-
-type GradeDistributionParams = {
-    ':department_code': string;
-    ':course_number': string;
-    ':instructor_last'?: string;
-    ':semester'?: string;
-};
+import type {
+    CourseGrades,
+    Distribution,
+    GradeStats,
+    InstructorCoverage,
+    InstructorDistribution,
+} from '@shared/types/Distribution';
+import { getGradeStats, sumDistributions } from '@shared/util/gradeDistribution';
 
 /**
- * Fetches the aggregate distribution of grades for a given course from the course db, and the semesters that we have data for
+ * Fetches everything we know about the grades of a course from the grade distribution database,
+ * which lives in the offscreen document so that it's only loaded once
  *
- * @param course - the course to fetch the distribution for
- * @returns a Distribution object containing the distribution of grades for the course, and
- * an array of semesters that we have the distribution for
+ * @param course - the course to fetch the grades for
+ * @returns the grades of the course's instructors in each semester, and of every instructor that has taught it
+ * @throws NoDataError if we have no data for the course
  */
-export async function queryAggregateDistribution(course: Course): Promise<[Distribution, Semester[], boolean]> {
-    const db = await initializeDB();
-    const [query, params] = generateQuery(course, null, true);
-
-    let res: QueryExecResult | undefined;
-    let instructorIncluded = params[':instructor_last'] !== undefined;
-    if (instructorIncluded) {
-        // Only check for data on an instructor if the course has an instructor
-        res = db.exec(query, params)?.[0];
-    }
-
-    if (!instructorIncluded || !res?.columns?.length) {
-        // Either no instructor for the class, or no data for the instructor
-        instructorIncluded = false;
-        const [queryWithoutInstructor, paramsWithoutInstructor] = generateQuery(course, null, false);
-        res = db.exec(queryWithoutInstructor, paramsWithoutInstructor)?.[0];
-
-        if (!res?.columns?.length) {
-            throw new NoDataError(course);
-        }
-    }
+export async function queryCourseGrades(course: Course): Promise<CourseGrades> {
+    const grades = await background.queryCourseGrades({
+        department: course.department,
+        number: course.number,
+        instructors: course.instructors,
+        crossListings: course.crossListings,
+    });
 
-    const row: Required<CourseSQLRow> = {} as Required<CourseSQLRow>;
-    for (let i = 0; i < res.columns.length; i++) {
-        const col = res.columns[i] as keyof CourseSQLRow;
-        switch (col) {
-            case 'A':
-            case 'A_Minus':
-            case 'B_Plus':
-            case 'B':
-            case 'B_Minus':
-            case 'C_Plus':
-            case 'C':
-            case 'C_Minus':
-            case 'D_Plus':
-            case 'D':
-            case 'D_Minus':
-            case 'F':
-            case 'Other':
-                row[col] = res.values.reduce((acc, cur) => acc + (cur[i] as number), 0) as never;
-                break;
-            default:
-                row[col] = res.columns[i]![0]! as never;
-        }
+    if (!grades) {
+        throw new NoDataError(course);
     }
 
-    const distribution: Distribution = {
-        A: row.A,
-        'A-': row.A_Minus,
-        'B+': row.B_Plus,
-        B: row.B,
-        'B-': row.B_Minus,
-        'C+': row.C_Plus,
-        C: row.C,
-        'C-': row.C_Minus,
-        'D+': row.D_Plus,
-        D: row.D,
-        'D-': row.D_Minus,
-        F: row.F,
-        Other: row.Other,
-    };
-
-    // get unique semesters from the data
-    const rawSemesters = res.values.reduce((acc, cur) => acc.add(cur[0] as string), new Set<string>());
-
-    const semesters: Semester[] = [];
-
-    rawSemesters.forEach((sem: string) => {
-        const [season, year] = sem.split(' ');
-        if (!season || !year) {
-            throw new Error('Season is undefined');
-        }
-        semesters.push({ year: parseInt(year, 10), season: season as Semester['season'] });
-    });
-
-    return [distribution, semesters, instructorIncluded];
+    return grades;
 }
 
 /**
- * Creates a SQL query that we can execute on the database to get the distribution of grades for a given course in a given semester
+ * Fetches the aggregate distribution of grades for a given course from the course db, and the semesters that we have data for
  *
  * @param course - the course to fetch the distribution for
- * @param semester - the semester to fetch the distribution for OR null if we want the aggregate distribution
- * @returns a SQL query string
+ * @returns a Distribution object containing the distribution of grades for the course,
+ * an array of semesters that we have the distribution for, and which of the course's instructors the data covers
  */
-function generateQuery(
-    course: Course,
-    semester: Semester | null,
-    includeInstructor: boolean
-): [string, GradeDistributionParams] {
-    const query = `
-        select * from grade_distributions
-        where Department_Code = :department_code
-        and Course_Number = :course_number
-        ${includeInstructor ? `and Instructor_Last = :instructor_last collate nocase` : ''}
-        ${semester ? `and Semester = :semester` : ''}
-    `;
+export async function queryAggregateDistribution(
+    course: Course
+): Promise<[Distribution, Semester[], InstructorCoverage]> {
+    const { semesters, coverage } = await queryCourseGrades(course);
 
-    const params: GradeDistributionParams = {
-        ':department_code': course.department,
-        ':course_number': course.number,
-    };
+    return [
+        sumDistributions(semesters.map(({ distribution }) => distribution)),
+        semesters.map(({ semester }) => semester),
+        coverage,
+    ];
+}
 
-    if (includeInstructor) {
-        params[':instructor_last'] = course.instructors[0]?.lastName;
-    }
+/**
+ * Fetches the grade distribution of a course in each semester we have data for, and computes summary stats from them
+ *
+ * @param course - the course to fetch the stats for
+ * @returns the stats for the course, and which of the course's instructors they cover
+ */
+export async function queryGradeStats(course: Course): Promise<[GradeStats, InstructorCoverage]> {
+    const { semesters, coverage } = await queryCourseGrades(course);
 
-    if (semester) {
-        params[':semester'] = `${semester.season} ${semester.year}`;
+    const stats = getGradeStats(semesters);
+    if (!stats) {
+        throw new NoDataError(course);
     }
 
-    return [query, params];
+    return [stats, coverage];
 }
 
 /**
- * Fetches the distribution of grades for a semester for a given course from the course db
+ * Fetches the grade distribution of a course for each instructor that has taught it, from the course db
  *
- * @param course - the course to fetch the distribution for
- * @param semester - the semester to fetch the distribution for
- * @returns a Distribution object containing the distribution of grades for the course
+ * @param course - the course to compare the instructors of
+ * @returns the distribution of every instructor, the ones that taught the most sections first
  */
-export async function querySemesterDistribution(course: Course, semester: Semester): Promise<[Distribution, boolean]> {
-    const db = await initializeDB();
-    const [query, params] = generateQuery(course, semester, true);
-
-    let res = db.exec(query, params)?.[0];
-    let instructorIncluded = true;
-    if (!res?.columns?.length) {
-        instructorIncluded = false;
-        const [queryWithoutInstructor, paramsWithoutInstructor] = generateQuery(course, semester, false);
-        res = db.exec(queryWithoutInstructor, paramsWithoutInstructor)?.[0];
-        if (!res?.columns?.length) {
-            throw new NoDataError(course);
-        }
-    }
+export async function queryInstructorDistributions(course: Course): Promise<InstructorDistribution[]> {
+    const { instructors } = await queryCourseGrades(course);
 
-    const row: Required<CourseSQLRow> = {} as Required<CourseSQLRow>;
-    for (let i = 0; i < res.columns.length; i++) {
-        const col = res.columns[i] as keyof CourseSQLRow;
-        switch (col) {
-            case 'A':
-            case 'A_Minus':
-            case 'B_Plus':
-            case 'B':
-            case 'B_Minus':
-            case 'C_Plus':
-            case 'C':
-            case 'C_Minus':
-            case 'D_Plus':
-            case 'D':
-            case 'D_Minus':
-            case 'F':
-            case 'Other':
-                row[col] = res.values.reduce((acc, cur) => acc + (cur[i] as number), 0) as never;
-                break;
-            default:
-                row[col] = res.columns[i]![0]! as never;
-        }
-    }
-
-    return [
-        {
-            A: row.A,
-            'A-': row.A_Minus,
-            'B+': row.B_Plus,
-            B: row.B,
-            'B-': row.B_Minus,
-            'C+': row.C_Plus,
-            C: row.C,
-            'C-': row.C_Minus,
-            'D+': row.D_Plus,
-            D: row.D,
-            'D-': row.D_Minus,
-            F: row.F,
-            Other: row.Other,
-        },
-        instructorIncluded,
-    ];
+    return instructors;
 }
 
 /**
@@ -0,0 +1,26 @@
+import { background } from '@shared/messages';
+import type { Course } from '@shared/types/Course';
+import { CourseCatalogScraper } from '@views/lib/CourseCatalogScraper';
+import getCourseTableRows from '@views/lib/getCourseTableRows';
+import { SiteSupport } from '@views/lib/getSiteSupport';
+
+/**
+ * Fetches a course's details page (through the background, so it works from any site) and scrapes the course from it
+ *
+ * @param url - The url of the course details page, i.e. https://utdirect.utexas.edu/apps/registrar/course_schedule/20259/50805/
+ * @returns The scraped course, or undefined if the page doesn't have exactly one course on it, or it couldn't be scraped
+ */
+export default async function fetchCourseDetails(url: string): Promise<Course | undefined> {
+    const htmlText = await background.addCourseByURL({ url, method: 'GET', response: 'text' });
+    const doc = new DOMParser().parseFromString(htmlText, 'text/html');
+
+    const scraper = new CourseCatalogScraper(SiteSupport.COURSE_CATALOG_DETAILS, doc, url);
+    const scrapedCourses = scraper.scrape(getCourseTableRows(doc), false);
+    const course = scrapedCourses.length === 1 ? scrapedCourses[0]!.course : null;
+    if (!course) {
+        return undefined;
+    }
+
+    course.description = scraper.getDescription(doc);
+    return course;
+}
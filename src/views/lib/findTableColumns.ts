@@ -0,0 +1,37 @@
+/**
+ * Finds the first table on a page that has the given columns, matching on the header text instead of the column index
+ * (UT's registration pages move their columns around between semesters)
+ *
+ * @param doc - the document to search
+ * @param columns - patterns that match the header of each column
+ * @param required - the columns the table must have
+ * @returns the table and the index of each column (-1 for optional columns it doesn't have), or undefined if no table matches
+ */
+export default function findTableColumns<K extends string>(
+    doc: Document,
+    columns: Record<K, RegExp>,
+    required: NoInfer<K>[]
+): [HTMLTableElement, Record<K, number>] | undefined {
+    for (const table of doc.querySelectorAll('table')) {
+        const headers = Array.from(table.querySelectorAll('th')).map(th => th.textContent?.trim() ?? '');
+        const indices = Object.fromEntries(
+            Object.entries<RegExp>(columns).map(([key, pattern]) => [key, headers.findIndex(h => pattern.test(h))])
+        ) as Record<K, number>;
+
+        if (required.every(key => indices[key] !== -1)) {
+            return [table, indices];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Gets the trimmed text of a cell in a table row
+ *
+ * @param row - the table row
+ * @param index - the index of the column, or -1 if the table doesn't have it
+ * @returns the text of the cell, or undefined if there is no such cell
+ */
+export const getCellText = (row: HTMLTableRowElement, index: number): string | undefined =>
+    index === -1 ? undefined : row.cells[index]?.textContent?.trim();
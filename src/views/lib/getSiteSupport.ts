@@ -46,14 +46,15 @@ export default function getSiteSupport(url: string): SiteSupportType | null {
             return SiteSupport.COURSE_CATALOG_DETAILS;
         }
     }
-    if (url.includes('utdirect.utexas.edu') && (url.includes('waitlist') || url.includes('classlist'))) {
+    // checked before the waitlist, since the class list is also on utdirect
+    if (url.includes('registration/classlist')) {
+        return SiteSupport.CLASSLIST;
+    }
+    if (url.includes('utdirect.utexas.edu') && url.includes('waitlist')) {
         return SiteSupport.WAITLIST;
     }
     if (url.includes('my.utexas.edu/student/student/index') || url.includes('my.utexas.edu/student/')) {
         return SiteSupport.MY_UT;
     }
-    if (url.includes('registration/classlist.WBX')) {
-        return SiteSupport.CLASSLIST;
-    }
     return null;
 }
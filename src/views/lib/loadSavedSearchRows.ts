@@ -0,0 +1,71 @@
+import type { ScrapedRow } from '@shared/types/Course';
+import type { SavedSearch } from '@shared/types/SavedSearch';
+import { getSearchURL } from '@shared/util/savedSearches';
+
+import { CourseCatalogScraper } from './CourseCatalogScraper';
+import getCourseTableRows from './getCourseTableRows';
+import { SiteSupport } from './getSiteSupport';
+import { getNextButton } from './loadNextCourseCatalogPage';
+
+/**
+ * The most result pages we load for a merged search, so a broad search doesn't flood UT's servers
+ */
+const MAX_PAGES_PER_SEARCH = 10;
+
+/**
+ * Loads and scrapes every page of results of a saved search, one page at a time
+ *
+ * @param search - The search to run
+ * @returns The scraped rows of every page, including the header rows
+ */
+export async function loadSavedSearchRows(search: SavedSearch): Promise<ScrapedRow[]> {
+    const rows: ScrapedRow[] = [];
+    let url: string | undefined = getSearchURL(search);
+
+    for (let page = 0; url && page < MAX_PAGES_PER_SEARCH; page += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load "${search.name}" (${response.status})`);
+        }
+        // eslint-disable-next-line no-await-in-loop
+        const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+
+        const scraper = new CourseCatalogScraper(SiteSupport.COURSE_CATALOG_LIST, doc, url);
+        rows.push(...scraper.scrape(getCourseTableRows(doc), true));
+        url = getNextButton(doc)?.href;
+    }
+
+    return rows;
+}
+
+/**
+ * Drops the sections that are already on the page, along with any header rows that are left without sections
+ *
+ * @param existing - The rows already on the page
+ * @param incoming - The rows to add
+ * @returns The incoming rows that aren't already on the page
+ */
+export function dedupeScrapedRows(existing: ScrapedRow[], incoming: ScrapedRow[]): ScrapedRow[] {
+    const seen = new Set(existing.flatMap(row => (row.course ? [row.course.uniqueId] : [])));
+    const kept: ScrapedRow[] = [];
+    let header: ScrapedRow | undefined;
+
+    for (const row of incoming) {
+        if (!row.course && !row.failure) {
+            // only keep a header once we know a row under it is new
+            header = row;
+        } else if (!row.course || !seen.has(row.course.uniqueId)) {
+            if (row.course) {
+                seen.add(row.course.uniqueId);
+            }
+            if (header) {
+                kept.push(header);
+                header = undefined;
+            }
+            kept.push(row);
+        }
+    }
+
+    return kept;
+}
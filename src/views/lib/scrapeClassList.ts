@@ -0,0 +1,68 @@
+import type { Semester } from '@shared/types/Course';
+import { parseSemesterCode, parseSemesterName } from '@shared/util/academicCalendar';
+import { parseUniqueId } from '@shared/util/string';
+import findTableColumns, { getCellText } from '@views/lib/findTableColumns';
+
+/**
+ * Patterns that match the header of each column we read on the class list page (https://utdirect.utexas.edu/registration/classlist.WBX)
+ */
+const ClassListColumn = {
+    UNIQUE_ID: /^unique/i,
+} as const satisfies Record<string, RegExp>;
+
+/**
+ * The sections a student is registered for, as listed on the class list page
+ */
+export type ScrapedClassList = {
+    /** The semester the class list is for */
+    semester: Semester;
+    /** The unique ids of the registered sections */
+    uniqueIds: number[];
+};
+
+/**
+ * Figures out which semester the class list is showing, from the url (?sem=20259), the semester picker, or the page heading
+ */
+function getClassListSemester(doc: Document, url: string): Semester | undefined {
+    const code =
+        new URL(url).searchParams.get('sem') ??
+        doc.querySelector<HTMLSelectElement>('select[name="sem"]')?.value ??
+        undefined;
+
+    const semester = code ? parseSemesterCode(code) : undefined;
+    if (semester) {
+        return semester;
+    }
+
+    const heading = Array.from(doc.querySelectorAll('h1, h2, h3, caption'))
+        .map(element => element.textContent ?? '')
+        .find(text => parseSemesterName(text));
+
+    return heading ? parseSemesterName(heading) : undefined;
+}
+
+/**
+ * Scrapes the sections the student is registered for from UT's class list page
+ *
+ * @param doc - the document of the class list page
+ * @param url - the url of the class list page
+ * @returns the registered sections, or undefined if the page doesn't have a class list on it
+ */
+export default function scrapeClassList(
+    doc: Document = document,
+    url: string = window.location.href
+): ScrapedClassList | undefined {
+    const found = findTableColumns(doc, ClassListColumn, ['UNIQUE_ID']);
+    const semester = getClassListSemester(doc, url);
+    if (!found || !semester) {
+        return undefined;
+    }
+
+    const [table, columns] = found;
+    const uniqueIds = Array.from(table.querySelectorAll<HTMLTableRowElement>('tbody tr')).flatMap(row => {
+        const uniqueId = parseUniqueId(getCellText(row, columns.UNIQUE_ID));
+        return uniqueId === undefined ? [] : [uniqueId];
+    });
+
+    return { semester, uniqueIds: [...new Set(uniqueIds)] };
+}
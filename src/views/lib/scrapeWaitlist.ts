@@ -0,0 +1,52 @@
+import type { WaitlistEntry } from '@shared/types/Waitlist';
+import { parseUniqueId } from '@shared/util/string';
+import { parseWaitlistExpiration, parseWaitlistPosition } from '@shared/util/waitlist';
+import findTableColumns, { getCellText } from '@views/lib/findTableColumns';
+
+/**
+ * Patterns that match the header of each column we read on the waitlist page (https://utdirect.utexas.edu/registrar/waitlist/wl_see_my_waitlists.WBX).
+ * We match on the header text instead of the column index, since the columns have moved around between semesters.
+ */
+const WaitlistColumn = {
+    UNIQUE_ID: /^unique/i,
+    POSITION: /position|rank/i,
+    SWAP: /swap/i,
+    EXPIRATION: /expir/i,
+} as const satisfies Record<string, RegExp>;
+
+/**
+ * Scrapes the user's waitlisted courses from UT's waitlist page
+ *
+ * @param doc - the document of the waitlist page
+ * @returns every course the user is waitlisted for, or undefined if the page doesn't have a waitlist table
+ * (so we can tell an empty waitlist apart from a page we don't understand)
+ */
+export default function scrapeWaitlist(doc: Document = document): WaitlistEntry[] | undefined {
+    const found = findTableColumns(doc, WaitlistColumn, ['UNIQUE_ID', 'POSITION']);
+    if (!found) {
+        return undefined;
+    }
+
+    const [table, columns] = found;
+    const scrapedAt = Date.now();
+
+    return Array.from(table.querySelectorAll<HTMLTableRowElement>('tbody tr')).flatMap(row => {
+        const uniqueId = parseUniqueId(getCellText(row, columns.UNIQUE_ID));
+        const position = parseWaitlistPosition(getCellText(row, columns.POSITION));
+
+        // header rows and notes mixed into the table don't have these
+        if (uniqueId === undefined || position === undefined) {
+            return [];
+        }
+
+        return [
+            {
+                uniqueId,
+                position,
+                swapUniqueId: parseUniqueId(getCellText(row, columns.SWAP)),
+                expiresAt: parseWaitlistExpiration(getCellText(row, columns.EXPIRATION)),
+                scrapedAt,
+            },
+        ];
+    });
+}
@@ -0,0 +1,148 @@
+// @vitest-environment happy-dom
+import { Status } from '@shared/types/Course';
+import type { SiteSupportType } from '@views/lib/getSiteSupport';
+import { SiteSupport } from '@views/lib/getSiteSupport';
+import { describe, expect, it } from 'vitest';
+
+import { CourseCatalogScraper, parseSchedule, parseStatus } from '../CourseCatalogScraper';
+import getCourseTableRows from '../getCourseTableRows';
+import detailsHTML from './fixtures/courseCatalogDetails.html?raw';
+import resultsHTML from './fixtures/courseCatalogResults.html?raw';
+
+const RESULTS_URL =
+    'https://utdirect.utexas.edu/apps/registrar/course_schedule/20249/results/?fos_fl=C+S&level=U&search_type_main=FIELD';
+const DETAILS_URL = 'https://utdirect.utexas.edu/apps/registrar/course_schedule/20249/50805/';
+
+const scrapePage = (html: string, support: SiteSupportType, url: string) => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return new CourseCatalogScraper(support, doc, url).scrape(getCourseTableRows(doc));
+};
+
+describe('parseStatus', () => {
+    it.each([
+        ['open', Status.OPEN, false],
+        [' OPEN; reserved ', Status.OPEN, true],
+        ['closed', Status.CLOSED, false],
+        ['closed; reserved', Status.CLOSED, true],
+        ['waitlisted', Status.WAITLISTED, false],
+        ['waitlisted; reserved', Status.WAITLISTED, true],
+        ['cancelled', Status.CANCELLED, false],
+    ])('should parse "%s"', (text, status, isReserved) => {
+        expect(parseStatus(text)).toEqual([status, isReserved]);
+    });
+
+    it('should fail on empty or unknown statuses', () => {
+        expect(() => parseStatus('  ')).toThrow('Status not found');
+        expect(() => parseStatus('full')).toThrow('Unknown status: full');
+    });
+});
+
+describe('parseSchedule', () => {
+    it('should parse one meeting per line', () => {
+        const schedule = parseSchedule(
+            ['MWF', 'TTH'],
+            ['10:00 a.m.-11:00 a.m.', '3:30 p.m.-5:00 p.m.'],
+            ['GDC 2.216', 'WEL 2.224']
+        );
+
+        expect(
+            schedule.meetings.map(({ days, startTime, endTime, location }) => ({ days, startTime, endTime, location }))
+        ).toEqual([
+            {
+                days: ['Monday', 'Wednesday', 'Friday'],
+                startTime: 600,
+                endTime: 660,
+                location: { building: 'GDC', room: '2.216' },
+            },
+            {
+                days: ['Tuesday', 'Thursday'],
+                startTime: 930,
+                endTime: 1020,
+                location: { building: 'WEL', room: '2.224' },
+            },
+        ]);
+    });
+
+    it('should allow meetings without a room', () => {
+        const schedule = parseSchedule(['M'], ['6:00 p.m.-9:00 p.m.'], []);
+
+        expect(schedule.meetings[0]?.location).toBeUndefined();
+    });
+
+    it('should fail when the days and hours do not line up', () => {
+        expect(() => parseSchedule(['MWF', 'TTH'], ['10:00 a.m.-11:00 a.m.'], ['GDC 2.216'])).toThrow(
+            'Schedule data is malformed'
+        );
+    });
+
+    it('should fail on meetings that end before they start', () => {
+        expect(() => parseSchedule(['MWF'], ['11:00 a.m.-10:00 a.m.'], ['GDC 2.216'])).toThrow(
+            'Failed to parse schedule'
+        );
+    });
+});
+
+describe('CourseCatalogScraper', () => {
+    it('should scrape every well-formed row of a results page', () => {
+        const rows = scrapePage(resultsHTML, SiteSupport.COURSE_CATALOG_LIST, RESULTS_URL);
+        const [first, second] = rows;
+
+        expect(first?.course).toMatchObject({
+            uniqueId: 50805,
+            fullName: 'C S 429 COMP ORGANIZATN AND ARCH',
+            department: 'C S',
+            number: '429',
+            courseName: 'COMP ORGANIZATN AND ARCH',
+            creditHours: 4,
+            status: Status.OPEN,
+            isReserved: false,
+            instructionMode: 'In Person',
+            semester: { year: 2024, season: 'Fall', code: '20249' },
+        });
+        expect(second?.course).toMatchObject({
+            uniqueId: 50810,
+            status: Status.CLOSED,
+            isReserved: true,
+            instructionMode: 'Hybrid',
+            flags: ['QR'],
+        });
+        expect(second?.course?.instructors.map(instructor => instructor.lastName)).toEqual(['NORMAN', 'FUSSELL']);
+        expect(second?.course?.schedule.meetings).toHaveLength(2);
+    });
+
+    it('should report why a malformed row failed without dropping the other rows', () => {
+        const rows = scrapePage(resultsHTML, SiteSupport.COURSE_CATALOG_LIST, RESULTS_URL);
+
+        expect(rows).toHaveLength(5);
+        expect(rows.filter(row => row.course).map(row => row.course?.uniqueId)).toEqual([50805, 50810]);
+
+        const failures = rows.filter(row => row.failure);
+        expect(failures.map(row => row.failure?.reason)).toEqual([
+            'Unknown status: full',
+            'Schedule data is malformed',
+            'Status not found',
+        ]);
+        failures.forEach(row => {
+            expect(row.course).toBeNull();
+            expect(row.failure?.html).toBe(row.element.outerHTML);
+        });
+        expect(failures[0]?.failure?.html).toContain('50855');
+    });
+
+    it('should scrape the course on a details page', () => {
+        const [row] = scrapePage(detailsHTML, SiteSupport.COURSE_CATALOG_DETAILS, DETAILS_URL);
+
+        expect(row?.failure).toBeUndefined();
+        expect(row?.course).toMatchObject({
+            uniqueId: 50805,
+            fullName: 'C S 429 COMP ORGANIZATN AND ARCH',
+            url: DETAILS_URL,
+            status: Status.OPEN,
+        });
+        expect(row?.course?.description).toEqual([
+            'Restricted to computer science majors. Introduction to the organization and architecture of computer systems.',
+            'Three lecture hours and one discussion hour a week for one semester.',
+            'Prerequisite: Computer Science 311 or 311H with a grade of at least C-.',
+        ]);
+    });
+});
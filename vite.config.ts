@@ -158,6 +158,7 @@ export default defineConfig({
         renameFile('src/pages/calendar/index.html', 'calendar.html'),
         renameFile('src/pages/report/index.html', 'report.html'),
         renameFile('src/pages/404/index.html', '404.html'),
+        renameFile('src/pages/offscreen/index.html', 'offscreen.html'),
         vitePluginRunCommandOnDemand({
             // afterServerStart: 'pnpm gulp forceDisableUseDynamicUrl',
             closeBundle: 'pnpm gulp forceDisableUseDynamicUrl',
@@ -201,6 +202,10 @@ export default defineConfig({
                 target: 'http://localhost:5173',
                 rewrite: path => path.replace('404', 'src/pages/404/index'),
             },
+            '/offscreen.html': {
+                target: 'http://localhost:5173',
+                rewrite: path => path.replace('offscreen', 'src/pages/offscreen/index'),
+            },
         },
     },
     build: {
@@ -215,6 +220,7 @@ export default defineConfig({
                 options: 'src/pages/options/index.html',
                 report: 'src/pages/report/index.html',
                 404: 'src/pages/404/index.html',
+                offscreen: 'src/pages/offscreen/index.html',
             },
             output: {
                 chunkFileNames: `assets/[name]-[hash].js`,